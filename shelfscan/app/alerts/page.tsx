@@ -16,21 +16,63 @@ import {
   Package, 
   CheckCircle,
   MapPin,
-  RotateCcw
+  RotateCcw,
+  Wrench,
+  XCircle,
+  History,
+  Timer,
+  UserCheck,
+  ShieldAlert
 } from 'lucide-react';
 import Link from 'next/link';
-import { AppProvider, useAlerts } from '../../lib/context/AppContext';
-import { Alert } from '../../lib/types';
+import { AppProvider, useAlerts, useCurrentUser } from '../../lib/context/AppContext';
+import { Alert, AlertStatus, AlertType } from '../../lib/types';
+import {
+  ALERT_STATUS_LABELS,
+  canTransitionAlert,
+  getTimeToAcknowledge,
+  getTimeToResolve,
+  isActiveAlert,
+  StaffAlertStatus
+} from '../../lib/alertLifecycle';
+import { AlertRoute } from '../../lib/alertRouting';
+import { ALERT_TYPE_LABELS, AlertStatusFilter, formatAbsoluteTime, formatDuration, getAlertStats, processAlerts } from '../../lib/alertUtils';
 import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-const getStatusColor = (type: string, acknowledged: boolean) => {
-  if (acknowledged) return 'bg-emerald-950/30 text-emerald-400 border-emerald-800/50';
+const getStatusColor = (type: string, status: AlertStatus) => {
+  if (status !== 'open') return 'bg-emerald-950/30 text-emerald-400 border-emerald-800/50';
   if (type === 'empty') return 'bg-red-950/50 text-red-400 border-red-800/50';
-  return 'bg-amber-950/50 text-amber-400 border-amber-800/50';
+  if (type === 'low') return 'bg-amber-950/50 text-amber-400 border-amber-800/50';
+  return 'bg-sky-950/50 text-sky-400 border-sky-800/50';
+};
+
+const getLifecycleColor = (status: AlertStatus) => {
+  switch (status) {
+    case 'open': return 'bg-orange-950/50 text-orange-400 border-orange-800/50';
+    case 'acknowledged': return 'bg-blue-950/50 text-blue-400 border-blue-800/50';
+    case 'in-progress': return 'bg-violet-950/50 text-violet-400 border-violet-800/50';
+    case 'dismissed': return 'bg-slate-800/50 text-slate-400 border-slate-600/50';
+    default: return 'bg-emerald-950/30 text-emerald-400 border-emerald-800/50';
+  }
+};
+
+type AlertFilters = {
+  type: 'all' | AlertType;
+  status: AlertStatusFilter;
+  search: string;
+  dateRange: 'all' | 'today' | 'week' | 'month';
+};
+
+const DEFAULT_FILTERS: AlertFilters = {
+  type: 'all',
+  status: 'active',
+  search: '',
+  dateRange: 'all'
 };
 
 const formatTimeAgo = (timestamp: string) => {
@@ -53,18 +95,8 @@ const formatTimeAgo = (timestamp: string) => {
 // ============================================================================
 
 interface FilterControlsProps {
-  filters: {
-    type: 'all' | 'empty' | 'low';
-    status: 'all' | 'acknowledged' | 'unacknowledged';
-    search: string;
-    dateRange: 'all' | 'today' | 'week' | 'month';
-  };
-  onFiltersChange: (filters: {
-    type: 'all' | 'empty' | 'low';
-    status: 'all' | 'acknowledged' | 'unacknowledged';
-    search: string;
-    dateRange: 'all' | 'today' | 'week' | 'month';
-  }) => void;
+  filters: AlertFilters;
+  onFiltersChange: (filters: AlertFilters) => void;
   onClearFilters: () => void;
 }
 
@@ -73,10 +105,10 @@ const FilterControls: React.FC<FilterControlsProps> = ({
   onFiltersChange,
   onClearFilters
 }) => {
-  const hasActiveFilters = filters.type !== 'all' || 
-                          filters.status !== 'all' || 
-                          filters.search !== '' || 
-                          filters.dateRange !== 'all';
+  const hasActiveFilters = filters.type !== DEFAULT_FILTERS.type || 
+                          filters.status !== DEFAULT_FILTERS.status || 
+                          filters.search !== DEFAULT_FILTERS.search || 
+                          filters.dateRange !== DEFAULT_FILTERS.dateRange;
 
   return (
     <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-6 mb-6">
@@ -117,25 +149,32 @@ const FilterControls: React.FC<FilterControlsProps> = ({
         {/* ALERT TYPE */}
         <select
           value={filters.type}
-          onChange={(e) => onFiltersChange({ ...filters, type: e.target.value as 'all' | 'empty' | 'low' })}
+          onChange={(e) => onFiltersChange({ ...filters, type: e.target.value as AlertFilters['type'] })}
           className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-4 py-3 text-slate-100
                    focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200"
         >
           <option value="all">All Types</option>
           <option value="empty">🚨 Empty Shelves</option>
           <option value="low">⚠️ Low Stock</option>
+          <option value="predicted-stockout">📉 Predicted Stockouts</option>
         </select>
         
-        {/* ACKNOWLEDGMENT STATUS */}
+        {/* LIFECYCLE STATUS */}
         <select
           value={filters.status}
-          onChange={(e) => onFiltersChange({ ...filters, status: e.target.value as 'all' | 'acknowledged' | 'unacknowledged' })}
+          onChange={(e) => onFiltersChange({ ...filters, status: e.target.value as AlertStatusFilter })}
           className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-4 py-3 text-slate-100
                    focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200"
         >
-          <option value="all">All Status</option>
-          <option value="unacknowledged">📢 Unacknowledged</option>
+          <option value="active">🔔 Active</option>
+          <option value="open">📢 Open</option>
           <option value="acknowledged">✅ Acknowledged</option>
+          <option value="in-progress">🔧 In Progress</option>
+          <option value="closed">🗂️ History (Closed)</option>
+          <option value="resolved">Resolved</option>
+          <option value="auto-resolved">Auto-resolved</option>
+          <option value="dismissed">Dismissed</option>
+          <option value="all">All Status</option>
         </select>
         
         {/* DATE RANGE */}
@@ -163,47 +202,82 @@ const FilterControls: React.FC<FilterControlsProps> = ({
 
 interface AlertCardProps {
   alert: Alert;
-  onAcknowledge: (alertId: string) => void;
+  /** Omitted for roles that can't respond to alerts */
+  onTransition?: (alertId: string, status: StaffAlertStatus) => void;
   onViewShelf: (shelfId: string) => void;
+  /** Who the alert is routed to (shown while it is active) */
+  route?: AlertRoute;
 }
 
-const AlertCard: React.FC<AlertCardProps> = ({ alert, onAcknowledge, onViewShelf }) => {
-  const formatDateTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
+type AlertScope = 'mine' | 'all';
+
+const describeRoute = (route: AlertRoute): string => {
+  if (route.reason === 'unassigned') return 'No one on shift for this aisle — routed to managers';
+  if (route.reason === 'unacknowledged') return `Unacknowledged past the deadline — escalated to managers (${route.assignees.join(', ')})`;
+  return `Routed to ${route.assignees.join(', ')}`;
+};
+
+const ACTION_BUTTONS: Array<{
+  status: StaffAlertStatus;
+  label: string;
+  icon: React.ElementType;
+  className: string;
+}> = [
+  {
+    status: 'acknowledged',
+    label: 'Acknowledge',
+    icon: CheckCircle,
+    className: 'from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 shadow-emerald-500/25'
+  },
+  {
+    status: 'in-progress',
+    label: 'Start Work',
+    icon: Wrench,
+    className: 'from-violet-600 to-violet-500 hover:from-violet-500 hover:to-violet-400 shadow-violet-500/25'
+  },
+  {
+    status: 'resolved',
+    label: 'Resolve',
+    icon: CheckCircle,
+    className: 'from-teal-600 to-teal-500 hover:from-teal-500 hover:to-teal-400 shadow-teal-500/25'
+  },
+  {
+    status: 'dismissed',
+    label: 'Dismiss',
+    icon: XCircle,
+    className: 'from-slate-700 to-slate-600 hover:from-slate-600 hover:to-slate-500 shadow-slate-900/25'
+  }
+];
+
+const AlertCard: React.FC<AlertCardProps> = ({ alert, onTransition, onViewShelf, route }) => {
+  const active = isActiveAlert(alert);
+  const timeToAcknowledge = getTimeToAcknowledge(alert);
+  const timeToResolve = getTimeToResolve(alert);
 
   return (
     <div className={`bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-6 
-                   hover:bg-slate-800/50 transition-all duration-300 ${alert.acknowledged ? 'opacity-60' : ''}`}>
+                   hover:bg-slate-800/50 transition-all duration-300 ${active && alert.status === 'open' ? '' : 'opacity-80'}`}>
       <div className="flex items-start justify-between mb-4">
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
           <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium border
-                          ${getStatusColor(alert.type, alert.acknowledged)}`}>
+                          ${getStatusColor(alert.type, alert.status)}`}>
             <AlertTriangle size={14} />
-            {alert.type === 'empty' ? 'EMPTY' : 'LOW STOCK'}
+            {ALERT_TYPE_LABELS[alert.type]}
           </span>
           
-          {alert.acknowledged && (
-            <span className="inline-flex items-center gap-2 px-3 py-1 bg-emerald-950/30 text-emerald-400 
-                           border border-emerald-800/50 rounded-full text-sm font-medium">
-              <CheckCircle size={14} />
-              ACKNOWLEDGED
-            </span>
-          )}
+          <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium border
+                          ${getLifecycleColor(alert.status)}`}>
+            {ALERT_STATUS_LABELS[alert.status].toUpperCase()}
+          </span>
         </div>
         
         <div className="text-right">
-          <div className="text-sm text-slate-300">{formatDateTime(alert.timestamp)}</div>
+          <div className="text-sm text-slate-300">{formatAbsoluteTime(alert.timestamp)}</div>
           <div className="text-xs text-slate-400">{formatTimeAgo(alert.timestamp)}</div>
         </div>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
         <div className="flex items-center gap-3">
           <Package size={20} className="text-blue-400" />
           <div>
@@ -221,21 +295,71 @@ const AlertCard: React.FC<AlertCardProps> = ({ alert, onAcknowledge, onViewShelf
         </div>
       </div>
       
-      <div className="flex flex-col sm:flex-row gap-3">
-        {!alert.acknowledged ? (
-          <button
-            onClick={() => onAcknowledge(alert.id)}
-            className="flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-500 
-                     text-white rounded-lg hover:from-emerald-500 hover:to-emerald-400 active:scale-95 
-                     transition-all duration-200 shadow-lg shadow-emerald-500/25 font-medium"
-          >
-            <CheckCircle size={16} />
-            Acknowledge Alert
-          </button>
+      {/* ROUTING */}
+      {active && route && (
+        <div className={`flex items-center gap-2 mb-4 text-sm ${route.escalated ? 'text-orange-400' : 'text-slate-300'}`}>
+          {route.escalated ? <ShieldAlert size={14} /> : <UserCheck size={14} className="text-blue-400" />}
+          {describeRoute(route)}
+        </div>
+      )}
+      
+      {/* TIMINGS */}
+      {(timeToAcknowledge !== null || timeToResolve !== null) && (
+        <div className="flex flex-wrap gap-4 mb-4 text-sm text-slate-300">
+          {timeToAcknowledge !== null && (
+            <span className="flex items-center gap-2">
+              <Timer size={14} className="text-blue-400" />
+              Acknowledged in {formatDuration(timeToAcknowledge)}
+            </span>
+          )}
+          {timeToResolve !== null && (
+            <span className="flex items-center gap-2">
+              <Timer size={14} className="text-emerald-400" />
+              Resolved in {formatDuration(timeToResolve)}
+            </span>
+          )}
+        </div>
+      )}
+      
+      {/* HISTORY */}
+      {alert.history.length > 1 && (
+        <details className="mb-6 text-sm">
+          <summary className="flex items-center gap-2 cursor-pointer text-slate-400 hover:text-slate-200">
+            <History size={14} />
+            History ({alert.history.length})
+          </summary>
+          <ol className="mt-3 space-y-2 border-l border-slate-700 pl-4">
+            {alert.history.map((entry, index) => (
+              <li key={`${entry.status}-${entry.at}-${index}`} className="text-slate-300">
+                <span className="font-medium text-slate-100">{ALERT_STATUS_LABELS[entry.status]}</span>
+                {' by '}{entry.by}
+                <span className="text-slate-400"> · {formatAbsoluteTime(entry.at)}</span>
+                {entry.note && <div className="text-xs text-slate-400">{entry.note}</div>}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+      
+      <div className="flex flex-col sm:flex-row flex-wrap gap-3">
+        {active ? (
+          onTransition && ACTION_BUTTONS
+            .filter(action => canTransitionAlert(alert, action.status))
+            .map(({ status, label, icon: Icon, className }) => (
+              <button
+                key={status}
+                onClick={() => onTransition(alert.id, status)}
+                className={`flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r ${className}
+                         text-white rounded-lg active:scale-95 transition-all duration-200 shadow-lg font-medium`}
+              >
+                <Icon size={16} />
+                {label}
+              </button>
+            ))
         ) : (
           <div className="flex items-center gap-2 text-slate-400 px-4 py-2">
             <CheckCircle size={16} />
-            <span>Alert Acknowledged</span>
+            <span>Alert {ALERT_STATUS_LABELS[alert.status]}</span>
           </div>
         )}
         
@@ -258,75 +382,29 @@ const AlertCard: React.FC<AlertCardProps> = ({ alert, onAcknowledge, onViewShelf
 // ============================================================================
 
 const AlertsPageContent: React.FC = () => {
-  const { alerts, acknowledgeAlert } = useAlerts();
+  const { alerts, myAlerts, transitionAlert, getAlertRoute } = useAlerts();
+  const { can } = useCurrentUser();
+  const [scope, setScope] = useState<AlertScope>('mine');
+  // Only staff who respond to alerts have alerts routed to them
+  const showMine = scope === 'mine' && can('respond-to-alerts');
   
   // Filter state
-  const [filters, setFilters] = useState({
-    type: 'all' as 'all' | 'empty' | 'low',
-    status: 'all' as 'all' | 'acknowledged' | 'unacknowledged',
-    search: '',
-    dateRange: 'all' as 'all' | 'today' | 'week' | 'month'
-  });
+  const [filters, setFilters] = useState<AlertFilters>(DEFAULT_FILTERS);
   
-  // Filtered alerts
+  // Filtered alerts: active views by priority, history views newest first
   const filteredAlerts = useMemo(() => {
-    return alerts.filter(alert => {
-      // Type filter
-      if (filters.type !== 'all' && alert.type !== filters.type) return false;
-      
-      // Status filter
-      if (filters.status === 'acknowledged' && !alert.acknowledged) return false;
-      if (filters.status === 'unacknowledged' && alert.acknowledged) return false;
-      
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        if (!alert.product.toLowerCase().includes(searchLower) && 
-            !alert.shelf.toLowerCase().includes(searchLower)) {
-          return false;
-        }
-      }
-      
-      // Date filter
-      if (filters.dateRange !== 'all') {
-        const alertDate = new Date(alert.timestamp);
-        const now = new Date();
-        
-        switch (filters.dateRange) {
-          case 'today':
-            if (alertDate.toDateString() !== now.toDateString()) return false;
-            break;
-          case 'week':
-            const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-            if (alertDate < weekAgo) return false;
-            break;
-          case 'month':
-            const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-            if (alertDate < monthAgo) return false;
-            break;
-        }
-      }
-      
-      return true;
-    }).sort((a, b) => {
-      // Sort by acknowledgment (unacknowledged first), then by type (empty first), then by recency
-      if (a.acknowledged !== b.acknowledged) {
-        return a.acknowledged ? 1 : -1;
-      }
-      if (a.type !== b.type) {
-        return a.type === 'empty' ? -1 : 1;
-      }
-      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    const historyView = ['closed', 'resolved', 'auto-resolved', 'dismissed'].includes(filters.status);
+    return processAlerts(showMine ? myAlerts : alerts, {
+      type: filters.type,
+      status: filters.status,
+      search: filters.search,
+      dateRange: filters.dateRange,
+      sortBy: historyView ? 'time' : 'priority'
     });
-  }, [alerts, filters]);
+  }, [alerts, myAlerts, showMine, filters]);
   
   const clearFilters = () => {
-    setFilters({
-      type: 'all',
-      status: 'all',
-      search: '',
-      dateRange: 'all'
-    });
+    setFilters(DEFAULT_FILTERS);
   };
   
   const handleViewShelf = (shelfId: string) => {
@@ -335,12 +413,12 @@ const AlertsPageContent: React.FC = () => {
   };
   
   // Stats
-  const stats = {
-    total: alerts.length,
-    unacknowledged: alerts.filter(a => !a.acknowledged).length,
-    empty: alerts.filter(a => a.type === 'empty').length,
-    low: alerts.filter(a => a.type === 'low').length
-  };
+  const stats = getAlertStats(alerts);
+  const activeAlerts = alerts.filter(isActiveAlert);
+  const hasFilters = filters.type !== DEFAULT_FILTERS.type ||
+                     filters.status !== DEFAULT_FILTERS.status ||
+                     filters.search !== DEFAULT_FILTERS.search ||
+                     filters.dateRange !== DEFAULT_FILTERS.dateRange;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
@@ -367,7 +445,7 @@ const AlertsPageContent: React.FC = () => {
               <div className="min-w-0">
                 <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Inventory Alerts</h1>
                 <div className="text-sm text-slate-400">
-                  {filteredAlerts.length} of {stats.total} alerts
+                  {filteredAlerts.length} of {showMine ? `${myAlerts.length} alerts routed to you` : `${stats.total} alerts`}
                 </div>
               </div>
             </div>
@@ -382,18 +460,36 @@ const AlertsPageContent: React.FC = () => {
               {/* QUICK STATS */}
               <div className="hidden lg:flex items-center gap-6">
                 <div className="text-center">
-                  <div className="text-lg font-bold text-red-400">{stats.empty}</div>
+                  <div className="text-lg font-bold text-red-400">{activeAlerts.filter(a => a.type === 'empty').length}</div>
                   <div className="text-xs text-slate-400">Empty</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-lg font-bold text-amber-400">{stats.low}</div>
+                  <div className="text-lg font-bold text-amber-400">{activeAlerts.filter(a => a.type === 'low').length}</div>
                   <div className="text-xs text-slate-400">Low Stock</div>
                 </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold text-sky-400">{activeAlerts.filter(a => a.type === 'predicted-stockout').length}</div>
+                  <div className="text-xs text-slate-400">Predicted</div>
+                </div>
                 <div className="text-center">
                   <div className="text-lg font-bold text-orange-400">{stats.unacknowledged}</div>
                   <div className="text-xs text-slate-400">Pending</div>
                 </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold text-blue-400">
+                    {stats.meanTimeToAcknowledge !== null ? formatDuration(stats.meanTimeToAcknowledge) : '—'}
+                  </div>
+                  <div className="text-xs text-slate-400">Avg. to Ack</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold text-emerald-400">
+                    {stats.meanTimeToResolve !== null ? formatDuration(stats.meanTimeToResolve) : '—'}
+                  </div>
+                  <div className="text-xs text-slate-400">Avg. to Resolve</div>
+                </div>
               </div>
+              
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -401,6 +497,26 @@ const AlertsPageContent: React.FC = () => {
       
       {/* MAIN CONTENT */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {can('respond-to-alerts') && (
+          <div className="flex gap-2 mb-6" role="tablist" aria-label="Alert scope">
+            {([['mine', `My Alerts (${myAlerts.length})`], ['all', 'All Alerts']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={scope === value}
+                onClick={() => setScope(value)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                  scope === value
+                    ? 'bg-blue-500/20 text-blue-300 border-blue-500/40'
+                    : 'bg-slate-900/50 text-slate-400 border-slate-700/50 hover:text-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        
         <FilterControls
           filters={filters}
           onFiltersChange={setFilters}
@@ -413,11 +529,13 @@ const AlertsPageContent: React.FC = () => {
             <AlertTriangle size={64} className="mx-auto text-slate-600 mb-6" />
             <h3 className="text-xl font-semibold text-slate-100 mb-3">No alerts found</h3>
             <p className="text-slate-400 mb-6">
-              {filters.type !== 'all' || filters.status !== 'all' || filters.search || filters.dateRange !== 'all'
+              {hasFilters
                 ? 'Try adjusting your filters to see more results.'
-                : 'All shelves are properly stocked!'}
+                : showMine
+                  ? 'Nothing is routed to you right now.'
+                  : 'All shelves are properly stocked!'}
             </p>
-            {(filters.type !== 'all' || filters.status !== 'all' || filters.search || filters.dateRange !== 'all') && (
+            {hasFilters && (
               <button
                 onClick={clearFilters}
                 className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg 
@@ -434,8 +552,9 @@ const AlertsPageContent: React.FC = () => {
               <AlertCard
                 key={alert.id}
                 alert={alert}
-                onAcknowledge={acknowledgeAlert}
+                onTransition={can('respond-to-alerts') ? transitionAlert : undefined}
                 onViewShelf={handleViewShelf}
+                route={getAlertRoute(alert)}
               />
             ))}
           </div>
@@ -0,0 +1,336 @@
+'use client';
+
+/**
+ * Analytics Page
+ *
+ * Trends from the persisted scan log and alert history: count history per
+ * shelf and per product, stockout frequency and duration, alert volume by
+ * aisle and day, and mean time to restock. Every chart draws from
+ * `GET /api/analytics`; picking a shelf or product drills its history down.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowLeft, BarChart3, Clock, PackageX, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { useShelves, useStores } from '../../lib/context/AppContext';
+import { formatDuration } from '../../lib/alertUtils';
+import { AnalyticsReport, CatalogProduct } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
+import { AlertVolumeChart, CountHistoryChart } from '../../components/AnalyticsCharts';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const RANGES = [
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' }
+];
+
+const SELECT_STYLE = `bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-1.5 text-sm text-slate-100
+  focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50`;
+
+const formatMaybeDuration = (milliseconds: number | null): string =>
+  milliseconds === null ? '—' : formatDuration(milliseconds);
+
+// ============================================================================
+// LAYOUT COMPONENTS
+// ============================================================================
+
+const StatCard: React.FC<{ icon: React.ElementType; label: string; value: string; detail?: string }> = ({
+  icon: Icon,
+  label,
+  value,
+  detail
+}) => (
+  <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4">
+    <div className="flex items-center gap-2 text-sm text-slate-400">
+      <Icon size={16} />
+      {label}
+    </div>
+    <div className="text-2xl font-bold text-slate-100 mt-1">{value}</div>
+    {detail && <div className="text-xs text-slate-500 mt-1">{detail}</div>}
+  </div>
+);
+
+const Panel: React.FC<{ title: string; actions?: React.ReactNode; children: React.ReactNode }> = ({
+  title,
+  actions,
+  children
+}) => (
+  <section className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 sm:p-6">
+    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+      <h2 className="text-lg font-semibold text-slate-100">{title}</h2>
+      {actions}
+    </div>
+    {children}
+  </section>
+);
+
+// ============================================================================
+// MAIN ANALYTICS PAGE COMPONENT
+// ============================================================================
+
+export default function AnalyticsPage() {
+  const { shelves } = useShelves();
+  const { currentStore } = useStores();
+  const storeId = currentStore?.id;
+
+  const [days, setDays] = useState(7);
+  const [shelfId, setShelfId] = useState('');
+  const [sku, setSku] = useState('');
+  const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    api.fetchCatalog().then(setCatalog).catch(() => setCatalog([]));
+  }, []);
+
+  // The report is for the selected store, so wait for it and follow switches
+  useEffect(() => {
+    if (!storeId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    api.fetchAnalytics({ days, shelf: shelfId || undefined, sku: sku || undefined })
+      .then(next => {
+        if (cancelled) return;
+        setReport(next);
+        setError(null);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load analytics');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId, days, shelfId, sku, reloadKey]);
+
+  const totals = useMemo(() => {
+    if (!report) return null;
+    return {
+      alerts: report.alertVolume.aisles.reduce((sum, row) => sum + row.total, 0),
+      stockouts: report.stockouts.reduce((sum, entry) => sum + entry.stockouts, 0),
+      ongoing: report.stockouts.filter(entry => entry.ongoing).length,
+      emptyMs: report.stockouts.reduce((sum, entry) => sum + entry.totalDurationMs, 0)
+    };
+  }, [report]);
+
+  const sortedShelves = useMemo(() => [...shelves].sort((a, b) => a.id.localeCompare(b.id)), [shelves]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Analytics</h1>
+                <div className="text-sm text-slate-400">
+                  {report
+                    ? `${new Date(report.from).toLocaleString()} – ${new Date(report.to).toLocaleString()}`
+                    : 'Loading…'}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGES.map(range => (
+            <button
+              key={range.days}
+              onClick={() => setDays(range.days)}
+              aria-pressed={days === range.days}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                days === range.days
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-800/50 text-slate-300 hover:bg-slate-700/50'
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setReloadKey(key => key + 1)}
+            disabled={isLoading}
+            className="ml-auto flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 bg-slate-800/50
+                     hover:bg-slate-700/50 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {report && totals && (
+          <>
+            {/* SUMMARY */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                icon={Clock}
+                label="Mean time to restock"
+                value={formatMaybeDuration(report.meanTimeToRestockMs)}
+                detail="From alert to stock back at threshold"
+              />
+              <StatCard icon={PackageX} label="Stockouts" value={String(totals.stockouts)} detail={`${totals.ongoing} still empty`} />
+              <StatCard icon={AlertTriangle} label="Alerts opened" value={String(totals.alerts)} />
+              <StatCard
+                icon={BarChart3}
+                label="Time empty"
+                value={formatDuration(totals.emptyMs)}
+                detail="Summed over every product slot"
+              />
+            </div>
+
+            {/* COUNT HISTORY */}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <Panel
+                title={shelfId ? `Shelf ${shelfId} by product` : 'Units per shelf'}
+                actions={(
+                  <select
+                    value={shelfId}
+                    onChange={(e) => setShelfId(e.target.value)}
+                    aria-label="Break down a shelf"
+                    className={SELECT_STYLE}
+                  >
+                    <option value="">All shelves</option>
+                    {sortedShelves.map(shelf => <option key={shelf.id} value={shelf.id}>{shelf.id}</option>)}
+                  </select>
+                )}
+              >
+                <CountHistoryChart series={report.shelfHistory} from={report.from} to={report.to} />
+              </Panel>
+
+              <Panel
+                title={sku ? `${catalog.find(entry => entry.sku === sku)?.name ?? sku} by shelf` : 'Units per product'}
+                actions={(
+                  <select
+                    value={sku}
+                    onChange={(e) => setSku(e.target.value)}
+                    aria-label="Break down a product"
+                    className={SELECT_STYLE}
+                  >
+                    <option value="">All products</option>
+                    {catalog.map(entry => <option key={entry.sku} value={entry.sku}>{entry.name}</option>)}
+                  </select>
+                )}
+              >
+                <CountHistoryChart series={report.productHistory} from={report.from} to={report.to} />
+              </Panel>
+            </div>
+
+            {/* ALERT VOLUME */}
+            <Panel title="Alerts by aisle and day">
+              <AlertVolumeChart volume={report.alertVolume} />
+            </Panel>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              {/* STOCKOUTS */}
+              <div className="xl:col-span-2">
+                <Panel title="Stockouts">
+                  {report.stockouts.length === 0 ? (
+                    <p className="text-sm text-slate-500">No product ran out in this period</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-slate-700/50 text-left text-slate-400">
+                            <th className="py-2 pr-4 font-medium">Product</th>
+                            <th className="py-2 pr-4 font-medium">Shelf</th>
+                            <th className="py-2 pr-4 font-medium text-right">Times</th>
+                            <th className="py-2 pr-4 font-medium text-right">Total empty</th>
+                            <th className="py-2 font-medium text-right">Mean</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.stockouts.map(entry => (
+                            <tr key={`${entry.shelf}/${entry.sku}`} className="border-b border-slate-800/50 text-slate-300">
+                              <td className="py-2 pr-4">
+                                <div className="text-slate-100">{entry.product}</div>
+                                <div className="font-mono text-xs text-slate-500">{entry.sku}</div>
+                              </td>
+                              <td className="py-2 pr-4">
+                                <span className="font-mono">{entry.shelf}</span>
+                                {entry.aisle && <span className="text-slate-500"> · {entry.aisle}</span>}
+                              </td>
+                              <td className="py-2 pr-4 text-right">{entry.stockouts}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {formatDuration(entry.totalDurationMs)}
+                                {entry.ongoing && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded border text-xs bg-red-950/50 text-red-400 border-red-800/50">
+                                    ongoing
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2 text-right">{formatDuration(entry.meanDurationMs)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Panel>
+              </div>
+
+              {/* RESTOCK TIMES */}
+              <Panel title="Time to restock by aisle">
+                {report.restockTimesByAisle.length === 0 ? (
+                  <p className="text-sm text-slate-500">No alerts were resolved in this period</p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {report.restockTimesByAisle.map(entry => (
+                      <li key={entry.aisle} className="flex items-center justify-between text-slate-300">
+                        <span>{entry.aisle}</span>
+                        <span>
+                          <span className="text-slate-100 font-semibold">{formatMaybeDuration(entry.meanTimeToRestockMs)}</span>
+                          <span className="text-slate-500"> over {entry.samples}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Panel>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
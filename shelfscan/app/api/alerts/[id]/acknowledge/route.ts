@@ -0,0 +1,16 @@
+/**
+ * Alert Acknowledgement API
+ * POST /api/alerts/:id/acknowledge { note? } - mark an alert as acknowledged by staff
+ */
+
+import { handleAlertTransition } from '../../../../../lib/server/alertActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleAlertTransition(request, id, 'acknowledged');
+}
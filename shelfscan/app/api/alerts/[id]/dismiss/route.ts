@@ -0,0 +1,16 @@
+/**
+ * Alert Dismissal API
+ * POST /api/alerts/:id/dismiss { note? } - close an alert that needs no action (e.g. a false positive)
+ */
+
+import { handleAlertTransition } from '../../../../../lib/server/alertActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleAlertTransition(request, id, 'dismissed');
+}
@@ -0,0 +1,16 @@
+/**
+ * Alert Resolution API
+ * POST /api/alerts/:id/resolve { note? } - close an alert once the condition is handled
+ */
+
+import { handleAlertTransition } from '../../../../../lib/server/alertActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleAlertTransition(request, id, 'resolved');
+}
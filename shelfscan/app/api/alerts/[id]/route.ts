@@ -0,0 +1,42 @@
+/**
+ * Alert API
+ * GET    /api/alerts/:id - a single alert
+ * DELETE /api/alerts/:id - remove an alert and its history outright
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const alert = await getRepository(auth.store.id).getAlert(id);
+  if (!alert) {
+    return apiError(404, `Alert ${id} not found`);
+  }
+  return NextResponse.json(alert);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'delete-records');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const repository = getRepository(auth.store.id);
+
+  const alert = await repository.getAlert(id);
+  if (!alert) {
+    return apiError(404, `Alert ${id} not found`);
+  }
+
+  await repository.deleteAlert(id);
+  return apiSuccess(`Alert ${id} deleted`, alert, { shelfId: alert.shelf });
+}
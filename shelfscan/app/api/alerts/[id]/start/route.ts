@@ -0,0 +1,16 @@
+/**
+ * Alert Start API
+ * POST /api/alerts/:id/start { note? } - mark an alert as being worked on
+ */
+
+import { handleAlertTransition } from '../../../../../lib/server/alertActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleAlertTransition(request, id, 'in-progress');
+}
@@ -0,0 +1,112 @@
+/**
+ * Alerts API
+ * GET  /api/alerts?shelf=<id>&status=<status|active|closed>&mine=true - persisted alerts, newest first
+ *      (`mine` keeps only active alerts routed to the signed-in user)
+ * POST /api/alerts - raise an alert for a product on an existing shelf
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateAlertInput } from '../../../lib/validation';
+import {
+  ACTIVE_ALERT_STATUSES,
+  CLOSED_ALERT_STATUSES,
+  createAlert,
+  isActiveAlert
+} from '../../../lib/alertLifecycle';
+import { isAlertRoutedTo } from '../../../lib/alertRouting';
+import { getRoutingSettings } from '../../../lib/settings';
+import { AlertStatus } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const shelf = searchParams.get('shelf');
+  const status = searchParams.get('status');
+  const mine = searchParams.get('mine') === 'true';
+
+  let statuses: AlertStatus[] | null = null;
+  if (status === 'active') {
+    statuses = ACTIVE_ALERT_STATUSES;
+  } else if (status === 'closed') {
+    statuses = CLOSED_ALERT_STATUSES;
+  } else if (status !== null) {
+    if (![...ACTIVE_ALERT_STATUSES, ...CLOSED_ALERT_STATUSES].includes(status as AlertStatus)) {
+      return apiError(400, '`status` must be an alert status, `active` or `closed`');
+    }
+    statuses = [status as AlertStatus];
+  }
+
+  const repository = getRepository(auth.store.id);
+  const routing = mine
+    ? {
+      shelves: await repository.listShelves(),
+      assignments: await repository.listAssignments(),
+      ...getRoutingSettings(auth.store, await repository.getSettings())
+    }
+    : null;
+
+  const alerts = (await repository.listAlerts()).filter(alert =>
+    (shelf === null || alert.shelf === shelf) &&
+    (statuses === null || statuses.includes(alert.status)) &&
+    (routing === null || isAlertRoutedTo(alert, auth.user, routing))
+  );
+
+  return NextResponse.json(alerts);
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'respond-to-alerts');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateAlertInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid alert', result.errors);
+  }
+
+  const input = result.value;
+  const repository = getRepository(auth.store.id);
+
+  const shelf = await repository.getShelf(input.shelf);
+  if (!shelf) {
+    return apiError(404, `Shelf ${input.shelf} not found`);
+  }
+  const product = shelf.items.find(item => item.sku === input.sku);
+  if (!product) {
+    return apiError(404, `SKU ${input.sku} is not on shelf ${input.shelf}`);
+  }
+
+  // Never open a second alert for the same shelf+product
+  const alerts = await repository.listAlerts();
+  if (alerts.some(alert =>
+    alert.shelf === input.shelf && alert.sku === input.sku && isActiveAlert(alert)
+  )) {
+    return apiError(409, `An alert for ${product.product} on shelf ${input.shelf} is already open`);
+  }
+
+  const alert = createAlert({
+    id: input.id,
+    storeId: auth.store.id,
+    shelf: input.shelf,
+    sku: product.sku,
+    product: product.product,
+    type: input.type,
+    timestamp: input.timestamp ?? new Date().toISOString(),
+    by: auth.user.username
+  });
+  if (alerts.some(existing => existing.id === alert.id)) {
+    return apiError(409, `Alert ${alert.id} already exists`);
+  }
+
+  const saved = await repository.saveAlert(alert);
+  return apiSuccess(`Alert raised for ${alert.product} on shelf ${alert.shelf}`, saved, {
+    shelfId: alert.shelf,
+    status: 201
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Analytics API
+ * GET /api/analytics?days=<n>&shelf=<id>&sku=<sku>
+ *
+ * Trends over the last `days` days (default 7, at most 90) computed from the
+ * persisted scan log and alert history. `shelf` breaks the shelf count
+ * history down by product on that shelf; `sku` breaks the product count
+ * history down by the shelves stocking it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { ANALYTICS_DEFAULT_DAYS, ANALYTICS_MAX_DAYS, buildAnalyticsReport } from '../../../lib/analytics';
+import { AnalyticsReport } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const daysParam = searchParams.get('days');
+  const days = daysParam === null ? ANALYTICS_DEFAULT_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > ANALYTICS_MAX_DAYS) {
+    return apiError(400, `\`days\` must be an integer from 1 to ${ANALYTICS_MAX_DAYS}`);
+  }
+
+  const repository = getRepository(auth.store.id);
+  const [scans, alerts, shelves] = await Promise.all([
+    repository.listScansSince(0),
+    repository.listAlerts(),
+    repository.listShelves()
+  ]);
+
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+  return NextResponse.json<AnalyticsReport>(buildAnalyticsReport(
+    { scans: scans.map(record => record.update), alerts, shelves },
+    {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      shelf: searchParams.get('shelf') ?? undefined,
+      sku: searchParams.get('sku') ?? undefined
+    }
+  ));
+}
@@ -0,0 +1,29 @@
+/**
+ * Aisle Assignment API
+ * DELETE /api/assignments/:id - remove an assignment (managers)
+ */
+
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'manage-staff');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const repository = getRepository(auth.store.id);
+
+  const assignment = (await repository.listAssignments()).find(a => a.id === id);
+  if (!assignment) {
+    return apiError(404, `Assignment ${id} not found`);
+  }
+
+  await repository.deleteAssignment(id);
+  return apiSuccess(`Unassigned ${assignment.username} from ${assignment.aisle}`, assignment);
+}
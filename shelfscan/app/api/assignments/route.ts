@@ -0,0 +1,59 @@
+/**
+ * Aisle Assignments API
+ * GET  /api/assignments - who covers which aisle on which shift
+ * POST /api/assignments { aisle, username, shift } - assign staff to an aisle (managers)
+ *
+ * Active alerts are routed to the assignees of their shelf's aisle for the
+ * current shift (see `lib/alertRouting.ts`).
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateAssignmentInput } from '../../../lib/validation';
+import { createAssignment } from '../../../lib/alertRouting';
+
+export const dynamic = 'force-dynamic';
+
+// Roles that work the floor and can take alerts
+const ASSIGNABLE_ROLES = ['associate', 'manager'];
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  return NextResponse.json(await getRepository(auth.store.id).listAssignments());
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'manage-staff');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateAssignmentInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid assignment', result.errors);
+  }
+
+  const input = result.value;
+  const repository = getRepository(auth.store.id);
+
+  if (!(await repository.listShelves()).some(shelf => shelf.aisle === input.aisle)) {
+    return apiError(404, `No shelves in ${input.aisle}`);
+  }
+  const account = await repository.findUserByUsername(input.username);
+  if (!account) {
+    return apiError(404, `User ${input.username} not found`);
+  }
+  if (!ASSIGNABLE_ROLES.includes(account.role)) {
+    return apiError(400, `${account.username} is a ${account.role} account and cannot be assigned to an aisle`);
+  }
+
+  const assignment = createAssignment({ ...input, storeId: auth.store.id, username: account.username, assignedBy: auth.user.username });
+  if ((await repository.listAssignments()).some(existing => existing.id === assignment.id)) {
+    return apiError(409, `${account.username} is already assigned to ${input.aisle} for that shift`);
+  }
+
+  const saved = await repository.saveAssignment(assignment);
+  return apiSuccess(`Assigned ${saved.username} to ${saved.aisle}`, saved, { status: 201 });
+}
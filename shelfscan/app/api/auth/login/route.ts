@@ -0,0 +1,44 @@
+/**
+ * Login API
+ * POST /api/auth/login { username, password } - start a staff session
+ *
+ * The session token is set as an HttpOnly cookie, so browsers never see it.
+ */
+
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../lib/server/apiResponses';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSessionToken,
+  toUser,
+  verifyLogin
+} from '../../../../lib/server/auth';
+import { validateLoginInput } from '../../../../lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const result = validateLoginInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid login', result.errors);
+  }
+
+  const { username, password } = result.value;
+  const account = await getRepository().findUserByUsername(username);
+  // Same response, after the same work, for an unknown user and a wrong password
+  if (!verifyLogin(account, password)) {
+    return apiError(401, 'Incorrect username or password');
+  }
+
+  const user = toUser(account);
+  const response = apiSuccess(`Signed in as ${user.name}`, user);
+  response.cookies.set(SESSION_COOKIE, signSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+  return response;
+}
@@ -0,0 +1,15 @@
+/**
+ * Logout API
+ * POST /api/auth/logout - end the staff session
+ */
+
+import { apiSuccess } from '../../../../lib/server/apiResponses';
+import { SESSION_COOKIE } from '../../../../lib/server/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const response = apiSuccess('Signed out', null);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,18 @@
+/**
+ * Session API
+ * GET /api/auth/session - the signed-in user
+ */
+
+import { NextResponse } from 'next/server';
+import { apiError } from '../../../../lib/server/apiResponses';
+import { getRequestUser } from '../../../../lib/server/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return apiError(401, 'Sign in required');
+  }
+  return NextResponse.json(user);
+}
@@ -0,0 +1,127 @@
+/**
+ * Catalog Product API
+ * GET    /api/catalog/:sku - a single catalog product
+ * PATCH  /api/catalog/:sku - update the fields provided (null clears an optional field)
+ * DELETE /api/catalog/:sku - remove a product no shelf stocks
+ *
+ * The SKU can't be changed. A new name is copied onto every shelf slot and
+ * alert for the SKU in every store, so only accounts with access to every
+ * store can rename or remove a product.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { validateCatalogProduct } from '../../../../lib/validation';
+import { renameAlertProduct, renameShelfProduct } from '../../../../lib/catalog';
+import { canAccessEveryStore } from '../../../../lib/roles';
+import { serializeStoreWrites } from '../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ sku: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { sku } = await params;
+  const product = await getRepository().getCatalogProduct(sku);
+  if (!product) {
+    return apiError(404, `SKU ${sku} is not in the catalog`);
+  }
+  return NextResponse.json(product);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { sku } = await params;
+  const result = validateCatalogProduct(await readJsonBody(request), { partial: true });
+  if (!result.isValid) {
+    return apiError(400, 'Invalid catalog product update', result.errors);
+  }
+  if (result.value.sku !== undefined && result.value.sku !== sku) {
+    return apiError(400, 'SKU cannot be changed; add a new catalog product instead');
+  }
+
+  const repository = getRepository();
+  const storeIds = (await repository.listStores()).map(store => store.id);
+  return serializeStoreWrites(storeIds, async () => {
+    const existing = await repository.getCatalogProduct(sku);
+    if (!existing) {
+      return apiError(404, `SKU ${sku} is not in the catalog`);
+    }
+
+    if (result.value.name !== undefined && result.value.name !== existing.name && !canAccessEveryStore(auth.user)) {
+      return apiError(403, 'Only accounts with access to every store can rename catalog products');
+    }
+
+    const saved = await repository.saveCatalogProduct({ ...existing, ...result.value, sku });
+
+    // The catalog is shared, so the new name reaches every store's shelves
+    if (saved.name !== existing.name) {
+      for (const storeId of storeIds) {
+        const storeRepository = getRepository(storeId);
+        for (const shelf of await storeRepository.listShelves()) {
+          const renamed = renameShelfProduct(shelf, sku, saved.name);
+          if (renamed !== shelf) await storeRepository.saveShelf(renamed);
+        }
+        for (const alert of await storeRepository.listAlerts()) {
+          const renamed = renameAlertProduct(alert, sku, saved.name);
+          if (renamed !== alert) await storeRepository.saveAlert(renamed);
+        }
+      }
+    }
+
+    return apiSuccess(`Updated ${saved.name} in the catalog`, saved);
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'delete-records');
+  if (!auth.isAuthorized) return auth.response;
+
+  if (!canAccessEveryStore(auth.user)) {
+    return apiError(403, 'Only accounts with access to every store can remove catalog products');
+  }
+
+  const { sku } = await params;
+  const repository = getRepository();
+  const storeIds = (await repository.listStores()).map(store => store.id);
+
+  // Another store's shelf can't take the SKU on while it is being removed
+  return serializeStoreWrites(storeIds, async () => {
+    const product = await repository.getCatalogProduct(sku);
+    if (!product) {
+      return apiError(404, `SKU ${sku} is not in the catalog`);
+    }
+
+    // Other stores' shelves are counted, not named
+    const stockedOn: string[] = [];
+    let otherStores = 0;
+    for (const storeId of storeIds) {
+      const shelves = (await getRepository(storeId).listShelves())
+        .filter(shelf => shelf.items.some(item => item.sku === sku));
+      if (storeId === auth.store.id) {
+        stockedOn.push(...shelves.map(shelf => shelf.id));
+      } else if (shelves.length > 0) {
+        otherStores += 1;
+      }
+    }
+    if (otherStores > 0) {
+      stockedOn.push(`shelves in ${otherStores} other store${otherStores === 1 ? '' : 's'}`);
+    }
+    if (stockedOn.length > 0) {
+      const places = stockedOn.length > 1
+        ? `${stockedOn.slice(0, -1).join(', ')} and ${stockedOn[stockedOn.length - 1]}`
+        : stockedOn[0];
+      return apiError(409, `${product.name} is stocked on ${places}; remove it from those shelves first`);
+    }
+
+    await repository.deleteCatalogProduct(sku);
+    return apiSuccess(`Removed ${product.name} from the catalog`, product);
+  });
+}
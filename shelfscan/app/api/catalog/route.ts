@@ -0,0 +1,40 @@
+/**
+ * Product Catalog API
+ * GET  /api/catalog - every catalog product, sorted by name
+ * POST /api/catalog - add a product (SKU, name and optional barcode, brand,
+ *                     category, pack size, unit cost and image)
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateCatalogProduct } from '../../../lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  return NextResponse.json(await getRepository().listCatalog());
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateCatalogProduct(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid catalog product', result.errors);
+  }
+
+  const repository = getRepository();
+  const product = result.value;
+  if (await repository.getCatalogProduct(product.sku)) {
+    return apiError(409, `SKU ${product.sku} is already in the catalog`);
+  }
+
+  const saved = await repository.saveCatalogProduct(product);
+  return apiSuccess(`Added ${saved.name} to the catalog`, saved, { status: 201 });
+}
@@ -0,0 +1,38 @@
+/**
+ * Planogram Export API
+ * GET /api/planogram/export?format=json|csv - download the current layout with
+ * each shelf's products and thresholds (JSON by default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { loadPlanogram } from '../../../../lib/server/planogram';
+import { exportPlanogram, formatPlanogramCsv } from '../../../../lib/planogram';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const format = request.nextUrl.searchParams.get('format') ?? 'json';
+  if (format !== 'csv' && format !== 'json') {
+    return apiError(400, `Unknown planogram format ${format}; use csv or json`);
+  }
+
+  const result = await loadPlanogram(auth.store.id);
+  if (!result.isValid) {
+    return apiError(500, 'Planogram file is invalid', result.errors);
+  }
+
+  const planogram = exportPlanogram(result.value, await getRepository(auth.store.id).listShelves());
+  const body = format === 'csv' ? formatPlanogramCsv(planogram) : `${JSON.stringify(planogram, null, 2)}\n`;
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+      'Content-Disposition': `attachment; filename="planogram.${format}"`
+    }
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Planogram Import API
+ * POST /api/planogram/import - replace the store layout from a JSON or CSV planogram
+ *
+ * Send CSV as `Content-Type: text/csv` (or `?format=csv`), JSON otherwise.
+ * `?dryRun=true` validates and reports the shelf changes without saving;
+ * `?prune=true` also deletes shelves (and their alerts) the planogram no
+ * longer lists. Slots take their names from the catalog; SKUs it doesn't
+ * have yet are added to it. Changed thresholds are recorded in the
+ * threshold audit trail.
+ */
+
+import { NextRequest } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { commitShelfUpdate } from '../../../../lib/server/shelfUpdates';
+import { loadPlanogram, savePlanogram } from '../../../../lib/server/planogram';
+import { applyCatalogToPlanogram, parsePlanogramCsv, syncShelvesToPlanogram } from '../../../../lib/planogram';
+import { indexCatalog } from '../../../../lib/catalog';
+import { validatePlanogram } from '../../../../lib/validation';
+import { createThresholdChanges } from '../../../../lib/thresholds';
+import { PlanogramImportResult } from '../../../../lib/types';
+import { serializeStoreWrites } from '../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const dryRun = searchParams.get('dryRun') === 'true';
+  const prune = searchParams.get('prune') === 'true';
+  if (prune && !dryRun) {
+    const pruneAuth = await authorize(request, 'delete-records');
+    if (!pruneAuth.isAuthorized) return pruneAuth.response;
+  }
+
+  const format = searchParams.get('format')
+    ?? (request.headers.get('content-type')?.includes('csv') ? 'csv' : 'json');
+  if (format !== 'csv' && format !== 'json') {
+    return apiError(400, `Unknown planogram format ${format}; use csv or json`);
+  }
+
+  const text = await request.text();
+  let result;
+  if (format === 'csv') {
+    // The CSV carries no floor plan, so it is laid onto the current one
+    const current = await loadPlanogram(auth.store.id);
+    if (!current.isValid) {
+      return apiError(409, 'The current planogram file is invalid; import a JSON planogram instead', current.errors);
+    }
+    result = parsePlanogramCsv(text, current.value);
+  } else {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return apiError(400, 'Invalid planogram', ['Body must be valid JSON']);
+    }
+    result = validatePlanogram(body);
+  }
+  if (!result.isValid) {
+    return apiError(400, 'Invalid planogram', result.errors);
+  }
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const { planogram, newProducts } = applyCatalogToPlanogram(
+      result.value,
+      indexCatalog(await repository.listCatalog())
+    );
+    const timestamp = new Date().toISOString();
+    const shelves = await repository.listShelves();
+    const sync = syncShelvesToPlanogram(planogram, shelves, auth.store.id, timestamp);
+    const removed = prune ? sync.unplaced : [];
+
+    if (!dryRun) {
+      await savePlanogram(auth.store.id, planogram);
+      for (const product of newProducts) {
+        await repository.saveCatalogProduct(product);
+      }
+      // New shelves haven't been scanned, so they open no alerts until they are
+      for (const shelf of sync.created) {
+        await repository.saveShelf(shelf);
+      }
+      const thresholdChanges = sync.updated.flatMap(shelf => createThresholdChanges(
+        shelves.find(existing => existing.id === shelf.id)!,
+        shelf.items,
+        { by: auth.user.username, at: timestamp }
+      ));
+      for (const shelf of sync.updated) {
+        await commitShelfUpdate(shelf, timestamp);
+      }
+      if (thresholdChanges.length > 0) await repository.appendThresholdChanges(thresholdChanges);
+      if (removed.length > 0) {
+        const removedIds = new Set(removed.map(shelf => shelf.id));
+        for (const shelf of removed) {
+          await repository.deleteShelf(shelf.id);
+        }
+        for (const alert of await repository.listAlerts()) {
+          if (removedIds.has(alert.shelf)) await repository.deleteAlert(alert.id);
+        }
+      }
+    }
+
+    const data: PlanogramImportResult = {
+      planogram,
+      created: sync.created.map(shelf => shelf.id),
+      updated: sync.updated.map(shelf => shelf.id),
+      removed: removed.map(shelf => shelf.id),
+      unplaced: prune ? [] : sync.unplaced.map(shelf => shelf.id),
+      addedSkus: newProducts.map(product => product.sku),
+      dryRun
+    };
+    const summary = `${data.created.length} created, ${data.updated.length} updated, ${data.removed.length} removed`;
+    return apiSuccess(dryRun ? `Planogram is valid (${summary})` : `Planogram imported (${summary})`, data);
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Planogram API
+ * GET /api/planogram - store layout for the floor map
+ */
+
+import { NextResponse } from 'next/server';
+import { apiError } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { loadPlanogram } from '../../../lib/server/planogram';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = await loadPlanogram(auth.store.id);
+  if (!result.isValid) {
+    return apiError(500, 'Planogram file is invalid', result.errors);
+  }
+  return NextResponse.json(result.value);
+}
@@ -0,0 +1,16 @@
+/**
+ * Rescan Dispatch API
+ * POST /api/rescans/:id/dispatch { droneId?, note? } - a drone picked up the task
+ */
+
+import { handleRescanTransition } from '../../../../../lib/server/rescanActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleRescanTransition(request, id, 'dispatched');
+}
@@ -0,0 +1,16 @@
+/**
+ * Rescan Failure API
+ * POST /api/rescans/:id/fail { droneId?, note? } - the drone could not scan the shelf
+ */
+
+import { handleRescanTransition } from '../../../../../lib/server/rescanActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleRescanTransition(request, id, 'failed');
+}
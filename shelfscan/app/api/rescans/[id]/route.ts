@@ -0,0 +1,29 @@
+/**
+ * Rescan Task API
+ * GET /api/rescans/:id - a single rescan task
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { expireRescanTasks } from '../../../../lib/server/rescanQueue';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  await expireRescanTasks(auth.store.id);
+
+  const task = await getRepository(auth.store.id).getRescanTask(id);
+  if (!task) {
+    return apiError(404, `Rescan task ${id} not found`);
+  }
+  return NextResponse.json(task);
+}
@@ -0,0 +1,16 @@
+/**
+ * Rescan Start API
+ * POST /api/rescans/:id/start { droneId?, note? } - the drone is scanning the shelf
+ */
+
+import { handleRescanTransition } from '../../../../../lib/server/rescanActions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleRescanTransition(request, id, 'scanning');
+}
@@ -0,0 +1,75 @@
+/**
+ * Rescan Tasks API
+ * GET  /api/rescans?shelf=<id>&status=<status|pending>&limit=<n> - tasks, newest first
+ * POST /api/rescans { shelf } - queue a drone rescan of a shelf
+ *
+ * Drone controllers poll `GET /api/rescans?status=queued` (or subscribe to
+ * `rescan` messages on `/api/ws`), report progress through the task routes
+ * and complete a task by submitting its scan with `taskId` set.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { expireRescanTasks, queueRescan } from '../../../lib/server/rescanQueue';
+import { validateRescanRequestInput } from '../../../lib/validation';
+import { PENDING_RESCAN_STATUSES, RESCAN_STATUS_LABELS } from '../../../lib/rescanTasks';
+import { RescanTaskStatus } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const shelf = searchParams.get('shelf');
+  const status = searchParams.get('status');
+  const limitParam = searchParams.get('limit');
+
+  let statuses: RescanTaskStatus[] | null = null;
+  if (status === 'pending') {
+    statuses = PENDING_RESCAN_STATUSES;
+  } else if (status !== null) {
+    if (!Object.hasOwn(RESCAN_STATUS_LABELS, status)) {
+      return apiError(400, '`status` must be a rescan task status or `pending`');
+    }
+    statuses = [status as RescanTaskStatus];
+  }
+
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return apiError(400, '`limit` must be a positive integer');
+  }
+
+  await expireRescanTasks(auth.store.id);
+  const tasks = (await getRepository(auth.store.id).listRescanTasks()).filter(task =>
+    (shelf === null || task.shelf === shelf) &&
+    (statuses === null || statuses.includes(task.status))
+  );
+
+  return NextResponse.json(tasks.slice(0, limit));
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'request-rescans');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateRescanRequestInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid rescan request', result.errors);
+  }
+
+  const { shelf } = result.value;
+  if (!(await getRepository(auth.store.id).getShelf(shelf))) {
+    return apiError(404, `Shelf ${shelf} not found`);
+  }
+
+  const { task, created } = await queueRescan(auth.store.id, shelf, auth.user.username);
+  return created
+    ? apiSuccess(`Rescan of shelf ${shelf} queued`, task, { shelfId: shelf, status: 201 })
+    : apiSuccess(`Rescan of shelf ${shelf} is already ${task.status}`, task, { shelfId: shelf });
+}
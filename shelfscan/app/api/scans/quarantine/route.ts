@@ -0,0 +1,28 @@
+/**
+ * Scan Quarantine API
+ * GET /api/scans/quarantine?limit=<n> - rejected scan payloads, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return apiError(400, '`limit` must be a positive integer');
+  }
+
+  const quarantined = await getRepository(auth.store.id).listQuarantinedScans(limit);
+  return NextResponse.json(quarantined);
+}
@@ -0,0 +1,99 @@
+/**
+ * Scan API
+ * GET  /api/scans?since=<cursor>&limit=<n>
+ * POST /api/scans - ingest a drone `ScanUpdate`
+ *
+ * GET returns every scan recorded after `since`, oldest first. Omitting
+ * `since` returns no scans, only the current cursor, so clients can start
+ * tailing.
+ *
+ * POST is idempotent per `scanId`: resubmitting a recorded scan returns the
+ * original record. Scans older than the shelf's `lastScanned` are ignored
+ * (409) and invalid payloads are quarantined (422) with their errors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { ingestScan } from '../../../lib/server/scanIngestion';
+import { ScanHistoryResponse } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 500;
+
+const parseNonNegativeInteger = (value: string | null): number | null => {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const sinceParam = searchParams.get('since');
+  const limitParam = searchParams.get('limit');
+
+  const repository = getRepository(auth.store.id);
+
+  if (sinceParam === null) {
+    const cursor = await repository.getLatestScanCursor();
+    return NextResponse.json<ScanHistoryResponse>({ scans: [], cursor });
+  }
+
+  const since = parseNonNegativeInteger(sinceParam);
+  if (since === null) {
+    return apiError(400, '`since` must be a non-negative integer cursor');
+  }
+
+  const limit = limitParam === null ? DEFAULT_LIMIT : parseNonNegativeInteger(limitParam);
+  if (limit === null || limit === 0) {
+    return apiError(400, '`limit` must be a positive integer');
+  }
+
+  const scans = await repository.listScansSince(since, limit);
+  const cursor = scans.length === limit
+    ? scans[scans.length - 1].seq
+    : await repository.getLatestScanCursor();
+
+  return NextResponse.json<ScanHistoryResponse>({ scans, cursor });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'submit-scans');
+  if (!auth.isAuthorized) return auth.response;
+
+  const payload = await readJsonBody(request);
+  if (payload === undefined) {
+    return apiError(400, 'Request body must be valid JSON');
+  }
+
+  const result = await ingestScan(payload, auth.store.id);
+  switch (result.status) {
+    case 'accepted':
+      return apiSuccess(
+        `Scan of shelf ${result.record.update.shelf} recorded`,
+        { record: result.record, alertChanges: result.alertChanges, rescanTask: result.rescanTask },
+        { shelfId: result.record.update.shelf, status: 201 }
+      );
+    case 'duplicate':
+      return apiSuccess(
+        `Scan ${result.record.update.scanId} was already recorded`,
+        { record: result.record },
+        { shelfId: result.record.update.shelf }
+      );
+    case 'stale':
+      return apiError(
+        409,
+        `Scan is older than shelf ${result.shelfId} (last scanned ${result.lastScanned}); ignored`
+      );
+    case 'quarantined':
+      return apiError(
+        422,
+        `Invalid scan quarantined as ${result.quarantine.id}`,
+        result.quarantine.errors
+      );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Settings API
+ * GET /api/settings - store settings (defaults until first saved)
+ * PUT /api/settings - replace the settings (managers only)
+ *
+ * The body is the full settings object as returned by GET; `updatedAt` and
+ * `updatedBy` are stamped by the server.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateSettings } from '../../../lib/validation';
+import { StoreSettings } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  return NextResponse.json<StoreSettings>(await getRepository(auth.store.id).getSettings());
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, 'manage-settings');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateSettings(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid settings', result.errors);
+  }
+
+  const saved = await getRepository(auth.store.id).saveSettings({
+    ...result.value,
+    updatedAt: new Date().toISOString(),
+    updatedBy: auth.user.username
+  });
+  return apiSuccess('Settings saved', saved);
+}
@@ -0,0 +1,87 @@
+/**
+ * Shelf Product API
+ * PATCH  /api/shelves/:id/products/:sku - update count and/or threshold
+ * DELETE /api/shelves/:id/products/:sku - remove the product (resolving its alerts)
+ *
+ * `:sku` is the URL-encoded catalog SKU. Associates may correct a count;
+ * changing a threshold needs shelf editing rights and is recorded in the
+ * threshold audit trail.
+ */
+
+import { getRepository } from '../../../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../../../lib/server/apiResponses';
+import { authorize } from '../../../../../../lib/server/authorize';
+import { validateProduct } from '../../../../../../lib/validation';
+import { withDerivedStatus } from '../../../../../../lib/inventory';
+import { commitShelfUpdate } from '../../../../../../lib/server/shelfUpdates';
+import { createThresholdChange } from '../../../../../../lib/thresholds';
+import { serializeStoreWrites } from '../../../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string; sku: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id, sku } = await params;
+  const body = await readJsonBody(request);
+
+  const changesThreshold = typeof body === 'object' && body !== null && 'threshold' in body;
+  const auth = await authorize(request, changesThreshold ? 'edit-shelves' : 'restock');
+  if (!auth.isAuthorized) return auth.response;
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const shelf = await repository.getShelf(id);
+    const existing = shelf?.items.find(item => item.sku === sku);
+    if (!shelf || !existing) {
+      return apiError(404, `Product ${sku} is not on shelf ${id}`);
+    }
+
+    // Validate the merged product so partial bodies are checked in full context
+    const result = validateProduct(
+      body && typeof body === 'object' && !Array.isArray(body) ? { ...existing, ...body } : body
+    );
+    if (!result.isValid) {
+      return apiError(400, 'Invalid product update', result.errors);
+    }
+    if (result.value.sku !== sku) {
+      return apiError(400, 'SKU cannot be changed; remove and re-add the product instead');
+    }
+    if (result.value.product !== existing.product) {
+      return apiError(400, 'Product names come from the catalog; rename it there instead');
+    }
+
+    const now = new Date().toISOString();
+    const thresholdChange = createThresholdChange(shelf, sku, result.value.threshold, { by: auth.user.username, at: now });
+    const { shelf: updated } = await commitShelfUpdate(withDerivedStatus({
+      ...shelf,
+      items: shelf.items.map(item => (item.sku === sku ? result.value : item))
+    }), now);
+    if (thresholdChange) await repository.appendThresholdChanges([thresholdChange]);
+
+    return apiSuccess(`Updated ${existing.product} on shelf ${id}`, updated, { shelfId: id });
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id, sku } = await params;
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+
+    const shelf = await repository.getShelf(id);
+    const existing = shelf?.items.find(item => item.sku === sku);
+    if (!shelf || !existing) {
+      return apiError(404, `Product ${sku} is not on shelf ${id}`);
+    }
+
+    const { shelf: updated } = await commitShelfUpdate(withDerivedStatus({
+      ...shelf,
+      items: shelf.items.filter(item => item.sku !== sku)
+    }), new Date().toISOString());
+
+    return apiSuccess(`Removed ${existing.product} from shelf ${id}`, updated, { shelfId: id });
+  });
+}
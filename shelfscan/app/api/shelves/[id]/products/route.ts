@@ -0,0 +1,77 @@
+/**
+ * Shelf Products API
+ * GET  /api/shelves/:id/products - products on a shelf
+ * POST /api/shelves/:id/products { sku, count, threshold? } - add a catalog product to a shelf
+ *
+ * Without a threshold the product gets its category's default from the
+ * store settings, else the store-wide default.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../../lib/server/apiResponses';
+import { authorize } from '../../../../../lib/server/authorize';
+import { validateProduct } from '../../../../../lib/validation';
+import { withDerivedStatus } from '../../../../../lib/inventory';
+import { commitShelfUpdate } from '../../../../../lib/server/shelfUpdates';
+import { getDefaultThreshold } from '../../../../../lib/settings';
+import { serializeStoreWrites } from '../../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const shelf = await getRepository(auth.store.id).getShelf(id);
+  if (!shelf) {
+    return apiError(404, `Shelf ${id} not found`);
+  }
+  return NextResponse.json(shelf.items);
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  const repository = getRepository(auth.store.id);
+
+  // Names come from the catalog; the SKU stands in for it until looked up
+  const fields = body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : null;
+  const entry = typeof fields?.sku === 'string' ? await repository.getCatalogProduct(fields.sku.trim()) : null;
+  const result = validateProduct(fields ? {
+    ...fields,
+    product: fields.sku,
+    threshold: fields.threshold ?? getDefaultThreshold(await repository.getSettings(), entry?.category)
+  } : body);
+  if (!result.isValid) {
+    return apiError(400, 'Invalid product', result.errors);
+  }
+  if (!entry) {
+    return apiError(404, `SKU ${result.value.sku} is not in the catalog`);
+  }
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const shelf = await repository.getShelf(id);
+    if (!shelf) {
+      return apiError(404, `Shelf ${id} not found`);
+    }
+
+    const product = { ...result.value, product: entry.name };
+    if (shelf.items.some(item => item.sku === product.sku)) {
+      return apiError(409, `Product ${product.product} is already on shelf ${id}`);
+    }
+
+    const { shelf: updated } = await commitShelfUpdate(withDerivedStatus({
+      ...shelf,
+      items: [...shelf.items, product]
+    }), new Date().toISOString());
+
+    return apiSuccess(`Added ${product.product} to shelf ${id}`, updated, { shelfId: id, status: 201 });
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Shelf Restock API
+ * GET  /api/shelves/:id/restock?sku=<sku> - restock history, newest first
+ * POST /api/shelves/:id/restock { sku, quantity | fillToPar } - record a staff restock
+ *   (stamped with server time; the event returned carries the quantity added)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../../lib/server/apiResponses';
+import { authorize } from '../../../../../lib/server/authorize';
+import { commitShelfUpdate } from '../../../../../lib/server/shelfUpdates';
+import { validateRestockInput } from '../../../../../lib/validation';
+import { applyRestock, createRestockEvent, getParLevel, resolveRestockedAlerts } from '../../../../../lib/inventory';
+import { serializeStoreWrites } from '../../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const repository = getRepository(auth.store.id);
+
+  if (!(await repository.getShelf(id))) {
+    return apiError(404, `Shelf ${id} not found`);
+  }
+
+  const sku = request.nextUrl.searchParams.get('sku') ?? undefined;
+  return NextResponse.json(await repository.listRestocks({ shelf: id, sku }));
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'restock');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const result = validateRestockInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid restock', result.errors);
+  }
+
+  const { sku, amount } = result.value;
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const shelf = await repository.getShelf(id);
+    if (!shelf) {
+      return apiError(404, `Shelf ${id} not found`);
+    }
+
+    const restock = createRestockEvent(shelf, sku, amount, { by: auth.user.username });
+    if (!restock) {
+      return apiError(404, `Product ${sku} is not on shelf ${id}`);
+    }
+    if (restock.quantity === 0) {
+      const product = shelf.items.find(item => item.sku === sku)!;
+      return apiError(409, `${product.product} on shelf ${id} is already at par (${getParLevel(product)} units)`);
+    }
+
+    // Mirrors the MARK_RESTOCKED reducer: the restocker resolves the product's
+    // alerts only if it is back at threshold, then the engine handles the rest
+    const restocked = applyRestock(shelf, restock);
+    const alerts = await repository.listAlerts();
+    const resolved = resolveRestockedAlerts(alerts, restocked, restock);
+    for (const alert of resolved.filter((alert, index) => alert !== alerts[index])) {
+      await repository.saveAlert(alert);
+    }
+    await commitShelfUpdate(restocked, restock.timestamp);
+
+    const saved = await repository.appendRestock(restock);
+    return apiSuccess(
+      `Restocked ${saved.quantity} units of ${saved.product} on shelf ${id}`,
+      saved,
+      { shelfId: id, status: 201 }
+    );
+  });
+}
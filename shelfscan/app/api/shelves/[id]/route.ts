@@ -0,0 +1,144 @@
+/**
+ * Shelf API
+ * GET    /api/shelves/:id - a single shelf
+ * PUT    /api/shelves/:id - replace aisle, products and metadata
+ * PATCH  /api/shelves/:id - update only the fields provided
+ * DELETE /api/shelves/:id - remove the shelf and its alerts
+ *
+ * The shelf ID in the URL is authoritative; a body `id` must match it.
+ * Products must be in the catalog; their names are taken from it. Changed
+ * thresholds are recorded in the threshold audit trail.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { validateShelfInput } from '../../../../lib/validation';
+import { withDerivedStatus } from '../../../../lib/inventory';
+import { indexCatalog, withCatalogNames } from '../../../../lib/catalog';
+import { commitShelfUpdate } from '../../../../lib/server/shelfUpdates';
+import { createThresholdChanges } from '../../../../lib/thresholds';
+import { serializeStoreWrites } from '../../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const shelf = await getRepository(auth.store.id).getShelf(id);
+  if (!shelf) {
+    return apiError(404, `Shelf ${id} not found`);
+  }
+  return NextResponse.json(shelf);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  const result = validateShelfInput(
+    body && typeof body === 'object' && !Array.isArray(body) ? { id, ...body } : body
+  );
+  if (!result.isValid) {
+    return apiError(400, 'Invalid shelf', result.errors);
+  }
+  if (result.value.id !== id) {
+    return apiError(400, `Body id ${result.value.id} does not match shelf ${id}`);
+  }
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const existing = await repository.getShelf(id);
+    if (!existing) {
+      return apiError(404, `Shelf ${id} not found`);
+    }
+
+    const { items, unknownSkus } = withCatalogNames(result.value.items, indexCatalog(await repository.listCatalog()));
+    if (unknownSkus.length > 0) {
+      return apiError(400, 'Invalid shelf', unknownSkus.map(sku => `SKU ${sku} is not in the catalog`));
+    }
+
+    const now = new Date().toISOString();
+    const thresholdChanges = createThresholdChanges(existing, items, { by: auth.user.username, at: now });
+    const { shelf } = await commitShelfUpdate(withDerivedStatus({
+      ...result.value,
+      storeId: existing.storeId,
+      items,
+      status: existing.status,
+      lastScanned: result.value.lastScanned ?? existing.lastScanned,
+      ...(existing.depletionRates && { depletionRates: existing.depletionRates })
+    }), now);
+    if (thresholdChanges.length > 0) await repository.appendThresholdChanges(thresholdChanges);
+
+    return apiSuccess(`Shelf ${id} updated`, shelf, { shelfId: id });
+  });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  const result = validateShelfInput(await readJsonBody(request), { partial: true });
+  if (!result.isValid) {
+    return apiError(400, 'Invalid shelf update', result.errors);
+  }
+  if (result.value.id !== undefined && result.value.id !== id) {
+    return apiError(400, `Body id ${result.value.id} does not match shelf ${id}`);
+  }
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const existing = await repository.getShelf(id);
+    if (!existing) {
+      return apiError(404, `Shelf ${id} not found`);
+    }
+
+    const update = { ...result.value };
+    if (update.items) {
+      const { items, unknownSkus } = withCatalogNames(update.items, indexCatalog(await repository.listCatalog()));
+      if (unknownSkus.length > 0) {
+        return apiError(400, 'Invalid shelf update', unknownSkus.map(sku => `SKU ${sku} is not in the catalog`));
+      }
+      update.items = items;
+    }
+
+    const now = new Date().toISOString();
+    const thresholdChanges = update.items
+      ? createThresholdChanges(existing, update.items, { by: auth.user.username, at: now })
+      : [];
+    const { shelf } = await commitShelfUpdate(withDerivedStatus({ ...existing, ...update, id }), now);
+    if (thresholdChanges.length > 0) await repository.appendThresholdChanges(thresholdChanges);
+    return apiSuccess(`Shelf ${id} updated`, shelf, { shelfId: id });
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, 'delete-records');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+
+    const shelf = await repository.getShelf(id);
+    if (!shelf) {
+      return apiError(404, `Shelf ${id} not found`);
+    }
+
+    await repository.deleteShelf(id);
+    const alerts = await repository.listAlerts();
+    await Promise.all(
+      alerts.filter(alert => alert.shelf === id).map(alert => repository.deleteAlert(alert.id))
+    );
+
+    return apiSuccess(`Shelf ${id} deleted`, shelf, { shelfId: id });
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Shelves API
+ * GET  /api/shelves - all persisted shelves with their products
+ * POST /api/shelves - create a shelf; status is derived from its products
+ *
+ * Products must be in the catalog; their names are taken from it.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateShelfInput } from '../../../lib/validation';
+import { withDerivedStatus } from '../../../lib/inventory';
+import { indexCatalog, withCatalogNames } from '../../../lib/catalog';
+import { commitShelfUpdate } from '../../../lib/server/shelfUpdates';
+import { serializeStoreWrites } from '../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const shelves = await getRepository(auth.store.id).listShelves();
+  return NextResponse.json(shelves);
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateShelfInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid shelf', result.errors);
+  }
+
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const input = result.value;
+    if (await repository.getShelf(input.id)) {
+      return apiError(409, `Shelf ${input.id} already exists`);
+    }
+
+    const { items, unknownSkus } = withCatalogNames(input.items, indexCatalog(await repository.listCatalog()));
+    if (unknownSkus.length > 0) {
+      return apiError(400, 'Invalid shelf', unknownSkus.map(sku => `SKU ${sku} is not in the catalog`));
+    }
+
+    const { shelf } = await commitShelfUpdate(withDerivedStatus({
+      ...input,
+      storeId: auth.store.id,
+      items,
+      status: 'ok',
+      lastScanned: input.lastScanned ?? new Date().toISOString()
+    }));
+
+    return apiSuccess(`Shelf ${shelf.id} created`, shelf, { shelfId: shelf.id, status: 201 });
+  });
+}
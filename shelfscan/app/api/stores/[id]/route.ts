@@ -0,0 +1,39 @@
+/**
+ * Store API
+ * PATCH /api/stores/:id - rename a store, or move it to another region or
+ * time zone (managers only)
+ */
+
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import { validateStore } from '../../../../lib/validation';
+import { canAccessStore } from '../../../../lib/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'manage-settings');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { id } = await params;
+  if (!canAccessStore(auth.user, id)) {
+    return apiError(403, `This account cannot access store ${id}`);
+  }
+  const result = validateStore(await readJsonBody(request), { partial: true });
+  if (!result.isValid) {
+    return apiError(400, 'Invalid store update', result.errors);
+  }
+
+  const repository = getRepository();
+  const existing = await repository.getStore(id);
+  if (!existing) {
+    return apiError(404, `Store ${id} not found`);
+  }
+
+  const store = await repository.saveStore({ ...existing, ...result.value, id });
+  return apiSuccess(`Store ${store.name} updated`, store);
+}
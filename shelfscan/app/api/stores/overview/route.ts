@@ -0,0 +1,28 @@
+/**
+ * Regional Overview API
+ * GET /api/stores/overview - ok/low/empty shelf counts and active alerts for
+ * every store the user may work in, rolled up by region and across the chain
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { authorize } from '../../../../lib/server/authorize';
+import { getRegionalOverview, summarizeStore } from '../../../../lib/stores';
+import { canAccessStore } from '../../../../lib/roles';
+import { RegionalOverview, StoreSummary } from '../../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const summaries: StoreSummary[] = [];
+  const stores = (await getRepository().listStores()).filter(store => canAccessStore(auth.user, store.id));
+  for (const store of stores) {
+    const repository = getRepository(store.id);
+    summaries.push(summarizeStore(store, await repository.listShelves(), await repository.listAlerts()));
+  }
+
+  return NextResponse.json<RegionalOverview>(getRegionalOverview(summaries));
+}
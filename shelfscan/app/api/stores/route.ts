@@ -0,0 +1,47 @@
+/**
+ * Stores API
+ * GET  /api/stores - the stores the user may work in, sorted by name
+ * POST /api/stores - open a new store (managers with access to every store)
+ *
+ * A new store starts with no shelves and the default settings.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { validateStore } from '../../../lib/validation';
+import { canAccessEveryStore, canAccessStore } from '../../../lib/roles';
+import { Store } from '../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const stores = await getRepository().listStores();
+  return NextResponse.json<Store[]>(stores.filter(store => canAccessStore(auth.user, store.id)));
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'manage-settings');
+  if (!auth.isAuthorized) return auth.response;
+  // An account limited to some stores couldn't reach the one it opened
+  if (!canAccessEveryStore(auth.user)) {
+    return apiError(403, 'Only accounts with access to every store can open stores');
+  }
+
+  const result = validateStore(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid store', result.errors);
+  }
+
+  const repository = getRepository();
+  if (await repository.getStore(result.value.id)) {
+    return apiError(409, `Store ${result.value.id} already exists`);
+  }
+
+  const store = await repository.saveStore(result.value);
+  return apiSuccess(`Store ${store.name} created`, store, { status: 201 });
+}
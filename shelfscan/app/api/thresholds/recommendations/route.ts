@@ -0,0 +1,52 @@
+/**
+ * Threshold Recommendations API
+ * GET /api/thresholds/recommendations?shelf=<id>&sku=<sku>&aisle=<aisle>&category=<category>&serviceLevel=<level>
+ *
+ * Suggested threshold for every product slot in scope with a learned
+ * sell-through rate, at `serviceLevel` (default 0.95). Accept them with
+ * `POST /api/thresholds`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../../lib/server/repository';
+import { apiError } from '../../../../lib/server/apiResponses';
+import { authorize } from '../../../../lib/server/authorize';
+import {
+  DEFAULT_SERVICE_LEVEL,
+  getThresholdRecommendations,
+  isServiceLevel,
+  SERVICE_LEVELS
+} from '../../../../lib/thresholds';
+import { ThresholdRecommendation } from '../../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const levelParam = searchParams.get('serviceLevel');
+  const serviceLevel = levelParam === null ? DEFAULT_SERVICE_LEVEL : Number(levelParam);
+  if (!isServiceLevel(serviceLevel)) {
+    return apiError(400, `\`serviceLevel\` must be one of: ${SERVICE_LEVELS.join(', ')}`);
+  }
+
+  const repository = getRepository(auth.store.id);
+  const [shelves, alerts, catalog] = await Promise.all([
+    repository.listShelves(),
+    repository.listAlerts(),
+    repository.listCatalog()
+  ]);
+
+  return NextResponse.json<ThresholdRecommendation[]>(getThresholdRecommendations(
+    { shelves, alerts, catalog },
+    {
+      shelf: searchParams.get('shelf') ?? undefined,
+      sku: searchParams.get('sku') ?? undefined,
+      aisle: searchParams.get('aisle') ?? undefined,
+      category: searchParams.get('category') ?? undefined
+    },
+    serviceLevel
+  ));
+}
@@ -0,0 +1,89 @@
+/**
+ * Thresholds API
+ * GET  /api/thresholds?shelf=<id>&sku=<sku> - threshold change audit trail, newest first
+ * POST /api/thresholds { shelf?, aisle?, category?, sku?, serviceLevel? } - accept recommendations
+ *
+ * POST sets every product slot in scope to its recommended threshold (see
+ * `GET /api/thresholds/recommendations`), recording each change with the
+ * basis of its recommendation. Slots already at their recommendation are
+ * left alone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { apiError, apiSuccess, readJsonBody } from '../../../lib/server/apiResponses';
+import { authorize } from '../../../lib/server/authorize';
+import { commitShelfUpdate } from '../../../lib/server/shelfUpdates';
+import { validateThresholdApplyInput } from '../../../lib/validation';
+import {
+  applyThresholdChanges,
+  createThresholdChange,
+  DEFAULT_SERVICE_LEVEL,
+  getThresholdRecommendations
+} from '../../../lib/thresholds';
+import { ThresholdChange } from '../../../lib/types';
+import { serializeStoreWrites } from '../../../lib/server/storeWrites';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'view');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  return NextResponse.json<ThresholdChange[]>(await getRepository(auth.store.id).listThresholdChanges({
+    shelf: searchParams.get('shelf') ?? undefined,
+    sku: searchParams.get('sku') ?? undefined
+  }));
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, 'edit-shelves');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateThresholdApplyInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid threshold update', result.errors);
+  }
+
+  const { serviceLevel = DEFAULT_SERVICE_LEVEL, ...scope } = result.value;
+  return serializeStoreWrites(auth.store.id, async () => {
+    const repository = getRepository(auth.store.id);
+    const [shelves, alerts, catalog] = await Promise.all([
+      repository.listShelves(),
+      repository.listAlerts(),
+      repository.listCatalog()
+    ]);
+    if (scope.shelf !== undefined && !shelves.some(shelf => shelf.id === scope.shelf)) {
+      return apiError(404, `Shelf ${scope.shelf} not found`);
+    }
+
+    const now = new Date().toISOString();
+    const recommendations = getThresholdRecommendations({ shelves, alerts, catalog }, scope, serviceLevel);
+    const changes = recommendations.flatMap(recommendation => {
+      const shelf = shelves.find(entry => entry.id === recommendation.shelf)!;
+      const change = createThresholdChange(
+        shelf,
+        recommendation.sku,
+        recommendation.recommendedThreshold,
+        { by: auth.user.username, at: now },
+        recommendation
+      );
+      return change ? [change] : [];
+    });
+    if (changes.length === 0) {
+      return apiSuccess('Every threshold in scope already matches its recommendation', changes);
+    }
+
+    for (const shelf of shelves.filter(entry => changes.some(change => change.shelf === entry.id))) {
+      await commitShelfUpdate(applyThresholdChanges(shelf, changes), now);
+    }
+    const saved = await repository.appendThresholdChanges(changes);
+
+    return apiSuccess(
+      `Updated ${saved.length} threshold${saved.length === 1 ? '' : 's'}`,
+      saved,
+      { ...(scope.shelf !== undefined && { shelfId: scope.shelf }), status: 201 }
+    );
+  });
+}
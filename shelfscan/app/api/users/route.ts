@@ -0,0 +1,26 @@
+/**
+ * Users API
+ * GET /api/users - staff accounts, without credentials (managers)
+ *
+ * Managers limited to some stores see only the accounts that can work in
+ * one of them.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepository } from '../../../lib/server/repository';
+import { authorize } from '../../../lib/server/authorize';
+import { toUser } from '../../../lib/server/auth';
+import { canAccessStore } from '../../../lib/roles';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, 'manage-staff');
+  if (!auth.isAuthorized) return auth.response;
+
+  const { stores } = auth.user;
+  const users = (await getRepository().listUsers()).map(toUser);
+  return NextResponse.json(
+    stores ? users.filter(user => stores.some(storeId => canAccessStore(user, storeId))) : users
+  );
+}
@@ -0,0 +1,448 @@
+'use client';
+
+/**
+ * Inventory Page
+ *
+ * Store-wide stock by product: each SKU's units summed over every shelf it
+ * is on, graded against its thresholds, with a drill-down to the shelves
+ * themselves. The Catalog tab lists every product the store carries;
+ * managers add, edit and remove catalog products there. The Thresholds tab
+ * suggests thresholds from observed sell-through for managers to accept.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, BookOpen, ChevronDown, ChevronRight, Layers, Lightbulb, PackagePlus, Search } from 'lucide-react';
+import Link from 'next/link';
+import {
+  useCurrentUser,
+  useRescanTasks,
+  useShelves,
+  useStaffActions
+} from '../../lib/context/AppContext';
+import {
+  aggregateInventory,
+  getInventoryStats,
+  getLocationStatus,
+  InventoryFilterOptions,
+  processInventory
+} from '../../lib/inventoryUtils';
+import { getCatalogCategories } from '../../lib/catalog';
+import { canAccessEveryStore } from '../../lib/roles';
+import { formatRelativeTime } from '../../lib/alertUtils';
+import { CatalogProduct, ProductInventory, RestockAmount, StockCoverageLevel } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
+import CatalogManager from '../../components/CatalogManager';
+import ThresholdRecommendations from '../../components/ThresholdRecommendations';
+import ShelfDetailModal from '../../components/ShelfDetailModal';
+import RestockDialog from '../../components/RestockDialog';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const COVERAGE_LEVELS: { level: StockCoverageLevel; label: string; style: string; bar: string }[] = [
+  { level: 'out', label: 'Out of stock', style: 'bg-red-950/50 text-red-400 border-red-800/50', bar: 'bg-red-500' },
+  { level: 'low', label: 'Below threshold', style: 'bg-amber-950/50 text-amber-400 border-amber-800/50', bar: 'bg-amber-500' },
+  { level: 'ok', label: 'Above threshold', style: 'bg-blue-950/50 text-blue-400 border-blue-800/50', bar: 'bg-blue-500' },
+  { level: 'par', label: 'At par', style: 'bg-emerald-950/30 text-emerald-400 border-emerald-800/50', bar: 'bg-emerald-500' }
+];
+
+const COVERAGE_STYLES = new Map(COVERAGE_LEVELS.map(entry => [entry.level, entry]));
+
+const LOCATION_STATUS_STYLES = {
+  ok: 'bg-emerald-950/30 text-emerald-400 border-emerald-800/50',
+  low: 'bg-amber-950/50 text-amber-400 border-amber-800/50',
+  empty: 'bg-red-950/50 text-red-400 border-red-800/50'
+};
+
+type StockFilters = Required<Pick<InventoryFilterOptions, 'search' | 'category' | 'sortBy' | 'emptyLocationsOnly'>> & {
+  coverage: StockCoverageLevel[];
+};
+
+const DEFAULT_FILTERS: StockFilters = {
+  search: '',
+  category: 'all',
+  coverage: [],
+  emptyLocationsOnly: false,
+  sortBy: 'coverage'
+};
+
+// ============================================================================
+// PRODUCT ROW COMPONENT
+// ============================================================================
+
+interface ProductRowProps {
+  item: ProductInventory;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onOpenShelf: (shelfId: string) => void;
+  /** Omitted when the signed-in user can't restock */
+  onRestock?: (shelfId: string, sku: string) => void;
+}
+
+const ProductRow: React.FC<ProductRowProps> = ({ item, isExpanded, onToggle, onOpenShelf, onRestock }) => {
+  const coverage = COVERAGE_STYLES.get(item.coverageLevel)!;
+
+  return (
+    <>
+      <tr
+        onClick={onToggle}
+        className="border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/30 transition-colors"
+        aria-expanded={isExpanded}
+      >
+        <td className="px-4 py-3">
+          <div className="flex items-center gap-2">
+            {isExpanded
+              ? <ChevronDown size={16} className="text-slate-400 flex-shrink-0" />
+              : <ChevronRight size={16} className="text-slate-400 flex-shrink-0" />}
+            <div>
+              <div className="font-medium text-slate-100">{item.product}</div>
+              <div className="font-mono text-xs text-slate-500">{item.sku}</div>
+            </div>
+          </div>
+        </td>
+        <td className="px-4 py-3 text-slate-300">{item.category ?? '—'}</td>
+        <td className="px-4 py-3 text-right text-slate-100 font-semibold">
+          {item.totalCount}
+          <span className="text-slate-500 font-normal"> / {item.totalThreshold}</span>
+        </td>
+        <td className="px-4 py-3">
+          <div className="flex items-center gap-3">
+            <div className="w-24 h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${coverage.bar}`}
+                style={{ width: `${Math.min(100, (item.coverage / 2) * 100)}%` }}
+              />
+            </div>
+            <span className={`px-2 py-0.5 rounded border text-xs font-medium ${coverage.style}`}>
+              {Math.round(item.coverage * 100)}%
+            </span>
+          </div>
+        </td>
+        <td className="px-4 py-3">
+          <div className="flex flex-wrap gap-1">
+            {item.locations.map(location => (
+              <span
+                key={location.shelf}
+                className={`px-1.5 py-0.5 rounded border text-xs font-mono ${LOCATION_STATUS_STYLES[getLocationStatus(location)]}`}
+              >
+                {location.shelf}
+              </span>
+            ))}
+          </div>
+        </td>
+      </tr>
+
+      {/* DRILL-DOWN */}
+      {isExpanded && (
+        <tr className="border-b border-slate-800/50 bg-slate-900/80">
+          <td colSpan={5} className="px-4 py-3">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 pr-4 font-medium">Shelf</th>
+                  <th className="py-1 pr-4 font-medium">Aisle</th>
+                  <th className="py-1 pr-4 font-medium text-right">Count</th>
+                  <th className="py-1 pr-4 font-medium text-right">Threshold</th>
+                  <th className="py-1 pr-4 font-medium">Status</th>
+                  <th className="py-1 pr-4 font-medium">Last scanned</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {item.locations.map(location => {
+                  const status = getLocationStatus(location);
+                  return (
+                    <tr key={location.shelf} className="text-slate-300">
+                      <td className="py-1.5 pr-4">
+                        <button
+                          onClick={() => onOpenShelf(location.shelf)}
+                          className="font-mono text-blue-400 hover:text-blue-300 underline-offset-2 hover:underline"
+                        >
+                          {location.shelf}
+                        </button>
+                      </td>
+                      <td className="py-1.5 pr-4">{location.aisle}</td>
+                      <td className="py-1.5 pr-4 text-right">{location.count}</td>
+                      <td className="py-1.5 pr-4 text-right">{location.threshold}</td>
+                      <td className="py-1.5 pr-4">
+                        <span className={`px-1.5 py-0.5 rounded border ${LOCATION_STATUS_STYLES[status]}`}>{status}</span>
+                      </td>
+                      <td className="py-1.5 pr-4 text-slate-400">{formatRelativeTime(location.lastScanned)}</td>
+                      <td className="py-1.5 text-right">
+                        {onRestock && status !== 'ok' && (
+                          <button
+                            onClick={() => onRestock(location.shelf, item.sku)}
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-600/80 text-white rounded hover:bg-emerald-500 transition-colors"
+                          >
+                            <PackagePlus size={12} />
+                            Restock
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// MAIN INVENTORY PAGE COMPONENT
+// ============================================================================
+
+export default function InventoryPage() {
+  const { shelves, reloadShelves } = useShelves();
+  const { markRestocked, requestRescan, applyThresholdRecommendations } = useStaffActions();
+  const { getShelfRescanTask } = useRescanTasks();
+  const { user, can } = useCurrentUser();
+
+  const [view, setView] = useState<'stock' | 'catalog' | 'thresholds'>('stock');
+  const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
+  const [filters, setFilters] = useState<StockFilters>(DEFAULT_FILTERS);
+  const [expandedSku, setExpandedSku] = useState<string | null>(null);
+  const [selectedShelfId, setSelectedShelfId] = useState<string | null>(null);
+  const [restockTarget, setRestockTarget] = useState<{ shelfId: string; sku: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.fetchCatalog()
+      .then(setCatalog)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load catalog'));
+  }, []);
+
+  const inventory = useMemo(() => aggregateInventory(shelves, catalog), [shelves, catalog]);
+  const stats = useMemo(() => getInventoryStats(inventory), [inventory]);
+  const categories = useMemo(() => getCatalogCategories(catalog), [catalog]);
+  const visible = useMemo(
+    () => processInventory(inventory, { ...filters, coverage: filters.coverage.length > 0 ? filters.coverage : 'all' }),
+    [inventory, filters]
+  );
+
+  const selectedShelf = shelves.find(shelf => shelf.id === selectedShelfId) ?? null;
+  const restockShelf = restockTarget ? shelves.find(shelf => shelf.id === restockTarget.shelfId) : undefined;
+
+  const toggleCoverage = (level: StockCoverageLevel) => {
+    setFilters(current => ({
+      ...current,
+      coverage: current.coverage.includes(level)
+        ? current.coverage.filter(entry => entry !== level)
+        : [...current.coverage, level]
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Inventory</h1>
+                <div className="text-sm text-slate-400">
+                  {stats.units} units of {stats.products} products in {stats.locations} locations
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex gap-2" role="tablist">
+          {([
+            { id: 'stock', label: 'Stock by Product', icon: Layers },
+            { id: 'catalog', label: 'Catalog', icon: BookOpen },
+            { id: 'thresholds', label: 'Thresholds', icon: Lightbulb }
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={view === id}
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-800/50 text-slate-300 hover:bg-slate-700/50'
+              }`}
+            >
+              <Icon size={16} />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {view === 'catalog' ? (
+          <CatalogManager
+            catalog={catalog}
+            shelves={shelves}
+            onCatalogChange={setCatalog}
+            onRenamed={reloadShelves}
+            canEdit={can('edit-shelves')}
+            canRename={can('edit-shelves') && canAccessEveryStore(user)}
+            canDelete={can('delete-records') && canAccessEveryStore(user)}
+          />
+        ) : view === 'thresholds' ? (
+          <ThresholdRecommendations
+            catalog={catalog}
+            shelves={shelves}
+            onApply={can('edit-shelves') ? applyThresholdRecommendations : undefined}
+          />
+        ) : (
+          <>
+            {/* COVERAGE SUMMARY */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {COVERAGE_LEVELS.map(({ level, label, style }) => (
+                <button
+                  key={level}
+                  onClick={() => toggleCoverage(level)}
+                  aria-pressed={filters.coverage.includes(level)}
+                  className={`text-left rounded-xl border p-4 transition-all ${style} ${
+                    filters.coverage.includes(level) ? 'ring-2 ring-blue-500/60' : 'opacity-90 hover:opacity-100'
+                  }`}
+                >
+                  <div className="text-2xl font-bold">{stats.byCoverage[level]}</div>
+                  <div className="text-sm">{label}</div>
+                </button>
+              ))}
+            </div>
+
+            {/* FILTERS */}
+            <div className="flex flex-col lg:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                <input
+                  type="search"
+                  value={filters.search}
+                  onChange={(e) => setFilters(current => ({ ...current, search: e.target.value }))}
+                  placeholder="Search products, SKUs or shelves"
+                  className="w-full bg-slate-800/50 border border-slate-600/50 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-100
+                           placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+                />
+              </div>
+              <select
+                value={filters.category}
+                onChange={(e) => setFilters(current => ({ ...current, category: e.target.value }))}
+                aria-label="Filter by category"
+                className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+                         focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+              >
+                <option value="all">All categories</option>
+                {categories.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <select
+                value={filters.sortBy}
+                onChange={(e) => setFilters(current => ({ ...current, sortBy: e.target.value as StockFilters['sortBy'] }))}
+                aria-label="Sort products"
+                className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+                         focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+              >
+                <option value="coverage">Lowest coverage first</option>
+                <option value="count">Most units first</option>
+                <option value="locations">Most locations first</option>
+                <option value="product">Product name</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-slate-300 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={filters.emptyLocationsOnly}
+                  onChange={(e) => setFilters(current => ({ ...current, emptyLocationsOnly: e.target.checked }))}
+                />
+                Empty somewhere ({stats.withEmptyLocations})
+              </label>
+            </div>
+
+            {visible.length === 0 ? (
+              <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-12 text-center">
+                <Layers size={64} className="mx-auto text-slate-600 mb-6" />
+                <h3 className="text-xl font-semibold text-slate-100">
+                  {inventory.length === 0 ? 'No products on the shelves yet' : 'No products match'}
+                </h3>
+              </div>
+            ) : (
+              <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700/50 text-left text-slate-400">
+                      <th className="px-4 py-3 font-medium">Product</th>
+                      <th className="px-4 py-3 font-medium">Category</th>
+                      <th className="px-4 py-3 font-medium text-right">Units / threshold</th>
+                      <th className="px-4 py-3 font-medium">Coverage</th>
+                      <th className="px-4 py-3 font-medium">Locations</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visible.map(item => (
+                      <ProductRow
+                        key={item.sku}
+                        item={item}
+                        isExpanded={expandedSku === item.sku}
+                        onToggle={() => setExpandedSku(current => (current === item.sku ? null : item.sku))}
+                        onOpenShelf={setSelectedShelfId}
+                        onRestock={can('restock') ? (shelfId, sku) => setRestockTarget({ shelfId, sku }) : undefined}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {selectedShelf && (
+        <ShelfDetailModal
+          shelf={selectedShelf}
+          onClose={() => setSelectedShelfId(null)}
+          onMarkRestocked={can('restock') ? (shelfId, sku) => setRestockTarget({ shelfId, sku }) : undefined}
+          onRequestRescan={can('request-rescans') ? (shelfId) => requestRescan(shelfId) : undefined}
+          rescanTask={getShelfRescanTask(selectedShelf.id)}
+          onAcceptThreshold={can('edit-shelves') ? (shelfId, sku) => applyThresholdRecommendations({ shelf: shelfId, sku }) : undefined}
+        />
+      )}
+
+      {restockTarget && restockShelf && (
+        <RestockDialog
+          shelf={restockShelf}
+          sku={restockTarget.sku}
+          onConfirm={(amount: RestockAmount) => markRestocked(restockTarget.shelfId, restockTarget.sku, amount)}
+          onClose={() => setRestockTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AppProvider } from "../lib/context/AppContext";
 import StagewiseWrapper from "../components/StagewiseWrapper";
+import DesktopAlertNotifier from "../components/DesktopAlertNotifier";
 import { Analytics } from '@vercel/analytics/next';
 
 const geistSans = Geist({
@@ -37,6 +38,7 @@ export default function RootLayout({
       >
         <AppProvider>
           {children}
+          <DesktopAlertNotifier />
         </AppProvider>
         <Analytics />
         <StagewiseWrapper />
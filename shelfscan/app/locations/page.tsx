@@ -0,0 +1,379 @@
+'use client';
+
+/**
+ * Locations Page
+ *
+ * Floor map of the store drawn from the planogram file: each shelf sits where
+ * it is on the floor, colored by stock status, with a badge for its active
+ * alerts. Associates can type a shelf ID ("C4") to find it on the map, and
+ * click any shelf to open its details. Managers import and export the
+ * layout (CSV or JSON) from here.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Download, FileUp, MapPin, RotateCcw, Search } from 'lucide-react';
+import Link from 'next/link';
+import { useAlerts, useCurrentUser, useRescanTasks, useShelves, useStaffActions, useStores } from '../../lib/context/AppContext';
+import { isActiveAlert } from '../../lib/alertLifecycle';
+import { Planogram, PlanogramImportResult, PlanogramShelf, RestockAmount, Shelf } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import ShelfDetailModal from '../../components/ShelfDetailModal';
+import RestockDialog from '../../components/RestockDialog';
+import PlanogramImportDialog from '../../components/PlanogramImportDialog';
+import UserMenu from '../../components/UserMenu';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const SHELF_STATUS_STYLES: Record<Shelf['status'] | 'unknown', { fill: string; label: string }> = {
+  ok: { fill: 'bg-emerald-600/70 border-emerald-400/60 hover:bg-emerald-500/80', label: 'Good Stock' },
+  low: { fill: 'bg-amber-600/70 border-amber-400/60 hover:bg-amber-500/80', label: 'Low Stock' },
+  empty: { fill: 'bg-red-600/70 border-red-400/60 hover:bg-red-500/80', label: 'Empty/Critical' },
+  unknown: { fill: 'bg-slate-700/60 border-slate-500/50 hover:bg-slate-600/70', label: 'Not scanned' }
+};
+
+/**
+ * Position a floor rectangle as percentages of the floor plan
+ */
+const toPlacement = (
+  rect: { x: number; y: number; width: number; height: number },
+  floor: Planogram
+): React.CSSProperties => ({
+  left: `${(rect.x / floor.width) * 100}%`,
+  top: `${(rect.y / floor.height) * 100}%`,
+  width: `${(rect.width / floor.width) * 100}%`,
+  height: `${(rect.height / floor.height) * 100}%`
+});
+
+/**
+ * Shelf IDs matching a search: an exact ID wins, otherwise every ID that
+ * starts with the query (so "C" lights up the whole of aisle C)
+ */
+const findShelfIds = (query: string, shelfIds: string[]): string[] => {
+  const needle = query.trim().toUpperCase();
+  if (!needle) return [];
+  const exact = shelfIds.find(id => id.toUpperCase() === needle);
+  return exact ? [exact] : shelfIds.filter(id => id.toUpperCase().startsWith(needle));
+};
+
+// ============================================================================
+// SHELF TILE COMPONENT
+// ============================================================================
+
+interface ShelfTileProps {
+  placement: PlanogramShelf;
+  floor: Planogram;
+  shelf: Shelf | undefined;
+  alertCount: number;
+  highlighted: boolean;
+  dimmed: boolean;
+  onSelect: (shelfId: string) => void;
+}
+
+const ShelfTile: React.FC<ShelfTileProps> = ({ placement, floor, shelf, alertCount, highlighted, dimmed, onSelect }) => {
+  const style = SHELF_STATUS_STYLES[shelf?.status ?? 'unknown'];
+
+  return (
+    <button
+      onClick={() => onSelect(placement.id)}
+      disabled={!shelf}
+      style={toPlacement(placement, floor)}
+      className={`absolute flex items-center justify-center border rounded-sm text-[10px] sm:text-xs font-semibold
+                  text-white transition-all disabled:cursor-not-allowed ${style.fill}
+                  ${highlighted ? 'ring-4 ring-blue-400 z-10 animate-pulse' : ''} ${dimmed ? 'opacity-30' : ''}`}
+      title={`${placement.id}: ${style.label}${alertCount > 0 ? `, ${alertCount} active alert${alertCount === 1 ? '' : 's'}` : ''}`}
+      aria-label={`Shelf ${placement.id}, ${style.label}`}
+    >
+      {placement.id}
+      {alertCount > 0 && (
+        <span className="absolute -top-2 -right-2 bg-red-500 text-white text-[10px] rounded-full min-w-[16px] h-[16px]
+                         px-1 flex items-center justify-center font-medium shadow">
+          {alertCount}
+        </span>
+      )}
+    </button>
+  );
+};
+
+// ============================================================================
+// MAIN LOCATIONS PAGE COMPONENT
+// ============================================================================
+
+export default function LocationsPage() {
+  const { shelves, loading, reloadShelves } = useShelves();
+  const { alerts } = useAlerts();
+  const { markRestocked, requestRescan, applyThresholdRecommendations } = useStaffActions();
+  const { getShelfRescanTask } = useRescanTasks();
+  const { can } = useCurrentUser();
+  const { currentStore } = useStores();
+  const storeId = currentStore?.id;
+
+  const [planogram, setPlanogram] = useState<Planogram | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedShelfId, setSelectedShelfId] = useState<string | null>(null);
+  const [restockTarget, setRestockTarget] = useState<{ shelfId: string; sku: string } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Each store has its own layout
+  useEffect(() => {
+    if (!storeId) return;
+    setPlanogram(null);
+    setError(null);
+    api.fetchPlanogram()
+      .then(setPlanogram)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load store layout'));
+  }, [storeId]);
+
+  const shelvesById = useMemo(() => new Map(shelves.map(shelf => [shelf.id, shelf])), [shelves]);
+
+  const alertCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    alerts.filter(isActiveAlert).forEach(alert => counts.set(alert.shelf, (counts.get(alert.shelf) ?? 0) + 1));
+    return counts;
+  }, [alerts]);
+
+  const placedIds = useMemo(
+    () => planogram?.aisles.flatMap(aisle => aisle.shelves.map(shelf => shelf.id)) ?? [],
+    [planogram]
+  );
+  const unplacedShelves = shelves.filter(shelf => planogram && !placedIds.includes(shelf.id));
+  const matches = findShelfIds(query, placedIds);
+
+  const selectedShelf = selectedShelfId ? shelvesById.get(selectedShelfId) : undefined;
+  const restockShelf = restockTarget ? shelvesById.get(restockTarget.shelfId) : undefined;
+
+  const handleImported = (result: PlanogramImportResult) => {
+    setPlanogram(result.planogram);
+    setError(null);
+    setNotice(
+      `Imported ${result.planogram.store}: ${result.created.length} shelves created, ` +
+      `${result.updated.length} updated, ${result.removed.length} removed`
+    );
+    reloadShelves();
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (matches.length === 1 && shelvesById.has(matches[0])) {
+      setSelectedShelfId(matches[0]);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Store Map</h1>
+                <div className="text-sm text-slate-400 truncate">
+                  {planogram?.store ?? 'Loading layout…'}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <form onSubmit={handleSearch} className="relative w-full sm:max-w-xs">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Find shelf, e.g. C4"
+              aria-label="Find shelf"
+              className="w-full pl-9 pr-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-sm text-slate-100
+                       placeholder-slate-400 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+            />
+          </form>
+
+          <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+            {Object.entries(SHELF_STATUS_STYLES).map(([status, style]) => (
+              <span key={status} className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-sm border ${style.fill}`} />
+                {style.label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <a
+              key={format}
+              href={api.getPlanogramExportUrl(format)}
+              download={`planogram.${format}`}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border border-slate-600/50 text-slate-300 rounded-lg
+                       hover:bg-slate-800/50 transition-colors"
+            >
+              <Download size={14} />
+              Export {format.toUpperCase()}
+            </a>
+          ))}
+          {can('edit-shelves') && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-500
+                       transition-colors"
+            >
+              <FileUp size={14} />
+              Import Planogram
+            </button>
+          )}
+        </div>
+
+        {notice && (
+          <div className="bg-emerald-950/50 border border-emerald-800/50 text-emerald-400 rounded-lg px-4 py-3 text-sm" role="status">
+            {notice}
+          </div>
+        )}
+
+        {query.trim() && (
+          <p className="text-sm text-slate-400" role="status">
+            {matches.length === 0
+              ? `No shelf matches "${query.trim()}"`
+              : matches.length === 1
+                ? `Shelf ${matches[0]} is highlighted; press Enter to open it`
+                : `${matches.length} shelves match "${query.trim()}"`}
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!planogram || loading ? (
+          !error && (
+            <div className="flex items-center justify-center h-64 gap-3">
+              <RotateCcw className="w-6 h-6 animate-spin text-blue-400" />
+              <span className="text-lg font-medium text-slate-100">Loading store map...</span>
+            </div>
+          )
+        ) : (
+          <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 overflow-x-auto">
+            <div
+              className="relative min-w-[640px] bg-slate-950/60 rounded-lg"
+              style={{ aspectRatio: `${planogram.width} / ${planogram.height}` }}
+            >
+              {planogram.fixtures.map(fixture => (
+                <div
+                  key={fixture.label}
+                  style={toPlacement(fixture, planogram)}
+                  className="absolute flex items-center justify-center border border-dashed border-slate-600/60
+                           rounded text-xs text-slate-500"
+                >
+                  {fixture.label}
+                </div>
+              ))}
+
+              {planogram.aisles.map(aisle => (
+                <div key={aisle.name}>
+                  <div
+                    style={toPlacement(aisle, planogram)}
+                    className="absolute border border-slate-700/60 rounded bg-slate-800/30"
+                  />
+                  <div
+                    style={{ ...toPlacement(aisle, planogram), height: 'auto' }}
+                    className="absolute -translate-y-full text-center text-xs font-medium text-slate-400 pb-1"
+                  >
+                    {aisle.label ?? aisle.name}
+                  </div>
+                  {aisle.shelves.map(placement => (
+                    <ShelfTile
+                      key={placement.id}
+                      placement={placement}
+                      floor={planogram}
+                      shelf={shelvesById.get(placement.id)}
+                      alertCount={alertCounts.get(placement.id) ?? 0}
+                      highlighted={matches.includes(placement.id)}
+                      dimmed={matches.length > 0 && !matches.includes(placement.id)}
+                      onSelect={setSelectedShelfId}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {unplacedShelves.length > 0 && (
+          <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-100 mb-3">
+              <MapPin size={16} className="text-slate-400" />
+              Not on the map
+            </h2>
+            <p className="text-xs text-slate-400 mb-3">
+              These shelves have no position in the planogram yet.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {unplacedShelves.map(shelf => (
+                <button
+                  key={shelf.id}
+                  onClick={() => setSelectedShelfId(shelf.id)}
+                  className={`px-3 py-1 border rounded text-xs font-semibold text-white ${SHELF_STATUS_STYLES[shelf.status].fill}`}
+                >
+                  {shelf.id}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedShelf && (
+        <ShelfDetailModal
+          shelf={selectedShelf}
+          onClose={() => setSelectedShelfId(null)}
+          onMarkRestocked={can('restock') ? (shelfId, sku) => setRestockTarget({ shelfId, sku }) : undefined}
+          onRequestRescan={can('request-rescans') ? (shelfId) => requestRescan(shelfId) : undefined}
+          rescanTask={getShelfRescanTask(selectedShelf.id)}
+          onAcceptThreshold={can('edit-shelves') ? (shelfId, sku) => applyThresholdRecommendations({ shelf: shelfId, sku }) : undefined}
+        />
+      )}
+
+      {isImportOpen && (
+        <PlanogramImportDialog onImported={handleImported} onClose={() => setIsImportOpen(false)} />
+      )}
+
+      {restockTarget && restockShelf && (
+        <RestockDialog
+          shelf={restockShelf}
+          sku={restockTarget.sku}
+          onConfirm={(amount: RestockAmount) => markRestocked(restockTarget.shelfId, restockTarget.sku, amount)}
+          onClose={() => setRestockTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+/**
+ * Login Page
+ *
+ * Staff sign in here; every other page redirects back to wherever the user
+ * was headed once the session cookie is set.
+ */
+
+import React, { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { LogIn, RotateCcw } from 'lucide-react';
+import * as api from '../../lib/api/client';
+
+// Only follow same-site paths, never an absolute URL from the query string
+const getSafeNext = (next: string | null): string =>
+  next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+const LoginForm: React.FC = () => {
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await api.login(username, password);
+      // Full navigation so the app state hydrates with the new session
+      window.location.assign(getSafeNext(searchParams.get('next')));
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-sm bg-slate-900/50 border border-slate-700/50 rounded-xl p-8 backdrop-blur-sm space-y-5"
+    >
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-100">ShelfScan AI</h1>
+        <p className="text-sm text-slate-400 mt-1">Sign in with your staff account</p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm text-slate-300">Username</span>
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+          className="w-full px-3 py-2 bg-slate-950/50 border border-slate-700/50 rounded-lg text-slate-100 focus:border-blue-500/50 focus:outline-none"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm text-slate-300">Password</span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          className="w-full px-3 py-2 bg-slate-950/50 border border-slate-700/50 rounded-lg text-slate-100 focus:border-blue-500/50 focus:outline-none"
+        />
+      </label>
+
+      {error && (
+        <p className="text-sm text-red-400" role="alert">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg hover:from-blue-700 hover:to-blue-600 transition-all duration-200 shadow-lg shadow-blue-500/25 disabled:opacity-50"
+      >
+        {isSubmitting ? <RotateCcw className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+        Sign In
+      </button>
+    </form>
+  );
+};
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 flex items-center justify-center p-6">
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -13,19 +13,36 @@ import {
   RotateCcw,
   Camera 
 } from 'lucide-react';
-import { useShelves, useAlerts, useStaffActions } from '../lib/context/AppContext';
+import { useShelves, useAlerts, useStaffActions, useRescanTasks, useCurrentUser, useSettings, useStores } from '../lib/context/AppContext';
 import { useRealTimeUpdates } from '../lib/hooks/useRealTimeUpdates';
 import ShelfDetailModal from '../components/ShelfDetailModal';
+import RestockDialog from '../components/RestockDialog';
+import RescanTaskStatus from '../components/RescanTaskStatus';
+import StockForecastStatus from '../components/StockForecastStatus';
+import UserMenu from '../components/UserMenu';
+import { StoreSwitcher } from '../components/MobileNavigation';
 import DemoController from '../components/DemoController';
 import WebcamShelfDetector from '../components/WebcamShelfDetector';
-import { initializeModel } from '../lib/camera/objectDetection';
-import type { Shelf } from '../lib/types';
+import { getDetectionBackend } from '../lib/camera/detectionRegistry';
+import type { AlertType, RestockAmount, Shelf } from '../lib/types';
+import { ALERT_TYPE_LABELS } from '../lib/alertUtils';
 import { useRouter } from 'next/navigation';
 
 // ============================================================================
 // HELPER FUNCTIONS FROM MAGICPATH
 // ============================================================================
 
+const getAlertBadgeColor = (type: AlertType) => {
+  switch (type) {
+    case 'empty':
+      return 'bg-red-500/20 text-red-400 border border-red-500/30';
+    case 'low':
+      return 'bg-amber-500/20 text-amber-400 border border-amber-500/30';
+    default:
+      return 'bg-sky-500/20 text-sky-400 border border-sky-500/30';
+  }
+};
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case 'empty':
@@ -87,21 +104,27 @@ const formatTimeAgo = (timestamp: string): string => {
 const Dashboard: React.FC = () => {
   const { shelves, loading } = useShelves();
   const { alerts, acknowledgeAlert } = useAlerts();
-  const { markRestocked } = useStaffActions();
+  const { markRestocked, requestRescan, applyThresholdRecommendations } = useStaffActions();
+  const { getShelfRescanTask } = useRescanTasks();
+  const { can } = useCurrentUser();
+  const canRestock = can('restock');
+  const canRequestRescan = can('request-rescans');
   const router = useRouter();
   
   // Initialize real-time updates hook
+  const { settings } = useSettings();
+  const { currentStore } = useStores();
+  // NEXT_PUBLIC_REALTIME_MODE=simulated still forces the simulator for demos
   const { connectionStatus } = useRealTimeUpdates({
-    debug: process.env.NODE_ENV === 'development',
-    pollingInterval: 6000,
-    wsUpdateInterval: 10000,
-    wsUpdateProbability: 0.25,
-    pollingUpdateProbability: 0.15
+    ...settings.realtime,
+    mode: process.env.NEXT_PUBLIC_REALTIME_MODE === 'simulated' ? 'simulated' : settings.realtime.mode,
+    debug: process.env.NODE_ENV === 'development'
   });
   
   // Local state for UI
   const [selectedShelf, setSelectedShelf] = useState<Shelf | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [restockTarget, setRestockTarget] = useState<{ shelfId: string; sku: string } | null>(null);
   const [showDemo, setShowDemo] = useState(false);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [targetShelfId, setTargetShelfId] = useState<string | null>(null);
@@ -111,7 +134,7 @@ const Dashboard: React.FC = () => {
   useEffect(() => {
     const preloadModel = async () => {
       try {
-        const success = await initializeModel();
+        const success = await getDetectionBackend('coco-ssd').init();
         setIsModelPreloaded(success);
         if (success) {
           console.log('🎯 Camera model preloaded - instant scanning ready!');
@@ -124,9 +147,9 @@ const Dashboard: React.FC = () => {
     preloadModel();
   }, []);
 
-  // Get active alerts (unacknowledged)
-  const activeAlerts = alerts.filter(alert => !alert.acknowledged).slice(0, 3);
-  const remainingAlerts = alerts.filter(alert => !alert.acknowledged).length - 3;
+  // Get active alerts (still open, not yet picked up by staff)
+  const activeAlerts = alerts.filter(alert => alert.status === 'open').slice(0, 3);
+  const remainingAlerts = alerts.filter(alert => alert.status === 'open').length - 3;
   
   // Calculate stats
   const okCount = shelves.filter(s => s.status === 'ok').length;
@@ -147,11 +170,25 @@ const Dashboard: React.FC = () => {
     setSelectedShelf(null);
   };
   
-  const handleMarkRestocked = (shelfId: string, productName: string) => {
-    markRestocked(shelfId, productName);
+  // Ask for the quantity added before recording the restock
+  const handleMarkRestocked = (shelfId: string, sku: string) => {
+    setRestockTarget({ shelfId, sku });
+  };
+  
+  const handleConfirmRestock = (amount: RestockAmount) => {
+    if (restockTarget) {
+      markRestocked(restockTarget.shelfId, restockTarget.sku, amount);
+    }
   };
   
+  const restockShelf = restockTarget && shelves.find(s => s.id === restockTarget.shelfId);
+  
+  // Queue a drone rescan; the card shows the task's progress
   const handleRequestRescan = async (shelfId: string) => {
+    await requestRescan(shelfId);
+  };
+  
+  const handleScanWithCamera = (shelfId: string) => {
     // Open camera for targeted shelf rescanning
     setTargetShelfId(shelfId);
     setIsCameraOpen(true);
@@ -182,12 +219,16 @@ const Dashboard: React.FC = () => {
         {/* Header */}
         <header className="flex items-center justify-between mb-8">
           <div className="flex items-center gap-3">
-            <h1 className="text-2xl font-semibold text-slate-100">ShelfScan AI</h1>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-100">ShelfScan AI</h1>
+              <p className="text-sm text-slate-400">{currentStore?.name}</p>
+            </div>
             <span className="px-3 py-1 bg-emerald-500/20 text-emerald-400 text-xs font-medium rounded-full border border-emerald-500/30">
               LIVE
             </span>
           </div>
           <div className="flex items-center gap-4">
+            <StoreSwitcher />
             <button 
               onClick={() => setIsCameraOpen(true)}
               className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-500 text-white rounded-lg hover:from-purple-700 hover:to-purple-600 transition-all duration-200 flex items-center gap-2 shadow-lg shadow-purple-500/25 relative"
@@ -214,13 +255,16 @@ const Dashboard: React.FC = () => {
               </span>
             </button>
             <span className="text-sm text-slate-400">
-              {connectionStatus === 'connected' ? 'Live' : 'Polling'} • Last update: {new Date().toLocaleTimeString()}
+              {connectionStatus === 'connected' ? 'Live' :
+               connectionStatus === 'polling' ? 'Polling' :
+               connectionStatus === 'simulated' ? 'Simulated' : 'Reconnecting'} • Last update: {new Date().toLocaleTimeString()}
             </span>
+            <UserMenu />
           </div>
         </header>
 
         {/* Active Alerts */}
-        {activeAlerts.length > 0 && (
+        {settings.notifications.banner && activeAlerts.length > 0 && (
           <section className="mb-8">
             <div className="bg-amber-950/30 border border-amber-700/40 rounded-xl p-6 backdrop-blur-sm">
               <div className="flex items-center justify-between mb-4">
@@ -228,7 +272,7 @@ const Dashboard: React.FC = () => {
                   <AlertTriangle className="w-5 h-5 text-amber-400" />
                   <h2 className="text-lg font-semibold text-slate-100">Active Alerts</h2>
                   <span className="bg-amber-500/20 text-amber-400 px-2 py-1 rounded-full text-xs font-medium border border-amber-500/30">
-                    {alerts.filter(alert => !alert.acknowledged).length}
+                    {alerts.filter(alert => alert.status === 'open').length}
                   </span>
                 </div>
                 <button 
@@ -243,24 +287,22 @@ const Dashboard: React.FC = () => {
                 {activeAlerts.map(alert => (
                   <div key={alert.id} className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg border border-slate-700/50 backdrop-blur-sm">
                     <div className="flex items-center gap-3">
-                      <span className={`px-2 py-1 rounded text-xs font-medium ${
-                        alert.type === 'empty' 
-                          ? 'bg-red-500/20 text-red-400 border border-red-500/30' 
-                          : 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
-                      }`}>
-                        {alert.type === 'empty' ? 'EMPTY' : 'LOW STOCK'}
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${getAlertBadgeColor(alert.type)}`}>
+                        {ALERT_TYPE_LABELS[alert.type]}
                       </span>
                       <div>
                         <p className="font-medium text-slate-100">{alert.product}</p>
                         <p className="text-sm text-slate-400">Shelf {alert.shelf} • {formatTimeAgo(alert.timestamp)}</p>
                       </div>
                     </div>
-                    <button 
-                      onClick={() => handleAcknowledgeAlert(alert.id)}
-                      className="px-3 py-1 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white text-sm rounded hover:from-emerald-700 hover:to-emerald-600 transition-all duration-200 shadow-lg shadow-emerald-500/25"
-                    >
-                      Acknowledge
-                    </button>
+                    {can('respond-to-alerts') && (
+                      <button 
+                        onClick={() => handleAcknowledgeAlert(alert.id)}
+                        className="px-3 py-1 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white text-sm rounded hover:from-emerald-700 hover:to-emerald-600 transition-all duration-200 shadow-lg shadow-emerald-500/25"
+                      >
+                        Acknowledge
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -349,6 +391,8 @@ const Dashboard: React.FC = () => {
                     <p className="text-sm text-slate-300">{getStatusLabel(shelf.status)}</p>
                     <p className="text-xs text-slate-400">{formatTimeAgo(shelf.lastScanned)}</p>
                     <p className="text-xs text-slate-400">{shelf.items.length} products</p>
+                    <RescanTaskStatus task={getShelfRescanTask(shelf.id)} />
+                    <StockForecastStatus shelf={shelf} />
                     {shelf.status === 'empty' && shelf.items.filter(item => item.count === 0).length > 0 && (
                       <p className="text-xs text-slate-400">{shelf.items.filter(item => item.count === 0).length} empty</p>
                     )}
@@ -363,7 +407,15 @@ const Dashboard: React.FC = () => {
                   </div>
 
                   <div className="space-y-2">
-                    {shelf.status === 'ok' ? (
+                    {canRestock && shelf.status !== 'ok' && (
+                      <button 
+                        onClick={() => criticalProduct && handleMarkRestocked(shelf.id, criticalProduct.sku)}
+                        className="w-full px-3 py-2 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white text-sm rounded hover:from-emerald-700 hover:to-emerald-600 transition-all duration-200 shadow-lg shadow-emerald-500/25"
+                      >
+                        Mark Restocked
+                      </button>
+                    )}
+                    {canRequestRescan && (
                       <button 
                         onClick={() => handleRequestRescan(shelf.id)}
                         className="w-full px-3 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm rounded hover:from-blue-700 hover:to-blue-600 transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-blue-500/25"
@@ -371,22 +423,6 @@ const Dashboard: React.FC = () => {
                         <RotateCcw className="w-4 h-4" />
                         Rescan
                       </button>
-                    ) : (
-                      <>
-                        <button 
-                          onClick={() => criticalProduct && handleMarkRestocked(shelf.id, criticalProduct.product)}
-                          className="w-full px-3 py-2 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white text-sm rounded hover:from-emerald-700 hover:to-emerald-600 transition-all duration-200 shadow-lg shadow-emerald-500/25"
-                        >
-                          Mark Restocked
-                        </button>
-                        <button 
-                          onClick={() => handleRequestRescan(shelf.id)}
-                          className="w-full px-3 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm rounded hover:from-blue-700 hover:to-blue-600 transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-blue-500/25"
-                        >
-                          <RotateCcw className="w-4 h-4" />
-                          Rescan
-                        </button>
-                      </>
                     )}
                     <button 
                       onClick={() => handleViewDetails(shelf.id)}
@@ -428,10 +464,23 @@ const Dashboard: React.FC = () => {
         {/* Shelf Detail Modal */}
         {selectedShelf && isModalOpen && (
           <ShelfDetailModal
-            shelf={selectedShelf}
+            shelf={shelves.find(shelf => shelf.id === selectedShelf.id) ?? selectedShelf}
             onClose={handleCloseModal}
-            onMarkRestocked={handleMarkRestocked}
-            onRequestRescan={handleRequestRescan}
+            onMarkRestocked={canRestock ? handleMarkRestocked : undefined}
+            onRequestRescan={canRequestRescan ? handleRequestRescan : undefined}
+            onScanWithCamera={handleScanWithCamera}
+            rescanTask={getShelfRescanTask(selectedShelf.id)}
+            onAcceptThreshold={can('edit-shelves') ? (shelfId, sku) => applyThresholdRecommendations({ shelf: shelfId, sku }) : undefined}
+          />
+        )}
+
+        {/* Restock Quantity Dialog */}
+        {restockTarget && restockShelf && (
+          <RestockDialog
+            shelf={restockShelf}
+            sku={restockTarget.sku}
+            onConfirm={handleConfirmRestock}
+            onClose={() => setRestockTarget(null)}
           />
         )}
 
@@ -443,7 +492,6 @@ const Dashboard: React.FC = () => {
             setTargetShelfId(null);
           }}
           targetShelfId={targetShelfId || undefined}
-          isModelPreloaded={isModelPreloaded}
         />
       </div>
     </div>
@@ -0,0 +1,487 @@
+'use client';
+
+/**
+ * Settings Page
+ *
+ * Configuration of the selected store: its name, region and time zone
+ * (saved through `PATCH /api/stores/:id`), default thresholds, real-time
+ * transport, detection backend and cutoffs, alert escalation and
+ * notification channels (saved through `PUT /api/settings`). Applied by
+ * every dashboard on load; only managers can change them.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, CheckCircle, Save } from 'lucide-react';
+import Link from 'next/link';
+import { useCurrentUser, useSettings, useStores } from '../../lib/context/AppContext';
+import { getCatalogCategories } from '../../lib/catalog';
+import { DETECTION_BACKEND_IDS, DETECTION_BACKENDS, ENSEMBLE_MEMBER_IDS } from '../../lib/settings';
+import { CatalogProduct, Store, StoreSettings } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
+
+// ============================================================================
+// LAYOUT COMPONENTS
+// ============================================================================
+
+const INPUT_STYLE = `w-full bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+  focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 disabled:opacity-60`;
+
+type SettingsSection = Exclude<keyof StoreSettings, 'updatedAt' | 'updatedBy'>;
+
+const Section: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children
+}) => (
+  <section className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 sm:p-6">
+    <h2 className="text-lg font-semibold text-slate-100">{title}</h2>
+    <p className="text-sm text-slate-400 mt-1 mb-4">{description}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">{children}</div>
+  </section>
+);
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block text-sm">
+    <span className="block text-slate-300 mb-1">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-slate-500 mt-1">{hint}</span>}
+  </label>
+);
+
+const NumberInput: React.FC<{
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+}> = ({ value, onChange, disabled, min = 0, max, step = 1 }) => (
+  <input
+    type="number"
+    value={Number.isNaN(value) ? '' : value}
+    onChange={(e) => onChange(e.target.valueAsNumber)}
+    min={min}
+    max={max}
+    step={step}
+    disabled={disabled}
+    className={INPUT_STYLE}
+  />
+);
+
+const Checkbox: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; disabled: boolean }> = ({
+  label,
+  checked,
+  onChange,
+  disabled
+}) => (
+  <label className="flex items-center gap-2 text-sm text-slate-300">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      disabled={disabled}
+      className="rounded border-slate-600 bg-slate-800"
+    />
+    {label}
+  </label>
+);
+
+// ============================================================================
+// MAIN SETTINGS PAGE COMPONENT
+// ============================================================================
+
+export default function SettingsPage() {
+  const { can } = useCurrentUser();
+  const { settings, saveSettings } = useSettings();
+  const { currentStore, updateStore } = useStores();
+  const canEdit = can('manage-settings');
+
+  const [form, setForm] = useState<StoreSettings>(settings);
+  const [storeForm, setStoreForm] = useState<Omit<Store, 'id'>>({ name: '', region: '', timezone: '' });
+  const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [desktopBlocked, setDesktopBlocked] = useState(false);
+
+  // Settings arrive after the session loads, and come back normalised from each save
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    if (currentStore) {
+      setStoreForm({ name: currentStore.name, region: currentStore.region, timezone: currentStore.timezone });
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    api.fetchCatalog().then(setCatalog).catch(() => setCatalog([]));
+    setDesktopBlocked(typeof Notification !== 'undefined' && Notification.permission === 'denied');
+  }, []);
+
+  const categories = useMemo(() => getCatalogCategories(catalog), [catalog]);
+
+  const update = <K extends SettingsSection>(key: K, patch: Partial<StoreSettings[K]>) => {
+    setSaved(false);
+    setForm(current => ({ ...current, [key]: { ...current[key], ...patch } }));
+  };
+
+  const updateStoreForm = (patch: Partial<Omit<Store, 'id'>>) => {
+    setSaved(false);
+    setStoreForm(current => ({ ...current, ...patch }));
+  };
+
+  const setCategoryThreshold = (category: string, value: number) => {
+    const byCategory = { ...form.thresholds.byCategory };
+    if (Number.isNaN(value)) delete byCategory[category];
+    else byCategory[category] = value;
+    update('thresholds', { byCategory });
+  };
+
+  const setDesktopNotifications = async (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      setDesktopBlocked(await Notification.requestPermission() === 'denied');
+    }
+    update('notifications', { desktop: enabled });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (currentStore && (
+        storeForm.name !== currentStore.name ||
+        storeForm.region !== currentStore.region ||
+        storeForm.timezone !== currentStore.timezone
+      )) {
+        await updateStore(currentStore.id, storeForm);
+      }
+      await saveSettings(form);
+      setSaved(true);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = !canEdit || isSaving;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Settings</h1>
+                <div className="text-sm text-slate-400 truncate">
+                  {settings.updatedAt
+                    ? `Last saved ${new Date(settings.updatedAt).toLocaleString()}${settings.updatedBy ? ` by ${settings.updatedBy}` : ''}`
+                    : 'Using default settings'}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <form onSubmit={handleSubmit} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!canEdit && (
+          <div className="bg-slate-900/50 border border-slate-700/50 text-slate-400 rounded-lg px-4 py-3 text-sm">
+            Only managers can change settings
+          </div>
+        )}
+
+        <Section
+          title="Store"
+          description="Shown on the dashboard and grouped by region on the stores overview; the time zone decides which shift is on duty"
+        >
+          <Field label="Store name" hint={currentStore ? `Store ID ${currentStore.id}` : undefined}>
+            <input
+              type="text"
+              value={storeForm.name}
+              onChange={(e) => updateStoreForm({ name: e.target.value })}
+              disabled={disabled || !currentStore}
+              className={INPUT_STYLE}
+            />
+          </Field>
+          <Field label="Region">
+            <input
+              type="text"
+              value={storeForm.region}
+              onChange={(e) => updateStoreForm({ region: e.target.value })}
+              disabled={disabled || !currentStore}
+              className={INPUT_STYLE}
+            />
+          </Field>
+          <Field label="Time zone" hint="IANA name, e.g. Europe/London or America/New_York">
+            <input
+              type="text"
+              value={storeForm.timezone}
+              onChange={(e) => updateStoreForm({ timezone: e.target.value })}
+              disabled={disabled || !currentStore}
+              className={INPUT_STYLE}
+            />
+          </Field>
+        </Section>
+
+        <Section
+          title="Default thresholds"
+          description="Used when a product is put on a shelf without a threshold; a category default wins over the store's"
+        >
+          <Field label="Store default">
+            <NumberInput
+              value={form.thresholds.default}
+              onChange={(value) => update('thresholds', { default: value })}
+              disabled={disabled}
+            />
+          </Field>
+          {categories.map(category => (
+            <Field key={category} label={category} hint="Blank uses the store default">
+              <NumberInput
+                value={form.thresholds.byCategory[category] ?? NaN}
+                onChange={(value) => setCategoryThreshold(category, value)}
+                disabled={disabled}
+              />
+            </Field>
+          ))}
+        </Section>
+
+        <Section title="Real-time updates" description="How dashboards receive scans; delays are in milliseconds">
+          <Field label="Mode">
+            <select
+              value={form.realtime.mode}
+              onChange={(e) => update('realtime', { mode: e.target.value as StoreSettings['realtime']['mode'] })}
+              disabled={disabled}
+              className={INPUT_STYLE}
+            >
+              <option value="live">Live scans</option>
+              <option value="simulated">Simulated updates</option>
+            </select>
+          </Field>
+          <Field label="Polling interval" hint="While the socket is down">
+            <NumberInput
+              value={form.realtime.pollingInterval}
+              onChange={(value) => update('realtime', { pollingInterval: value })}
+              disabled={disabled}
+              step={500}
+            />
+          </Field>
+          <Field label="Reconnect base delay">
+            <NumberInput
+              value={form.realtime.reconnectBaseDelay}
+              onChange={(value) => update('realtime', { reconnectBaseDelay: value })}
+              disabled={disabled}
+              step={500}
+            />
+          </Field>
+          <Field label="Reconnect max delay">
+            <NumberInput
+              value={form.realtime.reconnectMaxDelay}
+              onChange={(value) => update('realtime', { reconnectMaxDelay: value })}
+              disabled={disabled}
+              step={1000}
+            />
+          </Field>
+          <Field label="Simulated update interval">
+            <NumberInput
+              value={form.realtime.wsUpdateInterval}
+              onChange={(value) => update('realtime', { wsUpdateInterval: value })}
+              disabled={disabled}
+              step={1000}
+            />
+          </Field>
+          <Field label="Simulated socket update probability" hint="0 to 1">
+            <NumberInput
+              value={form.realtime.wsUpdateProbability}
+              onChange={(value) => update('realtime', { wsUpdateProbability: value })}
+              disabled={disabled}
+              max={1}
+              step={0.05}
+            />
+          </Field>
+          <Field label="Simulated polling update probability" hint="0 to 1">
+            <NumberInput
+              value={form.realtime.pollingUpdateProbability}
+              onChange={(value) => update('realtime', { pollingUpdateProbability: value })}
+              disabled={disabled}
+              max={1}
+              step={0.05}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Detection" description="The webcam detector's model and confidence cutoffs (0 to 1)">
+          <Field label="Backend" hint="A single backend other than COCO-SSD falls back to COCO-SSD when it fails or finds nothing">
+            <select
+              value={form.detection.backend}
+              onChange={(e) => update('detection', { backend: e.target.value as StoreSettings['detection']['backend'] })}
+              disabled={disabled}
+              className={INPUT_STYLE}
+            >
+              {DETECTION_BACKEND_IDS.map(id => (
+                <option key={id} value={id}>{DETECTION_BACKENDS[id]}</option>
+              ))}
+            </select>
+          </Field>
+          {form.detection.backend === 'ensemble' && (
+            <div className="space-y-2 sm:col-span-2">
+              <span className="block text-sm text-slate-300">Backends to fuse (at least two)</span>
+              {ENSEMBLE_MEMBER_IDS.map(id => (
+                <Checkbox
+                  key={id}
+                  label={DETECTION_BACKENDS[id]}
+                  checked={form.detection.ensembleBackends.includes(id)}
+                  onChange={(checked) => update('detection', {
+                    ensembleBackends: checked
+                      ? [...form.detection.ensembleBackends, id]
+                      : form.detection.ensembleBackends.filter(member => member !== id)
+                  })}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+          )}
+          {(form.detection.backend === 'local-http' ||
+            (form.detection.backend === 'ensemble' && form.detection.ensembleBackends.includes('local-http'))) && (
+            <Field label="Detection server URL" hint="Receives each frame as a JSON POST (see DETECTION_SETUP.md)">
+              <input
+                type="url"
+                value={form.detection.endpoint}
+                onChange={(e) => update('detection', { endpoint: e.target.value })}
+                placeholder="http://localhost:8765/detect"
+                disabled={disabled}
+                className={INPUT_STYLE}
+              />
+            </Field>
+          )}
+          <Field label="Minimum detection score" hint="Detections below this are dropped">
+            <NumberInput
+              value={form.detection.minScore}
+              onChange={(value) => update('detection', { minScore: value })}
+              disabled={disabled}
+              max={1}
+              step={0.05}
+            />
+          </Field>
+          <Field label="Shelf mapping confidence" hint="Needed to count a detection against a shelf">
+            <NumberInput
+              value={form.detection.mappingConfidence}
+              onChange={(value) => update('detection', { mappingConfidence: value })}
+              disabled={disabled}
+              max={1}
+              step={0.05}
+            />
+          </Field>
+          <Field label="Update confidence" hint="Needed to send a shelf update from the camera">
+            <NumberInput
+              value={form.detection.updateConfidence}
+              onChange={(value) => update('detection', { updateConfidence: value })}
+              disabled={disabled}
+              max={1}
+              step={0.05}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Escalation" description="When an unacknowledged alert falls back to managers">
+          <Field label="Fallback after (minutes)">
+            <NumberInput
+              value={form.escalation.fallbackMinutes}
+              onChange={(value) => update('escalation', { fallbackMinutes: value })}
+              disabled={disabled}
+              min={1}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Notifications" description="Where new alerts are announced">
+          <div className="space-y-3 sm:col-span-2">
+            <Checkbox
+              label="Active alerts panel on the dashboard"
+              checked={form.notifications.banner}
+              onChange={(banner) => update('notifications', { banner })}
+              disabled={disabled}
+            />
+            <Checkbox
+              label={`Desktop notifications for alerts routed to you${desktopBlocked ? ' (blocked by this browser)' : ''}`}
+              checked={form.notifications.desktop}
+              onChange={setDesktopNotifications}
+              disabled={disabled}
+            />
+            <Checkbox
+              label="Webhook"
+              checked={form.notifications.webhook.enabled}
+              onChange={(enabled) => update('notifications', { webhook: { ...form.notifications.webhook, enabled } })}
+              disabled={disabled}
+            />
+          </div>
+          {form.notifications.webhook.enabled && (
+            <Field label="Webhook URL" hint="Receives a JSON POST whenever an alert opens or changes">
+              <input
+                type="url"
+                value={form.notifications.webhook.url}
+                onChange={(e) => update('notifications', { webhook: { ...form.notifications.webhook, url: e.target.value } })}
+                placeholder="https://example.com/hooks/shelfscan"
+                disabled={disabled}
+                className={INPUT_STYLE}
+              />
+            </Field>
+          )}
+        </Section>
+
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex items-center justify-end gap-4">
+            {saved && (
+              <span className="flex items-center gap-2 text-sm text-emerald-400">
+                <CheckCircle size={16} />
+                Settings saved
+              </span>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg
+                       hover:bg-blue-500 disabled:opacity-50 transition-colors text-sm"
+            >
+              <Save size={16} />
+              {isSaving ? 'Saving…' : 'Save settings'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+/**
+ * Staff Page
+ *
+ * Aisle and shift assignments. Active alerts are routed to whoever covers
+ * the shelf's aisle on the current shift; managers add and remove
+ * assignments here, everyone else sees who is on.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Plus, Users, X } from 'lucide-react';
+import Link from 'next/link';
+import { useAssignments, useCurrentUser, useSettings, useShelves, useStores } from '../../lib/context/AppContext';
+import { getCurrentShift, SHIFT_IDS, SHIFTS } from '../../lib/alertRouting';
+import { ShiftId, User } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
+
+// ============================================================================
+// ASSIGN FORM COMPONENT
+// ============================================================================
+
+interface AssignFormProps {
+  aisle: string;
+  shift: ShiftId;
+  staff: User[];
+  assigned: string[];
+  onAssign: (aisle: string, username: string, shift: ShiftId) => Promise<void>;
+}
+
+const AssignForm: React.FC<AssignFormProps> = ({ aisle, shift, staff, assigned, onAssign }) => {
+  const available = staff.filter(user => !assigned.includes(user.username));
+  const [username, setUsername] = useState('');
+
+  if (available.length === 0) return null;
+
+  return (
+    <form
+      className="flex gap-2 mt-2"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (!username) return;
+        await onAssign(aisle, username, shift);
+        setUsername('');
+      }}
+    >
+      <select
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        aria-label={`Assign staff to ${aisle}, ${SHIFTS[shift].label}`}
+        className="flex-1 min-w-0 bg-slate-800/50 border border-slate-600/50 rounded-lg px-2 py-1 text-sm text-slate-100
+                 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+      >
+        <option value="">Assign…</option>
+        {available.map(user => (
+          <option key={user.id} value={user.username}>{user.name}</option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={!username}
+        className="p-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+        aria-label="Add assignment"
+      >
+        <Plus size={16} />
+      </button>
+    </form>
+  );
+};
+
+// ============================================================================
+// MAIN STAFF PAGE COMPONENT
+// ============================================================================
+
+export default function StaffPage() {
+  const { shelves } = useShelves();
+  const { assignments, assignStaff, unassignStaff } = useAssignments();
+  const { can } = useCurrentUser();
+  const { settings } = useSettings();
+  const { currentStore } = useStores();
+  const canManage = can('manage-staff');
+
+  const [staff, setStaff] = useState<User[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const currentShift = getCurrentShift(new Date(), currentStore?.timezone);
+
+  // Only managers can list accounts; floor roles are the ones that take alerts
+  useEffect(() => {
+    if (!canManage) return;
+    api.fetchUsers()
+      .then(users => setStaff(users.filter(user => user.role === 'associate' || user.role === 'manager')))
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load staff'));
+  }, [canManage]);
+
+  const aisles = useMemo(
+    () => [...new Set(shelves.map(shelf => shelf.aisle))].sort(),
+    [shelves]
+  );
+  const staffNames = new Map(staff.map(user => [user.username, user.name]));
+
+  const handleAssign = async (aisle: string, username: string, shift: ShiftId) => {
+    setError(null);
+    try {
+      await assignStaff(aisle, username, shift);
+    } catch (assignError) {
+      setError(assignError instanceof Error ? assignError.message : 'Failed to assign staff');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Staff Assignments</h1>
+                <div className="text-sm text-slate-400">
+                  On now: {SHIFTS[currentShift].label}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <p className="text-sm text-slate-400">
+          Alerts go to the staff covering their aisle on the current shift. Unacknowledged alerts fall back to
+          managers after {settings.escalation.fallbackMinutes} minutes, as do alerts in aisles nobody covers.
+        </p>
+
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {aisles.length === 0 ? (
+          <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-12 text-center">
+            <Users size={64} className="mx-auto text-slate-600 mb-6" />
+            <h3 className="text-xl font-semibold text-slate-100">No aisles yet</h3>
+          </div>
+        ) : (
+          <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700/50 text-left text-slate-400">
+                  <th className="px-4 py-3 font-medium">Aisle</th>
+                  {SHIFT_IDS.map(shift => (
+                    <th key={shift} className={`px-4 py-3 font-medium ${shift === currentShift ? 'text-blue-300' : ''}`}>
+                      {SHIFTS[shift].label}
+                      {shift === currentShift && <span className="ml-2 text-xs text-blue-400">(now)</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {aisles.map(aisle => (
+                  <tr key={aisle} className="border-b border-slate-800/50 align-top">
+                    <td className="px-4 py-3 font-medium text-slate-100">{aisle}</td>
+                    {SHIFT_IDS.map(shift => {
+                      const cell = assignments.filter(a => a.aisle === aisle && a.shift === shift);
+                      return (
+                        <td key={shift} className={`px-4 py-3 ${shift === currentShift ? 'bg-blue-500/5' : ''}`}>
+                          {cell.length === 0 && (
+                            <span className="text-slate-500">Managers</span>
+                          )}
+                          <ul className="space-y-1">
+                            {cell.map(assignment => (
+                              <li key={assignment.id} className="flex items-center justify-between gap-2">
+                                <span className="text-slate-200">
+                                  {staffNames.get(assignment.username) ?? assignment.username}
+                                </span>
+                                {canManage && (
+                                  <button
+                                    onClick={() => unassignStaff(assignment.id)}
+                                    className="text-slate-500 hover:text-red-400 transition-colors"
+                                    aria-label={`Unassign ${assignment.username}`}
+                                  >
+                                    <X size={14} />
+                                  </button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                          {canManage && (
+                            <AssignForm
+                              aisle={aisle}
+                              shift={shift}
+                              staff={staff}
+                              assigned={cell.map(a => a.username)}
+                              onAssign={handleAssign}
+                            />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+'use client';
+
+/**
+ * Stores Page
+ *
+ * Regional overview: ok/low/empty shelf counts and active alerts for every
+ * store the user may work in, rolled up by region and across the chain, from
+ * `GET /api/stores/overview`. Any of them can be opened from here (the rest
+ * of the app then shows that store); managers with access to every store
+ * also open new stores.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Building2, CheckCircle, Plus, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { useCurrentUser, useStores } from '../../lib/context/AppContext';
+import { formatRelativeTime } from '../../lib/alertUtils';
+import { canAccessEveryStore } from '../../lib/roles';
+import { RegionalOverview, ShelfStatusCounts, Store, StoreSummary } from '../../lib/types';
+import * as api from '../../lib/api/client';
+import { MobileNavigation, DesktopNavigation } from '../../components/MobileNavigation';
+import UserMenu from '../../components/UserMenu';
+
+// ============================================================================
+// LAYOUT COMPONENTS
+// ============================================================================
+
+const INPUT_STYLE = `w-full bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+  focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50`;
+
+const STATUS_STYLES: Record<'ok' | 'low' | 'empty', { label: string; bar: string; text: string }> = {
+  ok: { label: 'OK', bar: 'bg-emerald-500', text: 'text-emerald-400' },
+  low: { label: 'Low', bar: 'bg-amber-500', text: 'text-amber-400' },
+  empty: { label: 'Empty', bar: 'bg-red-500', text: 'text-red-400' }
+};
+
+/**
+ * Share of shelves in each status as one stacked bar, with the counts below
+ */
+const StatusCounts: React.FC<{ counts: ShelfStatusCounts }> = ({ counts }) => (
+  <div>
+    <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+      {(['ok', 'low', 'empty'] as const).map(status => counts[status] > 0 && (
+        <div
+          key={status}
+          className={STATUS_STYLES[status].bar}
+          style={{ width: `${(counts[status] / counts.total) * 100}%` }}
+        />
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm">
+      {(['ok', 'low', 'empty'] as const).map(status => (
+        <span key={status} className={STATUS_STYLES[status].text}>
+          {counts[status]} {STATUS_STYLES[status].label}
+        </span>
+      ))}
+      <span className="text-slate-400">
+        {counts.activeAlerts} active alert{counts.activeAlerts === 1 ? '' : 's'}
+      </span>
+    </div>
+  </div>
+);
+
+const StoreCard: React.FC<{ summary: StoreSummary; isCurrent: boolean; onOpen: () => void }> = ({
+  summary,
+  isCurrent,
+  onOpen
+}) => (
+  <div
+    className={`bg-slate-900/50 border backdrop-blur-sm rounded-xl p-4 ${
+      isCurrent ? 'border-blue-500/50' : 'border-slate-700/50'
+    }`}
+  >
+    <div className="flex items-start justify-between gap-3 mb-3">
+      <div className="min-w-0">
+        <h3 className="font-semibold text-slate-100 truncate">{summary.store.name}</h3>
+        <div className="text-xs text-slate-500">
+          {summary.store.id} · {summary.store.timezone}
+        </div>
+      </div>
+      {isCurrent ? (
+        <span className="flex items-center gap-1 text-xs text-blue-400 whitespace-nowrap">
+          <CheckCircle size={14} />
+          Selected
+        </span>
+      ) : (
+        <button
+          onClick={onOpen}
+          className="px-3 py-1 rounded-lg text-xs font-medium text-blue-400 border border-blue-500/30
+                   hover:bg-blue-500/10 transition-colors whitespace-nowrap"
+        >
+          Open
+        </button>
+      )}
+    </div>
+    {summary.total === 0 ? (
+      <p className="text-sm text-slate-500">No shelves yet</p>
+    ) : (
+      <StatusCounts counts={summary} />
+    )}
+    <div className="text-xs text-slate-500 mt-3">
+      {summary.total} shelves
+      {summary.lastScanned && ` · last scan ${formatRelativeTime(summary.lastScanned)}`}
+    </div>
+  </div>
+);
+
+// ============================================================================
+// ADD STORE FORM COMPONENT
+// ============================================================================
+
+const EMPTY_STORE: Store = { id: '', name: '', region: '', timezone: '' };
+
+const AddStoreForm: React.FC<{ onCreate: (store: Store) => Promise<Store> }> = ({ onCreate }) => {
+  const [form, setForm] = useState<Store>(EMPTY_STORE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onCreate(form);
+      setForm(EMPTY_STORE);
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create store');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 sm:p-6 space-y-4"
+    >
+      <h2 className="text-lg font-semibold text-slate-100">Add store</h2>
+      {error && (
+        <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {([
+          ['id', 'Store ID', 'e.g. downtown'],
+          ['name', 'Name', 'e.g. Downtown Market'],
+          ['region', 'Region', 'e.g. Midwest'],
+          ['timezone', 'Time zone', 'e.g. America/Chicago']
+        ] as const).map(([key, label, placeholder]) => (
+          <label key={key} className="block text-sm">
+            <span className="block text-slate-300 mb-1">{label}</span>
+            <input
+              type="text"
+              value={form[key]}
+              onChange={(e) => setForm(current => ({ ...current, [key]: e.target.value }))}
+              placeholder={placeholder}
+              required
+              disabled={isSaving}
+              className={INPUT_STYLE}
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium
+                 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        <Plus size={16} />
+        {isSaving ? 'Creating…' : 'Create store'}
+      </button>
+    </form>
+  );
+};
+
+// ============================================================================
+// MAIN STORES PAGE COMPONENT
+// ============================================================================
+
+export default function StoresPage() {
+  const { user, can } = useCurrentUser();
+  const { stores, currentStore, switchStore, createStore } = useStores();
+
+  const [overview, setOverview] = useState<RegionalOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Stores are renamed and added from this page and settings, so follow the list
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    api.fetchRegionalOverview()
+      .then(next => {
+        if (cancelled) return;
+        setOverview(next);
+        setError(null);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load stores');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stores, reloadKey]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* HEADER */}
+      <div className="bg-slate-900/50 border-b border-slate-700/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4 min-w-0 flex-1">
+              <MobileNavigation />
+
+              <Link
+                href="/"
+                className="hidden md:flex items-center gap-2 text-slate-400 hover:text-slate-100 transition-colors"
+              >
+                <ArrowLeft size={20} />
+                <span>Back to Dashboard</span>
+              </Link>
+
+              <div className="hidden sm:block w-px h-6 bg-slate-600" />
+
+              <div className="min-w-0">
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-100 truncate">Stores</h1>
+                <div className="text-sm text-slate-400">
+                  {stores.length} store{stores.length === 1 ? '' : 's'}
+                  {overview && ` in ${overview.regions.length} region${overview.regions.length === 1 ? '' : 's'}`}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="hidden md:block">
+                <DesktopNavigation />
+              </div>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* MAIN CONTENT */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && (
+          <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {overview && (
+          <section className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 sm:p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-slate-100">All stores</h2>
+              <button
+                onClick={() => setReloadKey(key => key + 1)}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 bg-slate-800/50
+                         hover:bg-slate-700/50 disabled:opacity-50 transition-colors"
+              >
+                <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                Refresh
+              </button>
+            </div>
+            <StatusCounts counts={overview.totals} />
+            {overview.totals.empty > 0 && (
+              <p className="flex items-center gap-2 text-sm text-red-400 mt-3">
+                <AlertTriangle size={16} />
+                {overview.totals.empty} empty shelf{overview.totals.empty === 1 ? '' : 'ves'} across the chain
+              </p>
+            )}
+          </section>
+        )}
+
+        {overview?.regions.map(region => (
+          <section key={region.region} className="space-y-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+                <Building2 size={18} className="text-slate-400" />
+                {region.region}
+              </h2>
+              <span className="text-sm text-slate-400">
+                {region.totals.ok} ok · {region.totals.low} low · {region.totals.empty} empty
+                · {region.totals.activeAlerts} active alerts
+              </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {region.stores.map(summary => (
+                <StoreCard
+                  key={summary.store.id}
+                  summary={summary}
+                  isCurrent={summary.store.id === currentStore?.id}
+                  onOpen={() => switchStore(summary.store.id)}
+                />
+              ))}
+            </div>
+          </section>
+        ))}
+
+        {can('manage-settings') && canAccessEveryStore(user) && <AddStoreForm onCreate={createStore} />}
+      </div>
+    </div>
+  );
+}
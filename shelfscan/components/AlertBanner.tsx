@@ -13,6 +13,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Alert } from '../lib/types';
+import { ALERT_TYPE_LABELS } from '../lib/alertUtils';
 import { 
   AlertTriangle, 
   ExternalLink 
@@ -48,9 +49,9 @@ const formatTimeAgo = (timestamp: string): string => {
  * Gets priority score for sorting (lower number = higher priority)
  */
 const getAlertPriority = (alert: Alert): number => {
-  const typeScore = alert.type === 'empty' ? 0 : 1;
+  const typeScore = alert.type === 'empty' ? 0 : alert.type === 'low' ? 1 : 2;
   const timeScore = new Date(alert.timestamp).getTime();
-  return typeScore * 1000000000000 - timeScore; // Empty alerts first, then by recency
+  return typeScore * 1000000000000 - timeScore; // Empty alerts first, then low, then predicted, each by recency
 };
 
 const AlertBanner: React.FC<AlertBannerProps> = ({
@@ -64,8 +65,8 @@ const AlertBanner: React.FC<AlertBannerProps> = ({
   const [isMounted, setIsMounted] = useState(false);
   useEffect(() => { setIsMounted(true); }, []);
 
-  // Safety check and filter to only unacknowledged alerts
-  const activeAlerts = (alerts || []).filter(alert => !alert.acknowledged);
+  // Safety check and filter to only open (unacknowledged) alerts
+  const activeAlerts = (alerts || []).filter(alert => alert.status === 'open');
   
   // Sort by priority (empty first, then by recency)
   const sortedAlerts = [...activeAlerts].sort((a, b) => 
@@ -127,10 +128,12 @@ const AlertBanner: React.FC<AlertBannerProps> = ({
                 className={`px-2 py-1 rounded text-xs font-medium ${
                   alert.type === 'empty' 
                     ? 'bg-red-500/20 text-red-400 border border-red-500/30'
-                    : 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                    : alert.type === 'low'
+                      ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                      : 'bg-sky-500/20 text-sky-400 border border-sky-500/30'
                 }`}
               >
-                {alert.type === 'empty' ? 'EMPTY' : 'LOW STOCK'}
+                {ALERT_TYPE_LABELS[alert.type]}
               </span>
               <div>
                 <p className="font-medium text-foreground">{alert.product}</p>
@@ -0,0 +1,193 @@
+'use client';
+
+/**
+ * Analytics Charts
+ *
+ * Small SVG charts for the Analytics page: a step-line chart of count
+ * history and a stacked bar chart of alert volume. Both scale to their
+ * container's width and draw straight from the API report.
+ */
+
+import React from 'react';
+import { AlertVolume, CountHistorySeries } from '../lib/types';
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+const SERIES_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
+  '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#64748b'
+];
+
+export const getSeriesColor = (index: number): string => SERIES_COLORS[index % SERIES_COLORS.length];
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+/**
+ * Round an axis maximum up to 1, 2 or 5 times a power of ten
+ */
+const niceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(factor => factor * magnitude >= value)!;
+  return step * magnitude;
+};
+
+const YAxis: React.FC<{ max: number }> = ({ max }) => (
+  <>
+    {[0, 0.5, 1].map(fraction => {
+      const y = PADDING.top + PLOT_HEIGHT * (1 - fraction);
+      return (
+        <g key={fraction}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#334155" strokeDasharray="3 3" />
+          <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize={11} fill="#94a3b8">
+            {Math.round(max * fraction)}
+          </text>
+        </g>
+      );
+    })}
+  </>
+);
+
+const Legend: React.FC<{ labels: string[] }> = ({ labels }) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-slate-300">
+    {labels.map((label, index) => (
+      <span key={`${label}-${index}`} className="flex items-center gap-1.5">
+        <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: getSeriesColor(index) }} />
+        {label}
+      </span>
+    ))}
+  </div>
+);
+
+// ============================================================================
+// COUNT HISTORY
+// ============================================================================
+
+interface CountHistoryChartProps {
+  series: CountHistorySeries[];
+  from: string;
+  to: string;
+  /** Series beyond this many are left out of the chart */
+  maxSeries?: number;
+}
+
+/**
+ * Counts only change when a scan reports them, so each series is drawn as a
+ * step line holding its last count until the next scan.
+ */
+export const CountHistoryChart: React.FC<CountHistoryChartProps> = ({ series, from, to, maxSeries = 10 }) => {
+  const shown = series.slice(0, maxSeries);
+  const fromMs = new Date(from).getTime();
+  const toMs = new Date(to).getTime();
+  const max = niceMax(Math.max(0, ...shown.flatMap(entry => entry.points.map(point => point.count))));
+
+  const x = (timestamp: string) =>
+    PADDING.left + ((new Date(timestamp).getTime() - fromMs) / Math.max(1, toMs - fromMs)) * PLOT_WIDTH;
+  const y = (count: number) => PADDING.top + PLOT_HEIGHT * (1 - count / max);
+
+  if (shown.length === 0) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No scans in this period</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Count history">
+        <YAxis max={max} />
+        {[from, to].map((timestamp, index) => (
+          <text
+            key={timestamp}
+            x={index === 0 ? PADDING.left : WIDTH - PADDING.right}
+            y={HEIGHT - 8}
+            textAnchor={index === 0 ? 'start' : 'end'}
+            fontSize={11}
+            fill="#94a3b8"
+          >
+            {new Date(timestamp).toLocaleDateString()}
+          </text>
+        ))}
+        {shown.map((entry, index) => {
+          const path = entry.points
+            .map((point, pointIndex) => pointIndex === 0
+              ? `M${x(point.timestamp)},${y(point.count)}`
+              : `H${x(point.timestamp)}V${y(point.count)}`)
+            .join('');
+          return (
+            <path key={entry.key} d={path} fill="none" stroke={getSeriesColor(index)} strokeWidth={2}>
+              <title>{entry.label}</title>
+            </path>
+          );
+        })}
+      </svg>
+      <Legend labels={shown.map(entry => entry.label)} />
+      {series.length > shown.length && (
+        <p className="text-xs text-slate-500 mt-1">Showing {shown.length} of {series.length}</p>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// ALERT VOLUME
+// ============================================================================
+
+/**
+ * Alerts opened per day, stacked by aisle
+ */
+export const AlertVolumeChart: React.FC<{ volume: AlertVolume }> = ({ volume }) => {
+  const { days, aisles } = volume;
+  const totals = days.map((_, dayIndex) => aisles.reduce((sum, row) => sum + row.counts[dayIndex], 0));
+  const max = niceMax(Math.max(0, ...totals));
+  const slot = PLOT_WIDTH / Math.max(1, days.length);
+  const barWidth = Math.max(2, slot * 0.7);
+  const labelEvery = Math.ceil(days.length / 8);
+
+  if (aisles.length === 0) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No alerts in this period</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Alert volume">
+        <YAxis max={max} />
+        {days.map((day, dayIndex) => {
+          const left = PADDING.left + slot * dayIndex + (slot - barWidth) / 2;
+          let stacked = 0;
+          return (
+            <g key={day}>
+              {aisles.map((row, aisleIndex) => {
+                const count = row.counts[dayIndex];
+                if (count === 0) return null;
+                stacked += count;
+                const top = PADDING.top + PLOT_HEIGHT * (1 - stacked / max);
+                return (
+                  <rect
+                    key={row.aisle}
+                    x={left}
+                    y={top}
+                    width={barWidth}
+                    height={(PLOT_HEIGHT * count) / max}
+                    fill={getSeriesColor(aisleIndex)}
+                  >
+                    <title>{`${day} · ${row.aisle}: ${count}`}</title>
+                  </rect>
+                );
+              })}
+              {dayIndex % labelEvery === 0 && (
+                <text x={left + barWidth / 2} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill="#94a3b8">
+                  {day.slice(5)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <Legend labels={aisles.map(row => `${row.aisle} (${row.total})`)} />
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Package, Pencil, Plus, Search, Trash2, X } from 'lucide-react';
+import { getCatalogCategories } from '../lib/catalog';
+import { validateCatalogProduct } from '../lib/validation';
+import { CatalogProduct, Shelf } from '../lib/types';
+import * as api from '../lib/api/client';
+
+// ============================================================================
+// PRODUCT FORM COMPONENT
+// ============================================================================
+
+const FORM_FIELDS = [
+  { key: 'sku', label: 'SKU', placeholder: 'DOVE-SOAP-100G' },
+  { key: 'name', label: 'Name', placeholder: 'Dove Soap 100g' },
+  { key: 'upc', label: 'UPC / EAN', placeholder: '12 or 13 digits' },
+  { key: 'brand', label: 'Brand', placeholder: 'Dove' },
+  { key: 'category', label: 'Category', placeholder: 'Personal Care' },
+  { key: 'packSize', label: 'Pack size', placeholder: '100g' },
+  { key: 'unitCost', label: 'Unit cost', placeholder: '1.20' },
+  { key: 'imageUrl', label: 'Image URL', placeholder: 'https://…' }
+] as const;
+
+type FormKey = typeof FORM_FIELDS[number]['key'];
+
+interface ProductFormProps {
+  /** Product being edited; a new product when omitted */
+  product?: CatalogProduct;
+  categories: string[];
+  /** Whether an existing product's name can be changed */
+  canRename: boolean;
+  onSave: (product: CatalogProduct) => Promise<void>;
+  onClose: () => void;
+}
+
+const ProductForm: React.FC<ProductFormProps> = ({ product, categories, canRename, onSave, onClose }) => {
+  const [values, setValues] = useState<Record<FormKey, string>>(() => {
+    const initial = {} as Record<FormKey, string>;
+    FORM_FIELDS.forEach(({ key }) => {
+      initial[key] = product?.[key] === undefined ? '' : String(product[key]);
+    });
+    return initial;
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Blank optional fields are left out; the server checks the same rules
+    const input: Record<string, unknown> = {};
+    FORM_FIELDS.forEach(({ key }) => {
+      const value = values[key].trim();
+      if (value !== '') input[key] = key === 'unitCost' ? Number(value) : value;
+    });
+    const result = validateCatalogProduct(input);
+    if (!result.isValid) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await onSave(result.value);
+      onClose();
+    } catch (saveError) {
+      setErrors([saveError instanceof Error ? saveError.message : 'Failed to save product']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* HEADER */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">{product ? `Edit ${product.name}` : 'Add Product'}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* CONTENT */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {FORM_FIELDS.map(({ key, label, placeholder }) => (
+              <label key={key} className={`block space-y-1 ${key === 'name' || key === 'imageUrl' ? 'sm:col-span-2' : ''}`}>
+                <span className="text-sm font-medium text-gray-900">
+                  {label}
+                  {(key === 'sku' || key === 'name') && <span className="text-red-500"> *</span>}
+                </span>
+                <input
+                  value={values[key]}
+                  onChange={(e) => setValues(current => ({ ...current, [key]: e.target.value }))}
+                  placeholder={placeholder}
+                  disabled={!!product && (key === 'sku' || (key === 'name' && !canRename))}
+                  list={key === 'category' ? 'catalog-categories' : undefined}
+                  inputMode={key === 'unitCost' ? 'decimal' : undefined}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900
+                           focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+                />
+              </label>
+            ))}
+          </div>
+          <datalist id="catalog-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
+
+          {errors.length > 0 && (
+            <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700 list-disc pl-6 space-y-0.5" role="alert">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {product ? 'Save Changes' : 'Add to Catalog'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// ============================================================================
+// CATALOG MANAGER COMPONENT
+// ============================================================================
+
+interface CatalogManagerProps {
+  catalog: CatalogProduct[];
+  shelves: Shelf[];
+  onCatalogChange: (catalog: CatalogProduct[]) => void;
+  /** Called after a rename, which changes names on shelves and alerts */
+  onRenamed: () => void;
+  canEdit: boolean;
+  /** Renames reach every store's shelves, so need access to every store */
+  canRename: boolean;
+  canDelete: boolean;
+}
+
+const sortByName = (catalog: CatalogProduct[]): CatalogProduct[] =>
+  [...catalog].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Searchable catalog table with where each product is stocked; managers add,
+ * edit and remove products from it
+ */
+const CatalogManager: React.FC<CatalogManagerProps> = ({
+  catalog,
+  shelves,
+  onCatalogChange,
+  onRenamed,
+  canEdit,
+  canRename,
+  canDelete
+}) => {
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  const [editing, setEditing] = useState<CatalogProduct | 'new' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = useMemo(() => getCatalogCategories(catalog), [catalog]);
+
+  const shelvesBySku = useMemo(() => {
+    const locations = new Map<string, string[]>();
+    shelves.forEach(shelf => shelf.items.forEach(item => {
+      locations.set(item.sku, [...(locations.get(item.sku) ?? []), shelf.id]);
+    }));
+    return locations;
+  }, [shelves]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return catalog.filter(product =>
+      (!category || product.category === category) &&
+      (!term || [product.sku, product.name, product.upc, product.brand]
+        .some(value => value?.toLowerCase().includes(term)))
+    );
+  }, [catalog, search, category]);
+
+  const handleSave = async (product: CatalogProduct) => {
+    setError(null);
+    if (editing === 'new') {
+      const created = await api.createCatalogProduct(product);
+      onCatalogChange(sortByName([...catalog, created]));
+      return;
+    }
+
+    // Blank optional fields clear whatever the product had before
+    const changes: Parameters<typeof api.updateCatalogProduct>[1] = {};
+    FORM_FIELDS.forEach(({ key }) => {
+      if (key !== 'sku') Object.assign(changes, { [key]: product[key] ?? null });
+    });
+    const updated = await api.updateCatalogProduct(product.sku, changes);
+    onCatalogChange(sortByName(catalog.map(entry => (entry.sku === updated.sku ? updated : entry))));
+    if (editing && updated.name !== editing.name) onRenamed();
+  };
+
+  const handleDelete = async (product: CatalogProduct) => {
+    if (!window.confirm(`Remove ${product.name} (${product.sku}) from the catalog?`)) return;
+    setError(null);
+    try {
+      await api.deleteCatalogProduct(product.sku);
+      onCatalogChange(catalog.filter(entry => entry.sku !== product.sku));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to remove product');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by SKU, name, barcode or brand"
+            className="w-full bg-slate-800/50 border border-slate-600/50 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-100
+                     placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+          />
+        </div>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          aria-label="Filter by category"
+          className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+                   focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+        >
+          <option value="">All categories</option>
+          {categories.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        {canEdit && (
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors text-sm"
+          >
+            <Plus size={16} />
+            Add Product
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-12 text-center">
+          <Package size={64} className="mx-auto text-slate-600 mb-6" />
+          <h3 className="text-xl font-semibold text-slate-100">
+            {catalog.length === 0 ? 'The catalog is empty' : 'No products match'}
+          </h3>
+        </div>
+      ) : (
+        <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50 text-left text-slate-400">
+                <th className="px-4 py-3 font-medium">Product</th>
+                <th className="px-4 py-3 font-medium">SKU</th>
+                <th className="px-4 py-3 font-medium">UPC / EAN</th>
+                <th className="px-4 py-3 font-medium">Category</th>
+                <th className="px-4 py-3 font-medium">Pack</th>
+                <th className="px-4 py-3 font-medium text-right">Unit cost</th>
+                <th className="px-4 py-3 font-medium">Shelves</th>
+                {canEdit && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(product => {
+                const locations = shelvesBySku.get(product.sku) ?? [];
+                return (
+                  <tr key={product.sku} className="border-b border-slate-800/50">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        {product.imageUrl ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={product.imageUrl} alt="" className="w-8 h-8 rounded object-cover bg-slate-800" />
+                        ) : (
+                          <div className="w-8 h-8 rounded bg-slate-800 flex items-center justify-center">
+                            <Package size={16} className="text-slate-500" />
+                          </div>
+                        )}
+                        <div>
+                          <div className="font-medium text-slate-100">{product.name}</div>
+                          {product.brand && <div className="text-xs text-slate-400">{product.brand}</div>}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-slate-300">{product.sku}</td>
+                    <td className="px-4 py-3 font-mono text-xs text-slate-300">{product.upc ?? '—'}</td>
+                    <td className="px-4 py-3 text-slate-300">{product.category ?? '—'}</td>
+                    <td className="px-4 py-3 text-slate-300">{product.packSize ?? '—'}</td>
+                    <td className="px-4 py-3 text-right text-slate-300">
+                      {product.unitCost === undefined ? '—' : product.unitCost.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 text-slate-300">
+                      {locations.length > 0 ? locations.join(', ') : <span className="text-slate-500">Not stocked</span>}
+                    </td>
+                    {canEdit && (
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => setEditing(product)}
+                            className="text-slate-400 hover:text-slate-100 transition-colors"
+                            aria-label={`Edit ${product.name}`}
+                          >
+                            <Pencil size={14} />
+                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete(product)}
+                              disabled={locations.length > 0}
+                              title={locations.length > 0 ? 'Remove it from its shelves first' : undefined}
+                              className="text-slate-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                              aria-label={`Remove ${product.name}`}
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <ProductForm
+          product={editing === 'new' ? undefined : editing}
+          categories={categories}
+          canRename={canRename}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CatalogManager;
@@ -13,7 +13,8 @@
 
 import React, { useState } from 'react';
 import { useAppContext } from '../lib/context/AppContext';
-import { Shelf, Alert } from '../lib/types';
+import { Shelf, Alert, Product } from '../lib/types';
+import { createAlert } from '../lib/alertLifecycle';
 import { 
   Square, 
   RotateCcw, 
@@ -70,13 +71,14 @@ const useDemoController = () => {
   const [lastSuccessfulStep, setLastSuccessfulStep] = useState<number>(-1);
 
   // Helper function to generate demo alert
-  const generateDemoAlert = (shelfId: string, product: string, type: 'empty' | 'low'): Alert => ({
+  const generateDemoAlert = (shelf: Shelf, item: Product, type: 'empty' | 'low'): Alert => createAlert({
     id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    shelf: shelfId,
-    product,
+    storeId: shelf.storeId,
+    shelf: shelf.id,
+    sku: item.sku,
+    product: item.product,
     type,
-    timestamp: new Date().toISOString(),
-    acknowledged: false
+    timestamp: new Date().toISOString()
   });
 
   // Helper function to update shelf status with error handling
@@ -208,7 +210,7 @@ const useDemoController = () => {
             if (targetShelf) {
               const emptyProducts = targetShelf.items.filter(item => item.count === 0);
               emptyProducts.forEach(product => {
-                const alert = generateDemoAlert(targetShelf.id, product.product, 'empty');
+                const alert = generateDemoAlert(targetShelf, product, 'empty');
                 dispatch({ type: 'ADD_ALERT', payload: alert });
               });
             }
@@ -221,7 +223,7 @@ const useDemoController = () => {
           duration: 3000,
           delay: 2000,
           action: () => {
-            const unacknowledgedAlert = alerts.find(a => !a.acknowledged && a.id.startsWith('demo-'));
+            const unacknowledgedAlert = alerts.find(a => a.status === 'open' && a.shelf === shelves[0]?.id);
             if (unacknowledgedAlert) {
               dispatch({ type: 'ACKNOWLEDGE_ALERT', payload: unacknowledgedAlert.id });
             }
@@ -302,7 +304,7 @@ const useDemoController = () => {
             if (targetShelf) {
               const lowStockItems = targetShelf.items.filter(item => item.count < item.threshold);
               lowStockItems.forEach(product => {
-                const alert = generateDemoAlert(targetShelf.id, product.product, 'low');
+                const alert = generateDemoAlert(targetShelf, product, 'low');
                 dispatch({ type: 'ADD_ALERT', payload: alert });
               });
             }
@@ -393,8 +395,8 @@ const useDemoController = () => {
               );
               criticalItems.forEach(item => {
                 const alert = generateDemoAlert(
-                  shelf.id, 
-                  item.product, 
+                  shelf, 
+                  item, 
                   item.count === 0 ? 'empty' : 'low'
                 );
                 dispatch({ type: 'ADD_ALERT', payload: alert });
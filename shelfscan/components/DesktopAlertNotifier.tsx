@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * DesktopAlertNotifier Component
+ *
+ * Raises a browser notification for each open alert that newly reaches the
+ * signed-in user (opened in their aisle, or fallen back to them as a
+ * manager), when desktop notifications are enabled in the store settings
+ * and the browser has granted permission. Alerts already open when the page
+ * loads, or when another store is picked, are not announced. Renders nothing.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useAlerts, useCurrentUser, useSettings, useStores } from '../lib/context/AppContext';
+import { ALERT_TYPE_LABELS } from '../lib/alertUtils';
+
+const DesktopAlertNotifier = () => {
+  const { myAlerts, loading } = useAlerts();
+  const { user } = useCurrentUser();
+  const { settings } = useSettings();
+  const { currentStore } = useStores();
+  const seenRef = useRef<Set<string> | null>(null);
+  const seenStoreRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Alerts start loading as soon as the session and store are known
+    if (!user || !currentStore || loading) return;
+
+    const seen = seenStoreRef.current === currentStore.id ? seenRef.current : null;
+    seenRef.current = new Set(myAlerts.map(alert => alert.id));
+    seenStoreRef.current = currentStore.id;
+    // The first load only records what is already open
+    if (!seen || !settings.notifications.desktop) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    myAlerts
+      .filter(alert => alert.status === 'open' && !seen.has(alert.id))
+      .forEach(alert => {
+        new Notification(`${ALERT_TYPE_LABELS[alert.type]}: ${alert.product}`, {
+          body: `Shelf ${alert.shelf} · ${currentStore.name}`,
+          tag: alert.id
+        });
+      });
+  }, [myAlerts, loading, user, currentStore, settings]);
+
+  return null;
+};
+
+export default DesktopAlertNotifier;
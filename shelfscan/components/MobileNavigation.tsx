@@ -8,6 +8,7 @@
  * - Full-screen overlay navigation
  * - Touch-friendly buttons and spacing
  * - Smooth animations and transitions
+ * - A store switcher (on desktop too) when there is more than one store
  */
 
 import React, { useState, useEffect } from 'react';
@@ -21,10 +22,12 @@ import {
   Activity,
   Settings,
   BarChart3,
+  Building2,
   MapPin,
-  Package
+  Package,
+  Users
 } from 'lucide-react';
-import { useAlerts } from '../lib/context/AppContext';
+import { useAlerts, useStores } from '../lib/context/AppContext';
 
 // ============================================================================
 // NAVIGATION ITEM TYPE
@@ -46,7 +49,7 @@ const useMobileNavigation = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
   const pathname = usePathname();
-  const { alerts } = useAlerts();
+  const { myUnacknowledgedAlerts } = useAlerts();
   
   // Track mount state to prevent hydration mismatch
   useEffect(() => {
@@ -71,8 +74,9 @@ const useMobileNavigation = () => {
     };
   }, [isOpen]);
   
-  // Only calculate urgent alerts after mount to prevent hydration mismatch
-  const urgentAlerts = isMounted ? alerts.filter(alert => !alert.acknowledged) : [];
+  // Only calculate urgent alerts after mount to prevent hydration mismatch;
+  // badges count the unacknowledged alerts routed to the signed-in user
+  const urgentAlerts = isMounted ? myUnacknowledgedAlerts : [];
   
   const navItems: NavItem[] = [
     {
@@ -106,6 +110,18 @@ const useMobileNavigation = () => {
       icon: Package,
       description: 'Product catalog and stock levels'
     },
+    {
+      href: '/staff',
+      label: 'Staff',
+      icon: Users,
+      description: 'Aisle and shift assignments'
+    },
+    {
+      href: '/stores',
+      label: 'Stores',
+      icon: Building2,
+      description: 'Regional overview and store switching'
+    },
     {
       href: '/settings',
       label: 'Settings',
@@ -123,6 +139,35 @@ const useMobileNavigation = () => {
   };
 };
 
+// ============================================================================
+// STORE SWITCHER COMPONENT
+// ============================================================================
+
+/**
+ * Picks the store every page shows; hidden while there's only one store
+ */
+export const StoreSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { stores, currentStore, switchStore } = useStores();
+
+  if (stores.length < 2 || !currentStore) return null;
+
+  return (
+    <select
+      value={currentStore.id}
+      onChange={(e) => switchStore(e.target.value)}
+      aria-label="Store"
+      className={`text-sm font-medium bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-700
+        focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${className}`}
+    >
+      {stores.map(store => (
+        <option key={store.id} value={store.id}>
+          {store.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
 // ============================================================================
 // MOBILE MENU OVERLAY COMPONENT
 // ============================================================================
@@ -168,6 +213,10 @@ const MobileMenuOverlay: React.FC<MobileMenuOverlayProps> = ({
           </button>
         </div>
         
+        <div className="px-4 pt-4">
+          <StoreSwitcher className="w-full" />
+        </div>
+
         {/* NAVIGATION ITEMS */}
         <nav className="flex-1 overflow-y-auto py-6">
           <div className="px-4 space-y-2">
@@ -273,10 +322,10 @@ const MobileNavButton: React.FC<MobileNavButtonProps> = ({
 
 export const MobileNavigation: React.FC = () => {
   const { isOpen, setIsOpen, navItems, currentPath, isMounted } = useMobileNavigation();
-  const { alerts } = useAlerts();
+  const { myUnacknowledgedAlerts } = useAlerts();
   
   // Only calculate urgent alerts after mount to prevent hydration mismatch
-  const urgentAlerts = isMounted ? alerts.filter(alert => !alert.acknowledged) : [];
+  const urgentAlerts = isMounted ? myUnacknowledgedAlerts : [];
   
   return (
     <>
@@ -304,7 +353,7 @@ export const MobileNavigation: React.FC = () => {
 export const DesktopNavigation: React.FC = () => {
   const [isMounted, setIsMounted] = useState(false);
   const pathname = usePathname();
-  const { alerts } = useAlerts();
+  const { myUnacknowledgedAlerts } = useAlerts();
   
   // Track mount state to prevent hydration mismatch
   useEffect(() => {
@@ -312,10 +361,12 @@ export const DesktopNavigation: React.FC = () => {
   }, []);
   
   // Only calculate urgent alerts after mount to prevent hydration mismatch
-  const urgentAlerts = isMounted ? alerts.filter(alert => !alert.acknowledged) : [];
+  const urgentAlerts = isMounted ? myUnacknowledgedAlerts : [];
   
   return (
     <nav className="hidden md:flex items-center gap-6">
+      <StoreSwitcher />
+
       <Link
         href="/"
         className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { PlanogramFormat, PlanogramImportResult } from '../lib/types';
+import * as api from '../lib/api/client';
+
+interface PlanogramImportDialogProps {
+  onImported: (result: PlanogramImportResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * Checks a planogram file with a dry run, shows which shelves it creates,
+ * changes or leaves off the map, and imports it once confirmed
+ */
+const PlanogramImportDialog: React.FC<PlanogramImportDialogProps> = ({ onImported, onClose }) => {
+  const [file, setFile] = useState<{ name: string; text: string; format: PlanogramFormat } | null>(null);
+  const [preview, setPreview] = useState<PlanogramImportResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [prune, setPrune] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (selected: File | undefined) => {
+    setPreview(null);
+    setErrors([]);
+    if (!selected) return;
+
+    const format: PlanogramFormat = selected.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    const text = await selected.text();
+    setFile({ name: selected.name, text, format });
+
+    setBusy(true);
+    try {
+      setPreview(await api.importPlanogram(text, format, { dryRun: true }));
+    } catch (error) {
+      setErrors(error instanceof Error ? error.message.split('; ') : ['Failed to check planogram']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      onImported(await api.importPlanogram(file.text, file.format, { prune }));
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to import planogram']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* HEADER */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Import Planogram</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* CONTENT */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-gray-900">Planogram file (.csv or .json)</span>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0
+                       file:bg-gray-100 file:text-gray-900 hover:file:bg-gray-200"
+            />
+          </label>
+
+          {busy && <p className="text-sm text-gray-600">Checking {file?.name}…</p>}
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3" role="alert">
+              <p className="text-sm font-medium text-red-700 mb-1">{file?.name} can&apos;t be imported:</p>
+              <ul className="text-xs text-red-700 list-disc pl-4 space-y-0.5">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {preview && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm text-gray-700">
+              <p>
+                <span className="font-medium text-gray-900">{preview.planogram.store}</span>:{' '}
+                {preview.planogram.aisles.length} aisles,{' '}
+                {preview.planogram.aisles.reduce((total, aisle) => total + aisle.shelves.length, 0)} shelves
+              </p>
+              <p>
+                {preview.created.length} new shelves, {preview.updated.length} shelves with changed aisles or products
+              </p>
+              {preview.addedSkus.length > 0 && (
+                <p>
+                  {preview.addedSkus.length} SKUs not yet in the catalog will be added ({preview.addedSkus.join(', ')})
+                </p>
+              )}
+              {preview.unplaced.length > 0 && (
+                <label className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={prune}
+                    onChange={(e) => setPrune(e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Delete the {preview.unplaced.length} shelves it doesn&apos;t list ({preview.unplaced.join(', ')})
+                    and their alerts
+                  </span>
+                </label>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={!preview || busy}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileUp size={16} />
+            Import Planogram
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanogramImportDialog;
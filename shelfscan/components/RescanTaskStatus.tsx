@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * RescanTaskStatus Component
+ *
+ * Shows where a shelf's latest drone rescan task stands: a spinner while it
+ * is pending, a warning if it failed or timed out, nothing once completed.
+ */
+
+import React from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { RescanTask } from '../lib/types';
+import { isPendingRescanTask, RESCAN_STATUS_LABELS } from '../lib/rescanTasks';
+
+interface RescanTaskStatusProps {
+  task: RescanTask | null | undefined;
+  className?: string;
+}
+
+const RescanTaskStatus: React.FC<RescanTaskStatusProps> = ({ task, className = '' }) => {
+  if (!task || task.status === 'completed') return null;
+
+  const pending = isPendingRescanTask(task);
+  const Icon = pending ? Loader2 : AlertTriangle;
+
+  return (
+    <p
+      className={`flex items-center gap-1 text-xs ${pending ? 'text-blue-400' : 'text-red-400'} ${className}`}
+      role="status"
+      title={task.droneId ? `${RESCAN_STATUS_LABELS[task.status]} (${task.droneId})` : undefined}
+    >
+      <Icon className={`w-3 h-3 ${pending ? 'animate-spin' : ''}`} />
+      {RESCAN_STATUS_LABELS[task.status]}
+    </p>
+  );
+};
+
+export default RescanTaskStatus;
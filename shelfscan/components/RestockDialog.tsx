@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RestockAmount, Shelf } from '../lib/types';
+import { getFillToParQuantity, getParLevel } from '../lib/inventory';
+import { getAlertCondition } from '../lib/alertEngine';
+import { X, PackagePlus } from 'lucide-react';
+
+interface RestockDialogProps {
+  shelf: Shelf;
+  sku: string;
+  onConfirm: (amount: RestockAmount) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks how many units were put on the shelf (or fills the slot to par)
+ * before recording a restock
+ */
+const RestockDialog: React.FC<RestockDialogProps> = ({
+  shelf,
+  sku,
+  onConfirm,
+  onClose
+}) => {
+  const product = shelf.items.find(item => item.sku === sku);
+  const parLevel = product ? getParLevel(product) : 0;
+  const toPar = product ? getFillToParQuantity(product) : 0;
+  const [quantity, setQuantity] = useState(String(toPar || 1));
+
+  if (!product) return null;
+
+  const parsedQuantity = Number(quantity);
+  const isValidQuantity = Number.isInteger(parsedQuantity) && parsedQuantity > 0;
+  const newCount = product.count + (isValidQuantity ? parsedQuantity : 0);
+  // The alert is resolved only once no condition (low, or a predicted stockout) remains
+  const remainingCondition = getAlertCondition({ ...product, count: newCount }, shelf.depletionRates?.[sku]);
+
+  const confirm = (amount: RestockAmount) => {
+    onConfirm(amount);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full">
+        {/* HEADER */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Restock {product.product}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* CONTENT */}
+        <form
+          className="p-6 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValidQuantity) confirm({ quantity: parsedQuantity });
+          }}
+        >
+          <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-3 gap-2 text-sm">
+            <div>
+              <div className="text-gray-600">On shelf</div>
+              <div className="font-semibold text-gray-900">{product.count}</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Threshold</div>
+              <div className="font-semibold text-gray-900">{product.threshold}</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Par</div>
+              <div className="font-semibold text-gray-900">{parLevel}</div>
+            </div>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-gray-900">Units added to Shelf {shelf.id}</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+
+          {isValidQuantity && (
+            <p className={`text-sm ${remainingCondition ? 'text-amber-600' : 'text-green-600'}`}>
+              {remainingCondition === null
+                ? `${newCount} units on shelf, the alert will be resolved`
+                : remainingCondition === 'predicted-stockout'
+                  ? `${newCount} units is predicted to fall below threshold soon, so the alert stays open`
+                  : `${newCount} units is still below threshold, so the alert stays open`}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <button
+              type="submit"
+              disabled={!isValidQuantity}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PackagePlus size={16} />
+              Add {isValidQuantity ? parsedQuantity : ''} Units
+            </button>
+            <button
+              type="button"
+              disabled={toPar === 0}
+              onClick={() => confirm({ fillToPar: true })}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {toPar === 0 ? 'Already at par' : `Fill to Par (+${toPar})`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RestockDialog;
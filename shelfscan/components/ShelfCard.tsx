@@ -6,7 +6,9 @@
  */
 
 import React from 'react';
-import { Shelf } from '../lib/types';
+import { RescanTask, Shelf } from '../lib/types';
+import RescanTaskStatus from './RescanTaskStatus';
+import StockForecastStatus from './StockForecastStatus';
 import { 
   AlertTriangle, 
   CheckCircle, 
@@ -21,8 +23,10 @@ import {
 interface ShelfCardProps {
   shelf: Shelf;
   onViewDetails?: (shelfId: string) => void;
-  onMarkRestocked?: (shelfId: string, productName: string) => void;
+  onMarkRestocked?: (shelfId: string, sku: string) => void;
   onRequestRescan?: (shelfId: string) => void;
+  /** Latest drone rescan task for the shelf */
+  rescanTask?: RescanTask | null;
   className?: string;
 }
 
@@ -117,6 +121,7 @@ const ShelfCard: React.FC<ShelfCardProps> = ({
   onViewDetails,
   onMarkRestocked,
   onRequestRescan,
+  rescanTask,
   className = ''
 }) => {
 
@@ -150,6 +155,8 @@ const ShelfCard: React.FC<ShelfCardProps> = ({
           <p className="text-sm text-foreground">{statusConfig.label}</p>
           <p className="text-xs text-muted-foreground">{formatTimeAgo(shelf.lastScanned)}</p>
           <p className="text-xs text-muted-foreground">{shelf.items.length} products</p>
+          <RescanTaskStatus task={rescanTask} />
+          <StockForecastStatus shelf={shelf} />
           {shelf.status !== 'ok' && metrics.criticalItems.length > 0 && (
             <p className="text-xs text-muted-foreground">{metrics.criticalItems.length} critical</p>
           )}
@@ -185,7 +192,7 @@ const ShelfCard: React.FC<ShelfCardProps> = ({
                 onClick={(e) => {
                   e.stopPropagation();
                   if (criticalProduct) {
-                                         onMarkRestocked?.(shelf.id, criticalProduct.product);
+                                         onMarkRestocked?.(shelf.id, criticalProduct.sku);
                   }
                 }}
                 className="w-full px-3 py-2 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white text-sm rounded hover:from-emerald-700 hover:to-emerald-600 transition-all duration-200 shadow-lg shadow-emerald-500/25"
@@ -1,22 +1,64 @@
 'use client';
 
-import React from 'react';
-import { Shelf } from '../lib/types';
-import { X, Package, MapPin, Clock, RotateCcw, CheckCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { RescanTask, Shelf, ThresholdRecommendation } from '../lib/types';
+import { isPendingRescanTask } from '../lib/rescanTasks';
+import * as api from '../lib/api/client';
+import RescanTaskStatus from './RescanTaskStatus';
+import { X, Package, MapPin, Clock, RotateCcw, CheckCircle, Camera, Lightbulb } from 'lucide-react';
 
 interface ShelfDetailModalProps {
   shelf: Shelf;
   onClose: () => void;
-  onMarkRestocked: (shelfId: string, productName: string) => void;
-  onRequestRescan: (shelfId: string) => void;
+  /** Omitted when the signed-in user can't restock */
+  onMarkRestocked?: (shelfId: string, sku: string) => void;
+  /** Omitted when the signed-in user can't request rescans */
+  onRequestRescan?: (shelfId: string) => void;
+  onScanWithCamera?: (shelfId: string) => void;
+  /** Latest drone rescan task for the shelf */
+  rescanTask?: RescanTask | null;
+  /** Omitted when the signed-in user can't edit shelves */
+  onAcceptThreshold?: (shelfId: string, sku: string) => Promise<unknown>;
 }
 
 const ShelfDetailModal: React.FC<ShelfDetailModalProps> = ({
   shelf,
   onClose,
   onMarkRestocked,
-  onRequestRescan
+  onRequestRescan,
+  onScanWithCamera,
+  rescanTask,
+  onAcceptThreshold
 }) => {
+  const [recommendations, setRecommendations] = useState<Record<string, ThresholdRecommendation>>({});
+  const [acceptingSku, setAcceptingSku] = useState<string | null>(null);
+
+  // Refetched when a scan or an accepted suggestion changes the shelf
+  const thresholdsKey = shelf.items.map(item => `${item.sku}:${item.threshold}`).join(',');
+  useEffect(() => {
+    let cancelled = false;
+    api.fetchThresholdRecommendations({ shelf: shelf.id })
+      .then(list => {
+        if (!cancelled) setRecommendations(Object.fromEntries(list.map(entry => [entry.sku, entry])));
+      })
+      .catch(() => {
+        if (!cancelled) setRecommendations({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shelf.id, shelf.lastScanned, thresholdsKey]);
+
+  const handleAcceptThreshold = async (sku: string) => {
+    if (!onAcceptThreshold) return;
+    setAcceptingSku(sku);
+    try {
+      await onAcceptThreshold(shelf.id, sku);
+    } finally {
+      setAcceptingSku(null);
+    }
+  };
+
   const formatDateTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleString('en-US', {
       year: 'numeric',
@@ -143,12 +185,35 @@ const ShelfDetailModal: React.FC<ShelfDetailModalProps> = ({
                         <span className="ml-2 font-semibold text-gray-900">{item.threshold} units</span>
                       </div>
                     </div>
+                    {recommendations[item.sku] && recommendations[item.sku].recommendedThreshold !== item.threshold && (
+                      <div className="mt-2 flex items-center justify-between gap-2 text-sm">
+                        <span
+                          className="flex items-center gap-1 text-blue-700"
+                          title={`Sells ~${recommendations[item.sku].ratePerHour.toFixed(1)}/h; restocked within ~${
+                            recommendations[item.sku].leadTimeHours
+                          }h; ${Math.round(recommendations[item.sku].serviceLevel * 100)}% service level`}
+                        >
+                          <Lightbulb size={14} />
+                          Suggested: {recommendations[item.sku].recommendedThreshold} units
+                        </span>
+                        {onAcceptThreshold && (
+                          <button
+                            onClick={() => handleAcceptThreshold(item.sku)}
+                            disabled={acceptingSku !== null}
+                            className="px-2 py-1 text-xs font-medium text-blue-700 border border-blue-200 rounded
+                                     hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                          >
+                            {acceptingSku === item.sku ? 'Applying…' : 'Accept'}
+                          </button>
+                        )}
+                      </div>
+                    )}
                     {/* Individual product actions */}
-                    {item.count === 0 && (
+                    {onMarkRestocked && item.count < item.threshold && (
                       <div className="mt-3">
                         <button
                           onClick={() => {
-                            onMarkRestocked(shelf.id, item.product);
+                            onMarkRestocked(shelf.id, item.sku);
                             onClose();
                           }}
                           className="w-full px-3 py-2 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition-colors"
@@ -191,17 +256,31 @@ const ShelfDetailModal: React.FC<ShelfDetailModalProps> = ({
           <div className="space-y-3">
             <h3 className="font-medium text-gray-900">Shelf Actions</h3>
             <div className="space-y-2">
-              <button
-                onClick={() => {
-                  onRequestRescan(shelf.id);
-                  // Don't close modal - user will use camera and close manually
-                }}
-                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white 
-                         rounded-lg hover:from-blue-700 hover:to-blue-600 transition-all duration-200 font-medium shadow-lg shadow-blue-500/25"
-              >
-                <RotateCcw size={16} />
-                Rescan
-              </button>
+              {onRequestRescan && (
+                <button
+                  onClick={() => onRequestRescan(shelf.id)}
+                  disabled={!!rescanTask && isPendingRescanTask(rescanTask)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white 
+                           rounded-lg hover:from-blue-700 hover:to-blue-600 transition-all duration-200 font-medium shadow-lg shadow-blue-500/25
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RotateCcw size={16} />
+                  Request Drone Rescan
+                </button>
+              )}
+              <RescanTaskStatus task={rescanTask} className="justify-center" />
+              {onScanWithCamera && (
+                <button
+                  onClick={() => {
+                    onScanWithCamera(shelf.id);
+                    // Don't close modal - user will use camera and close manually
+                  }}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Camera size={16} />
+                  Scan with Camera
+                </button>
+              )}
             </div>
           </div>
         </div>
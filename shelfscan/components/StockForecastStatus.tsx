@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * StockForecastStatus Component
+ *
+ * Shows the product on a shelf expected to run low soonest, at the rate it
+ * has been selling: when it drops below threshold and when it runs out.
+ * Highlighted once it is inside the predicted-stockout horizon; nothing is
+ * shown until the server has learned a rate for a product still in stock.
+ */
+
+import React from 'react';
+import { TrendingDown } from 'lucide-react';
+import { Shelf } from '../lib/types';
+import { getShelfForecasts, PREDICTED_STOCKOUT_HORIZON_MS } from '../lib/forecasting';
+import { formatDuration } from '../lib/alertUtils';
+
+interface StockForecastStatusProps {
+  shelf: Shelf;
+  className?: string;
+}
+
+const formatRemaining = (timestamp: string, now: number): string => {
+  const remaining = new Date(timestamp).getTime() - now;
+  return remaining > 0 ? `in ~${formatDuration(remaining)}` : 'any time now';
+};
+
+const StockForecastStatus: React.FC<StockForecastStatusProps> = ({ shelf, className = '' }) => {
+  const next = getShelfForecasts(shelf).find(forecast =>
+    forecast.timeToThresholdMs !== null && forecast.timeToThresholdMs > 0
+  );
+  if (!next || !next.thresholdAt) return null;
+
+  const now = Date.now();
+  const predicted = next.timeToThresholdMs! <= PREDICTED_STOCKOUT_HORIZON_MS;
+
+  return (
+    <p
+      className={`flex items-center gap-1 text-xs ${predicted ? 'text-sky-400' : 'text-slate-400'} ${className}`}
+      role="status"
+      title={`${next.product} sells ~${next.ratePerHour.toFixed(1)}/h${
+        next.emptyAt ? `; empty ${formatRemaining(next.emptyAt, now)}` : ''
+      }`}
+    >
+      <TrendingDown className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate">{next.product} low {formatRemaining(next.thresholdAt, now)}</span>
+    </p>
+  );
+};
+
+export default StockForecastStatus;
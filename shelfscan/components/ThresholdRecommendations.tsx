@@ -0,0 +1,243 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, History, Lightbulb } from 'lucide-react';
+import { getCatalogCategories } from '../lib/catalog';
+import { formatRelativeTime } from '../lib/alertUtils';
+import { DEFAULT_SERVICE_LEVEL, SERVICE_LEVELS } from '../lib/thresholds';
+import { CatalogProduct, Shelf, ThresholdChange, ThresholdRecommendation, ThresholdScope } from '../lib/types';
+import * as api from '../lib/api/client';
+
+const SELECT_STYLE = `bg-slate-800/50 border border-slate-600/50 rounded-lg px-3 py-2 text-sm text-slate-100
+  focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50`;
+
+const LEAD_TIME_SOURCES: Record<ThresholdRecommendation['leadTimeSource'], string> = {
+  slot: 'this slot',
+  aisle: 'aisle average',
+  default: 'default'
+};
+
+const RECENT_CHANGES = 10;
+
+interface ThresholdRecommendationsProps {
+  catalog: CatalogProduct[];
+  shelves: Shelf[];
+  /** Omitted when the signed-in user can't edit shelves */
+  onApply?: (scope: ThresholdScope & { serviceLevel: number }) => Promise<ThresholdChange[] | null>;
+}
+
+/**
+ * Suggested thresholds next to the current ones, filterable by aisle and
+ * category, with the audit trail of recent changes; managers accept a
+ * single suggestion or every one in the filtered aisle or category
+ */
+const ThresholdRecommendations: React.FC<ThresholdRecommendationsProps> = ({ catalog, shelves, onApply }) => {
+  const [aisle, setAisle] = useState('');
+  const [category, setCategory] = useState('');
+  const [serviceLevel, setServiceLevel] = useState(DEFAULT_SERVICE_LEVEL);
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [recommendations, setRecommendations] = useState<ThresholdRecommendation[]>([]);
+  const [history, setHistory] = useState<ThresholdChange[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const aisles = useMemo(() => [...new Set(shelves.map(shelf => shelf.aisle))].sort(), [shelves]);
+  const categories = useMemo(() => getCatalogCategories(catalog), [catalog]);
+
+  // Shelves change with every scan and accepted suggestion, so both lists follow them
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      api.fetchThresholdRecommendations({ aisle: aisle || undefined, category: category || undefined, serviceLevel }),
+      api.fetchThresholdChanges()
+    ])
+      .then(([nextRecommendations, nextHistory]) => {
+        if (cancelled) return;
+        setRecommendations(nextRecommendations);
+        setHistory(nextHistory.slice(0, RECENT_CHANGES));
+        setError(null);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load recommendations');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [aisle, category, serviceLevel, shelves]);
+
+  const visible = changesOnly
+    ? recommendations.filter(entry => entry.recommendedThreshold !== entry.currentThreshold)
+    : recommendations;
+  const pending = recommendations.filter(entry => entry.recommendedThreshold !== entry.currentThreshold).length;
+
+  const handleApply = async (scope: ThresholdScope) => {
+    if (!onApply) return;
+    setBusy(true);
+    setError(null);
+    const changes = await onApply({ ...scope, serviceLevel });
+    if (!changes) setError('Failed to update thresholds');
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select value={aisle} onChange={(e) => setAisle(e.target.value)} aria-label="Filter by aisle" className={SELECT_STYLE}>
+          <option value="">All aisles</option>
+          {aisles.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          aria-label="Filter by category"
+          className={SELECT_STYLE}
+        >
+          <option value="">All categories</option>
+          {categories.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={serviceLevel}
+          onChange={(e) => setServiceLevel(Number(e.target.value))}
+          aria-label="Service level"
+          className={SELECT_STYLE}
+        >
+          {SERVICE_LEVELS.map(level => (
+            <option key={level} value={level}>{Math.round(level * 100)}% service level</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={changesOnly}
+            onChange={(e) => setChangesOnly(e.target.checked)}
+            className="rounded border-slate-600 bg-slate-800"
+          />
+          Changes only
+        </label>
+        {onApply && (aisle || category) && (
+          <button
+            onClick={() => handleApply({ aisle: aisle || undefined, category: category || undefined })}
+            disabled={busy || pending === 0}
+            className="sm:ml-auto flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg
+                     hover:bg-blue-500 disabled:opacity-50 transition-colors text-sm"
+          >
+            <Lightbulb size={16} />
+            Apply {pending} in {[aisle, category].filter(Boolean).join(' · ')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-950/50 border border-red-800/50 text-red-400 rounded-lg px-4 py-3 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-12 text-center">
+          <Lightbulb size={64} className="mx-auto text-slate-600 mb-6" />
+          <h3 className="text-xl font-semibold text-slate-100">
+            {recommendations.length === 0 ? 'No sell-through learned yet' : 'Every threshold matches its suggestion'}
+          </h3>
+          <p className="text-slate-400 mt-2">
+            Suggestions appear once a product has been scanned selling a few times
+          </p>
+        </div>
+      ) : (
+        <div className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50 text-left text-slate-400">
+                <th className="px-4 py-3 font-medium">Product</th>
+                <th className="px-4 py-3 font-medium">Shelf</th>
+                <th className="px-4 py-3 font-medium text-right">Sells</th>
+                <th className="px-4 py-3 font-medium text-right">Restocked within</th>
+                <th className="px-4 py-3 font-medium text-right">Current</th>
+                <th className="px-4 py-3 font-medium text-right">Suggested</th>
+                {onApply && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => {
+                const delta = entry.recommendedThreshold - entry.currentThreshold;
+                return (
+                  <tr key={`${entry.shelf}/${entry.sku}`} className="border-b border-slate-800/50 text-slate-300">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-slate-100">{entry.product}</div>
+                      <div className="font-mono text-xs text-slate-500">{entry.sku}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="font-mono">{entry.shelf}</span>
+                      <span className="text-slate-500"> · {entry.aisle}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right">{entry.ratePerHour.toFixed(1)}/h</td>
+                    <td className="px-4 py-3 text-right">
+                      {entry.leadTimeHours}h
+                      <div className="text-xs text-slate-500">{LEAD_TIME_SOURCES[entry.leadTimeSource]}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right">{entry.currentThreshold}</td>
+                    <td className="px-4 py-3 text-right">
+                      <span className="inline-flex items-center gap-1 font-semibold text-slate-100">
+                        {delta > 0 && <ArrowUp size={14} className="text-amber-400" />}
+                        {delta < 0 && <ArrowDown size={14} className="text-emerald-400" />}
+                        {entry.recommendedThreshold}
+                      </span>
+                    </td>
+                    {onApply && (
+                      <td className="px-4 py-3 text-right">
+                        {delta !== 0 && (
+                          <button
+                            onClick={() => handleApply({ shelf: entry.shelf, sku: entry.sku })}
+                            disabled={busy}
+                            className="px-3 py-1 rounded-lg text-xs font-medium bg-slate-800/50 text-blue-400
+                                     hover:bg-slate-700/50 disabled:opacity-50 transition-colors"
+                          >
+                            Apply
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <section className="bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm rounded-xl p-4 sm:p-6">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-100 mb-4">
+          <History size={18} />
+          Recent threshold changes
+        </h2>
+        {history.length === 0 ? (
+          <p className="text-sm text-slate-500">No thresholds have been changed yet</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {history.map(change => (
+              <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 text-slate-300">
+                <span>
+                  <span className="text-slate-100">{change.product}</span>
+                  <span className="text-slate-500"> on </span>
+                  <span className="font-mono">{change.shelf}</span>
+                  <span className="text-slate-500">: </span>
+                  {change.previousThreshold} → <span className="font-semibold text-slate-100">{change.newThreshold}</span>
+                  <span className="text-slate-500">
+                    {change.recommendation
+                      ? ` (suggested at ${Math.round(change.recommendation.serviceLevel * 100)}%)`
+                      : ' (manual)'}
+                  </span>
+                </span>
+                <span className="text-xs text-slate-500">
+                  {change.by} · {formatRelativeTime(change.timestamp)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ThresholdRecommendations;
@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * UserMenu Component
+ *
+ * Shows who is signed in and their role, with a sign-out button.
+ */
+
+import React from 'react';
+import { LogOut, UserCircle } from 'lucide-react';
+import { useCurrentUser } from '../lib/context/AppContext';
+import { ROLE_LABELS } from '../lib/roles';
+
+interface UserMenuProps {
+  className?: string;
+}
+
+const UserMenu: React.FC<UserMenuProps> = ({ className = '' }) => {
+  const { user, logout } = useCurrentUser();
+  if (!user) return null;
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <UserCircle className="w-5 h-5 text-slate-400" />
+        <div className="leading-tight">
+          <div className="font-medium text-slate-100">{user.name}</div>
+          <div className="text-xs text-slate-400">{ROLE_LABELS[user.role]}</div>
+        </div>
+      </div>
+      <button
+        onClick={logout}
+        className="p-2 text-slate-400 hover:text-slate-100 hover:bg-slate-800/50 rounded-lg transition-colors"
+        aria-label="Sign out"
+        title="Sign out"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UserMenu;
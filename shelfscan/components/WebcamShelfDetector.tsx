@@ -2,49 +2,187 @@
 
 /**
  * Webcam-based shelf detection component
- * Uses TensorFlow.js COCO-SSD for real-time object detection
+ * Runs the store's configured detection backend on the webcam. Each frame's
+ * detections become proposed counts for the shelf in view, which staff
+ * review (and correct) before they are recorded as a scan.
  */
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Camera, Square, X, Zap, AlertCircle } from 'lucide-react';
-import { useAppContext } from '../lib/context/AppContext';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { Camera, Square, X, Zap, AlertCircle, ClipboardCheck } from 'lucide-react';
+import { useAppContext, useCurrentUser, useSettings, useStaffActions } from '../lib/context/AppContext';
+import { getWebcamStream, stopWebcamStream } from '../lib/camera/objectDetection';
+import type { Detection, DetectionBackend } from '../lib/camera/detectionBackend';
+import { getConfiguredBackend, getDetectionBackend } from '../lib/camera/detectionRegistry';
+import { mapObjectsToShelf, type ShelfDetectionResult } from '../lib/camera/shelfMapping';
 import {
-  initializeModel,
-  mapObjectsToShelf,
-  getWebcamStream,
-  stopWebcamStream,
-  type DetectedObject,
-  type ShelfDetectionResult
-} from '../lib/camera/objectDetection';
-import { detectObjectsEnhancedHF, initializeHFModel } from '../lib/camera/huggingFaceDetection';
+  reconcileDetections,
+  type DetectionReconciliation,
+  type ProductDetectionStatus
+} from '../lib/camera/reconciliation';
+import { DetectionBackendId, ScanUpdate } from '../lib/types';
 
 interface WebcamShelfDetectorProps {
   isOpen: boolean;
   onClose: () => void;
   targetShelfId?: string; // For specific shelf rescanning
-  isModelPreloaded?: boolean; // Whether model is already loaded
 }
 
-interface DetectedProduct {
-  product: string;
-  count: number;
-  threshold: number;
+const STATUS_BADGES: Record<ProductDetectionStatus, { label: string; className: string }> = {
+  'seen': { label: 'Seen', className: 'bg-green-100 text-green-800' },
+  'not-seen': { label: 'Not seen', className: 'bg-red-100 text-red-800' },
+  'unknown': { label: 'Unknown', className: 'bg-gray-100 text-gray-700' }
+};
+
+interface ScanReviewPanelProps {
+  review: DetectionReconciliation;
+  canSubmit: boolean;
+  onApply: (update: ScanUpdate) => Promise<void>;
+  onDiscard: () => void;
 }
 
-const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClose, targetShelfId, isModelPreloaded = false }) => {
-  const { state, dispatch } = useAppContext();
+/**
+ * Proposed counts for one frame, editable before they are submitted as a scan
+ */
+const ScanReviewPanel: React.FC<ScanReviewPanelProps> = ({ review, canSubmit, onApply, onDiscard }) => {
+  const [counts, setCounts] = useState<Record<string, number>>(() =>
+    Object.fromEntries(review.products.map(product => [product.sku, product.count]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onApply({
+        ...review.update,
+        items: review.update.items.map(item => ({ ...item, count: counts[item.sku] ?? item.count }))
+      });
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : 'Failed to record scan');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-green-200 rounded-lg p-4 space-y-3">
+      <h3 className="font-medium text-gray-900 flex items-center gap-2">
+        <ClipboardCheck className="w-4 h-4 text-green-600" />
+        Review counts for Shelf {review.shelfId}
+      </h3>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 font-medium">Product</th>
+            <th className="py-1 font-medium text-right">Current</th>
+            <th className="py-1 font-medium text-right">Proposed</th>
+            <th className="py-1 font-medium text-right">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {review.products.map(product => (
+            <tr key={product.sku} className="border-t border-gray-100">
+              <td className="py-2">
+                <div className="text-gray-900">{product.product}</div>
+                <div className="text-xs text-gray-500">{product.sku}</div>
+              </td>
+              <td className="py-2 text-right text-gray-600">{product.previousCount}</td>
+              <td className="py-2 text-right">
+                <input
+                  type="number"
+                  min={0}
+                  value={counts[product.sku]}
+                  onChange={(e) => {
+                    const count = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    setCounts(current => ({ ...current, [product.sku]: count }));
+                  }}
+                  disabled={isSaving}
+                  aria-label={`Proposed count for ${product.product}`}
+                  className="w-16 border border-gray-300 rounded px-2 py-1 text-right"
+                />
+              </td>
+              <td className="py-2 text-right">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_BADGES[product.status].className}`}>
+                  {STATUS_BADGES[product.status].label}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {review.ambiguous.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Not counted, could be more than one product:{' '}
+          {review.ambiguous.map(obj => `${obj.class} (${Math.round(obj.score * 100)}%)`).join(', ')}
+        </p>
+      )}
+
+      {review.unmatched.length > 0 && (
+        <div className="text-sm">
+          <p className="text-gray-700 mb-1">Not on this shelf:</p>
+          <div className="flex flex-wrap gap-2">
+            {review.unmatched.map((obj, idx) => (
+              <span key={idx} className="px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                {obj.class} ({Math.round(obj.score * 100)}%)
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-700" role="alert">{error}</p>}
+      {!canSubmit && (
+        <p className="text-sm text-gray-600">Your role can review counts but not record scans.</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleApply}
+          disabled={!canSubmit || isSaving}
+          className="py-2 px-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+        >
+          {isSaving ? 'Recording…' : 'Apply scan'}
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={isSaving}
+          className="py-2 px-4 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-lg font-medium transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClose, targetShelfId }) => {
+  const { state } = useAppContext();
+  const { settings } = useSettings();
+  const { can } = useCurrentUser();
+  const { submitScan } = useStaffActions();
+  const { backend, endpoint, ensembleBackends, minScore, mappingConfidence, updateConfidence } = settings.detection;
+  const detector = useMemo(
+    () => getConfiguredBackend({ backend, endpoint, ensembleBackends }),
+    [backend, endpoint, ensembleBackends]
+  );
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const attemptedDetectorRef = useRef<DetectionBackend | null>(null);
 
-  // Component state
-  const [isModelLoaded, setIsModelLoaded] = useState(false);
+  // Component state; a settings change builds a new detector, which must
+  // initialize before it is used
+  const [loadedDetector, setLoadedDetector] = useState<DetectionBackend | null>(null);
+  const isModelLoaded = loadedDetector === detector;
   const [isDetecting, setIsDetecting] = useState(false);
   const [lastDetection, setLastDetection] = useState<ShelfDetectionResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
-  const [detectionSource, setDetectionSource] = useState<'hugging-face' | 'coco-ssd' | null>(null);
+  const [detectionSource, setDetectionSource] = useState<DetectionBackendId | null>(null);
+  const [review, setReview] = useState<DetectionReconciliation | null>(null);
 
   const startWebcam = async () => {
     try {
@@ -65,20 +203,10 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     setError(null);
     
     try {
-      // Initialize both Hugging Face and COCO-SSD models
-      console.log('🚀 Initializing AI models...');
-      const [hfSuccess, cocoSuccess] = await Promise.all([
-        initializeHFModel(),
-        initializeModel()
-      ]);
-      
-      if (hfSuccess || cocoSuccess) {
-        setIsModelLoaded(true);
-        console.log('✅ AI models initialized:', { 
-          huggingFace: hfSuccess, 
-          cocoSSD: cocoSuccess 
-        });
-        await startWebcam();
+      // Initialize the configured backend (and its COCO-SSD fallback)
+      if (await detector.init()) {
+        setLoadedDetector(detector);
+        console.log('✅ AI models initialized');
       } else {
         setError('Failed to load AI models');
       }
@@ -87,25 +215,28 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     } finally {
       setIsInitializing(false);
     }
-  }, []);
+  }, [detector]);
 
-  // Initialize model on component mount
+  // Initialize the model on open, and again whenever the detector changes;
+  // a detector that failed is not retried until the modal is reopened
   useEffect(() => {
-    if (isOpen) {
-      if (isModelPreloaded && !isModelLoaded) {
-        // Model is preloaded, just start webcam
-        setIsModelLoaded(true);
-      } else if (!isModelLoaded && !isInitializing) {
-        // Model not preloaded, initialize it
-        initializeModelAsync();
-      }
+    if (!isOpen) {
+      attemptedDetectorRef.current = null;
+    } else if (!isModelLoaded && !isInitializing && attemptedDetectorRef.current !== detector) {
+      attemptedDetectorRef.current = detector;
+      initializeModelAsync();
     }
-  }, [isOpen, isModelLoaded, isInitializing, isModelPreloaded, initializeModelAsync]);
+  }, [isOpen, isModelLoaded, isInitializing, initializeModelAsync, detector]);
 
-  // Auto-start webcam when model is loaded and modal is open
+  // Auto-start webcam when model is loaded and modal is open; after a new
+  // detector loads, the remounted video is given the running stream
   useEffect(() => {
-    if (isOpen && isModelLoaded && !streamRef.current) {
+    if (!isOpen || !isModelLoaded) return;
+    if (!streamRef.current) {
       startWebcam();
+    } else if (videoRef.current && videoRef.current.srcObject !== streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+      videoRef.current.play();
     }
   }, [isOpen, isModelLoaded]);
 
@@ -138,38 +269,30 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     if (!videoRef.current || !isModelLoaded) return;
 
     try {
-      // Use enhanced detection with Hugging Face primary, COCO-SSD fallback
-      console.log('🔍 Starting enhanced AI detection...');
-      const enhancedResult = await detectObjectsEnhancedHF(videoRef.current);
-      
-      setDetectionSource(enhancedResult.source);
-      
-      // Convert to DetectedObject format
-      const detectedObjects: DetectedObject[] = enhancedResult.objects.map(obj => ({
-        class: obj.class,
-        score: obj.confidence,
-        bbox: (obj.box && obj.box.length >= 4 ? 
-          [obj.box[0], obj.box[1], obj.box[2] - obj.box[0], obj.box[3] - obj.box[1]] : 
-          [0, 0, 100, 100]) as [number, number, number, number]
-      }));
+      const detectedObjects = await detector.detect(videoRef.current, minScore);
+      if (detectedObjects.length > 0) {
+        setDetectionSource(detectedObjects[0].source);
+      }
       
-      const result = mapObjectsToShelf(detectedObjects);
+      // Shelves carry their planogram slots, so the frame is matched against what each should hold
+      const result = mapObjectsToShelf(detectedObjects, state.shelves, mappingConfidence);
       
       setLastDetection(result);
       
       // Draw detection results on canvas
       drawDetections(detectedObjects);
       
-      // Update shelf if detection found OR if we're targeting a specific shelf
-      // Lowered confidence threshold for better detection
-      if ((result.mappedShelf && result.confidence > 0.3) || targetShelfId) {
-        updateShelfFromDetection(result);
+      // Propose counts for the shelf being rescanned, else the one in view;
+      // a pending proposal is kept until it is applied or discarded
+      const shelfId = targetShelfId ?? (result.confidence > updateConfidence ? result.mappedShelf : null);
+      const shelf = state.shelves.find(s => s.id === shelfId);
+      if (shelf && result.detectedObjects.length > 0) {
+        setReview(current => current ?? reconcileDetections(shelf, result.detectedObjects, { timestamp: result.timestamp }));
       }
       
-      // Debug: Log all detected objects regardless of confidence
-      if (enhancedResult.objects.length > 0) {
-        console.log('🔍 Detected objects:', enhancedResult.objects.map(obj => 
-          `${obj.class} (${Math.round(obj.confidence * 100)}%)`
+      if (detectedObjects.length > 0) {
+        console.log('🔍 Detected objects:', detectedObjects.map(obj =>
+          `${obj.class} (${Math.round(obj.score * 100)}%)`
         ).join(', '));
       }
       
@@ -179,7 +302,14 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     }
   };
 
-  const drawDetections = (objects: DetectedObject[]) => {
+  // Keep the latest detection (detector, settings, shelves) available to the
+  // detection interval without restarting it
+  const runDetectionRef = useRef(runDetection);
+  useEffect(() => {
+    runDetectionRef.current = runDetection;
+  });
+
+  const drawDetections = (objects: Detection[]) => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
     
@@ -193,7 +323,7 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     
     // Draw bounding boxes
     objects.forEach(obj => {
-      if (obj.score > 0.6) {
+      if (obj.bbox && obj.score > mappingConfidence) {
         const [x, y, width, height] = obj.bbox;
         
         // Draw bounding box
@@ -210,42 +340,6 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     });
   };
 
-  const updateShelfFromDetection = (result: ShelfDetectionResult) => {
-    // If we have a target shelf, always update that shelf regardless of detection
-    const shelfToUpdate = targetShelfId 
-      ? state.shelves.find(s => s.id === targetShelfId)
-      : state.shelves.find(s => s.id === result.mappedShelf);
-    
-    if (!shelfToUpdate) return;
-
-    // For targeted rescans, simulate inventory changes based on detection
-    let updatedItems = shelfToUpdate.items;
-    if (targetShelfId && result.detectedObjects.length > 0) {
-      // Simulate finding products based on detected objects
-      updatedItems = shelfToUpdate.items.map(item => ({
-        ...item,
-        count: Math.max(0, item.count + Math.floor(Math.random() * 3) - 1) // Simulate inventory change
-      }));
-    }
-
-    const updatedShelf = {
-      ...shelfToUpdate,
-      items: updatedItems,
-      lastScanned: result.timestamp,
-      imageUrl: `data:image/png;base64,webcam-${Date.now()}`,
-      status: targetShelfId ? 
-        (updatedItems.some(item => item.count === 0) ? 'empty' as const :
-         updatedItems.some(item => item.count < item.threshold) ? 'low' as const : 'ok' as const) :
-        shelfToUpdate.status
-    };
-    
-    dispatch({ type: 'UPDATE_SHELF', payload: updatedShelf });
-    
-    const detectedObject = result.detectedObjects[0]?.class || 'objects';
-    const targetInfo = targetShelfId ? ` (targeting shelf ${targetShelfId})` : '';
-    console.log(`Detected ${detectedObject} → Updated shelf ${updatedShelf.id}${targetInfo}`);
-  };
-
   const toggleDetection = () => {
     if (isDetecting) {
       // Stop detection
@@ -257,7 +351,7 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     } else {
       // Start detection
       setIsDetecting(true);
-      detectionIntervalRef.current = setInterval(runDetection, 2000); // Every 2 seconds
+      detectionIntervalRef.current = setInterval(() => runDetectionRef.current(), 2000); // Every 2 seconds
     }
   };
 
@@ -265,61 +359,16 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
     runDetection();
   };
 
-  const updateTargetShelfWithDetection = () => {
-    if (!targetShelfId || !lastDetection || lastDetection.detectedObjects.length === 0) return;
-    
-    const shelfToUpdate = state.shelves.find(s => s.id === targetShelfId);
-    if (!shelfToUpdate) return;
-
-    // Convert detected objects to products
-    const detectedProducts = lastDetection.detectedObjects.reduce((acc, obj) => {
-      const existingProduct = acc.find(p => p.product.toLowerCase().includes(obj.class.toLowerCase()));
-      if (existingProduct) {
-        existingProduct.count += 1;
-      } else {
-        acc.push({
-          product: obj.class.charAt(0).toUpperCase() + obj.class.slice(1),
-          count: 1,
-          threshold: 5
-        });
-      }
-      return acc;
-    }, [] as DetectedProduct[]);
-
-    // Merge with existing products or replace if detected products exist
-    const updatedItems = [...shelfToUpdate.items];
-    detectedProducts.forEach(detectedProduct => {
-      const existingIndex = updatedItems.findIndex(item => 
-        item.product.toLowerCase().includes(detectedProduct.product.toLowerCase())
-      );
-      if (existingIndex >= 0) {
-        updatedItems[existingIndex] = {
-          ...updatedItems[existingIndex],
-          count: detectedProduct.count
-        };
-      } else {
-        updatedItems.push(detectedProduct);
-      }
-    });
-
-    const updatedShelf = {
-      ...shelfToUpdate,
-      items: updatedItems,
-      lastScanned: new Date().toISOString(),
-      imageUrl: `data:image/png;base64,webcam-${Date.now()}`,
-      status: updatedItems.some(item => item.count === 0) ? 'empty' as const :
-               updatedItems.some(item => item.count < item.threshold) ? 'low' as const : 'ok' as const
-    };
-    
-    dispatch({ type: 'UPDATE_SHELF', payload: updatedShelf });
-    console.log(`Updated shelf ${targetShelfId} with detected objects:`, detectedProducts);
+  const applyReview = async (update: ScanUpdate) => {
+    await submitScan(update);
+    setReview(null);
   };
 
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+      <div className="bg-white rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b">
           <div className="flex items-center gap-2">
@@ -349,7 +398,7 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
             <div className="text-center py-8">
               <div className="animate-spin w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-4"></div>
               <p className="text-gray-600">Loading AI models...</p>
-              <p className="text-sm text-gray-500 mt-2">🤗 Hugging Face + COCO-SSD</p>
+              <p className="text-sm text-gray-500 mt-2">{detector.label}</p>
             </div>
           )}
 
@@ -411,37 +460,39 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
                   Detect Now
                 </button>
 
-                {targetShelfId && lastDetection && lastDetection.detectedObjects.length > 0 && (
-                  <button
-                    onClick={updateTargetShelfWithDetection}
-                    className="py-3 px-4 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
-                  >
-                    <AlertCircle className="w-4 h-4" />
-                    Update Shelf
-                  </button>
-                )}
               </div>
 
+              {/* Proposed Counts */}
+              {review && (
+                <ScanReviewPanel
+                  key={`${review.shelfId}-${review.update.timestamp}`}
+                  review={review}
+                  canSubmit={can('submit-scans')}
+                  onApply={applyReview}
+                  onDiscard={() => setReview(null)}
+                />
+              )}
+
               {/* Detection Source Indicator */}
               {detectionSource && (
                 <div className={`p-3 rounded-lg text-sm ${
-                  detectionSource === 'hugging-face' 
+                  detectionSource !== 'coco-ssd'
                     ? 'bg-blue-50 text-blue-800 border border-blue-200' 
                     : 'bg-yellow-50 text-yellow-800 border border-yellow-200'
                 }`}>
                   <div className="flex items-center gap-2">
                     <div className={`w-2 h-2 rounded-full ${
-                      detectionSource === 'hugging-face' ? 'bg-blue-500' : 'bg-yellow-500'
+                      detectionSource !== 'coco-ssd' ? 'bg-blue-500' : 'bg-yellow-500'
                     }`} />
                     <span className="font-medium">
-                      {detectionSource === 'hugging-face' 
-                        ? '🤗 AI-Powered Detection (Hugging Face)' 
+                      {detectionSource !== 'coco-ssd'
+                        ? `🤗 AI-Powered Detection (${getDetectionBackend(detectionSource, settings.detection).label})`
                         : '⚡ Basic Detection (COCO-SSD)'}
                     </span>
                   </div>
-                  {detectionSource === 'coco-ssd' && (
+                  {detectionSource !== backend && (
                     <p className="mt-1 text-xs">
-                      Using fallback detection. Hugging Face model may still be loading.
+                      Using fallback detection. {getDetectionBackend(backend, settings.detection).label} may still be loading.
                     </p>
                   )}
                 </div>
@@ -461,8 +512,10 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
                           <span
                             key={idx}
                             className="px-2 py-1 bg-blue-100 text-blue-800 rounded text-sm"
+                            title={obj.agreedBy && `Seen by ${obj.agreedBy.map(id => getDetectionBackend(id).label).join(', ')}`}
                           >
                             {obj.class} ({Math.round(obj.score * 100)}%)
+                            {obj.agreedBy && ` · ${obj.agreedBy.length}/${obj.backendsAnswered ?? obj.agreedBy.length}`}
                           </span>
                         ))}
                       </div>
@@ -477,6 +530,19 @@ const WebcamShelfDetector: React.FC<WebcamShelfDetectorProps> = ({ isOpen, onClo
                           </p>
                         </div>
                       )}
+
+                      {lastDetection.status === 'ambiguous' && (
+                        <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded">
+                          <p className="text-amber-800 font-medium">
+                            Could be shelf {lastDetection.candidates.slice(0, 3).map(candidate =>
+                              `${candidate.shelfId} (${Math.round(candidate.confidence * 100)}%)`
+                            ).join(', ')}
+                          </p>
+                          <p className="text-amber-600 text-sm">
+                            Too close to call; bring more of the shelf into view
+                          </p>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <p className="text-gray-600">No objects detected</p>
@@ -0,0 +1,230 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addAlert, applyAlertChanges, evaluateShelfAlerts, getAlertCondition, hasAlertChanges } from './alertEngine';
+import { createAlertId, transitionAlert } from './alertLifecycle';
+import { Product } from './types';
+import { alert, at, product, shelf } from './testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const COLA = product('COLA-330', 'Coca-Cola 330ml', 10);
+const CHIPS = product('CHIPS-150', 'Potato Chips 150g', 5);
+
+/**
+ * Shelf A1 as scanned an hour after FIXTURE_START
+ */
+const scannedShelf = (items: Product[]) => shelf('A1', { items, lastScanned: at(1) });
+
+const lastNote = (changed: { history: { note?: string }[] }) => changed.history[changed.history.length - 1].note;
+
+// ============================================================================
+// ALERT CONDITIONS
+// ============================================================================
+
+describe('getAlertCondition', () => {
+  it('calls an empty product empty and one below threshold low', () => {
+    assert.equal(getAlertCondition({ ...COLA, count: 0 }), 'empty');
+    assert.equal(getAlertCondition({ ...COLA, count: 9 }), 'low');
+  });
+
+  it('calls a product at or above threshold healthy', () => {
+    assert.equal(getAlertCondition({ ...COLA, count: 10 }), null);
+    assert.equal(getAlertCondition({ ...COLA, count: 24 }), null);
+  });
+
+  it('calls a product with no threshold empty only at zero', () => {
+    const loose = product('LOOSE', 'Loose Item', 0);
+
+    assert.equal(getAlertCondition({ ...loose, count: 0 }), 'empty');
+    assert.equal(getAlertCondition({ ...loose, count: 1 }), null);
+  });
+});
+
+// ============================================================================
+// OPENING
+// ============================================================================
+
+describe('evaluateShelfAlerts opening', () => {
+  it('opens an alert for each product that crosses below its threshold', () => {
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 3 }, { ...CHIPS, count: 0 }]), []);
+
+    assert.deepEqual(changes.opened.map(opened => [opened.sku, opened.type]), [['COLA-330', 'low'], ['CHIPS-150', 'empty']]);
+    assert.deepEqual(changes.updated, []);
+    assert.deepEqual(changes.resolved, []);
+  });
+
+  it('stamps opened alerts with the scan time and derives their IDs from it', () => {
+    const [opened] = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 3 }]), []).opened;
+
+    assert.equal(opened.id, createAlertId('A1', 'COLA-330', at(1)));
+    assert.equal(opened.storeId, 'main');
+    assert.equal(opened.timestamp, at(1));
+    assert.deepEqual(opened.history, [{ status: 'open', at: at(1), by: 'system' }]);
+  });
+
+  it('uses a given timestamp over the last scan', () => {
+    const [opened] = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 3 }]), [], at(2)).opened;
+
+    assert.equal(opened.id, createAlertId('A1', 'COLA-330', at(2)));
+    assert.equal(opened.timestamp, at(2));
+  });
+
+  it('opens nothing for a product exactly at threshold', () => {
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 10 }]), []);
+
+    assert.equal(hasAlertChanges(changes), false);
+  });
+
+  it('leaves a product with an active alert of the same type alone', () => {
+    const low = transitionAlert(alert('A1', COLA), 'acknowledged', { by: 'associate', at: at(0.5) });
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 4 }]), [low]);
+
+    assert.equal(hasAlertChanges(changes), false);
+  });
+
+  it('opens a new alert once the previous one for the product was resolved', () => {
+    const resolved = transitionAlert(alert('A1', COLA), 'resolved', { by: 'associate', at: at(0.5) });
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 4 }]), [resolved]);
+
+    assert.deepEqual(changes.opened.map(opened => opened.sku), ['COLA-330']);
+    assert.deepEqual(changes.resolved, []);
+  });
+
+  it('ignores alerts on other shelves', () => {
+    const elsewhere = alert('B2', COLA);
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 4 }]), [elsewhere]);
+
+    assert.equal(changes.opened.length, 1);
+    assert.deepEqual(changes.resolved, []);
+  });
+});
+
+// ============================================================================
+// ESCALATION & PARTIAL RECOVERY
+// ============================================================================
+
+describe('evaluateShelfAlerts type changes', () => {
+  it('escalates a low alert to empty, reopened and restamped', () => {
+    const low = transitionAlert(alert('A1', COLA), 'in-progress', { by: 'associate', at: at(0.5) });
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 0 }]), [low]);
+
+    const [updated] = changes.updated;
+    assert.equal(updated.id, low.id);
+    assert.equal(updated.type, 'empty');
+    assert.equal(updated.status, 'open');
+    assert.equal(updated.timestamp, at(1));
+    assert.deepEqual(updated.history[updated.history.length - 1], {
+      status: 'open',
+      at: at(1),
+      by: 'system',
+      note: 'Escalated from low to empty'
+    });
+    assert.deepEqual(changes.opened, []);
+  });
+
+  it('downgrades a partly restocked empty alert to low, keeping its status and time', () => {
+    const empty = transitionAlert(alert('A1', COLA, 0, { type: 'empty' }), 'acknowledged', { by: 'associate', at: at(0.5) });
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 6 }]), [empty]);
+
+    const [updated] = changes.updated;
+    assert.equal(updated.type, 'low');
+    assert.equal(updated.status, 'acknowledged');
+    assert.equal(updated.timestamp, at(0));
+    assert.equal(lastNote(updated), 'Partially restocked, now low');
+  });
+});
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+describe('evaluateShelfAlerts resolution', () => {
+  it('auto-resolves an alert once the product is back at threshold', () => {
+    const low = alert('A1', COLA);
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 10 }]), [low]);
+
+    const [resolved] = changes.resolved;
+    assert.equal(resolved.id, low.id);
+    assert.equal(resolved.status, 'auto-resolved');
+    assert.deepEqual(resolved.history[resolved.history.length - 1], {
+      status: 'auto-resolved',
+      at: at(1),
+      by: 'system',
+      note: 'Stock recovered to threshold'
+    });
+  });
+
+  it('auto-resolves alerts for products no longer on the shelf', () => {
+    const chips = alert('A1', CHIPS);
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 12 }]), [chips]);
+
+    assert.deepEqual(changes.resolved.map(resolved => [resolved.sku, lastNote(resolved)]), [['CHIPS-150', 'Product removed from shelf']]);
+  });
+
+  it('keeps the newest active alert for a product and resolves older duplicates', () => {
+    const older = alert('A1', COLA, -2);
+    const newer = alert('A1', COLA, 0);
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 4 }]), [older, newer]);
+
+    assert.deepEqual(changes.resolved.map(resolved => [resolved.id, lastNote(resolved)]), [[older.id, 'Duplicate of a newer alert']]);
+    assert.deepEqual(changes.opened, []);
+    assert.deepEqual(changes.updated, []);
+  });
+
+  it('leaves closed alerts as they are', () => {
+    const dismissed = transitionAlert(alert('A1', CHIPS), 'dismissed', { by: 'associate', at: at(0.5) });
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 12 }]), [dismissed]);
+
+    assert.equal(hasAlertChanges(changes), false);
+  });
+});
+
+// ============================================================================
+// APPLYING CHANGES
+// ============================================================================
+
+describe('applyAlertChanges', () => {
+  it('puts opened alerts first and replaces changed ones in place, keeping resolved ones', () => {
+    const chips = alert('A1', CHIPS);
+    const cola = alert('A1', COLA);
+    const alerts = [chips, cola];
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...COLA, count: 0 }, { ...CHIPS, count: 5 }]), alerts);
+    const applied = applyAlertChanges(alerts, changes);
+
+    assert.deepEqual(applied.map(entry => [entry.id, entry.type, entry.status]), [
+      [chips.id, 'low', 'auto-resolved'],
+      [cola.id, 'empty', 'open']
+    ]);
+  });
+
+  it('adds newly opened alerts ahead of the rest', () => {
+    const existing = alert('B2', COLA);
+    const changes = evaluateShelfAlerts(scannedShelf([{ ...CHIPS, count: 1 }]), [existing]);
+
+    assert.deepEqual(applyAlertChanges([existing], changes).map(entry => entry.shelf), ['A1', 'B2']);
+  });
+});
+
+describe('addAlert', () => {
+  it('adds an alert unless the product already has an active one on that shelf', () => {
+    const existing = alert('A1', COLA);
+
+    assert.deepEqual(addAlert([existing], alert('A1', COLA, 1)), [existing]);
+    assert.deepEqual(addAlert([existing], alert('A1', CHIPS, 1)).map(entry => entry.sku), ['CHIPS-150', 'COLA-330']);
+  });
+
+  it('adds an alert when the earlier one for the product is closed', () => {
+    const resolved = transitionAlert(alert('A1', COLA), 'resolved', { by: 'associate', at: at(0.5) });
+
+    assert.equal(addAlert([resolved], alert('A1', COLA, 1)).length, 2);
+  });
+
+  it('replaces an alert with the same ID', () => {
+    const existing = alert('A1', COLA);
+    const acknowledged = transitionAlert(existing, 'acknowledged', { by: 'associate', at: at(0.5) });
+
+    assert.deepEqual(addAlert([existing], acknowledged), [acknowledged]);
+  });
+});
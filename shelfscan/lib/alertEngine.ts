@@ -0,0 +1,170 @@
+/**
+ * Alert Engine
+ *
+ * Derives alert changes from shelf updates. The same pure functions run in
+ * server scan ingestion and in the client reducer, and alert IDs are derived
+ * from the update timestamp, so both sides open identical alerts.
+ */
+
+import { Alert, AlertType, Product, Shelf } from './types';
+import { createAlert, isActiveAlert, SYSTEM_ACTOR, transitionAlert } from './alertLifecycle';
+import { isStockoutPredicted } from './forecasting';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Alert changes produced by evaluating one shelf update
+ */
+export interface AlertChanges {
+  /** Alerts opened for products that became low or empty, or are predicted to */
+  opened: Alert[];
+  /** Open alerts whose type changed (e.g. low → empty escalation, empty → low partial recovery) */
+  updated: Alert[];
+  /** Alerts auto-resolved because stock recovered or the product left the shelf */
+  resolved: Alert[];
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * How serious each alert type is; moving up is an escalation
+ */
+const ALERT_TYPE_RANK: Record<AlertType, number> = { 'predicted-stockout': 0, low: 1, empty: 2 };
+
+const ALERT_TYPE_NAMES: Record<AlertType, string> = {
+  'predicted-stockout': 'predicted stockout',
+  low: 'low',
+  empty: 'empty'
+};
+
+/**
+ * Alert type a product's stock level calls for, or null when stock is healthy
+ * `depletionRate` (units per hour, from the shelf's learned rates) lets a
+ * product still at threshold raise a predicted stockout.
+ */
+export const getAlertCondition = (product: Product, depletionRate?: number): AlertType | null => {
+  if (product.count === 0) return 'empty';
+  if (product.count < product.threshold) return 'low';
+  if (isStockoutPredicted(product, depletionRate)) return 'predicted-stockout';
+  return null;
+};
+
+/**
+ * Diff a shelf's products against its active alerts
+ * `timestamp` stamps opened/escalated alerts and seeds their IDs; it defaults
+ * to the shelf's lastScanned so every consumer of a scan derives the same IDs.
+ */
+export const evaluateShelfAlerts = (
+  shelf: Shelf,
+  alerts: Alert[],
+  timestamp: string = shelf.lastScanned
+): AlertChanges => {
+  const changes: AlertChanges = { opened: [], updated: [], resolved: [] };
+
+  const autoResolve = (alert: Alert, note: string) => {
+    changes.resolved.push(transitionAlert(alert, 'auto-resolved', { by: SYSTEM_ACTOR, at: timestamp, note }));
+  };
+
+  // One active alert per product (by SKU): keep the newest, resolve any older duplicates
+  const openByProduct = new Map<string, Alert>();
+  alerts
+    .filter(alert => alert.shelf === shelf.id && isActiveAlert(alert))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .forEach(alert => {
+      if (openByProduct.has(alert.sku)) {
+        autoResolve(alert, 'Duplicate of a newer alert');
+      } else {
+        openByProduct.set(alert.sku, alert);
+      }
+    });
+
+  shelf.items.forEach(product => {
+    const condition = getAlertCondition(product, shelf.depletionRates?.[product.sku]);
+    const open = openByProduct.get(product.sku);
+    openByProduct.delete(product.sku);
+
+    if (!condition) {
+      if (open) autoResolve(open, 'Stock recovered to threshold');
+      return;
+    }
+
+    if (!open) {
+      changes.opened.push(createAlert({
+        storeId: shelf.storeId,
+        shelf: shelf.id,
+        sku: product.sku,
+        product: product.product,
+        type: condition,
+        timestamp
+      }));
+      return;
+    }
+
+    if (open.type === condition) return;
+
+    // An escalation reopens the alert for fresh attention; a partial recovery
+    // keeps its current status
+    const isEscalation = ALERT_TYPE_RANK[condition] > ALERT_TYPE_RANK[open.type];
+    const status = isEscalation ? 'open' : open.status;
+    changes.updated.push({
+      ...open,
+      type: condition,
+      status,
+      ...(isEscalation && { timestamp }),
+      history: [...open.history, {
+        status,
+        at: timestamp,
+        by: SYSTEM_ACTOR,
+        note: isEscalation
+          ? `Escalated from ${ALERT_TYPE_NAMES[open.type]} to ${ALERT_TYPE_NAMES[condition]}`
+          : condition === 'low' ? 'Partially restocked, now low' : 'Restocked to threshold, still predicted to run low'
+      }]
+    });
+  });
+
+  // Whatever is left belongs to products no longer on the shelf
+  openByProduct.forEach(alert => autoResolve(alert, 'Product removed from shelf'));
+
+  return changes;
+};
+
+/**
+ * Check whether evaluating an update changed anything
+ */
+export const hasAlertChanges = (changes: AlertChanges): boolean =>
+  changes.opened.length > 0 || changes.updated.length > 0 || changes.resolved.length > 0;
+
+/**
+ * Apply alert changes to an alert list (opened alerts first, as newest)
+ * Resolved alerts stay in the list as history.
+ */
+export const applyAlertChanges = (alerts: Alert[], changes: AlertChanges): Alert[] => {
+  const changedById = new Map(
+    [...changes.updated, ...changes.resolved].map(alert => [alert.id, alert])
+  );
+
+  return [
+    ...changes.opened,
+    ...alerts.map(alert => changedById.get(alert.id) ?? alert)
+  ];
+};
+
+/**
+ * Add an alert unless the same shelf and SKU already has one active
+ * An alert with a matching ID replaces the existing copy.
+ */
+export const addAlert = (alerts: Alert[], alert: Alert): Alert[] => {
+  if (alerts.some(existing => existing.id === alert.id)) {
+    return alerts.map(existing => (existing.id === alert.id ? alert : existing));
+  }
+  if (alerts.some(existing =>
+    existing.shelf === alert.shelf && existing.sku === alert.sku && isActiveAlert(existing)
+  )) {
+    return alerts;
+  }
+  return [alert, ...alerts];
+};
@@ -0,0 +1,197 @@
+/**
+ * Alert Lifecycle
+ *
+ * Statuses, allowed transitions and timing metrics for alerts. Every status
+ * change goes through `transitionAlert`, which records who made it and when.
+ */
+
+import { Alert, AlertStatus, AlertTransition } from './types';
+import { createSku } from './catalog';
+
+// ============================================================================
+// STATUSES & ACTORS
+// ============================================================================
+
+/** Statuses that still need staff attention */
+export const ACTIVE_ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged', 'in-progress'];
+
+/** Statuses that end an alert's lifecycle */
+export const CLOSED_ALERT_STATUSES: AlertStatus[] = ['resolved', 'auto-resolved', 'dismissed'];
+
+/** Statuses staff can move an alert to (the rest are set by the system) */
+export type StaffAlertStatus = 'acknowledged' | 'in-progress' | 'resolved' | 'dismissed';
+
+/** Actor recorded for transitions made by the alert engine */
+export const SYSTEM_ACTOR = 'system';
+
+/** Actor recorded for staff transitions stored before sign-in identified the user */
+export const DEFAULT_STAFF_ACTOR = 'staff';
+
+/**
+ * Display labels for each status
+ */
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  'in-progress': 'In Progress',
+  resolved: 'Resolved',
+  'auto-resolved': 'Auto-resolved',
+  dismissed: 'Dismissed'
+};
+
+/**
+ * Statuses each status may move to
+ */
+const ALERT_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  open: ['acknowledged', 'in-progress', 'resolved', 'auto-resolved', 'dismissed'],
+  acknowledged: ['in-progress', 'resolved', 'auto-resolved', 'dismissed'],
+  'in-progress': ['resolved', 'auto-resolved', 'dismissed'],
+  resolved: [],
+  'auto-resolved': [],
+  dismissed: []
+};
+
+export const isActiveAlert = (alert: Alert): boolean => ACTIVE_ALERT_STATUSES.includes(alert.status);
+
+export const isClosedAlert = (alert: Alert): boolean => CLOSED_ALERT_STATUSES.includes(alert.status);
+
+// ============================================================================
+// CREATION & TRANSITIONS
+// ============================================================================
+
+/**
+ * Builds the alert ID for a product (by SKU) on a shelf from the time it was raised
+ * Deterministic, so the server and clients derive the same ID for one scan.
+ */
+export const createAlertId = (shelfId: string, sku: string, timestamp: string): string => {
+  const slug = sku.replace(/\s+/g, '-').toLowerCase();
+  return `alert-${shelfId}-${slug}-${new Date(timestamp).getTime().toString(36)}`;
+};
+
+/**
+ * Create an open alert with its opening transition recorded
+ */
+export const createAlert = (fields: {
+  storeId: string;
+  shelf: string;
+  sku: string;
+  product: string;
+  type: Alert['type'];
+  timestamp: string;
+  id?: string;
+  by?: string;
+  note?: string;
+}): Alert => ({
+  id: fields.id ?? createAlertId(fields.shelf, fields.sku, fields.timestamp),
+  storeId: fields.storeId,
+  shelf: fields.shelf,
+  sku: fields.sku,
+  product: fields.product,
+  type: fields.type,
+  timestamp: fields.timestamp,
+  status: 'open',
+  history: [{
+    status: 'open',
+    at: fields.timestamp,
+    by: fields.by ?? SYSTEM_ACTOR,
+    ...(fields.note && { note: fields.note })
+  }]
+});
+
+/**
+ * Check whether an alert may move to `status`
+ */
+export const canTransitionAlert = (alert: Alert, status: AlertStatus): boolean =>
+  ALERT_TRANSITIONS[alert.status].includes(status);
+
+/**
+ * Move an alert to `status`, appending the transition to its history
+ * Returns the alert unchanged when the transition isn't allowed.
+ */
+export const transitionAlert = (
+  alert: Alert,
+  status: AlertStatus,
+  transition: { by: string; at?: string; note?: string }
+): Alert => {
+  if (!canTransitionAlert(alert, status)) return alert;
+
+  const entry: AlertTransition = {
+    status,
+    at: transition.at ?? new Date().toISOString(),
+    by: transition.by,
+    ...(transition.note && { note: transition.note })
+  };
+
+  return { ...alert, status, history: [...alert.history, entry] };
+};
+
+// ============================================================================
+// TIMING METRICS
+// ============================================================================
+
+/**
+ * When the alert was first opened
+ */
+export const getAlertOpenedAt = (alert: Alert): string => alert.history[0]?.at ?? alert.timestamp;
+
+/**
+ * The transition that closed the alert, if it is closed
+ */
+export const getClosingTransition = (alert: Alert): AlertTransition | null =>
+  isClosedAlert(alert)
+    ? [...alert.history].reverse().find(entry => entry.status === alert.status) ?? null
+    : null;
+
+/**
+ * Milliseconds from opening to the first staff response, or null if nobody responded
+ * Any staff transition counts, including resolving or dismissing outright.
+ */
+export const getTimeToAcknowledge = (alert: Alert): number | null => {
+  const response = alert.history.find(entry =>
+    entry.status !== 'open' && entry.status !== 'auto-resolved'
+  );
+  if (!response) return null;
+  return new Date(response.at).getTime() - new Date(getAlertOpenedAt(alert)).getTime();
+};
+
+/**
+ * Milliseconds from opening to resolution, or null if not (yet) resolved
+ * Dismissed alerts were never resolved, so they have no time-to-resolve.
+ */
+export const getTimeToResolve = (alert: Alert): number | null => {
+  if (alert.status !== 'resolved' && alert.status !== 'auto-resolved') return null;
+  const closing = getClosingTransition(alert);
+  if (!closing) return null;
+  return new Date(closing.at).getTime() - new Date(getAlertOpenedAt(alert)).getTime();
+};
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Alert as stored before lifecycle statuses existed, or before the catalog
+ */
+type LegacyAlert = Omit<Alert, 'status' | 'history' | 'sku'> & {
+  status?: AlertStatus;
+  history?: AlertTransition[];
+  acknowledged?: boolean;
+  sku?: string;
+};
+
+/**
+ * Upgrade a stored alert: the old `acknowledged` flag becomes a lifecycle
+ * status, and an alert keyed by product name gets the SKU derived from it
+ */
+export const normalizeAlert = (legacy: LegacyAlert): Alert => {
+  const alert = { ...legacy, sku: legacy.sku ?? createSku(legacy.product) };
+  if (alert.status && alert.history) return alert as Alert;
+
+  const { acknowledged, ...rest } = alert;
+  const history: AlertTransition[] = [{ status: 'open', at: alert.timestamp, by: SYSTEM_ACTOR }];
+  if (acknowledged) {
+    history.push({ status: 'acknowledged', at: alert.timestamp, by: DEFAULT_STAFF_ACTOR });
+  }
+
+  return { ...rest, status: acknowledged ? 'acknowledged' : 'open', history };
+};
@@ -0,0 +1,171 @@
+/**
+ * Alert Routing
+ *
+ * Decides who an active alert belongs to: the associates assigned to the
+ * shelf's aisle for the current shift, or the store managers once the alert
+ * has sat unacknowledged past the fallback timeout (or nobody covers the
+ * aisle). Routing is derived from the alert, shelves and assignments rather
+ * than stored, so it follows shift changes and new assignments immediately.
+ */
+
+import { AisleAssignment, Alert, Shelf, ShiftId, User } from './types';
+import { isActiveAlert } from './alertLifecycle';
+
+// ============================================================================
+// SHIFTS
+// ============================================================================
+
+/**
+ * Shift hours in store-local time; `endHour` may wrap past midnight
+ */
+export const SHIFTS: Record<ShiftId, { label: string; startHour: number; endHour: number }> = {
+  opening: { label: 'Opening (6am–2pm)', startHour: 6, endHour: 14 },
+  closing: { label: 'Closing (2pm–10pm)', startHour: 14, endHour: 22 },
+  overnight: { label: 'Overnight (10pm–6am)', startHour: 22, endHour: 6 }
+};
+
+export const SHIFT_IDS = Object.keys(SHIFTS) as ShiftId[];
+
+/** How long an alert may stay unacknowledged before it falls back to the managers (unless configured) */
+export const ALERT_ROUTING_FALLBACK_MS = 15 * 60 * 1000;
+
+export const isShiftId = (value: unknown): value is ShiftId =>
+  typeof value === 'string' && (SHIFT_IDS as string[]).includes(value);
+
+/**
+ * Hour of the day (0-23) at `now` in `timeZone`, or in the runtime's own zone
+ */
+const getHourIn = (now: Date, timeZone?: string): number => {
+  if (!timeZone) return now.getHours();
+  const hour = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(now);
+  return Number(hour);
+};
+
+/**
+ * The shift covering `now` in the store's time zone
+ */
+export const getCurrentShift = (now: Date = new Date(), timeZone?: string): ShiftId => {
+  const hour = getHourIn(now, timeZone);
+  return SHIFT_IDS.find(id => {
+    const { startHour, endHour } = SHIFTS[id];
+    return startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+  }) ?? 'overnight';
+};
+
+/**
+ * Usernames assigned to an aisle for the shift covering `now`
+ */
+export const getAisleAssignees = (
+  assignments: AisleAssignment[],
+  aisle: string,
+  now: Date = new Date(),
+  timeZone?: string
+): string[] => {
+  const shift = getCurrentShift(now, timeZone);
+  return assignments
+    .filter(assignment => assignment.aisle === aisle && assignment.shift === shift)
+    .map(assignment => assignment.username);
+};
+
+/**
+ * Build an assignment; the ID is derived from aisle, shift and user so the
+ * same person can't be assigned twice to one aisle and shift
+ */
+export const createAssignment = (fields: {
+  storeId: string;
+  aisle: string;
+  username: string;
+  shift: ShiftId;
+  assignedBy: string;
+  at?: string;
+}): AisleAssignment => {
+  const aisleSlug = fields.aisle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return {
+    id: `assignment-${aisleSlug}-${fields.shift}-${fields.username.toLowerCase()}`,
+    storeId: fields.storeId,
+    aisle: fields.aisle,
+    username: fields.username,
+    shift: fields.shift,
+    assignedBy: fields.assignedBy,
+    assignedAt: fields.at ?? new Date().toISOString()
+  };
+};
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+export interface AlertRoute {
+  /** Staff currently responsible for the shelf's aisle */
+  assignees: string[];
+  /** True when the alert has fallen back to the managers */
+  escalated: boolean;
+  /** Why it fell back, when it did */
+  reason?: 'unassigned' | 'unacknowledged';
+}
+
+export interface AlertRoutingContext {
+  shelves: Shelf[];
+  assignments: AisleAssignment[];
+  now?: Date;
+  /** Store time zone shifts are counted in (default: the runtime's) */
+  timeZone?: string;
+  /** Open alert fallback timeout (default: ALERT_ROUTING_FALLBACK_MS) */
+  fallbackMs?: number;
+}
+
+/**
+ * When the alert last (re)opened, which restarts the fallback timer
+ */
+const getLastOpenedAt = (alert: Alert): string =>
+  [...alert.history].reverse().find(entry => entry.status === 'open')?.at ?? alert.timestamp;
+
+/**
+ * Work out who an alert is routed to
+ * Only `open` alerts fall back on timeout; once someone acknowledges it the
+ * alert stays with the aisle's assignees.
+ */
+export const getAlertRoute = (alert: Alert, context: AlertRoutingContext): AlertRoute => {
+  const now = context.now ?? new Date();
+  const aisle = context.shelves.find(shelf => shelf.id === alert.shelf)?.aisle;
+  const assignees = aisle ? getAisleAssignees(context.assignments, aisle, now, context.timeZone) : [];
+
+  if (assignees.length === 0) {
+    return { assignees, escalated: true, reason: 'unassigned' };
+  }
+  if (
+    alert.status === 'open' &&
+    now.getTime() - new Date(getLastOpenedAt(alert)).getTime() >= (context.fallbackMs ?? ALERT_ROUTING_FALLBACK_MS)
+  ) {
+    return { assignees, escalated: true, reason: 'unacknowledged' };
+  }
+  return { assignees, escalated: false };
+};
+
+/**
+ * Check whether an active alert is routed to `user`
+ * Associates get the alerts for their aisles; managers get escalations
+ * (and their own aisles, if assigned any).
+ */
+export const isAlertRoutedTo = (
+  alert: Alert,
+  user: User | null,
+  context: AlertRoutingContext
+): boolean => {
+  if (!user || !isActiveAlert(alert)) return false;
+
+  const route = getAlertRoute(alert, context);
+  if (route.assignees.includes(user.username)) return true;
+  return user.role === 'manager' && route.escalated;
+};
+
+/**
+ * Active alerts routed to `user`
+ */
+export const getAlertsForUser = (
+  alerts: Alert[],
+  user: User | null,
+  context: AlertRoutingContext
+): Alert[] => alerts.filter(alert => isAlertRoutedTo(alert, user, context));
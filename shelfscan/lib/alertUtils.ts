@@ -5,25 +5,45 @@
  * Ensures consistent behavior across all alert displays.
  */
 
-import { Alert } from './types';
+import { Alert, AlertStatus, AlertType } from './types';
+import {
+  ACTIVE_ALERT_STATUSES,
+  CLOSED_ALERT_STATUSES,
+  getTimeToAcknowledge,
+  getTimeToResolve,
+  isActiveAlert
+} from './alertLifecycle';
 
 // ============================================================================
 // PRIORITY & SEVERITY SCORING
 // ============================================================================
 
+/**
+ * Badge text for each alert type
+ */
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  empty: 'EMPTY',
+  low: 'LOW STOCK',
+  'predicted-stockout': 'PREDICTED'
+};
+
+const ALERT_TYPE_SCORES: Record<AlertType, number> = { empty: 0, low: 100, 'predicted-stockout': 200 };
+
 /**
  * Get numeric priority score for an alert (lower = higher priority)
  */
 export const getAlertPriority = (alert: Alert): number => {
   // Base severity score
-  let score = alert.type === 'empty' ? 0 : 100;
+  let score = ALERT_TYPE_SCORES[alert.type];
   
   // Add time component (newer alerts have higher priority)
   const ageInMinutes = (Date.now() - new Date(alert.timestamp).getTime()) / (1000 * 60);
   score += ageInMinutes * 0.1; // Small time penalty
   
-  // Acknowledged alerts have lower priority
-  if (alert.acknowledged) {
+  // Alerts staff already picked up have lower priority; closed ones go last
+  if (!isActiveAlert(alert)) {
+    score += 20000;
+  } else if (alert.status !== 'open') {
     score += 10000; // Move to bottom
   }
   
@@ -52,7 +72,7 @@ export const getAlertSeverity = (alert: Alert): 'critical' | 'high' | 'medium' |
  * Check if an alert is urgent (requires immediate attention)
  */
 export const isUrgentAlert = (alert: Alert): boolean => {
-  if (alert.acknowledged) return false;
+  if (alert.status !== 'open') return false;
   
   return alert.type === 'empty' || getAlertSeverity(alert) === 'high';
 };
@@ -100,22 +120,31 @@ export const sortAlertsByProduct = (alerts: Alert[]): Alert[] => {
  */
 export const filterAlertsByType = (
   alerts: Alert[], 
-  types: Array<'empty' | 'low'> | 'all'
+  types: AlertType[] | 'all'
 ): Alert[] => {
   if (types === 'all') return alerts;
   return alerts.filter(alert => types.includes(alert.type));
 };
 
 /**
- * Filter alerts by acknowledgment status
+ * Lifecycle filter: a single status, or a group of statuses
+ * ('active' = open/acknowledged/in-progress, 'closed' = resolved/auto-resolved/dismissed,
+ * 'unacknowledged' = open)
+ */
+export type AlertStatusFilter = 'all' | 'active' | 'closed' | 'unacknowledged' | AlertStatus;
+
+/**
+ * Filter alerts by lifecycle status
  */
 export const filterAlertsByStatus = (
   alerts: Alert[], 
-  status: 'acknowledged' | 'unacknowledged' | 'all'
+  status: AlertStatusFilter
 ): Alert[] => {
   if (status === 'all') return alerts;
-  if (status === 'acknowledged') return alerts.filter(alert => alert.acknowledged);
-  return alerts.filter(alert => !alert.acknowledged);
+  if (status === 'active') return alerts.filter(alert => ACTIVE_ALERT_STATUSES.includes(alert.status));
+  if (status === 'closed') return alerts.filter(alert => CLOSED_ALERT_STATUSES.includes(alert.status));
+  if (status === 'unacknowledged') return alerts.filter(alert => alert.status === 'open');
+  return alerts.filter(alert => alert.status === status);
 };
 
 /**
@@ -176,8 +205,8 @@ export const filterAlertsBySeverity = (
 // ============================================================================
 
 export interface AlertFilterOptions {
-  type?: 'all' | 'empty' | 'low';
-  status?: 'all' | 'acknowledged' | 'unacknowledged';
+  type?: 'all' | AlertType;
+  status?: AlertStatusFilter;
   dateRange?: 'all' | 'today' | 'week' | 'month';
   search?: string;
   severity?: 'all' | Array<'critical' | 'high' | 'medium' | 'low'>;
@@ -235,17 +264,34 @@ export const processAlerts = (alerts: Alert[], options: AlertFilterOptions = {})
 // ALERT STATISTICS
 // ============================================================================
 
+/**
+ * Mean of the known durations in milliseconds, or null when there are none
+ */
+const getMeanDuration = (durations: Array<number | null>): number | null => {
+  const known = durations.filter((duration): duration is number => duration !== null);
+  if (known.length === 0) return null;
+  return known.reduce((sum, duration) => sum + duration, 0) / known.length;
+};
+
 /**
  * Get comprehensive alert statistics
  */
 export const getAlertStats = (alerts: Alert[]) => {
   const total = alerts.length;
-  const unacknowledged = alerts.filter(a => !a.acknowledged).length;
-  const acknowledged = total - unacknowledged;
+  const active = alerts.filter(isActiveAlert).length;
+  const unacknowledged = alerts.filter(a => a.status === 'open').length;
+  const acknowledged = active - unacknowledged;
+  const closed = total - active;
+  
+  const byStatus = [...ACTIVE_ALERT_STATUSES, ...CLOSED_ALERT_STATUSES].reduce((acc, status) => {
+    acc[status] = alerts.filter(a => a.status === status).length;
+    return acc;
+  }, {} as Record<AlertStatus, number>);
   
   const byType = {
     empty: alerts.filter(a => a.type === 'empty').length,
-    low: alerts.filter(a => a.type === 'low').length
+    low: alerts.filter(a => a.type === 'low').length,
+    predicted: alerts.filter(a => a.type === 'predicted-stockout').length
   };
   
   const bySeverity = {
@@ -259,14 +305,20 @@ export const getAlertStats = (alerts: Alert[]) => {
   
   return {
     total,
+    active,
     unacknowledged,
     acknowledged,
+    closed,
     urgent,
     byType,
-    bySeverity
+    bySeverity,
+    byStatus,
+    meanTimeToAcknowledge: getMeanDuration(alerts.map(getTimeToAcknowledge)),
+    meanTimeToResolve: getMeanDuration(alerts.map(getTimeToResolve))
   };
 };
 
+
 // ============================================================================
 // TIME FORMATTING UTILITIES
 // ============================================================================
@@ -292,6 +344,23 @@ export const formatRelativeTime = (timestamp: string): string => {
   return `${diffWeeks}w ago`;
 };
 
+/**
+ * Format a duration in milliseconds compactly (e.g. "45s", "12m", "2h 5m", "3d 4h")
+ */
+export const formatDuration = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  
+  const totalMinutes = Math.round(totalSeconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes}m`;
+  
+  const hours = Math.floor(totalMinutes / 60);
+  if (hours < 24) return totalMinutes % 60 ? `${hours}h ${totalMinutes % 60}m` : `${hours}h`;
+  
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+};
+
 /**
  * Format timestamp as absolute date/time
  */
@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getAlertVolume,
+  getProductHistory,
+  getRestockTimesByAisle,
+  getShelfHistory,
+  getStockouts,
+  sortScansByTime
+} from './analytics';
+import { AlertStatus } from './types';
+import { alert, at, FIXTURE_START, HOUR_MS, product, scan, shelf } from './testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const FROM = FIXTURE_START;
+const TO = FROM + 48 * HOUR_MS;
+
+const cola = (count: number) => product('COLA-330', 'Cola 330ml', 4, count);
+const chips = (count: number) => product('CHIPS-150', 'Chips 150g', 3, count);
+
+const SHELVES = [shelf('A1', { aisle: 'Aisle A' }), shelf('B1', { aisle: 'Aisle B' })];
+
+/**
+ * A cola alert opened at `openedHours`, closed with `status` at `closedHours`
+ */
+const colaAlert = (shelfId: string, openedHours: number, status: AlertStatus, closedHours?: number) =>
+  alert(shelfId, cola(0), openedHours, {
+    status,
+    ...(closedHours !== undefined && {
+      history: [
+        { status: 'open', at: at(openedHours), by: 'system' },
+        { status, at: at(closedHours), by: 'associate' }
+      ]
+    })
+  });
+
+// ============================================================================
+// COUNT HISTORY
+// ============================================================================
+
+describe('sortScansByTime', () => {
+  it('orders scans oldest first without changing the input', () => {
+    const scans = [scan('A1', 5, []), scan('A1', 1, []), scan('B1', 3, [])];
+    assert.deepEqual(sortScansByTime(scans).map(update => update.timestamp), [at(1), at(3), at(5)]);
+    assert.equal(scans[0].timestamp, at(5));
+  });
+});
+
+describe('getShelfHistory', () => {
+  it('starts each shelf at the state earlier scans left and carries the last count to the end', () => {
+    const updates = [scan('A1', -2, [cola(10), chips(5)]), scan('A1', 6, [cola(7), chips(5)])];
+    const [series] = getShelfHistory(updates, FROM, TO);
+
+    assert.equal(series.key, 'A1');
+    assert.deepEqual(series.points, [
+      { timestamp: at(0), count: 15 },
+      { timestamp: at(6), count: 12 },
+      { timestamp: at(48), count: 12 }
+    ]);
+  });
+
+  it('breaks one shelf down by product, with products that left the shelf at zero', () => {
+    const updates = [scan('A1', 1, [cola(10), chips(5)]), scan('A1', 2, [cola(8)])];
+    const series = getShelfHistory(updates, FROM, TO, 'A1');
+
+    assert.deepEqual(series.map(entry => entry.label), ['Chips 150g', 'Cola 330ml']);
+    assert.deepEqual(series[0].points.map(point => point.count), [5, 0, 0]);
+    assert.deepEqual(series[1].points.map(point => point.count), [10, 8, 8]);
+  });
+
+  it('ignores scans after the window', () => {
+    const series = getShelfHistory([scan('A1', 1, [cola(10)]), scan('A1', 50, [cola(1)])], FROM, TO);
+    assert.deepEqual(series[0].points.map(point => point.count), [10, 10]);
+  });
+});
+
+describe('getProductHistory', () => {
+  it('sums a product over every shelf stocking it', () => {
+    const updates = [scan('A1', 1, [cola(10)]), scan('B1', 2, [cola(4), chips(6)])];
+    const cola330 = getProductHistory(updates, FROM, TO).find(entry => entry.key === 'COLA-330')!;
+
+    assert.deepEqual(cola330.points.map(point => point.count), [10, 14, 14]);
+  });
+
+  it('breaks one product down by shelf', () => {
+    const updates = [scan('A1', 1, [cola(10)]), scan('B1', 2, [chips(6)]), scan('B1', 3, [cola(2)])];
+    const series = getProductHistory(updates, FROM, TO, 'COLA-330');
+
+    assert.deepEqual(series.map(entry => entry.key), ['A1', 'B1']);
+    assert.deepEqual(series[1].points.map(point => point.count), [2, 2]);
+  });
+});
+
+// ============================================================================
+// STOCKOUTS
+// ============================================================================
+
+describe('getStockouts', () => {
+  it('measures an empty period from the scan finding it empty to the scan finding stock', () => {
+    const updates = [scan('A1', 1, [cola(3)]), scan('A1', 2, [cola(0)]), scan('A1', 5, [cola(12)])];
+    const [stockout] = getStockouts(updates, FROM, TO, SHELVES);
+
+    assert.equal(stockout.aisle, 'Aisle A');
+    assert.equal(stockout.stockouts, 1);
+    assert.equal(stockout.totalDurationMs, 3 * HOUR_MS);
+    assert.equal(stockout.ongoing, false);
+  });
+
+  it('clips periods to the window and marks one still open at the end as ongoing', () => {
+    const updates = [scan('A1', -4, [cola(0)]), scan('A1', 2, [cola(6)]), scan('A1', 40, [cola(0)])];
+    const [stockout] = getStockouts(updates, FROM, TO, SHELVES);
+
+    assert.equal(stockout.stockouts, 2);
+    assert.equal(stockout.totalDurationMs, (2 + 8) * HOUR_MS);
+    assert.equal(stockout.meanDurationMs, 5 * HOUR_MS);
+    assert.equal(stockout.ongoing, true);
+  });
+
+  it('ends a stockout when the product is no longer on the shelf', () => {
+    const updates = [scan('A1', 1, [cola(0), chips(2)]), scan('A1', 3, [chips(2)])];
+    const [stockout] = getStockouts(updates, FROM, TO, SHELVES);
+
+    assert.equal(stockout.totalDurationMs, 2 * HOUR_MS);
+    assert.equal(stockout.ongoing, false);
+  });
+
+  it('sorts the longest stockouts first and leaves out slots that never emptied', () => {
+    const updates = [
+      scan('A1', 1, [cola(0), chips(4)]),
+      scan('B1', 1, [cola(0)]),
+      scan('A1', 2, [cola(5), chips(4)]),
+      scan('B1', 6, [cola(5)])
+    ];
+    const stockouts = getStockouts(updates, FROM, TO, SHELVES);
+
+    assert.deepEqual(stockouts.map(stockout => stockout.shelf), ['B1', 'A1']);
+    assert.ok(stockouts.every(stockout => stockout.sku === 'COLA-330'));
+  });
+});
+
+// ============================================================================
+// ALERT TRENDS
+// ============================================================================
+
+describe('getAlertVolume', () => {
+  it('counts alerts opened per aisle per UTC day, with removed shelves grouped together', () => {
+    const alerts = [
+      colaAlert('A1', 1, 'open'),
+      colaAlert('A1', 30, 'resolved', 32),
+      colaAlert('B1', 3, 'open'),
+      colaAlert('Z9', 4, 'dismissed', 5),
+      colaAlert('A1', 60, 'open')
+    ];
+    const volume = getAlertVolume(alerts, SHELVES, FROM, TO);
+
+    assert.deepEqual(volume.days, ['2026-03-02', '2026-03-03', '2026-03-04']);
+    assert.deepEqual(volume.aisles, [
+      { aisle: 'Aisle A', counts: [1, 1, 0], total: 2 },
+      { aisle: 'Aisle B', counts: [1, 0, 0], total: 1 },
+      { aisle: 'Removed shelves', counts: [1, 0, 0], total: 1 }
+    ]);
+  });
+});
+
+describe('getRestockTimesByAisle', () => {
+  it('averages the time to resolve alerts opened in the window, per aisle', () => {
+    const alerts = [
+      colaAlert('A1', 1, 'resolved', 3),
+      colaAlert('A1', 10, 'auto-resolved', 14),
+      colaAlert('A1', 12, 'dismissed', 13),
+      colaAlert('B1', 2, 'open'),
+      colaAlert('B1', -10, 'resolved', 1)
+    ];
+
+    assert.deepEqual(getRestockTimesByAisle(alerts, SHELVES, FROM, TO), [
+      { aisle: 'Aisle A', meanTimeToRestockMs: 3 * HOUR_MS, samples: 2 }
+    ]);
+  });
+});
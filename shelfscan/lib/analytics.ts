@@ -0,0 +1,328 @@
+/**
+ * Inventory Analytics for ShelfScan AI
+ * Replays the persisted scan log and alert history into the trends shown on
+ * the Analytics page: count history per shelf and product, stockout
+ * frequency and duration, alert volume by aisle and day, and mean time to
+ * restock. Pure functions; `GET /api/analytics` serves the report.
+ */
+
+import {
+  Alert,
+  AlertVolume,
+  AnalyticsReport,
+  CountHistorySeries,
+  Product,
+  RestockTimeStats,
+  ScanUpdate,
+  Shelf,
+  StockoutStats
+} from './types';
+import { getAlertOpenedAt, getTimeToResolve } from './alertLifecycle';
+
+/**
+ * Report window when none is requested, and the longest one allowed
+ */
+export const ANALYTICS_DEFAULT_DAYS = 7;
+export const ANALYTICS_MAX_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Alerts and stockouts on shelves that have since been deleted
+const UNKNOWN_AISLE = 'Removed shelves';
+
+const toTime = (timestamp: string): number => new Date(timestamp).getTime();
+
+const sumCounts = (items: Product[] = []): number => items.reduce((sum, item) => sum + item.count, 0);
+
+const uniqueBySku = (items: Product[]): Product[] => [...new Map(items.map(item => [item.sku, item])).values()];
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Scan updates oldest first
+ */
+export const sortScansByTime = (updates: ScanUpdate[]): ScanUpdate[] =>
+  [...updates].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+// ============================================================================
+// COUNT HISTORY
+// ============================================================================
+
+type HistorySample = { key: string; label: string; count: number };
+
+/**
+ * Shelves whose counts changed, with every product they held before or after
+ */
+type ChangedShelf = { shelf: string; items: Product[] };
+
+type HistorySampler = (state: Map<string, Product[]>, changed: ChangedShelf[]) => HistorySample[];
+
+/**
+ * Replay scans into series, sampling after each scan in the window
+ * Series start at `from` with the state left by earlier scans and end at
+ * `to` with their last count, so they span the whole window.
+ */
+const collectHistory = (
+  updates: ScanUpdate[],
+  fromMs: number,
+  toMs: number,
+  sample: HistorySampler
+): CountHistorySeries[] => {
+  const state = new Map<string, Product[]>();
+  const series = new Map<string, CountHistorySeries>();
+  const record = (timestamp: string, samples: HistorySample[]) => {
+    samples.forEach(({ key, label, count }) => {
+      const entry = series.get(key) ?? { key, label, points: [] };
+      entry.label = label;
+      entry.points.push({ timestamp, count });
+      series.set(key, entry);
+    });
+  };
+
+  let index = 0;
+  for (; index < updates.length && toTime(updates[index].timestamp) < fromMs; index++) {
+    state.set(updates[index].shelf, updates[index].items);
+  }
+  record(new Date(fromMs).toISOString(), sample(state, [...state].map(([shelf, items]) => ({ shelf, items }))));
+
+  for (; index < updates.length && toTime(updates[index].timestamp) <= toMs; index++) {
+    const update = updates[index];
+    const previous = state.get(update.shelf) ?? [];
+    state.set(update.shelf, update.items);
+    record(update.timestamp, sample(state, [{ shelf: update.shelf, items: [...previous, ...update.items] }]));
+  }
+
+  const end = new Date(toMs).toISOString();
+  series.forEach(entry => {
+    const last = entry.points[entry.points.length - 1];
+    if (toTime(last.timestamp) < toMs) entry.points.push({ timestamp: end, count: last.count });
+  });
+
+  return [...series.values()].sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Total units per shelf, or per product on `shelfId` when given
+ */
+export const getShelfHistory = (
+  updates: ScanUpdate[],
+  fromMs: number,
+  toMs: number,
+  shelfId?: string
+): CountHistorySeries[] =>
+  collectHistory(updates, fromMs, toMs, (state, changed) => {
+    if (shelfId === undefined) {
+      return changed.map(({ shelf }) => ({ key: shelf, label: shelf, count: sumCounts(state.get(shelf)) }));
+    }
+    return changed
+      .filter(({ shelf }) => shelf === shelfId)
+      .flatMap(({ items }) => uniqueBySku(items).map(item => ({
+        key: item.sku,
+        label: item.product,
+        count: state.get(shelfId)?.find(current => current.sku === item.sku)?.count ?? 0
+      })));
+  });
+
+/**
+ * Store-wide units per product, or per shelf stocking `sku` when given
+ */
+export const getProductHistory = (
+  updates: ScanUpdate[],
+  fromMs: number,
+  toMs: number,
+  sku?: string
+): CountHistorySeries[] =>
+  collectHistory(updates, fromMs, toMs, (state, changed) => {
+    if (sku !== undefined) {
+      return changed
+        .filter(({ items }) => items.some(item => item.sku === sku))
+        .map(({ shelf }) => ({
+          key: shelf,
+          label: shelf,
+          count: state.get(shelf)?.find(item => item.sku === sku)?.count ?? 0
+        }));
+    }
+    return uniqueBySku(changed.flatMap(({ items }) => items)).map(item => ({
+      key: item.sku,
+      label: item.product,
+      count: [...state.values()].reduce(
+        (sum, items) => sum + (items.find(current => current.sku === item.sku)?.count ?? 0),
+        0
+      )
+    }));
+  });
+
+// ============================================================================
+// STOCKOUTS
+// ============================================================================
+
+/**
+ * Empty periods per product slot overlapping the window
+ * A period starts at the first scan that finds the slot empty and ends at
+ * the first scan that finds stock again (or the product gone from the
+ * shelf); one still open at `to` is ongoing.
+ */
+export const getStockouts = (
+  updates: ScanUpdate[],
+  fromMs: number,
+  toMs: number,
+  shelves: Shelf[]
+): StockoutStats[] => {
+  const aisles = new Map(shelves.map(shelf => [shelf.id, shelf.aisle]));
+  const slots = new Map<string, StockoutStats>();
+  const emptySince = new Map<string, number>();
+
+  const close = (key: string, endMs: number) => {
+    const start = emptySince.get(key)!;
+    emptySince.delete(key);
+    if (endMs < fromMs) return;
+    const slot = slots.get(key)!;
+    slot.stockouts += 1;
+    slot.totalDurationMs += Math.max(0, Math.min(endMs, toMs) - Math.max(start, fromMs));
+  };
+
+  for (const update of updates) {
+    const at = toTime(update.timestamp);
+    if (at > toMs) break;
+
+    const present = new Set<string>();
+    update.items.forEach(item => {
+      const key = `${update.shelf}/${item.sku}`;
+      present.add(key);
+      const slot = slots.get(key) ?? {
+        shelf: update.shelf,
+        ...(aisles.has(update.shelf) && { aisle: aisles.get(update.shelf) }),
+        sku: item.sku,
+        product: item.product,
+        stockouts: 0,
+        totalDurationMs: 0,
+        meanDurationMs: 0,
+        ongoing: false
+      };
+      slot.product = item.product;
+      slots.set(key, slot);
+      if (item.count === 0 && !emptySince.has(key)) emptySince.set(key, at);
+      if (item.count > 0 && emptySince.has(key)) close(key, at);
+    });
+
+    [...emptySince.keys()].forEach(key => {
+      if (slots.get(key)!.shelf === update.shelf && !present.has(key)) close(key, at);
+    });
+  }
+
+  [...emptySince.keys()].forEach(key => {
+    slots.get(key)!.ongoing = true;
+    close(key, toMs);
+  });
+
+  return [...slots.values()]
+    .filter(slot => slot.stockouts > 0)
+    .map(slot => ({ ...slot, meanDurationMs: slot.totalDurationMs / slot.stockouts }))
+    .sort((a, b) => b.totalDurationMs - a.totalDurationMs);
+};
+
+// ============================================================================
+// ALERT TRENDS
+// ============================================================================
+
+/**
+ * UTC day (YYYY-MM-DD) of a timestamp
+ */
+export const getDayKey = (timestampMs: number): string => new Date(timestampMs).toISOString().slice(0, 10);
+
+const openedWithin = (alerts: Alert[], fromMs: number, toMs: number): Alert[] =>
+  alerts.filter(alert => {
+    const openedAt = toTime(getAlertOpenedAt(alert));
+    return openedAt >= fromMs && openedAt <= toMs;
+  });
+
+/**
+ * Alerts opened per aisle per UTC day
+ */
+export const getAlertVolume = (alerts: Alert[], shelves: Shelf[], fromMs: number, toMs: number): AlertVolume => {
+  const aisles = new Map(shelves.map(shelf => [shelf.id, shelf.aisle]));
+  const days: string[] = [];
+  for (let day = Date.parse(getDayKey(fromMs)); day <= toMs; day += DAY_MS) {
+    days.push(getDayKey(day));
+  }
+
+  const counts = new Map<string, number[]>();
+  openedWithin(alerts, fromMs, toMs).forEach(alert => {
+    const aisle = aisles.get(alert.shelf) ?? UNKNOWN_AISLE;
+    const row = counts.get(aisle) ?? days.map(() => 0);
+    row[days.indexOf(getDayKey(toTime(getAlertOpenedAt(alert))))] += 1;
+    counts.set(aisle, row);
+  });
+
+  return {
+    days,
+    aisles: [...counts]
+      .map(([aisle, row]) => ({ aisle, counts: row, total: row.reduce((sum, count) => sum + count, 0) }))
+      .sort((a, b) => a.aisle.localeCompare(b.aisle))
+  };
+};
+
+/**
+ * Mean time from alert to restock (resolved alerts opened in the window),
+ * per aisle
+ */
+export const getRestockTimesByAisle = (
+  alerts: Alert[],
+  shelves: Shelf[],
+  fromMs: number,
+  toMs: number
+): RestockTimeStats[] => {
+  const aisles = new Map(shelves.map(shelf => [shelf.id, shelf.aisle]));
+  const durations = new Map<string, number[]>();
+  openedWithin(alerts, fromMs, toMs).forEach(alert => {
+    const duration = getTimeToResolve(alert);
+    if (duration === null) return;
+    const aisle = aisles.get(alert.shelf) ?? UNKNOWN_AISLE;
+    durations.set(aisle, [...(durations.get(aisle) ?? []), duration]);
+  });
+
+  return [...durations]
+    .map(([aisle, values]) => ({ aisle, meanTimeToRestockMs: mean(values), samples: values.length }))
+    .sort((a, b) => a.aisle.localeCompare(b.aisle));
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+export interface AnalyticsOptions {
+  from: string;
+  to: string;
+  /** Break the shelf history down by product on this shelf */
+  shelf?: string;
+  /** Break the product history down by shelf for this SKU */
+  sku?: string;
+}
+
+/**
+ * Build the full analytics report from the persisted history
+ */
+export const buildAnalyticsReport = (
+  data: { scans: ScanUpdate[]; alerts: Alert[]; shelves: Shelf[] },
+  options: AnalyticsOptions
+): AnalyticsReport => {
+  const fromMs = toTime(options.from);
+  const toMs = toTime(options.to);
+  const updates = sortScansByTime(data.scans);
+
+  return {
+    from: options.from,
+    to: options.to,
+    shelfHistory: getShelfHistory(updates, fromMs, toMs, options.shelf),
+    productHistory: getProductHistory(updates, fromMs, toMs, options.sku),
+    stockouts: getStockouts(updates, fromMs, toMs, data.shelves),
+    alertVolume: getAlertVolume(data.alerts, data.shelves, fromMs, toMs),
+    meanTimeToRestockMs: mean(
+      openedWithin(data.alerts, fromMs, toMs)
+        .map(getTimeToResolve)
+        .filter((duration): duration is number => duration !== null)
+    ),
+    restockTimesByAisle: getRestockTimesByAisle(data.alerts, data.shelves, fromMs, toMs)
+  };
+};
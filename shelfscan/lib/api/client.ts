@@ -0,0 +1,315 @@
+/**
+ * API Client for ShelfScan AI
+ * Thin fetch wrappers around the server routes used by the dashboard
+ */
+
+import {
+  AisleAssignment,
+  Alert,
+  AnalyticsReport,
+  ApiResult,
+  CatalogProduct,
+  Planogram,
+  PlanogramFormat,
+  PlanogramImportResult,
+  RegionalOverview,
+  RescanTask,
+  RestockAmount,
+  RestockEvent,
+  ScanRecord,
+  ScanUpdate,
+  Shelf,
+  ShiftId,
+  Store,
+  StoreSettings,
+  ThresholdChange,
+  ThresholdRecommendation,
+  ThresholdScope,
+  User
+} from '../types';
+import type { StaffAlertStatus } from '../alertLifecycle';
+import { STORE_HEADER, STORE_QUERY_PARAM } from '../stores';
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+let storeId: string | null = null;
+
+/**
+ * Select the store every following request is for (null: the server's
+ * default store)
+ */
+export const setStoreId = (id: string | null): void => {
+  storeId = id;
+};
+
+/**
+ * Perform a JSON request and surface the server's error message on failure
+ * An expired session on any data route sends the browser back to sign in.
+ */
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(storeId !== null && { [STORE_HEADER]: storeId }),
+      ...init?.headers
+    }
+  });
+
+  if (response.status === 401 && !url.startsWith('/api/auth/') && typeof window !== 'undefined') {
+    const next = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.assign(`/login?next=${next}`);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const { message, errors } = (body ?? {}) as Partial<ApiResult>;
+    const details = errors && errors.length > 0 ? `: ${errors.join('; ')}` : '';
+    throw new Error(`${message ?? `Request to ${url} failed with status ${response.status}`}${details}`);
+  }
+
+  return body as T;
+};
+
+/**
+ * Perform a mutation and unwrap the resource from its ApiResult envelope
+ */
+const mutate = async <T>(url: string, init: RequestInit): Promise<T> => {
+  const result = await request<ApiResult<T>>(url, init);
+  return result.data as T;
+};
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * The signed-in user, or null when there is no valid session
+ */
+export const fetchSession = (): Promise<User | null> =>
+  request<User>('/api/auth/session').catch(() => null);
+
+export const login = (username: string, password: string): Promise<User> =>
+  mutate<User>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+
+export const logout = (): Promise<void> =>
+  mutate<void>('/api/auth/logout', { method: 'POST' });
+
+// ============================================================================
+// PRODUCT CATALOG
+// ============================================================================
+
+export const fetchCatalog = (): Promise<CatalogProduct[]> => request<CatalogProduct[]>('/api/catalog');
+
+export const createCatalogProduct = (product: CatalogProduct): Promise<CatalogProduct> =>
+  mutate<CatalogProduct>('/api/catalog', {
+    method: 'POST',
+    body: JSON.stringify(product)
+  });
+
+/**
+ * Update a catalog product; `null` clears an optional field
+ */
+export const updateCatalogProduct = (
+  sku: string,
+  changes: { [K in keyof Omit<CatalogProduct, 'sku'>]?: CatalogProduct[K] | null }
+): Promise<CatalogProduct> =>
+  mutate<CatalogProduct>(`/api/catalog/${encodeURIComponent(sku)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes)
+  });
+
+export const deleteCatalogProduct = (sku: string): Promise<CatalogProduct> =>
+  mutate<CatalogProduct>(`/api/catalog/${encodeURIComponent(sku)}`, { method: 'DELETE' });
+
+// ============================================================================
+// SHELVES
+// ============================================================================
+
+export const fetchShelves = (): Promise<Shelf[]> => request<Shelf[]>('/api/shelves');
+
+export const restockProduct = (
+  shelfId: string,
+  sku: string,
+  amount: RestockAmount
+): Promise<RestockEvent> =>
+  mutate<RestockEvent>(`/api/shelves/${encodeURIComponent(shelfId)}/restock`, {
+    method: 'POST',
+    body: JSON.stringify({ sku, ...amount })
+  });
+
+// ============================================================================
+// SCANS
+// ============================================================================
+
+export const submitScan = (
+  update: ScanUpdate
+): Promise<{ record: ScanRecord; rescanTask?: RescanTask | null }> =>
+  mutate<{ record: ScanRecord; rescanTask?: RescanTask | null }>('/api/scans', {
+    method: 'POST',
+    body: JSON.stringify(update)
+  });
+
+// ============================================================================
+// THRESHOLDS
+// ============================================================================
+
+const toThresholdParams = (options: ThresholdScope & { serviceLevel?: number }): URLSearchParams => {
+  const params = new URLSearchParams();
+  (['shelf', 'sku', 'aisle', 'category'] as const).forEach(key => {
+    if (options[key]) params.set(key, options[key]);
+  });
+  if (options.serviceLevel !== undefined) params.set('serviceLevel', String(options.serviceLevel));
+  return params;
+};
+
+export const fetchThresholdRecommendations = (
+  options: ThresholdScope & { serviceLevel?: number } = {}
+): Promise<ThresholdRecommendation[]> =>
+  request<ThresholdRecommendation[]>(`/api/thresholds/recommendations?${toThresholdParams(options)}`);
+
+export const applyThresholdRecommendations = (
+  scope: ThresholdScope & { serviceLevel?: number }
+): Promise<ThresholdChange[]> =>
+  mutate<ThresholdChange[]>('/api/thresholds', { method: 'POST', body: JSON.stringify(scope) });
+
+export const fetchThresholdChanges = (
+  options: { shelf?: string; sku?: string } = {}
+): Promise<ThresholdChange[]> =>
+  request<ThresholdChange[]>(`/api/thresholds?${toThresholdParams(options)}`);
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+export const fetchAlerts = (): Promise<Alert[]> => request<Alert[]>('/api/alerts');
+
+// Route segment for each staff transition, e.g. POST /api/alerts/:id/resolve
+const ALERT_ACTION_ROUTES: Record<StaffAlertStatus, string> = {
+  acknowledged: 'acknowledge',
+  'in-progress': 'start',
+  resolved: 'resolve',
+  dismissed: 'dismiss'
+};
+
+export const transitionAlert = (
+  alertId: string,
+  status: StaffAlertStatus,
+  transition: { note?: string } = {}
+): Promise<Alert> =>
+  mutate<Alert>(`/api/alerts/${encodeURIComponent(alertId)}/${ALERT_ACTION_ROUTES[status]}`, {
+    method: 'POST',
+    body: JSON.stringify(transition)
+  });
+
+// ============================================================================
+// RESCAN TASKS
+// ============================================================================
+
+export const fetchRescanTasks = (): Promise<RescanTask[]> => request<RescanTask[]>('/api/rescans');
+
+export const requestRescan = (shelfId: string): Promise<RescanTask> =>
+  mutate<RescanTask>('/api/rescans', {
+    method: 'POST',
+    body: JSON.stringify({ shelf: shelfId })
+  });
+
+// ============================================================================
+// STAFF & ASSIGNMENTS
+// ============================================================================
+
+export const fetchUsers = (): Promise<User[]> => request<User[]>('/api/users');
+
+export const fetchAssignments = (): Promise<AisleAssignment[]> =>
+  request<AisleAssignment[]>('/api/assignments');
+
+export const createAssignment = (assignment: {
+  aisle: string;
+  username: string;
+  shift: ShiftId;
+}): Promise<AisleAssignment> =>
+  mutate<AisleAssignment>('/api/assignments', {
+    method: 'POST',
+    body: JSON.stringify(assignment)
+  });
+
+export const deleteAssignment = (assignmentId: string): Promise<AisleAssignment> =>
+  mutate<AisleAssignment>(`/api/assignments/${encodeURIComponent(assignmentId)}`, { method: 'DELETE' });
+
+// ============================================================================
+// STORE LAYOUT
+// ============================================================================
+
+export const fetchPlanogram = (): Promise<Planogram> => request<Planogram>('/api/planogram');
+
+export const importPlanogram = (
+  text: string,
+  format: PlanogramFormat,
+  options: { dryRun?: boolean; prune?: boolean } = {}
+): Promise<PlanogramImportResult> => {
+  const params = new URLSearchParams({ format });
+  if (options.dryRun) params.set('dryRun', 'true');
+  if (options.prune) params.set('prune', 'true');
+  return mutate<PlanogramImportResult>(`/api/planogram/import?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/json' },
+    body: text
+  });
+};
+
+/**
+ * Download link for the current store's layout (the session cookie
+ * authenticates it)
+ */
+export const getPlanogramExportUrl = (format: PlanogramFormat): string => {
+  const params = new URLSearchParams({ format });
+  if (storeId !== null) params.set(STORE_QUERY_PARAM, storeId);
+  return `/api/planogram/export?${params}`;
+};
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+export const fetchAnalytics = (
+  options: { days?: number; shelf?: string; sku?: string } = {}
+): Promise<AnalyticsReport> => {
+  const params = new URLSearchParams();
+  if (options.days !== undefined) params.set('days', String(options.days));
+  if (options.shelf) params.set('shelf', options.shelf);
+  if (options.sku) params.set('sku', options.sku);
+  return request<AnalyticsReport>(`/api/analytics?${params}`);
+};
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const fetchSettings = (): Promise<StoreSettings> => request<StoreSettings>('/api/settings');
+
+export const saveSettings = (settings: StoreSettings): Promise<StoreSettings> =>
+  mutate<StoreSettings>('/api/settings', { method: 'PUT', body: JSON.stringify(settings) });
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export const fetchStores = (): Promise<Store[]> => request<Store[]>('/api/stores');
+
+export const createStore = (store: Store): Promise<Store> =>
+  mutate<Store>('/api/stores', { method: 'POST', body: JSON.stringify(store) });
+
+export const updateStore = (
+  id: string,
+  changes: Partial<Omit<Store, 'id'>>
+): Promise<Store> =>
+  mutate<Store>(`/api/stores/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+export const fetchRegionalOverview = (): Promise<RegionalOverview> =>
+  request<RegionalOverview>('/api/stores/overview');
@@ -0,0 +1,177 @@
+/**
+ * Detection Backend Interface for ShelfScan AI
+ * Every object detector (on-device model or cloud API) is wrapped in an
+ * adapter implementing `DetectionBackend`, so the camera works with one
+ * detection shape whichever produced it. Adapters live next to the code
+ * they wrap and are listed in `detectionRegistry.ts`.
+ */
+
+import { DetectionBackendId } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * [x, y, width, height] in pixels of the frame, from its top-left corner
+ */
+export type BoundingBox = [number, number, number, number];
+
+/**
+ * One object found in a frame, as every backend reports it
+ */
+export interface Detection {
+  /** Lower-case class label */
+  class: string;
+  /** Detector confidence (0-1) */
+  score: number;
+  /** Where the object is; null when the backend gives no box */
+  bbox: BoundingBox | null;
+  /** Product the backend recognised, for models trained on the store's SKUs */
+  sku?: string;
+  /** Backend that found it */
+  source: DetectionBackendId;
+  /** For an ensemble's fused detections, the backends that saw the object */
+  agreedBy?: DetectionBackendId[];
+  /** For an ensemble's fused detections, how many backends answered on the frame */
+  backendsAnswered?: number;
+}
+
+export interface DetectionCapabilities {
+  /** Runs in the browser; frames never leave the device */
+  onDevice: boolean;
+  /** Detections carry bounding boxes */
+  boundingBoxes: boolean;
+  /**
+   * `coco`: labels are the 80 COCO classes (which `shelfMapping.ts` knows
+   * keywords for); `open`: free-form labels such as "Mobile phone"
+   */
+  labels: 'coco' | 'open';
+  /** Detections may name the product (`sku`) as well as its class */
+  skus: boolean;
+  /** Needs an API key or other credentials to work */
+  requiresCredentials: boolean;
+}
+
+/**
+ * Anything a frame can be read from
+ */
+export type DetectionImage = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export interface DetectionBackend {
+  id: DetectionBackendId;
+  /** Display name */
+  label: string;
+  capabilities: DetectionCapabilities;
+  /**
+   * Load the model or check credentials; resolves false when the backend
+   * can't be used. Safe to call again once initialized.
+   */
+  init(): Promise<boolean>;
+  /**
+   * Objects in the frame scoring at least `minScore`. Rejects when the
+   * backend isn't initialized or detection fails.
+   */
+  detect(image: DetectionImage, minScore: number): Promise<Detection[]>;
+  /** Release the model; `init` must be called again before detecting */
+  dispose(): Promise<void>;
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/**
+ * COCO class for free-form labels (Google Vision, local model servers) of
+ * objects COCO has a class for
+ */
+export const DETECTION_CLASS_ALIASES: Record<string, string> = {
+  'mobile phone': 'cell phone',
+  'smartphone': 'cell phone',
+  'telephone': 'cell phone',
+  'water bottle': 'bottle',
+  'plastic bottle': 'bottle',
+  'glass bottle': 'bottle',
+  'bottled water': 'bottle',
+  'coffee cup': 'cup',
+  'mug': 'cup',
+  'doughnut': 'donut',
+  'hair dryer': 'hair drier',
+  'remote control': 'remote',
+  'computer keyboard': 'keyboard',
+  'computer mouse': 'mouse',
+  'television': 'tv'
+};
+
+/**
+ * A label in the shared (COCO) vocabulary: lower-cased, with known
+ * free-form labels mapped to their COCO class
+ */
+export const normalizeDetectionClass = (label: string): string => {
+  const name = label.trim().toLowerCase();
+  return DETECTION_CLASS_ALIASES[name] ?? name;
+};
+
+// ============================================================================
+// FRAME HELPERS
+// ============================================================================
+
+/**
+ * Pixel size of a frame (the video's, not its element's, for video)
+ */
+export const getFrameSize = (image: DetectionImage): { width: number; height: number } => {
+  if (image instanceof HTMLVideoElement) return { width: image.videoWidth, height: image.videoHeight };
+  if (image instanceof HTMLImageElement) return { width: image.naturalWidth, height: image.naturalHeight };
+  return { width: image.width, height: image.height };
+};
+
+/**
+ * Copy the current frame onto a canvas, for backends that take an encoded image
+ */
+export const captureFrame = (image: DetectionImage): HTMLCanvasElement => {
+  const { width, height } = getFrameSize(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not capture frame');
+  }
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+// ============================================================================
+// FALLBACK
+// ============================================================================
+
+/**
+ * A backend that detects with `primary`, and with `fallback` when the
+ * primary fails, isn't available or finds nothing. Detections keep the
+ * `source` of the backend that found them.
+ */
+export const withFallback = (primary: DetectionBackend, fallback: DetectionBackend): DetectionBackend => ({
+  id: primary.id,
+  label: `${primary.label}, ${fallback.label} fallback`,
+  capabilities: primary.capabilities,
+
+  init: async () => {
+    const [primaryReady, fallbackReady] = await Promise.all([primary.init(), fallback.init()]);
+    return primaryReady || fallbackReady;
+  },
+
+  detect: async (image, minScore) => {
+    try {
+      const detections = await primary.detect(image, minScore);
+      if (detections.length > 0) return detections;
+    } catch (error) {
+      console.warn(`${primary.label} detection failed, falling back to ${fallback.label}:`, error);
+    }
+    return fallback.detect(image, minScore);
+  },
+
+  dispose: async () => {
+    await Promise.all([primary.dispose(), fallback.dispose()]);
+  }
+});
@@ -0,0 +1,54 @@
+/**
+ * Detection Backend Registry for ShelfScan AI
+ * Every detection backend the camera can use, by ID. A new detector is an
+ * adapter implementing `DetectionBackend`, an ID in `DetectionBackendId`
+ * and an entry here (plus its settings label).
+ */
+
+import { withFallback, type DetectionBackend } from './detectionBackend';
+import { cocoSsdBackend } from './objectDetection';
+import { detrBackend } from './huggingFaceDetection';
+import { googleVisionBackend } from './googleVisionDetection';
+import { createHttpDetectionBackend } from './httpDetection';
+import { createEnsembleBackend } from './ensemble';
+import { DEFAULT_SETTINGS } from '../settings';
+import { DetectionBackendId, StoreSettings } from '../types';
+
+/**
+ * The detection settings that pick and configure the backend
+ */
+type DetectionSettings = Pick<StoreSettings['detection'], 'backend' | 'endpoint' | 'ensembleBackends'>;
+
+/**
+ * Each backend, built from the store's detection settings for those that
+ * need them (the model-backed ones are shared)
+ */
+const BACKENDS: Record<DetectionBackendId, (settings: DetectionSettings) => DetectionBackend> = {
+  'coco-ssd': () => cocoSsdBackend,
+  'hugging-face': () => detrBackend,
+  'google-vision': () => googleVisionBackend,
+  'local-http': ({ endpoint }) => createHttpDetectionBackend(endpoint),
+  'ensemble': settings => createEnsembleBackend(
+    settings.ensembleBackends.filter(id => id !== 'ensemble').map(id => getDetectionBackend(id, settings))
+  )
+};
+
+/**
+ * On-device backend every other backend falls back to
+ */
+export const FALLBACK_BACKEND_ID: DetectionBackendId = 'coco-ssd';
+
+export const getDetectionBackend = (
+  id: DetectionBackendId,
+  settings: DetectionSettings = DEFAULT_SETTINGS.detection
+): DetectionBackend => BACKENDS[id](settings);
+
+/**
+ * The backend a store's settings select, falling back to COCO-SSD unless
+ * COCO-SSD is the one selected (an ensemble instead carries on with the
+ * members that work)
+ */
+export const getConfiguredBackend = (settings: DetectionSettings): DetectionBackend =>
+  settings.backend === FALLBACK_BACKEND_ID || settings.backend === 'ensemble'
+    ? getDetectionBackend(settings.backend, settings)
+    : withFallback(getDetectionBackend(settings.backend, settings), getDetectionBackend(FALLBACK_BACKEND_ID));
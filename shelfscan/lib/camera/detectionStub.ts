@@ -0,0 +1,51 @@
+/**
+ * Detection Stub Responses for ShelfScan AI
+ * The canned detections `scripts/detection-stub.ts` answers every frame
+ * with, in the local HTTP detection contract (`httpDetection.ts`). Kept
+ * apart from the server so the responses can be checked offline.
+ */
+
+import { HttpDetection, HttpDetectionResponse } from './httpDetection';
+
+// ============================================================================
+// CANNED DETECTIONS
+// ============================================================================
+
+/**
+ * Built-in detections, with boxes as fractions of the frame
+ */
+export const DEMO_DETECTIONS: HttpDetection[] = [
+  { class: 'bottle', score: 0.93, box: { x: 0.05, y: 0.2, width: 0.12, height: 0.45 }, sku: 'RED-BULL-ENERGY' },
+  { class: 'bottle', score: 0.88, box: { x: 0.2, y: 0.22, width: 0.12, height: 0.44 }, sku: 'RED-BULL-ENERGY' },
+  { class: 'bottle', score: 0.81, box: { x: 0.38, y: 0.18, width: 0.14, height: 0.5 } },
+  { class: 'toothbrush', score: 0.74, box: { x: 0.6, y: 0.3, width: 0.25, height: 0.08 }, sku: 'ORAL-B-TOOTHBRUSH' },
+  { class: 'person', score: 0.66 }
+];
+
+const scaleBox = (detection: HttpDetection, width: number, height: number): HttpDetection =>
+  detection.box
+    ? {
+      ...detection,
+      box: {
+        x: Math.round(detection.box.x * width),
+        y: Math.round(detection.box.y * height),
+        width: Math.round(detection.box.width * width),
+        height: Math.round(detection.box.height * height)
+      }
+    }
+    : detection;
+
+/**
+ * The stub's answer to a `width` × `height` frame: `canned` detections (from
+ * a fixture file) as they are, else the built-in ones scaled to the frame,
+ * keeping those scoring at least `minScore`
+ */
+export const createStubResponse = (
+  width: number,
+  height: number,
+  minScore: number,
+  canned?: HttpDetection[] | null
+): HttpDetectionResponse => ({
+  detections: (canned ?? DEMO_DETECTIONS.map(detection => scaleBox(detection, width, height)))
+    .filter(detection => detection.score >= minScore)
+});
@@ -0,0 +1,246 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AGREEMENT_DISCOUNT, createEnsembleBackend, fuseDetections, iou } from './ensemble';
+import type { BoundingBox, Detection, DetectionBackend, DetectionImage } from './detectionBackend';
+import { DetectionBackendId } from '../types';
+import { detection } from '../testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * What `source` saw in the frame
+ */
+const seen = (source: DetectionBackendId, detectedClass: string, score: number, bbox: BoundingBox | null) =>
+  detection(detectedClass, score, { source, bbox });
+
+const BOTTLE_BOX: BoundingBox = [100, 40, 60, 180];
+const NUDGED_BOTTLE_BOX: BoundingBox = [104, 42, 60, 176];
+const PHONE_BOX: BoundingBox = [300, 120, 50, 90];
+
+const closeTo = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${actual} to be ${expected}`);
+
+/**
+ * A backend answering every frame with `detections`, or failing with `error`
+ */
+const fakeBackend = (
+  id: DetectionBackendId,
+  result: { detections?: Detection[]; error?: Error; ready?: boolean }
+): DetectionBackend => ({
+  id,
+  label: id,
+  capabilities: { onDevice: true, boundingBoxes: true, labels: 'coco', skus: false, requiresCredentials: false },
+  init: async () => result.ready ?? true,
+  detect: async (_image, minScore) => {
+    if (result.error) throw result.error;
+    return (result.detections ?? []).filter(entry => entry.score >= minScore);
+  },
+  dispose: async () => {}
+});
+
+// Fake backends never look at the frame
+const FRAME = {} as DetectionImage;
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+describe('iou', () => {
+  it('is the overlap over the union of two boxes', () => {
+    closeTo(iou([0, 0, 10, 20], [1, 0, 10, 20]), 180 / 220);
+    assert.equal(iou([0, 0, 10, 10], [10, 0, 10, 10]), 0);
+  });
+});
+
+describe('fuseDetections clustering', () => {
+  it('fuses overlapping boxes of one class from different backends into one box averaged by score', () => {
+    const [fused, ...rest] = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.8, [0, 0, 10, 20])],
+      [seen('hugging-face', 'bottle', 0.6, [1, 0, 10, 20])]
+    ]);
+
+    assert.deepEqual(rest, []);
+    assert.equal(fused.source, 'ensemble');
+    assert.deepEqual(fused.agreedBy, ['coco-ssd', 'hugging-face']);
+    const [x, y, width, height] = fused.bbox!;
+    closeTo(x, 0.6 / 1.4);
+    closeTo(y, 0);
+    closeTo(width, 10);
+    closeTo(height, 20);
+  });
+
+  it('keeps boxes apart when their classes differ or they overlap too little', () => {
+    const fused = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.8, BOTTLE_BOX)],
+      [seen('hugging-face', 'cup', 0.8, NUDGED_BOTTLE_BOX), seen('hugging-face', 'bottle', 0.7, [140, 40, 60, 180])]
+    ]);
+
+    assert.equal(fused.length, 3);
+    assert.ok(fused.every(entry => entry.agreedBy!.length === 1));
+  });
+
+  it('takes at most one box per backend, so neighbouring objects stay apart', () => {
+    const fused = fuseDetections([[
+      seen('coco-ssd', 'bottle', 0.9, BOTTLE_BOX),
+      seen('coco-ssd', 'bottle', 0.8, NUDGED_BOTTLE_BOX)
+    ]]);
+
+    assert.equal(fused.length, 2);
+  });
+
+  it('fuses free-form labels with their COCO class', () => {
+    const fused = fuseDetections([
+      [seen('coco-ssd', 'cell phone', 0.8, PHONE_BOX)],
+      [seen('google-vision', 'Mobile phone', 0.9, PHONE_BOX)]
+    ]);
+
+    assert.equal(fused.length, 1);
+    assert.equal(fused[0].class, 'cell phone');
+    assert.deepEqual(fused[0].agreedBy, ['google-vision', 'coco-ssd']);
+  });
+
+  it('leaves detections without a box on their own', () => {
+    const fused = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.8, BOTTLE_BOX)],
+      [seen('google-vision', 'bottle', 0.9, null)]
+    ]);
+
+    assert.equal(fused.length, 2);
+    assert.deepEqual(fused.map(entry => entry.bbox), [null, BOTTLE_BOX]);
+  });
+
+  it('names the product the best member that recognised one named', () => {
+    const [fused] = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.9, BOTTLE_BOX)],
+      [detection('bottle', 0.7, { source: 'local-http', bbox: NUDGED_BOTTLE_BOX, sku: 'COLA-330' })]
+    ]);
+
+    assert.equal(fused.sku, 'COLA-330');
+  });
+});
+
+// ============================================================================
+// AGREEMENT SCORING
+// ============================================================================
+
+describe('fuseDetections agreement scoring', () => {
+  it('keeps the mean score of an object every backend saw', () => {
+    const [fused] = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.9, BOTTLE_BOX)],
+      [seen('hugging-face', 'bottle', 0.7, NUDGED_BOTTLE_BOX)]
+    ]);
+
+    closeTo(fused.score, 0.8);
+    assert.equal(fused.backendsAnswered, 2);
+  });
+
+  it('discounts an object only some of the answering backends saw, mildly', () => {
+    const [phone, bottle] = fuseDetections(
+      [[seen('coco-ssd', 'cell phone', 0.9, PHONE_BOX)], [seen('hugging-face', 'bottle', 0.8, BOTTLE_BOX)]],
+      { sources: ['coco-ssd', 'hugging-face', 'google-vision'] }
+    );
+
+    closeTo(phone.score, 0.9 * (1 - AGREEMENT_DISCOUNT * (2 / 3)));
+    closeTo(bottle.score, 0.8 * (1 - AGREEMENT_DISCOUNT * (2 / 3)));
+    assert.equal(phone.backendsAnswered, 3);
+  });
+
+  it('ranks an object more backends agree on above an equally scored one fewer saw', () => {
+    const fused = fuseDetections([
+      [seen('coco-ssd', 'bottle', 0.8, BOTTLE_BOX), seen('coco-ssd', 'cell phone', 0.8, PHONE_BOX)],
+      [seen('hugging-face', 'bottle', 0.8, NUDGED_BOTTLE_BOX)]
+    ]);
+
+    assert.deepEqual(fused.map(entry => [entry.class, entry.agreedBy!.length]), [['bottle', 2], ['cell phone', 1]]);
+  });
+
+  it('weighs backends by trust', () => {
+    const [fused] = fuseDetections(
+      [[seen('coco-ssd', 'bottle', 0.8, BOTTLE_BOX)], [seen('google-vision', 'bottle', 0.5, NUDGED_BOTTLE_BOX)]],
+      { weights: { 'coco-ssd': 2 } }
+    );
+    const [alone] = fuseDetections(
+      [[seen('google-vision', 'bottle', 0.5, BOTTLE_BOX)]],
+      { weights: { 'coco-ssd': 2 }, sources: ['coco-ssd', 'google-vision'] }
+    );
+
+    closeTo(fused.score, (0.8 * 2 + 0.5) / 3);
+    closeTo(alone.score, 0.5 * (1 - AGREEMENT_DISCOUNT * (2 / 3)));
+  });
+});
+
+// ============================================================================
+// ENSEMBLE BACKEND
+// ============================================================================
+
+describe('createEnsembleBackend', () => {
+  it('fuses what the backends that answered found, leaving a failed one out of the vote', async t => {
+    t.mock.method(console, 'warn', () => {});
+    const ensemble = createEnsembleBackend([
+      fakeBackend('coco-ssd', { detections: [seen('coco-ssd', 'bottle', 0.9, BOTTLE_BOX)] }),
+      fakeBackend('hugging-face', { detections: [] }),
+      fakeBackend('google-vision', { error: new Error('quota exceeded') })
+    ]);
+
+    assert.equal(await ensemble.init(), true);
+    const [fused, ...rest] = await ensemble.detect(FRAME, 0.25);
+
+    assert.deepEqual(rest, []);
+    assert.deepEqual(fused.agreedBy, ['coco-ssd']);
+    assert.equal(fused.backendsAnswered, 2);
+    closeTo(fused.score, 0.9 * (1 - AGREEMENT_DISCOUNT / 2));
+  });
+
+  it('applies the minimum score to the discounted score', async () => {
+    const ensemble = createEnsembleBackend([
+      fakeBackend('coco-ssd', { detections: [seen('coco-ssd', 'bottle', 0.52, BOTTLE_BOX)] }),
+      fakeBackend('hugging-face', { detections: [] })
+    ]);
+    await ensemble.init();
+
+    assert.deepEqual(await ensemble.detect(FRAME, 0.5), []);
+    assert.equal((await ensemble.detect(FRAME, 0.4)).length, 1);
+  });
+
+  it('keeps detections scoring exactly the minimum score', async () => {
+    const ensemble = createEnsembleBackend([
+      fakeBackend('coco-ssd', { detections: [seen('coco-ssd', 'bottle', 0.5, BOTTLE_BOX)] })
+    ]);
+    await ensemble.init();
+
+    assert.equal((await ensemble.detect(FRAME, 0.5)).length, 1);
+  });
+
+  it('refuses a backend weight that is not positive', () => {
+    assert.throws(() => createEnsembleBackend([], { weights: { 'coco-ssd': 0 } }), /must be a positive number/);
+    assert.throws(() => fuseDetections([], { weights: { 'hugging-face': -1 } }), /must be a positive number/);
+  });
+
+  it('only runs the backends that initialized', async () => {
+    const ensemble = createEnsembleBackend([
+      fakeBackend('coco-ssd', { detections: [seen('coco-ssd', 'bottle', 0.9, BOTTLE_BOX)] }),
+      fakeBackend('local-http', { ready: false, error: new Error('not configured') })
+    ]);
+    await ensemble.init();
+
+    const [fused] = await ensemble.detect(FRAME, 0.25);
+    assert.equal(fused.backendsAnswered, 1);
+    closeTo(fused.score, 0.9);
+  });
+
+  it('fails when every backend fails, or none initialized', async t => {
+    t.mock.method(console, 'warn', () => {});
+    const failing = createEnsembleBackend([
+      fakeBackend('coco-ssd', { error: new Error('no WebGL') }),
+      fakeBackend('hugging-face', { error: new Error('model missing') })
+    ]);
+    await failing.init();
+    await assert.rejects(failing.detect(FRAME, 0.25), /Every ensemble backend failed/);
+
+    const unready = createEnsembleBackend([fakeBackend('local-http', { ready: false })]);
+    assert.equal(await unready.init(), false);
+    await assert.rejects(unready.detect(FRAME, 0.25), /No ensemble backend initialized/);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Ensemble Detection for ShelfScan AI
+ * Runs several detection backends on the same frame and fuses their
+ * detections with weighted box fusion: boxes of the same class from
+ * different backends that overlap (IoU) become one box, averaged by score,
+ * whose confidence grows with the number of backends that agree. Fusion
+ * works on the normalized `Detection` shape only, so it runs anywhere.
+ */
+
+import { normalizeDetectionClass, type BoundingBox, type Detection, type DetectionBackend } from './detectionBackend';
+import { DetectionBackendId } from '../types';
+
+// ============================================================================
+// BOX FUSION
+// ============================================================================
+
+/**
+ * Boxes overlapping at least this much (IoU) are the same object
+ */
+export const DEFAULT_IOU_THRESHOLD = 0.55;
+
+/**
+ * Share of its score a detection no other backend agrees with loses; one
+ * seen by half of the backends (by weight) loses half as much
+ */
+export const AGREEMENT_DISCOUNT = 0.2;
+
+export interface FusionOptions {
+  iouThreshold?: number;
+  /** Trust in each backend (default 1); a backend weighted 2 counts as two votes */
+  weights?: Partial<Record<DetectionBackendId, number>>;
+  /**
+   * Backends that ran on the frame, which all vote even when they found
+   * nothing (default: those with detections)
+   */
+  sources?: DetectionBackendId[];
+}
+
+/**
+ * Intersection over union of two [x, y, width, height] boxes (0-1)
+ */
+export const iou = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]);
+  const height = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  return intersection / (a[2] * a[3] + b[2] * b[3] - intersection);
+};
+
+interface Cluster {
+  members: Detection[];
+  /** Score-weighted average of the members' boxes; null for a boxless detection */
+  box: BoundingBox | null;
+}
+
+const weightOf = (weights: FusionOptions['weights'], source: DetectionBackendId): number =>
+  weights?.[source] ?? 1;
+
+/**
+ * Throw unless every backend weight is a positive number; a zero weight
+ * would leave a detection only that backend saw with no score
+ */
+const assertPositiveWeights = (weights: FusionOptions['weights']): void => {
+  Object.entries(weights ?? {}).forEach(([source, weight]) => {
+    if (weight === undefined) return;
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`Ensemble weight for ${source} must be a positive number`);
+    }
+  });
+};
+
+/**
+ * Average the members' box corners, each weighted by score × backend weight
+ */
+const fuseBoxes = (members: Detection[], weights: FusionOptions['weights']): BoundingBox => {
+  let total = 0;
+  const corners = [0, 0, 0, 0];
+  members.forEach(member => {
+    const [x, y, width, height] = member.bbox!;
+    const weight = member.score * weightOf(weights, member.source);
+    [x, y, x + width, y + height].forEach((value, i) => { corners[i] += value * weight; });
+    total += weight;
+  });
+  const [left, top, right, bottom] = corners.map(value => value / total);
+  return [left, top, right - left, bottom - top];
+};
+
+/**
+ * Fuse the detections each backend made of one frame. Labels are first
+ * put into the shared vocabulary (see `normalizeDetectionClass`), so
+ * "mobile phone" and "cell phone" can fuse. A fused detection holds at most
+ * one detection per backend (two bottles side by side from one backend stay
+ * two bottles); its confidence is the members' weighted mean score, cut by
+ * up to AGREEMENT_DISCOUNT for the share of the answering backends' weight
+ * that didn't see it. Detections without a box can't be matched and stand
+ * alone. Fused detections come out best first, with `source: 'ensemble'`,
+ * the backends that agreed in `agreedBy` and the number that answered in
+ * `backendsAnswered`. Throws when a backend weight isn't positive.
+ */
+export const fuseDetections = (perBackend: Detection[][], options: FusionOptions = {}): Detection[] => {
+  const { iouThreshold = DEFAULT_IOU_THRESHOLD, weights } = options;
+  assertPositiveWeights(weights);
+  const answered = [...new Set([
+    ...(options.sources ?? []),
+    ...perBackend.flatMap(detections => detections.map(detection => detection.source))
+  ])];
+  const totalWeight = answered.reduce((sum, source) => sum + weightOf(weights, source), 0);
+
+  const ordered = perBackend.flat().map(detection => ({
+    ...detection,
+    class: normalizeDetectionClass(detection.class)
+  })).sort((a, b) =>
+    b.score * weightOf(weights, b.source) - a.score * weightOf(weights, a.source) ||
+    a.class.localeCompare(b.class)
+  );
+
+  const clusters: Cluster[] = [];
+  ordered.forEach(detection => {
+    const cluster = detection.bbox && clusters.find(candidate =>
+      candidate.box !== null &&
+      candidate.members[0].class === detection.class &&
+      !candidate.members.some(member => member.source === detection.source) &&
+      iou(candidate.box, detection.bbox!) >= iouThreshold
+    );
+    if (cluster) {
+      cluster.members.push(detection);
+      cluster.box = fuseBoxes(cluster.members, weights);
+    } else {
+      clusters.push({ members: [detection], box: detection.bbox });
+    }
+  });
+
+  return clusters
+    .map(({ members, box }): Detection => {
+      // Members are best first; the best one that names a product decides the SKU
+      const sku = members.find(member => member.sku)?.sku;
+      const agreeingWeight = members.reduce((sum, member) => sum + weightOf(weights, member.source), 0);
+      const weightedScore = members.reduce((sum, member) => sum + member.score * weightOf(weights, member.source), 0);
+      const agreement = agreeingWeight / totalWeight;
+      return {
+        class: members[0].class,
+        score: (weightedScore / agreeingWeight) * (1 - AGREEMENT_DISCOUNT * (1 - agreement)),
+        bbox: box,
+        ...(sku && { sku }),
+        source: 'ensemble',
+        agreedBy: members.map(member => member.source),
+        backendsAnswered: answered.length
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+// ============================================================================
+// ENSEMBLE BACKEND
+// ============================================================================
+
+/**
+ * A backend running every one of `backends` that initializes on each
+ * frame and fusing what they find. A backend that fails on a frame is left
+ * out of that frame's fusion (and of its vote count). Throws when a
+ * backend weight isn't positive.
+ */
+export const createEnsembleBackend = (
+  backends: DetectionBackend[],
+  options: FusionOptions = {}
+): DetectionBackend => {
+  assertPositiveWeights(options.weights);
+  let ready: DetectionBackend[] = [];
+
+  return {
+    id: 'ensemble',
+    label: `Ensemble (${backends.map(backend => backend.label).join(' + ')})`,
+    capabilities: {
+      onDevice: backends.every(backend => backend.capabilities.onDevice),
+      boundingBoxes: backends.some(backend => backend.capabilities.boundingBoxes),
+      labels: backends.every(backend => backend.capabilities.labels === 'coco') ? 'coco' : 'open',
+      skus: backends.some(backend => backend.capabilities.skus),
+      requiresCredentials: backends.some(backend => backend.capabilities.requiresCredentials)
+    },
+
+    init: async () => {
+      const results = await Promise.all(backends.map(backend => backend.init()));
+      ready = backends.filter((_, index) => results[index]);
+      return ready.length > 0;
+    },
+
+    detect: async (image, minScore) => {
+      if (ready.length === 0) {
+        throw new Error('No ensemble backend initialized');
+      }
+
+      const results = await Promise.allSettled(ready.map(backend => backend.detect(image, minScore)));
+      const answered = results.flatMap((result, index) => {
+        if (result.status === 'fulfilled') return [result.value];
+        console.warn(`${ready[index].label} detection failed; fusing the other backends:`, result.reason);
+        return [];
+      });
+      if (answered.length === 0) {
+        throw new Error('Every ensemble backend failed');
+      }
+
+      // Backends that answered without detections still vote against every box
+      const sources = ready.filter((_, index) => results[index].status === 'fulfilled').map(backend => backend.id);
+      return fuseDetections(answered, { ...options, sources })
+        .filter(detection => detection.score >= minScore);
+    },
+
+    dispose: async () => {
+      await Promise.all(backends.map(backend => backend.dispose()));
+      ready = [];
+    }
+  };
+};
@@ -1,27 +1,17 @@
 /**
- * Google Vision API integration for high-accuracy object detection
- * Much more accurate than browser-based COCO-SSD
+ * Google Vision API integration for high-accuracy object detection, as a
+ * detection backend. Much more accurate than browser-based COCO-SSD, but
+ * frames are sent to Google and labels are free-form ("Mobile phone").
  */
 
-export interface GoogleVisionObject {
-  name: string;
-  score: number;
-  boundingPoly?: {
-    vertices: Array<{ x: number; y: number }>;
-  };
-}
-
-export interface GoogleVisionResult {
-  objects: GoogleVisionObject[];
-  success: boolean;
-  error?: string;
-}
+import { captureFrame, getFrameSize, normalizeDetectionClass, type BoundingBox, type DetectionBackend } from './detectionBackend';
 
 interface GoogleVisionApiObject {
   name: string;
   score: number;
   boundingPoly?: {
-    vertices: Array<{ x: number; y: number }>;
+    vertices?: Array<{ x?: number; y?: number }>;
+    normalizedVertices?: Array<{ x?: number; y?: number }>;
   };
 }
 
@@ -38,24 +28,6 @@ interface TokenResponse {
   access_token: string;
 }
 
-/**
- * Convert video frame to base64 image for API
- */
-export const captureVideoFrame = (videoElement: HTMLVideoElement): string => {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  
-  canvas.width = videoElement.videoWidth;
-  canvas.height = videoElement.videoHeight;
-  
-  if (ctx) {
-    ctx.drawImage(videoElement, 0, 0);
-    return canvas.toDataURL('image/jpeg', 0.8).split(',')[1]; // Remove data:image/jpeg;base64, prefix
-  }
-  
-  throw new Error('Could not capture video frame');
-};
-
 /**
  * Get access token using service account credentials
  */
@@ -108,149 +80,131 @@ const getAccessToken = async (): Promise<string | null> => {
 };
 
 /**
- * Detect objects using Google Vision API
+ * Annotate one base64 JPEG with Google Vision object localization
  */
-export const detectObjectsWithGoogleVision = async (
-  base64Image: string,
-  apiKey?: string
-): Promise<GoogleVisionResult> => {
-  try {
-    let authHeader = '';
-    let url = '';
-
-    // Try service account authentication first
-    const accessToken = await getAccessToken();
-    if (accessToken) {
-      authHeader = `Bearer ${accessToken}`;
-      url = 'https://vision.googleapis.com/v1/images:annotate';
-    } else if (apiKey) {
-      // Fallback to API key
-      url = `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`;
-    } else {
-      throw new Error('No authentication method available');
-    }
+const annotateImage = async (base64Image: string, apiKey?: string): Promise<GoogleVisionApiObject[]> => {
+  let authHeader = '';
+  let url = '';
+
+  // Try service account authentication first
+  const accessToken = await getAccessToken();
+  if (accessToken) {
+    authHeader = `Bearer ${accessToken}`;
+    url = 'https://vision.googleapis.com/v1/images:annotate';
+  } else if (apiKey) {
+    // Fallback to API key
+    url = `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`;
+  } else {
+    throw new Error('No authentication method available');
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (authHeader) {
-      headers['Authorization'] = authHeader;
-    }
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (authHeader) {
+    headers['Authorization'] = authHeader;
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        requests: [
-          {
-            image: {
-              content: base64Image,
-            },
-            features: [
-              {
-                type: 'OBJECT_LOCALIZATION',
-                maxResults: 20,
-              },
-            ],
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      requests: [
+        {
+          image: {
+            content: base64Image,
           },
-        ],
-      }),
+          features: [
+            {
+              type: 'OBJECT_LOCALIZATION',
+              maxResults: 20,
+            },
+          ],
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Google Vision API Response:', {
+      status: response.status,
+      statusText: response.statusText,
+      body: errorText
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Google Vision API Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText
-      });
-      
-      if (response.status === 403) {
-        throw new Error(`Google Vision API access denied (403). Please enable the Cloud Vision API in your Google Cloud project.`);
-      }
-      
-      throw new Error(`Google Vision API error: ${response.status} - ${response.statusText}`);
+    if (response.status === 403) {
+      throw new Error(`Google Vision API access denied (403). Please enable the Cloud Vision API in your Google Cloud project.`);
     }
 
-    const data: GoogleVisionApiResponse = await response.json();
-    
-    if (data.responses?.[0]?.error) {
-      throw new Error(data.responses[0].error.message);
-    }
+    throw new Error(`Google Vision API error: ${response.status} - ${response.statusText}`);
+  }
 
-    const objects = data.responses?.[0]?.localizedObjectAnnotations || [];
-    
-    return {
-      success: true,
-      objects: objects.map((obj: GoogleVisionApiObject) => ({
-        name: obj.name.toLowerCase(),
-        score: obj.score,
-        boundingPoly: obj.boundingPoly,
-      })),
-    };
-  } catch (error) {
-    console.error('❌ Google Vision API error details:', {
-      error: error,
-      message: error instanceof Error ? error.message : 'Unknown error',
-      apiKey: apiKey ? `${apiKey.substring(0, 10)}...` : 'Not provided'
-    });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      objects: [],
-    };
+  const data: GoogleVisionApiResponse = await response.json();
+
+  if (data.responses?.[0]?.error) {
+    throw new Error(data.responses[0].error.message);
   }
+
+  return data.responses?.[0]?.localizedObjectAnnotations || [];
 };
 
 /**
- * Enhanced object detection that tries Google Vision first, falls back to COCO-SSD
+ * Box around a bounding polygon, in frame pixels (object localization
+ * returns normalized vertices; omitted coordinates are 0)
  */
-export const detectObjectsEnhanced = async (
-  videoElement: HTMLVideoElement,
-  apiKey?: string
-): Promise<{
-  objects: Array<{ class: string; score: number; bbox?: number[] }>;
-  source: 'google-vision' | 'coco-ssd';
-  success: boolean;
-  error?: string;
-}> => {
-  // Try Google Vision API first if API key is provided
-  if (apiKey) {
-    try {
-      const base64Image = captureVideoFrame(videoElement);
-      const visionResult = await detectObjectsWithGoogleVision(base64Image, apiKey);
-      
-      if (visionResult.success && visionResult.objects.length > 0) {
-        return {
-          objects: visionResult.objects.map(obj => ({
-            class: obj.name,
-            score: obj.score,
-          })),
-          source: 'google-vision',
-          success: true,
-        };
-      }
-    } catch (error) {
-      console.warn('Google Vision failed, falling back to COCO-SSD:', error);
+const toBoundingBox = (
+  poly: GoogleVisionApiObject['boundingPoly'],
+  frame: { width: number; height: number }
+): BoundingBox | null => {
+  const points = poly?.normalizedVertices?.length
+    ? poly.normalizedVertices.map(({ x = 0, y = 0 }) => ({ x: x * frame.width, y: y * frame.height }))
+    : (poly?.vertices ?? []).map(({ x = 0, y = 0 }) => ({ x, y }));
+  if (points.length === 0) return null;
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const [left, top] = [Math.min(...xs), Math.min(...ys)];
+  return [left, top, Math.max(...xs) - left, Math.max(...ys) - top];
+};
+
+// ============================================================================
+// GOOGLE VISION BACKEND
+// ============================================================================
+
+const getApiKey = (): string | undefined => process.env.NEXT_PUBLIC_GOOGLE_VISION_API_KEY || undefined;
+
+export const googleVisionBackend: DetectionBackend = {
+  id: 'google-vision',
+  label: 'Google Vision',
+  capabilities: { onDevice: false, boundingBoxes: true, labels: 'open', skus: false, requiresCredentials: true },
+
+  // Nothing to load; usable once credentials are configured
+  init: async () => {
+    const hasServiceAccount = Boolean(
+      process.env.GOOGLE_CLOUD_PROJECT_ID && process.env.GOOGLE_CLOUD_CLIENT_EMAIL && process.env.GOOGLE_CLOUD_PRIVATE_KEY
+    );
+    if (!hasServiceAccount && !getApiKey()) {
+      console.log('Google Vision credentials not found');
+      return false;
     }
-  }
+    return true;
+  },
+
+  detect: async (image, minScore) => {
+    const frame = getFrameSize(image);
+    const base64Image = captureFrame(image).toDataURL('image/jpeg', 0.8).split(',')[1]; // Remove data:image/jpeg;base64, prefix
+    const objects = await annotateImage(base64Image, getApiKey());
+
+    return objects
+      .filter(obj => obj.score >= minScore)
+      .map(obj => ({
+        class: normalizeDetectionClass(obj.name),
+        score: obj.score,
+        bbox: toBoundingBox(obj.boundingPoly, frame),
+        source: 'google-vision' as const
+      }));
+  },
 
-  // Fallback to COCO-SSD (existing implementation)
-  try {
-    const { detectObjects } = await import('./objectDetection');
-    const cocoResult = await detectObjects(videoElement);
-    
-    return {
-      objects: cocoResult,
-      source: 'coco-ssd',
-      success: true,
-    };
-  } catch (error) {
-    return {
-      objects: [],
-      source: 'coco-ssd',
-      success: false,
-      error: error instanceof Error ? error.message : 'Detection failed',
-    };
-  }
-}; 
\ No newline at end of file
+  dispose: async () => {}
+};
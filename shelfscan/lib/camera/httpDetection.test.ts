@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseHttpDetectionResponse, readHttpDetections } from './httpDetection';
+import { DEMO_DETECTIONS, createStubResponse } from './detectionStub';
+import { detection } from '../testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * What the stub answers a 640x480 frame with, as the backend receives it
+ */
+const stubBody = (minScore = 0) => JSON.parse(JSON.stringify(createStubResponse(640, 480, minScore)));
+
+const withDetection = (entry: unknown) => ({ detections: [{ class: 'bottle', score: 0.9 }, entry] });
+
+// ============================================================================
+// RESPONSE PARSING
+// ============================================================================
+
+describe('parseHttpDetectionResponse', () => {
+  it('accepts every stub response, with the built-in boxes scaled to the frame', () => {
+    const detections = parseHttpDetectionResponse(stubBody());
+
+    assert.equal(detections.length, DEMO_DETECTIONS.length);
+    assert.deepEqual(detections[0], {
+      class: 'bottle',
+      score: 0.93,
+      box: { x: 32, y: 96, width: 77, height: 216 },
+      sku: 'RED-BULL-ENERGY'
+    });
+    assert.deepEqual(detections[4], { class: 'person', score: 0.66 });
+  });
+
+  it('accepts a stub response to fixture detections as they are', () => {
+    const canned = [{ class: 'Mobile phone', score: 0.5, box: { x: 1, y: 2, width: 3, height: 4 } }];
+
+    assert.deepEqual(parseHttpDetectionResponse(createStubResponse(640, 480, 0, canned)), canned);
+  });
+
+  it('accepts an empty response', () => {
+    assert.deepEqual(parseHttpDetectionResponse({ detections: [] }), []);
+  });
+
+  it('drops fields outside the contract', () => {
+    const body = { detections: [{ class: 'cup', score: 0.4, label: 'mug', box: { x: 0, y: 0, width: 1, height: 1 } }], model: 'yolov8' };
+
+    assert.deepEqual(parseHttpDetectionResponse(body), [{ class: 'cup', score: 0.4, box: { x: 0, y: 0, width: 1, height: 1 } }]);
+  });
+
+  it('rejects a body without a detections array', () => {
+    const message = 'Detection server response must be an object with a `detections` array';
+    for (const body of [null, 'bottle', [], {}, { detections: {} }]) {
+      assert.throws(() => parseHttpDetectionResponse(body), { message });
+    }
+  });
+
+  it('names the first malformed detection and what is wrong with it', () => {
+    const cases: [unknown, string][] = [
+      ['bottle', 'detections[1] must be an object'],
+      [{ score: 0.5 }, 'detections[1].class must be a non-empty string'],
+      [{ class: '  ', score: 0.5 }, 'detections[1].class must be a non-empty string'],
+      [{ class: 'cup' }, 'detections[1].score must be between 0 and 1'],
+      [{ class: 'cup', score: 1.2 }, 'detections[1].score must be between 0 and 1'],
+      [{ class: 'cup', score: '0.5' }, 'detections[1].score must be between 0 and 1'],
+      [{ class: 'cup', score: 0.5, box: [0, 0, 1, 1] }, 'detections[1].box must have numeric x, y, width and height'],
+      [{ class: 'cup', score: 0.5, box: { x: 0, y: 0, width: 1 } }, 'detections[1].box must have numeric x, y, width and height'],
+      [{ class: 'cup', score: 0.5, sku: 42 }, 'detections[1].sku must be a string']
+    ];
+    for (const [entry, message] of cases) {
+      assert.throws(() => parseHttpDetectionResponse(withDetection(entry)), { message });
+    }
+  });
+
+  it('rejects a score that is not a number once serialized', () => {
+    // NaN is sent as null
+    const body = JSON.parse(JSON.stringify(withDetection({ class: 'cup', score: NaN })));
+
+    assert.throws(() => parseHttpDetectionResponse(body), { message: 'detections[1].score must be between 0 and 1' });
+  });
+});
+
+// ============================================================================
+// BACKEND DETECTIONS
+// ============================================================================
+
+describe('readHttpDetections', () => {
+  it('turns a stub response into detections with pixel bounding boxes', () => {
+    const detections = readHttpDetections(stubBody(), 0);
+
+    assert.deepEqual(detections[0], detection('bottle', 0.93, {
+      bbox: [32, 96, 77, 216],
+      sku: 'RED-BULL-ENERGY',
+      source: 'local-http'
+    }));
+    assert.deepEqual(detections[4], detection('person', 0.66, { source: 'local-http' }));
+  });
+
+  it('keeps detections scoring at least the minimum, as the stub does', () => {
+    const scores = readHttpDetections(stubBody(), 0.81).map(entry => entry.score);
+
+    assert.deepEqual(scores, [0.93, 0.88, 0.81]);
+    assert.deepEqual(readHttpDetections(stubBody(0.81), 0.81).map(entry => entry.score), scores);
+  });
+
+  it('puts labels into the shared vocabulary', () => {
+    const body = { detections: [{ class: ' Mobile Phone', score: 0.6 }, { class: 'Bottle', score: 0.6 }] };
+
+    assert.deepEqual(readHttpDetections(body, 0).map(entry => entry.class), ['cell phone', 'bottle']);
+  });
+
+  it('throws when the body breaks the contract', () => {
+    assert.throws(() => readHttpDetections(withDetection({ class: 'cup', score: -0.1 }), 0), {
+      message: 'detections[1].score must be between 0 and 1'
+    });
+  });
+});
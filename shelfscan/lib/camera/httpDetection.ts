@@ -0,0 +1,160 @@
+/**
+ * Local HTTP Detection Backend for ShelfScan AI
+ * Posts each frame to a detection server the store runs itself (e.g. the
+ * YOLOv8 model its drones use), so any model can back the camera without
+ * shipping it to the browser. The server must allow the dashboard's
+ * origin (CORS) and speak this JSON contract:
+ *
+ *   POST <endpoint>
+ *   { "image": "<base64 JPEG>", "width": 640, "height": 480, "minScore": 0.25 }
+ *
+ *   200 OK
+ *   { "detections": [
+ *       { "class": "bottle", "score": 0.91,
+ *         "box": { "x": 12, "y": 40, "width": 60, "height": 180 },
+ *         "sku": "COCA-COLA-330ML" }
+ *   ] }
+ *
+ * `box` is in frame pixels from the top-left corner; `box` and `sku` may be
+ * omitted. `scripts/detection-stub.ts` serves the canned detections in
+ * `detectionStub.ts` this way.
+ */
+
+import { captureFrame, getFrameSize, normalizeDetectionClass, type Detection, type DetectionBackend } from './detectionBackend';
+
+// ============================================================================
+// CONTRACT
+// ============================================================================
+
+/**
+ * Body posted to the detection server
+ */
+export interface HttpDetectionRequest {
+  /** The frame as a base64 JPEG, without a `data:` prefix */
+  image: string;
+  width: number;
+  height: number;
+  /** The server may drop detections scoring below this */
+  minScore: number;
+}
+
+/**
+ * One detection in the server's response
+ */
+export interface HttpDetection {
+  class: string;
+  score: number;
+  box?: { x: number; y: number; width: number; height: number };
+  sku?: string;
+}
+
+export interface HttpDetectionResponse {
+  detections: HttpDetection[];
+}
+
+/**
+ * Give up on the server after this long, so the camera falls back
+ */
+const REQUEST_TIMEOUT_MS = 5000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a response body against the contract; the first problem found is thrown
+ */
+export const parseHttpDetectionResponse = (body: unknown): HttpDetection[] => {
+  if (!isRecord(body) || !Array.isArray(body.detections)) {
+    throw new Error('Detection server response must be an object with a `detections` array');
+  }
+
+  return body.detections.map((entry: unknown, index): HttpDetection => {
+    const where = `detections[${index}]`;
+    if (!isRecord(entry)) throw new Error(`${where} must be an object`);
+    if (typeof entry.class !== 'string' || entry.class.trim() === '') {
+      throw new Error(`${where}.class must be a non-empty string`);
+    }
+    if (!isFiniteNumber(entry.score) || entry.score < 0 || entry.score > 1) {
+      throw new Error(`${where}.score must be between 0 and 1`);
+    }
+    const { box, sku } = entry;
+    if (box !== undefined &&
+      !(isRecord(box) && [box.x, box.y, box.width, box.height].every(isFiniteNumber))) {
+      throw new Error(`${where}.box must have numeric x, y, width and height`);
+    }
+    if (sku !== undefined && typeof sku !== 'string') {
+      throw new Error(`${where}.sku must be a string`);
+    }
+    return {
+      class: entry.class,
+      score: entry.score,
+      ...(box !== undefined && { box: box as HttpDetection['box'] }),
+      ...(sku !== undefined && { sku })
+    };
+  });
+};
+
+/**
+ * The detections scoring at least `minScore` in a response body, with
+ * labels in the shared vocabulary; throws when the body breaks the contract
+ */
+export const readHttpDetections = (body: unknown, minScore: number): Detection[] =>
+  parseHttpDetectionResponse(body)
+    .filter(detection => detection.score >= minScore)
+    .map((detection): Detection => ({
+      class: normalizeDetectionClass(detection.class),
+      score: detection.score,
+      bbox: detection.box ? [detection.box.x, detection.box.y, detection.box.width, detection.box.height] : null,
+      ...(detection.sku && { sku: detection.sku }),
+      source: 'local-http'
+    }));
+
+// ============================================================================
+// LOCAL HTTP BACKEND
+// ============================================================================
+
+/**
+ * A backend posting frames to the detection server at `endpoint` (from
+ * the store's detection settings)
+ */
+export const createHttpDetectionBackend = (endpoint: string): DetectionBackend => ({
+  id: 'local-http',
+  label: 'Local model server',
+  capabilities: { onDevice: false, boundingBoxes: true, labels: 'open', skus: true, requiresCredentials: false },
+
+  // Nothing to load; usable once an endpoint is configured
+  init: async () => {
+    if (!/^https?:\/\/\S+$/.test(endpoint)) {
+      console.log('Local detection server URL not configured');
+      return false;
+    }
+    return true;
+  },
+
+  detect: async (image, minScore) => {
+    const { width, height } = getFrameSize(image);
+    const request: HttpDetectionRequest = {
+      image: captureFrame(image).toDataURL('image/jpeg', 0.8).split(',')[1],
+      width,
+      height,
+      minScore
+    };
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Detection server error: ${response.status} - ${response.statusText}`);
+    }
+
+    return readHttpDetections(await response.json(), minScore);
+  },
+
+  dispose: async () => {}
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildClassSkuMap, reconcileDetections } from './reconciliation';
+import { at, detection, product, shelf } from '../testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const MUG = product('MUG', 'Coffee Mug', 2, 4);
+const CHARGER = product('CHARGER', 'Phone Charger', 2, 3);
+const TOOTHBRUSH = product('TOOTHBRUSH', 'Oral-B Toothbrush', 2, 5);
+const CARDS = product('CARDS', 'Greeting Cards', 2, 7);
+const WATER = product('WATER-1L', 'Spring Water 1L', 2, 6);
+const JUICE = product('OJ-1L', 'Orange Juice 1L', 2, 8);
+
+/**
+ * Cups, phones and toothbrushes each stand for one product; bottles stand
+ * for the water and the juice, and nothing stands for the cards
+ */
+const SHELF = shelf('A1', { items: [MUG, CHARGER, TOOTHBRUSH, CARDS, WATER, JUICE] });
+
+const statuses = (result: ReturnType<typeof reconcileDetections>) =>
+  Object.fromEntries(result.products.map(item => [item.sku, [item.status, item.count]]));
+
+// ============================================================================
+// CLASS-TO-SKU MAPPING
+// ============================================================================
+
+describe('buildClassSkuMap', () => {
+  it('maps each class to the products it matches by name', () => {
+    assert.deepEqual(buildClassSkuMap(SHELF.items, ['cup', 'bottle', 'person', 'cup']), {
+      'cup': ['MUG'],
+      'bottle': ['WATER-1L', 'OJ-1L'],
+      'person': []
+    });
+  });
+});
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+describe('reconcileDetections', () => {
+  it('counts each product the frame shows by the detections standing for it', () => {
+    const cups = [detection('cup', 0.9), detection('cup', 0.8)];
+    const result = reconcileDetections(SHELF, [...cups, detection('cell phone', 0.7)]);
+    const mug = result.products.find(item => item.sku === 'MUG')!;
+
+    assert.equal(mug.status, 'seen');
+    assert.equal(mug.count, 2);
+    assert.equal(mug.previousCount, 4);
+    assert.deepEqual(mug.detections, cups);
+    assert.deepEqual(statuses(result).CHARGER, ['seen', 1]);
+  });
+
+  it('proposes zero for a product the detector would recognise but did not see', () => {
+    const result = reconcileDetections(SHELF, [detection('cup', 0.9)]);
+
+    assert.deepEqual(statuses(result).TOOTHBRUSH, ['not-seen', 0]);
+    assert.deepEqual(statuses(result).CHARGER, ['not-seen', 0]);
+    assert.equal(result.products.find(item => item.sku === 'TOOTHBRUSH')!.previousCount, 5);
+  });
+
+  it('leaves the count of a product it cannot tell apart as it is', () => {
+    const result = reconcileDetections(SHELF, [detection('cup', 0.9)]);
+
+    // Nothing stands for the cards, and every class the water matches the juice does too
+    assert.deepEqual(statuses(result).CARDS, ['unknown', 7]);
+    assert.deepEqual(statuses(result)['WATER-1L'], ['unknown', 6]);
+    // Oranges stand for the juice alone
+    assert.deepEqual(statuses(result)['OJ-1L'], ['not-seen', 0]);
+  });
+
+  it('sets aside detections that could be several products, and ones that are none', () => {
+    const bottle = detection('bottle', 0.9);
+    const person = detection('person', 0.8);
+    const result = reconcileDetections(SHELF, [bottle, person]);
+
+    assert.deepEqual(result.ambiguous, [bottle]);
+    assert.deepEqual(result.unmatched, [person]);
+    assert.deepEqual(statuses(result)['WATER-1L'], ['unknown', 6]);
+    assert.deepEqual(result.products.map(item => item.sku), SHELF.items.map(item => item.sku));
+  });
+
+  it('counts a detection the backend named a SKU for as that product only', () => {
+    const named = detection('bottle', 0.9, { sku: 'WATER-1L' });
+    const elsewhere = detection('bottle', 0.9, { sku: 'SHAMPOO' });
+    const result = reconcileDetections(SHELF, [named, elsewhere]);
+
+    assert.deepEqual(statuses(result)['WATER-1L'], ['seen', 1]);
+    assert.deepEqual(result.unmatched, [elsewhere]);
+    assert.deepEqual(result.ambiguous, []);
+  });
+
+  it('matches only through a given class mapping', () => {
+    const result = reconcileDetections(SHELF, [detection('bottle', 0.9), detection('cup', 0.9)], {
+      classToSku: { 'bottle': ['WATER-1L'], 'toothbrush': ['TOOTHBRUSH'] }
+    });
+
+    assert.deepEqual(statuses(result)['WATER-1L'], ['seen', 1]);
+    assert.deepEqual(statuses(result).TOOTHBRUSH, ['not-seen', 0]);
+    assert.deepEqual(statuses(result).MUG, ['unknown', 4]);
+    assert.deepEqual(result.unmatched.map(entry => entry.class), ['cup']);
+  });
+
+  it('proposes a scan of the shelf with the reconciled counts', () => {
+    const result = reconcileDetections(SHELF, [detection('cup', 0.9)], { timestamp: at(2) });
+
+    assert.deepEqual(result.update, {
+      shelf: 'A1',
+      items: [
+        { ...MUG, count: 1 },
+        { ...CHARGER, count: 0 },
+        { ...TOOTHBRUSH, count: 0 },
+        CARDS,
+        WATER,
+        { ...JUICE, count: 0 }
+      ],
+      timestamp: at(2)
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Detection Reconciliation for ShelfScan AI
+ * Turns the objects detected in a camera frame into per-product counts for
+ * the shelf it shows, and the `ScanUpdate` that would record them. Each
+ * product is reported as seen (counted), not seen (the detector knows what
+ * it looks like but found none: proposed count 0) or unknown (the detector
+ * can't tell it apart: count left as it is). Detections that match no
+ * product on the shelf are listed, never added as products. Staff review
+ * the update before it is submitted.
+ */
+
+import type { Detection } from './detectionBackend';
+import { DETECTION_CLASS_KEYWORDS, matchesDetectionClass } from './shelfMapping';
+import { Product, ScanUpdate, Shelf } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProductDetectionStatus = 'seen' | 'not-seen' | 'unknown';
+
+export interface ReconciledProduct extends Product {
+  /** Count on the shelf before this frame */
+  previousCount: number;
+  status: ProductDetectionStatus;
+  /** Detections counted as this product */
+  detections: Detection[];
+}
+
+export interface DetectionReconciliation {
+  shelfId: string;
+  /** The shelf's products in shelf order, with their proposed counts */
+  products: ReconciledProduct[];
+  /** Detections of classes no product on the shelf maps to */
+  unmatched: Detection[];
+  /** Detections whose class maps to several of the shelf's products, so none is counted */
+  ambiguous: Detection[];
+  /** Scan of the shelf with the proposed counts, ready to submit */
+  update: ScanUpdate;
+}
+
+/**
+ * Detector class → the SKUs on a shelf it can stand for
+ */
+export type ClassSkuMap = Record<string, string[]>;
+
+// ============================================================================
+// CLASS-TO-SKU MAPPING
+// ============================================================================
+
+/**
+ * Map each class to the shelf products it matches by name (see
+ * `matchesDetectionClass`); classes matching nothing map to no SKUs
+ */
+export const buildClassSkuMap = (
+  items: Pick<Product, 'sku' | 'product'>[],
+  classes: string[]
+): ClassSkuMap =>
+  Object.fromEntries([...new Set(classes)].map(detectedClass => [
+    detectedClass,
+    items.filter(item => matchesDetectionClass(item.product, detectedClass)).map(item => item.sku)
+  ]));
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Reconcile a frame's detections against the shelf it shows. A detection
+ * the backend named a SKU for counts as that product (or is unmatched when
+ * the shelf doesn't stock it); others go through the class mapping.
+ * `classToSku` replaces the name-based mapping (classes it leaves out match
+ * nothing); a product counts as recognisable when any class in the
+ * mapping, the frame or `DETECTION_CLASS_KEYWORDS` maps to it alone.
+ */
+export const reconcileDetections = (
+  shelf: Pick<Shelf, 'id' | 'items'>,
+  detections: Detection[],
+  options: { classToSku?: ClassSkuMap; timestamp?: string } = {}
+): DetectionReconciliation => {
+  const classes = [...Object.keys(DETECTION_CLASS_KEYWORDS), ...detections.map(detection => detection.class)];
+  const classToSku = options.classToSku ?? buildClassSkuMap(shelf.items, classes);
+  const skusFor = (detectedClass: string): string[] =>
+    (classToSku[detectedClass] ?? []).filter(sku => shelf.items.some(item => item.sku === sku));
+
+  const counted = new Map<string, Detection[]>();
+  const unmatched: Detection[] = [];
+  const ambiguous: Detection[] = [];
+  detections.forEach(detection => {
+    const skus = detection.sku
+      ? shelf.items.filter(item => item.sku === detection.sku).map(item => item.sku)
+      : skusFor(detection.class);
+    if (skus.length === 0) {
+      unmatched.push(detection);
+    } else if (skus.length > 1) {
+      ambiguous.push(detection);
+    } else {
+      counted.set(skus[0], [...(counted.get(skus[0]) ?? []), detection]);
+    }
+  });
+
+  // A product another product shares every class with can't be counted
+  const recognisable = new Set(
+    Object.keys(classToSku).map(skusFor).filter(skus => skus.length === 1).map(([sku]) => sku)
+  );
+
+  const products = shelf.items.map((item): ReconciledProduct => {
+    const seen = counted.get(item.sku) ?? [];
+    const status: ProductDetectionStatus = seen.length > 0
+      ? 'seen'
+      : recognisable.has(item.sku) ? 'not-seen' : 'unknown';
+    return {
+      ...item,
+      count: status === 'unknown' ? item.count : seen.length,
+      previousCount: item.count,
+      status,
+      detections: seen
+    };
+  });
+
+  return {
+    shelfId: shelf.id,
+    products,
+    unmatched,
+    ambiguous,
+    update: {
+      shelf: shelf.id,
+      items: products.map(({ sku, product, count, threshold }) => ({ sku, product, count, threshold })),
+      timestamp: options.timestamp ?? new Date().toISOString()
+    }
+  };
+};
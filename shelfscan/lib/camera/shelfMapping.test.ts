@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapObjectsToShelf, matchesDetectionClass, MappableShelf, rankShelfCandidates } from './shelfMapping';
+import { at, detection } from '../testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const TIMESTAMP = at(10);
+
+const SHELVES: MappableShelf[] = [
+  {
+    id: 'A1',
+    items: [
+      { sku: 'COLA-330', product: 'Coca-Cola 330ml' },
+      { sku: 'WATER-1L', product: 'Spring Water 1L' },
+      { sku: 'TOOTHBRUSH', product: 'Oral-B Toothbrush' }
+    ]
+  },
+  {
+    id: 'B2',
+    items: [
+      { sku: 'OJ-1L', product: 'Orange Juice 1L' },
+      { sku: 'MUG', product: 'Coffee Mug' }
+    ]
+  },
+  {
+    id: 'C3',
+    items: [
+      { sku: 'SHAMPOO', product: 'Shampoo 400ml' },
+      { sku: 'CONDITIONER', product: 'Conditioner 400ml' }
+    ]
+  },
+  { id: 'D4', items: [] }
+];
+
+/** Two bottles and a toothbrush: only A1 stocks all three */
+const DRINKS_AND_TOOTHBRUSH = [detection('bottle', 0.9), detection('bottle', 0.85), detection('toothbrush', 0.8)];
+
+/** Two bottles: A1 and C3 both explain them about equally well */
+const TWO_BOTTLES = [detection('bottle', 0.9), detection('bottle', 0.85)];
+
+// ============================================================================
+// CLASS MATCHING
+// ============================================================================
+
+describe('matchesDetectionClass', () => {
+  it('matches the class or one of its keywords as a word in the product name', () => {
+    assert.equal(matchesDetectionClass('Coca-Cola 330ml', 'bottle'), true);
+    assert.equal(matchesDetectionClass('Phone Charger', 'cell phone'), true);
+    assert.equal(matchesDetectionClass('Oral-B Toothbrushes', 'toothbrush'), true);
+  });
+
+  it('does not match inside another word', () => {
+    assert.equal(matchesDetectionClass('Cupcakes 4-pack', 'cup'), false);
+    assert.equal(matchesDetectionClass('Coffee Mug', 'bottle'), false);
+  });
+});
+
+// ============================================================================
+// SHELF MAPPING
+// ============================================================================
+
+describe('mapObjectsToShelf', () => {
+  it('maps a frame to the shelf stocking the most of what it shows', () => {
+    const result = mapObjectsToShelf(DRINKS_AND_TOOTHBRUSH, SHELVES, 0.6, TIMESTAMP);
+
+    assert.equal(result.status, 'mapped');
+    assert.equal(result.mappedShelf, 'A1');
+    assert.deepEqual(result.candidates.map(candidate => candidate.shelfId), ['A1', 'C3', 'B2']);
+    assert.deepEqual(result.candidates[0].matches.map(match => match.sku), ['COLA-330', 'WATER-1L', 'TOOTHBRUSH']);
+    assert.equal(result.candidates[0].coverage, 1);
+    assert.equal(result.confidence, result.candidates[0].confidence);
+    assert.equal(result.timestamp, TIMESTAMP);
+  });
+
+  it('maps the same frame the same way whatever order objects and shelves arrive in', () => {
+    const expected = mapObjectsToShelf(DRINKS_AND_TOOTHBRUSH, SHELVES, 0.6, TIMESTAMP);
+    const reordered = mapObjectsToShelf(
+      [...DRINKS_AND_TOOTHBRUSH].reverse(),
+      [...SHELVES].reverse(),
+      0.6,
+      TIMESTAMP
+    );
+
+    assert.deepEqual(reordered.candidates, expected.candidates);
+    assert.equal(reordered.mappedShelf, expected.mappedShelf);
+  });
+
+  it('calls the frame ambiguous rather than guessing between close candidates', () => {
+    const result = mapObjectsToShelf(TWO_BOTTLES, SHELVES, 0.6, TIMESTAMP);
+
+    assert.equal(result.status, 'ambiguous');
+    assert.equal(result.mappedShelf, null);
+    assert.deepEqual(result.candidates.slice(0, 2).map(candidate => candidate.shelfId), ['C3', 'A1']);
+  });
+
+  it('breaks ties between identical shelves by shelf ID', () => {
+    const twins: MappableShelf[] = ['E9', 'E5'].map(id => ({ id, items: [{ sku: 'CHARGER', product: 'Phone Charger' }] }));
+    const candidates = rankShelfCandidates([detection('cell phone', 0.9)], twins);
+
+    assert.deepEqual(candidates.map(candidate => candidate.shelfId), ['E5', 'E9']);
+    assert.equal(candidates[0].confidence, candidates[1].confidence);
+  });
+
+  it('matches an object the backend named a SKU for to that product only', () => {
+    const result = mapObjectsToShelf(
+      [detection('bottle', 0.95, { sku: 'CONDITIONER' }), detection('bottle', 0.9, { sku: 'SHAMPOO' })],
+      SHELVES,
+      0.6,
+      TIMESTAMP
+    );
+
+    assert.equal(result.mappedShelf, 'C3');
+    assert.deepEqual(result.candidates.map(candidate => candidate.shelfId), ['C3']);
+  });
+
+  it('reports a frame whose objects match no slotted product as unmatched', () => {
+    const result = mapObjectsToShelf([detection('person', 0.95), detection('chair', 0.8)], SHELVES, 0.6, TIMESTAMP);
+
+    assert.equal(result.status, 'unmatched');
+    assert.equal(result.mappedShelf, null);
+    assert.equal(result.confidence, 0);
+    assert.deepEqual(result.candidates, []);
+    assert.equal(result.detectedObjects.length, 2);
+  });
+});
+
+// ============================================================================
+// CONFIDENCE CUTOFF
+// ============================================================================
+
+describe('mapObjectsToShelf confidence cutoff', () => {
+  it('drops objects scoring at or below the minimum confidence before mapping', () => {
+    const objects = [detection('bottle', 0.9), detection('toothbrush', 0.6), detection('bottle', 0.4)];
+    const result = mapObjectsToShelf(objects, SHELVES, 0.6, TIMESTAMP);
+
+    assert.deepEqual(result.detectedObjects, [objects[0]]);
+    assert.ok(result.candidates.every(candidate => candidate.matches.length === 1));
+    assert.ok(result.candidates.every(candidate => candidate.matches[0].detectedClass === 'bottle'));
+  });
+
+  it('is unmatched when nothing clears the cutoff', () => {
+    const result = mapObjectsToShelf(DRINKS_AND_TOOTHBRUSH, SHELVES, 0.95, TIMESTAMP);
+
+    assert.equal(result.status, 'unmatched');
+    assert.deepEqual(result.detectedObjects, []);
+    assert.equal(result.confidence, 0);
+  });
+
+  it('decides the shelf by whether an object clears the cutoff', () => {
+    // The 0.8 toothbrush is what tells A1 from C3
+    assert.equal(mapObjectsToShelf(DRINKS_AND_TOOTHBRUSH, SHELVES, 0.79, TIMESTAMP).mappedShelf, 'A1');
+    assert.equal(mapObjectsToShelf(DRINKS_AND_TOOTHBRUSH, SHELVES, 0.8, TIMESTAMP).status, 'ambiguous');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Object-to-Shelf Mapping for ShelfScan AI
+ * Works out which shelf a camera frame shows by matching detected object
+ * classes against the products slotted on each shelf (as laid out by the
+ * planogram). The same frame always maps the same way; when two shelves
+ * explain it about equally well the result is "ambiguous" rather than a guess.
+ * Free of TensorFlow imports, so it runs anywhere.
+ */
+
+import type { Detection } from './detectionBackend';
+import { Product, Shelf } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What the mapper needs to know about a shelf: its ID and slotted products
+ */
+export type MappableShelf = Pick<Shelf, 'id'> & { items: Pick<Product, 'sku' | 'product'>[] };
+
+/**
+ * A detection matched to one of a candidate shelf's products
+ */
+export interface ShelfProductMatch {
+  sku: string;
+  product: string;
+  /** Detected class that matched the product */
+  detectedClass: string;
+  /** Detector score of that object */
+  score: number;
+}
+
+/**
+ * A shelf the frame may show, with the products seen on it
+ */
+export interface ShelfCandidate {
+  shelfId: string;
+  /** Each product counts once, matched by the best-scoring object not already used on this shelf */
+  matches: ShelfProductMatch[];
+  /** Share of the shelf's products seen (0-1) */
+  coverage: number;
+  /** Likelihood the frame shows this shelf rather than another candidate (0-1) */
+  confidence: number;
+}
+
+/**
+ * `mapped`: one shelf clearly wins; `ambiguous`: the top candidates are
+ * too close to call; `unmatched`: no detection matches any slotted product
+ */
+export type ShelfMappingStatus = 'mapped' | 'ambiguous' | 'unmatched';
+
+export interface ShelfDetectionResult {
+  detectedObjects: Detection[];
+  status: ShelfMappingStatus;
+  /** Candidate shelves, most likely first */
+  candidates: ShelfCandidate[];
+  /** The winning shelf; null unless `status` is `mapped` */
+  mappedShelf: string | null;
+  /** Confidence of the best candidate (0 when unmatched) */
+  confidence: number;
+  timestamp: string;
+}
+
+// ============================================================================
+// CLASS MATCHING
+// ============================================================================
+
+/**
+ * Words in a product's name that a detector class can stand for, beyond the
+ * class name itself (COCO-SSD and DETR share the COCO labels)
+ */
+export const DETECTION_CLASS_KEYWORDS: Record<string, string[]> = {
+  'bottle': ['water', 'cola', 'soda', 'energy', 'juice', 'shampoo', 'conditioner', 'lotion', 'sanitizer', 'dish soap', 'detergent'],
+  'cup': ['mug', 'coffee'],
+  'wine glass': ['wine'],
+  'toothbrush': ['toothpaste'],
+  'hair drier': ['hair dryer'],
+  'scissors': ['razor'],
+  'cell phone': ['phone', 'charger', 'earbuds', 'screen protector', 'power bank'],
+  'remote': ['batteries'],
+  'laptop': ['usb', 'cable'],
+  'orange': ['vitamin c'],
+  'donut': ['cookies'],
+  'cake': ['cookies'],
+  'handbag': ['bags'],
+  'toilet': ['toilet paper']
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether a detected class can be this product: the class or one of its
+ * keywords appears as a word (or plural) in the product name
+ */
+export const matchesDetectionClass = (productName: string, detectedClass: string): boolean => {
+  const name = productName.toLowerCase();
+  const terms = [detectedClass, ...(DETECTION_CLASS_KEYWORDS[detectedClass] ?? [])];
+  return terms.some(term => new RegExp(`\\b${escapeRegExp(term.toLowerCase())}(s|es)?\\b`).test(name));
+};
+
+// ============================================================================
+// SHELF MAPPING
+// ============================================================================
+
+/**
+ * Runner-up confidence within this of the best makes the mapping ambiguous
+ */
+export const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Pair the frame's objects with one shelf's products, best scores first;
+ * an object stands for at most one product, and a product counts once.
+ * An object the backend named a SKU for only matches that product.
+ */
+const matchShelf = (shelf: MappableShelf, objects: Detection[]): ShelfProductMatch[] => {
+  const matches: ShelfProductMatch[] = [];
+  const claimed = new Set<string>();
+
+  objects.forEach(object => {
+    const item = shelf.items.find(candidate =>
+      !claimed.has(candidate.sku) &&
+      (object.sku ? object.sku === candidate.sku : matchesDetectionClass(candidate.product, object.class))
+    );
+    if (!item) return;
+    claimed.add(item.sku);
+    matches.push({ sku: item.sku, product: item.product, detectedClass: object.class, score: object.score });
+  });
+
+  return matches;
+};
+
+/**
+ * Rank the shelves the frame may show: a shelf scores the detector scores
+ * of its products that appear, weighted towards shelves whose products are
+ * mostly in view. Confidence is the shelf's share of all candidates' scores,
+ * times how sure the detector was of its matches. Ties break by shelf ID.
+ */
+export const rankShelfCandidates = (objects: Detection[], shelves: MappableShelf[]): ShelfCandidate[] => {
+  const ordered = [...objects].sort((a, b) => b.score - a.score || a.class.localeCompare(b.class));
+
+  const scored = shelves
+    .filter(shelf => shelf.items.length > 0)
+    .map(shelf => {
+      const matches = matchShelf(shelf, ordered);
+      const evidence = matches.reduce((sum, match) => sum + match.score, 0);
+      const coverage = matches.length / shelf.items.length;
+      return { shelfId: shelf.id, matches, coverage, evidence, weight: evidence * (0.5 + 0.5 * coverage) };
+    })
+    .filter(candidate => candidate.matches.length > 0);
+
+  const totalWeight = scored.reduce((sum, candidate) => sum + candidate.weight, 0);
+
+  return scored
+    .sort((a, b) => b.weight - a.weight || a.shelfId.localeCompare(b.shelfId))
+    .map(({ shelfId, matches, coverage, evidence, weight }) => ({
+      shelfId,
+      matches,
+      coverage,
+      confidence: (weight / totalWeight) * (evidence / matches.length)
+    }));
+};
+
+/**
+ * Map the detected objects scoring above `minConfidence` to the shelf they
+ * most likely show, among `shelves` (the store's shelves with their
+ * planogram slots)
+ */
+export const mapObjectsToShelf = (
+  objects: Detection[],
+  shelves: MappableShelf[],
+  minConfidence: number = 0.6,
+  timestamp: string = new Date().toISOString()
+): ShelfDetectionResult => {
+  const detectedObjects = objects.filter(object => object.score > minConfidence);
+  const candidates = rankShelfCandidates(detectedObjects, shelves);
+  const [best, runnerUp] = candidates;
+
+  const status: ShelfMappingStatus = !best
+    ? 'unmatched'
+    : runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN
+      ? 'ambiguous'
+      : 'mapped';
+
+  return {
+    detectedObjects,
+    status,
+    candidates,
+    mappedShelf: status === 'mapped' ? best.shelfId : null,
+    confidence: best?.confidence ?? 0,
+    timestamp
+  };
+};
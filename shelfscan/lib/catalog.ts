@@ -0,0 +1,95 @@
+/**
+ * Product Catalog for ShelfScan AI
+ * SKU helpers, barcode checks and catalog lookups shared by the API routes,
+ * the data file migration and the Inventory page. Shelf slots, alerts and
+ * restocks refer to products by SKU; names are copied onto them for display
+ * and refreshed when a catalog entry is renamed.
+ */
+
+import { Alert, CatalogProduct, Product, Shelf } from './types';
+
+// ============================================================================
+// SKUS & BARCODES
+// ============================================================================
+
+/**
+ * SKU for a product known only by its name (data stored before the catalog
+ * existed, or a detection with no catalog match), e.g. "DOVE-SOAP-100G"
+ */
+export const createSku = (name: string): string =>
+  name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Check a UPC-A (12 digit) or EAN-13 barcode, including its check digit
+ */
+export const isValidUpc = (code: string): boolean => {
+  if (!/^(\d{12}|\d{13})$/.test(code)) return false;
+
+  // GTIN check digit: weights alternate 3, 1 from the digit left of the check digit
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Catalog entries by SKU
+ */
+export const indexCatalog = (catalog: CatalogProduct[]): Map<string, CatalogProduct> =>
+  new Map(catalog.map(entry => [entry.sku, entry]));
+
+/**
+ * Distinct categories in the catalog, sorted
+ */
+export const getCatalogCategories = (catalog: CatalogProduct[]): string[] =>
+  [...new Set(catalog.map(entry => entry.category).filter((category): category is string => !!category))].sort();
+
+/**
+ * Catalog entries for every distinct product on the shelves (first name seen
+ * wins), used to seed the catalog from existing shelf data
+ */
+export const createCatalogFromShelves = (shelves: Shelf[]): CatalogProduct[] => {
+  const catalog = new Map<string, CatalogProduct>();
+  shelves.forEach(shelf => shelf.items.forEach(item => {
+    if (!catalog.has(item.sku)) catalog.set(item.sku, { sku: item.sku, name: item.product });
+  }));
+  return [...catalog.values()];
+};
+
+/**
+ * Copy catalog names onto shelf slots; slots whose SKU isn't in the catalog are returned separately
+ */
+export const withCatalogNames = (
+  items: Product[],
+  catalog: Map<string, CatalogProduct>
+): { items: Product[]; unknownSkus: string[] } => ({
+  items: items.map(item => {
+    const entry = catalog.get(item.sku);
+    return entry ? { ...item, product: entry.name } : item;
+  }),
+  unknownSkus: items.filter(item => !catalog.has(item.sku)).map(item => item.sku)
+});
+
+// ============================================================================
+// RENAMES
+// ============================================================================
+
+/**
+ * Apply a catalog rename to a shelf's slots (unchanged if it doesn't stock the SKU)
+ */
+export const renameShelfProduct = (shelf: Shelf, sku: string, name: string): Shelf =>
+  shelf.items.some(item => item.sku === sku && item.product !== name)
+    ? { ...shelf, items: shelf.items.map(item => (item.sku === sku ? { ...item, product: name } : item)) }
+    : shelf;
+
+/**
+ * Apply a catalog rename to an alert's display name
+ */
+export const renameAlertProduct = (alert: Alert, sku: string, name: string): Alert =>
+  alert.sku === sku && alert.product !== name ? { ...alert, product: name } : alert;
@@ -2,23 +2,58 @@
 
 /**
  * Global State Management for ShelfScan AI
- * Uses React Context API with useReducer for managing shelf and alert data
+ * Uses React Context API with useReducer for managing shelf and alert data,
+ * hydrated from and persisted to the server-side store via the API routes
  */
 
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
-import { AppState, ActionType, Shelf, Alert } from '../types';
-import { generateMockData } from '../mockData';
+import React, { createContext, useCallback, useContext, useReducer, ReactNode, useEffect, useMemo, useState } from 'react';
+import {
+  AppState,
+  ActionType,
+  AisleAssignment,
+  Shelf,
+  Alert,
+  AlertStatus,
+  RescanTask,
+  RestockAmount,
+  RestockEvent,
+  ScanRecord,
+  ScanUpdate,
+  ShiftId,
+  Store,
+  StoreSettings,
+  ThresholdChange,
+  ThresholdScope,
+  User
+} from '../types';
+import { applyRestock, resolveRestockedAlerts } from '../inventory';
+import { DEFAULT_STAFF_ACTOR, isActiveAlert, StaffAlertStatus, transitionAlert } from '../alertLifecycle';
+import { addAlert, applyAlertChanges, evaluateShelfAlerts } from '../alertEngine';
+import { getLatestRescanTask } from '../rescanTasks';
+import { applyScanUpdate } from '../mockData';
+import { withDepletionRates } from '../forecasting';
+import { hasPermission, Permission } from '../roles';
+import { getAlertRoute, getAlertsForUser } from '../alertRouting';
+import { DEFAULT_SETTINGS, getRoutingSettings } from '../settings';
+import { DEFAULT_STORE_ID } from '../stores';
+import * as api from '../api/client';
 
 // ============================================================================
 // INITIAL STATE SETUP
 // ============================================================================
 
 function createInitialState(): AppState {
-  // Use generateMockData to provide demo data for shelves and alerts
-  const mockData = generateMockData();
+  // Shelves and alerts are hydrated from the server once the provider mounts
+  // and the session is known
   return {
-    shelves: mockData.shelves,
-    alerts: mockData.alerts,
+    currentUser: null,
+    stores: [],
+    currentStoreId: null,
+    assignments: [],
+    settings: DEFAULT_SETTINGS,
+    shelves: [],
+    alerts: [],
+    rescanTasks: [],
     loading: { shelves: false, alerts: false },
     error: null,
     selectedShelf: null,
@@ -44,6 +79,7 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 // Add INIT action type to AppAction
 export type AppAction =
   | { type: 'INIT'; payload: AppState }
+  | { type: 'SET_CURRENT_USER'; payload: User | null }
   // Shelf data actions
   | { type: 'FETCH_SHELVES_START'; payload?: unknown }
   | { type: 'FETCH_SHELVES_SUCCESS'; payload: Shelf[] }
@@ -56,6 +92,7 @@ export type AppAction =
   | { type: 'FETCH_ALERTS_ERROR'; payload: string }
   | { type: 'ADD_ALERT'; payload: Alert }
   | { type: 'ACKNOWLEDGE_ALERT'; payload: string }
+  | { type: 'TRANSITION_ALERT'; payload: { alertId: string; status: AlertStatus; by: string; at: string; note?: string } }
   | { type: 'REMOVE_ALERT'; payload: string }
   | { type: 'SET_ALERTS'; payload: Alert[] }
   // UI state actions
@@ -64,8 +101,20 @@ export type AppAction =
   | { type: 'SET_FILTER'; payload: { key: 'aisle' | 'status'; value: string | null } }
   | { type: 'CLEAR_FILTERS' }
   // Staff action events
-  | { type: 'MARK_RESTOCKED'; payload: { shelfId: string; productName: string } }
-  | { type: 'REQUEST_RESCAN'; payload: string }
+  | { type: 'MARK_RESTOCKED'; payload: RestockEvent }
+  // Drone rescan tasks
+  | { type: 'SET_RESCAN_TASKS'; payload: RescanTask[] }
+  | { type: 'UPSERT_RESCAN_TASK'; payload: RescanTask }
+  // Staff assignments
+  | { type: 'SET_ASSIGNMENTS'; payload: AisleAssignment[] }
+  | { type: 'UPSERT_ASSIGNMENT'; payload: AisleAssignment }
+  | { type: 'REMOVE_ASSIGNMENT'; payload: string }
+  // Settings
+  | { type: 'SET_SETTINGS'; payload: StoreSettings }
+  // Stores
+  | { type: 'SET_STORES'; payload: Store[] }
+  | { type: 'UPSERT_STORE'; payload: Store }
+  | { type: 'SET_CURRENT_STORE'; payload: string }
   ;
 
 // Update all reducer return values to always include shelves and alerts arrays
@@ -77,6 +126,11 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
         shelves: action.payload.shelves ?? [],
         alerts: action.payload.alerts ?? [],
       };
+    case 'SET_CURRENT_USER':
+      return {
+        ...state!,
+        currentUser: action.payload,
+      };
     case 'FETCH_SHELVES_START':
       return {
         ...state!,
@@ -107,7 +161,11 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
         shelves: state!.shelves.map(shelf =>
           shelf.id === action.payload.id ? action.payload : shelf
         ),
-        alerts: state!.alerts ?? [],
+        // Same engine as server ingestion, so scans open/resolve identical alerts
+        alerts: applyAlertChanges(
+          state!.alerts ?? [],
+          evaluateShelfAlerts(action.payload, state!.alerts ?? [])
+        ),
       };
     case 'SET_SHELVES':
       return {
@@ -142,7 +200,7 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
     case 'ADD_ALERT':
       return {
         ...state!,
-        alerts: [action.payload, ...state!.alerts],
+        alerts: addAlert(state!.alerts, action.payload),
         shelves: state!.shelves ?? [],
       };
     case 'ACKNOWLEDGE_ALERT':
@@ -150,11 +208,21 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
         ...state!,
         alerts: state!.alerts.map(alert =>
           alert.id === action.payload
-            ? { ...alert, acknowledged: true }
+            ? transitionAlert(alert, 'acknowledged', { by: state!.currentUser?.username ?? DEFAULT_STAFF_ACTOR })
             : alert
         ),
         shelves: state!.shelves ?? [],
       };
+    case 'TRANSITION_ALERT': {
+      const { alertId, status, ...transition } = action.payload;
+      return {
+        ...state!,
+        alerts: state!.alerts.map(alert =>
+          alert.id === alertId ? transitionAlert(alert, status, transition) : alert
+        ),
+        shelves: state!.shelves ?? [],
+      };
+    }
     case 'REMOVE_ALERT':
       return {
         ...state!,
@@ -193,35 +261,89 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
           status: null
         },
       };
-    case 'MARK_RESTOCKED':
+    case 'MARK_RESTOCKED': {
+      const shelf = state!.shelves.find(s => s.id === action.payload.shelf);
+      if (!shelf) return state!;
+      // Same steps as the restock route: staff resolve only if back at
+      // threshold, then the engine downgrades anything partially restocked
+      const restocked = applyRestock(shelf, action.payload);
+      const alerts = resolveRestockedAlerts(state!.alerts, restocked, action.payload);
       return {
         ...state!,
-        shelves: state!.shelves.map(shelf => {
-          if (shelf.id === action.payload.shelfId) {
-            return {
-              ...shelf,
-              items: shelf.items.map((product: import('../types').Product) =>
-                product.product === action.payload.productName
-                  ? { ...product, count: product.count + 1 }
-                  : product
-              )
-            };
-          }
-          return shelf;
-        }),
-        alerts: state!.alerts.filter(alert => 
-          !(alert.shelf === action.payload.shelfId && alert.product === action.payload.productName)
-        ),
+        shelves: state!.shelves.map(s => (s.id === restocked.id ? restocked : s)),
+        alerts: applyAlertChanges(alerts, evaluateShelfAlerts(restocked, alerts, action.payload.timestamp)),
       };
-    case 'REQUEST_RESCAN':
+    }
+    case 'SET_RESCAN_TASKS':
       return {
         ...state!,
-        shelves: state!.shelves.map(shelf =>
-          shelf.id === action.payload
-            ? { ...shelf, lastScanned: new Date().toISOString() }
-            : shelf
-        ),
-        alerts: state!.alerts ?? [],
+        rescanTasks: action.payload ?? [],
+      };
+    case 'UPSERT_RESCAN_TASK': {
+      const exists = state!.rescanTasks.some(task => task.id === action.payload.id);
+      return {
+        ...state!,
+        rescanTasks: exists
+          ? state!.rescanTasks.map(task => (task.id === action.payload.id ? action.payload : task))
+          : [action.payload, ...state!.rescanTasks],
+      };
+    }
+    case 'SET_ASSIGNMENTS':
+      return {
+        ...state!,
+        assignments: action.payload ?? [],
+      };
+    case 'UPSERT_ASSIGNMENT':
+      return {
+        ...state!,
+        assignments: [
+          ...state!.assignments.filter(assignment => assignment.id !== action.payload.id),
+          action.payload
+        ],
+      };
+    case 'REMOVE_ASSIGNMENT':
+      return {
+        ...state!,
+        assignments: state!.assignments.filter(assignment => assignment.id !== action.payload),
+      };
+    case 'SET_SETTINGS':
+      return {
+        ...state!,
+        settings: action.payload,
+      };
+    case 'SET_STORES':
+      return {
+        ...state!,
+        stores: action.payload ?? [],
+      };
+    case 'UPSERT_STORE': {
+      const exists = state!.stores.some(store => store.id === action.payload.id);
+      return {
+        ...state!,
+        stores: exists
+          ? state!.stores.map(store => (store.id === action.payload.id ? action.payload : store))
+          : [...state!.stores, action.payload].sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    }
+    case 'SET_CURRENT_STORE':
+      // Picking the first store keeps whatever was supplied up front;
+      // switching drops the old store's data until the new store's loads
+      if (state!.currentStoreId === null || state!.currentStoreId === action.payload) {
+        return {
+          ...state!,
+          currentStoreId: action.payload,
+        };
+      }
+      return {
+        ...state!,
+        currentStoreId: action.payload,
+        shelves: [],
+        alerts: [],
+        rescanTasks: [],
+        assignments: [],
+        settings: DEFAULT_SETTINGS,
+        selectedShelf: null,
+        filterOptions: { aisle: null, status: null },
       };
     default:
       return {
@@ -232,6 +354,138 @@ function appReducer(state: AppState | null, action: AppAction): AppState {
   }
 }
 
+// ============================================================================
+// SERVER SYNC
+// ============================================================================
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Load shelves from the server-side store into state
+ */
+const loadShelves = async (dispatch: React.Dispatch<ActionType>) => {
+  dispatch({ type: 'FETCH_SHELVES_START' });
+  try {
+    dispatch({ type: 'FETCH_SHELVES_SUCCESS', payload: await api.fetchShelves() });
+  } catch (error) {
+    dispatch({ type: 'FETCH_SHELVES_ERROR', payload: getErrorMessage(error, 'Failed to load shelves') });
+  }
+};
+
+/**
+ * Load alerts from the server-side store into state
+ */
+const loadAlerts = async (dispatch: React.Dispatch<ActionType>) => {
+  dispatch({ type: 'FETCH_ALERTS_START' });
+  try {
+    dispatch({ type: 'FETCH_ALERTS_SUCCESS', payload: await api.fetchAlerts() });
+  } catch (error) {
+    dispatch({ type: 'FETCH_ALERTS_ERROR', payload: getErrorMessage(error, 'Failed to load alerts') });
+  }
+};
+
+/**
+ * Load recent drone rescan tasks into state
+ */
+const loadRescanTasks = async (dispatch: React.Dispatch<ActionType>) => {
+  try {
+    dispatch({ type: 'SET_RESCAN_TASKS', payload: await api.fetchRescanTasks() });
+  } catch (error) {
+    console.error('Failed to load rescan tasks:', error);
+  }
+};
+
+/**
+ * Load aisle assignments, which route alerts to staff
+ */
+const loadAssignments = async (dispatch: React.Dispatch<ActionType>) => {
+  try {
+    dispatch({ type: 'SET_ASSIGNMENTS', payload: await api.fetchAssignments() });
+  } catch (error) {
+    console.error('Failed to load assignments:', error);
+  }
+};
+
+/**
+ * Load the store settings; the defaults stay in place if they can't be read
+ */
+const loadSettings = async (dispatch: React.Dispatch<ActionType>) => {
+  try {
+    dispatch({ type: 'SET_SETTINGS', payload: await api.fetchSettings() });
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+  }
+};
+
+// Where the browser remembers the last store picked
+const STORE_STORAGE_KEY = 'shelfscan.store';
+
+const getSavedStoreId = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Point API requests at a store, and remember it for the next visit
+ */
+const selectStore = (dispatch: React.Dispatch<ActionType>, storeId: string) => {
+  api.setStoreId(storeId);
+  try {
+    window.localStorage.setItem(STORE_STORAGE_KEY, storeId);
+  } catch {
+    // Private browsing; the selection just isn't remembered
+  }
+  dispatch({ type: 'SET_CURRENT_STORE', payload: storeId });
+};
+
+/**
+ * Load the stores and select the one picked last time (the default store
+ * if that one is gone); requests go to the default store if they can't be read
+ */
+const loadStores = async (dispatch: React.Dispatch<ActionType>) => {
+  try {
+    const stores = await api.fetchStores();
+    dispatch({ type: 'SET_STORES', payload: stores });
+    const saved = getSavedStoreId();
+    const selected = stores.find(store => store.id === saved)
+      ?? stores.find(store => store.id === DEFAULT_STORE_ID)
+      ?? stores[0];
+    if (selected) selectStore(dispatch, selected.id);
+  } catch (error) {
+    console.error('Failed to load stores:', error);
+  }
+};
+
+/**
+ * Load the signed-in user and their store, then hydrate whatever wasn't
+ * supplied up front. Signed-out visitors (the login page) load nothing.
+ */
+const loadSession = async (dispatch: React.Dispatch<ActionType>, initialData?: Partial<AppState>) => {
+  const user = await api.fetchSession();
+  dispatch({ type: 'SET_CURRENT_USER', payload: user });
+  if (!user) return;
+
+  await loadStores(dispatch);
+  if (!initialData?.shelves) loadShelves(dispatch);
+  if (!initialData?.alerts) loadAlerts(dispatch);
+  if (!initialData?.rescanTasks) loadRescanTasks(dispatch);
+  if (!initialData?.assignments) loadAssignments(dispatch);
+  if (!initialData?.settings) loadSettings(dispatch);
+};
+
+/**
+ * Persist a staff action that was already applied optimistically to local state
+ */
+const persistAction = (request: Promise<unknown>, description: string) => {
+  request.catch(error => {
+    console.error(`Failed to persist ${description}:`, error);
+  });
+};
+
 // ============================================================================
 // PROVIDER COMPONENT
 // ============================================================================
@@ -251,6 +505,9 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, initialData
         ...initialData
       };
       dispatch({ type: 'INIT', payload: initial });
+
+      // Hydrate anything not supplied up front from the server-side store
+      loadSession(dispatch, initialData);
     }
   }, [state, initialData]);
 
@@ -304,6 +561,8 @@ export const useShelves = () => {
     
     // Actions
     updateShelf: (shelf: Shelf) => dispatch({ type: 'UPDATE_SHELF', payload: shelf }),
+    // Re-read shelves and their alerts after a bulk server-side change (planogram import)
+    reloadShelves: () => Promise.all([loadShelves(dispatch), loadAlerts(dispatch)]).then(() => undefined),
     selectShelf: (shelfId: string) => dispatch({ type: 'SELECT_SHELF', payload: shelfId }),
     clearSelection: () => dispatch({ type: 'CLEAR_SELECTED_SHELF' }),
     setFilter: (key: 'aisle' | 'status', value: string | null) => 
@@ -312,35 +571,229 @@ export const useShelves = () => {
   };
 };
 
+// How often alert routing is re-evaluated against the clock
+const ROUTING_REFRESH_INTERVAL = 60 * 1000;
+
 /**
  * Hook for accessing alert-related state and actions
  */
 export const useAlerts = () => {
   const { state, dispatch } = useAppContext();
+
+  // Routing depends on the clock (shift changes, fallback timeout), so
+  // re-evaluate it every minute even when no alert changes
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), ROUTING_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const currentStore = state.stores.find(store => store.id === state.currentStoreId);
+  const routing = useMemo(
+    () => ({ shelves: state.shelves, assignments: state.assignments, now, ...getRoutingSettings(currentStore, state.settings) }),
+    [state.shelves, state.assignments, currentStore, state.settings, now]
+  );
+  const myAlerts = useMemo(
+    () => getAlertsForUser(state.alerts, state.currentUser, routing),
+    [state.alerts, state.currentUser, routing]
+  );
+
+  const transitionAlert = (alertId: string, status: StaffAlertStatus, note?: string) => {
+    // The server records the signed-in user; mirror that locally
+    const by = state.currentUser?.username ?? DEFAULT_STAFF_ACTOR;
+    dispatch({ type: 'TRANSITION_ALERT', payload: { alertId, status, by, at: new Date().toISOString(), note } });
+    persistAction(api.transitionAlert(alertId, status, { note }), `${status} transition of alert ${alertId}`);
+  };
   
   return {
     alerts: state.alerts,
     loading: state.loading.alerts,
-    unacknowledgedAlerts: state.alerts.filter(alert => !alert.acknowledged),
+    activeAlerts: state.alerts.filter(isActiveAlert),
+    unacknowledgedAlerts: state.alerts.filter(alert => alert.status === 'open'),
+    // Active alerts routed to the signed-in user
+    myAlerts,
+    myUnacknowledgedAlerts: myAlerts.filter(alert => alert.status === 'open'),
+    getAlertRoute: (alert: Alert) => getAlertRoute(alert, routing),
     
     // Actions
     addAlert: (alert: Alert) => dispatch({ type: 'ADD_ALERT', payload: alert }),
-    acknowledgeAlert: (alertId: string) => dispatch({ type: 'ACKNOWLEDGE_ALERT', payload: alertId }),
+    transitionAlert,
+    acknowledgeAlert: (alertId: string) => transitionAlert(alertId, 'acknowledged'),
     removeAlert: (alertId: string) => dispatch({ type: 'REMOVE_ALERT', payload: alertId })
   };
 };
 
+/**
+ * Hook for aisle/shift assignments
+ */
+export const useAssignments = () => {
+  const { state, dispatch } = useAppContext();
+
+  return {
+    assignments: state.assignments,
+    // Created server-side first (no optimistic update) so duplicates and
+    // unknown users are reported back to the manager
+    assignStaff: async (aisle: string, username: string, shift: ShiftId): Promise<AisleAssignment> => {
+      const assignment = await api.createAssignment({ aisle, username, shift });
+      dispatch({ type: 'UPSERT_ASSIGNMENT', payload: assignment });
+      return assignment;
+    },
+    unassignStaff: (assignmentId: string) => {
+      dispatch({ type: 'REMOVE_ASSIGNMENT', payload: assignmentId });
+      persistAction(api.deleteAssignment(assignmentId), `removal of assignment ${assignmentId}`);
+    }
+  };
+};
+
 /**
  * Hook for staff actions
  */
 export const useStaffActions = () => {
-  const { dispatch } = useAppContext();
+  const { state, dispatch } = useAppContext();
   
   return {
-    markRestocked: (shelfId: string, productName: string) => 
-      dispatch({ type: 'MARK_RESTOCKED', payload: { shelfId, productName } }),
-    requestRescan: (shelfId: string) => 
-      dispatch({ type: 'REQUEST_RESCAN', payload: shelfId })
+    // Recorded server-side first (the server stamps the time and works out
+    // a fill-to-par quantity), then its event is applied locally
+    markRestocked: async (shelfId: string, sku: string, amount: RestockAmount): Promise<RestockEvent | null> => {
+      try {
+        const restock = await api.restockProduct(shelfId, sku, amount);
+        dispatch({ type: 'MARK_RESTOCKED', payload: restock });
+        return restock;
+      } catch (error) {
+        console.error(`Failed to restock ${sku} on ${shelfId}:`, error);
+        return null;
+      }
+    },
+    // Queued server-side (no optimistic update); the task's progress then
+    // arrives as `rescan` broadcasts
+    requestRescan: async (shelfId: string): Promise<RescanTask | null> => {
+      try {
+        const task = await api.requestRescan(shelfId);
+        dispatch({ type: 'UPSERT_RESCAN_TASK', payload: task });
+        return task;
+      } catch (error) {
+        console.error(`Failed to request rescan of ${shelfId}:`, error);
+        return null;
+      }
+    },
+    // Recorded server-side first (a rejected scan throws with the server's
+    // reason), then applied like a broadcast scan; applying the broadcast
+    // again when it arrives changes nothing
+    submitScan: async (update: ScanUpdate): Promise<ScanRecord> => {
+      const { record, rescanTask } = await api.submitScan(update);
+      const shelf = state.shelves.find(s => s.id === record.update.shelf);
+      if (shelf) {
+        const scanned = applyScanUpdate(shelf, record.update);
+        dispatch({
+          type: 'UPDATE_SHELF',
+          payload: record.depletionRates ? withDepletionRates(scanned, record.depletionRates) : scanned
+        });
+      }
+      if (rescanTask) dispatch({ type: 'UPSERT_RESCAN_TASK', payload: rescanTask });
+      return record;
+    },
+    // Applied server-side, then shelves and alerts are refreshed in place
+    // (without a loading state) since a new threshold can open or resolve alerts
+    applyThresholdRecommendations: async (
+      scope: ThresholdScope & { serviceLevel?: number }
+    ): Promise<ThresholdChange[] | null> => {
+      try {
+        const changes = await api.applyThresholdRecommendations(scope);
+        if (changes.length > 0) {
+          const [shelves, alerts] = await Promise.all([api.fetchShelves(), api.fetchAlerts()]);
+          dispatch({ type: 'FETCH_SHELVES_SUCCESS', payload: shelves });
+          dispatch({ type: 'FETCH_ALERTS_SUCCESS', payload: alerts });
+        }
+        return changes;
+      } catch (error) {
+        console.error('Failed to apply threshold recommendations:', error);
+        return null;
+      }
+    }
+  };
+};
+
+/**
+ * Hook for the signed-in user and what their role allows
+ */
+export const useCurrentUser = () => {
+  const { state } = useAppContext();
+  const user = state.currentUser;
+
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+
+  const logout = async () => {
+    try {
+      await api.logout();
+    } finally {
+      window.location.assign('/login');
+    }
+  };
+
+  return { user, can, logout };
+};
+
+/**
+ * Hook for the store settings
+ */
+export const useSettings = () => {
+  const { state, dispatch } = useAppContext();
+
+  return {
+    settings: state.settings,
+    // Saved server-side first so validation errors reach the settings form
+    saveSettings: async (settings: StoreSettings): Promise<StoreSettings> => {
+      const saved = await api.saveSettings(settings);
+      dispatch({ type: 'SET_SETTINGS', payload: saved });
+      return saved;
+    }
+  };
+};
+
+/**
+ * Hook for the stores and the one the dashboard is showing
+ */
+export const useStores = () => {
+  const { state, dispatch } = useAppContext();
+
+  return {
+    stores: state.stores,
+    currentStore: state.stores.find(store => store.id === state.currentStoreId) ?? null,
+    // Everything on screen belongs to one store, so switching reloads it all
+    switchStore: async (storeId: string) => {
+      if (storeId === state.currentStoreId) return;
+      selectStore(dispatch, storeId);
+      await Promise.all([
+        loadShelves(dispatch),
+        loadAlerts(dispatch),
+        loadRescanTasks(dispatch),
+        loadAssignments(dispatch),
+        loadSettings(dispatch)
+      ]);
+    },
+    // Saved server-side first so validation errors reach the form
+    createStore: async (store: Store): Promise<Store> => {
+      const created = await api.createStore(store);
+      dispatch({ type: 'UPSERT_STORE', payload: created });
+      return created;
+    },
+    updateStore: async (storeId: string, changes: Partial<Omit<Store, 'id'>>): Promise<Store> => {
+      const updated = await api.updateStore(storeId, changes);
+      dispatch({ type: 'UPSERT_STORE', payload: updated });
+      return updated;
+    }
+  };
+};
+
+/**
+ * Hook for drone rescan tasks
+ */
+export const useRescanTasks = () => {
+  const { state } = useAppContext();
+
+  return {
+    rescanTasks: state.rescanTasks,
+    getShelfRescanTask: (shelfId: string) => getLatestRescanTask(state.rescanTasks, shelfId)
   };
 };
 
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateDepletionRates, FORECAST_HISTORY_SCANS, isStockoutPredicted } from './forecasting';
+import { evaluateShelfAlerts } from './alertEngine';
+import { createAlert, transitionAlert } from './alertLifecycle';
+import { generateDepletionHistory } from './mockData';
+import { Alert, AlertType, Product, ScanUpdate, Shelf } from './types';
+import { at, product, scan, shelf } from './testFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const COLA = product('COLA-330', 'Cola 330ml', 10);
+const CHIPS = product('CHIPS-150', 'Chips 150g', 5);
+const GUM = product('GUM-MINT', 'Mint Gum', 5);
+
+/**
+ * Hourly scans of shelf A1; `counts` lists each product's count per scan,
+ * and a null leaves the product out of that scan
+ */
+const history = (counts: [Product, (number | null)[]][]): ScanUpdate[] => {
+  const scans = Math.max(...counts.map(([, series]) => series.length));
+  return Array.from({ length: scans }, (_, index) => scan('A1', index, counts
+    .filter(([, series]) => series[index] !== null && series[index] !== undefined)
+    .map(([item, series]) => ({ ...item, count: series[index]! }))
+  ));
+};
+
+const shelfWith = (items: Product[], depletionRates?: Record<string, number>): Shelf =>
+  shelf('A1', { items, ...(depletionRates && { depletionRates }) });
+
+const openAlert = (item: Product, type: AlertType): Alert =>
+  createAlert({ storeId: 'main', shelf: 'A1', sku: item.sku, product: item.product, type, timestamp: at(-1) });
+
+// ============================================================================
+// RATE ESTIMATION
+// ============================================================================
+
+describe('estimateDepletionRates', () => {
+  it('learns units per hour for each product in the latest scan', () => {
+    const updates = history([
+      [COLA, [20, 17, 14, 11]],
+      [CHIPS, [8, 8, 8, 8]],
+      [GUM, [null, null, null, 12]]
+    ]);
+
+    assert.deepEqual(estimateDepletionRates(updates), { 'COLA-330': 3, 'CHIPS-150': 0 });
+  });
+
+  it('skips intervals across a restock and from an empty slot', () => {
+    const updates = history([
+      [COLA, [10, 6, 20, 16]],
+      [CHIPS, [3, 0, 0, 0]]
+    ]);
+
+    assert.deepEqual(estimateDepletionRates(updates), { 'COLA-330': 4 });
+  });
+
+  it('needs two intervals between scans that both saw the product', () => {
+    const updates = history([[COLA, [10, null, 8, 6]]]);
+    assert.deepEqual(estimateDepletionRates(updates), {});
+  });
+
+  it('recovers the rate of a synthetic history with restocks', () => {
+    const updates = generateDepletionHistory({ ...COLA, count: 40 }, { ratePerHour: 4, restockBelow: 8, scans: 48 });
+    assert.deepEqual(estimateDepletionRates(updates), { 'COLA-330': 4 });
+  });
+
+  it('learns from the most recent scans only, whatever order they arrive in', () => {
+    const fastHours = 12;
+    const counts = Array.from({ length: fastHours + FORECAST_HISTORY_SCANS }, (_, hour) =>
+      hour < fastHours ? 1000 - hour * 10 : 1000 - (fastHours - 1) * 10 - (hour - fastHours + 1)
+    );
+    const updates = history([[COLA, counts]]).reverse();
+
+    assert.deepEqual(estimateDepletionRates(updates), { 'COLA-330': 1 });
+  });
+
+  it('learns nothing from no scans', () => {
+    assert.deepEqual(estimateDepletionRates([]), {});
+  });
+});
+
+// ============================================================================
+// PREDICTED STOCKOUTS
+// ============================================================================
+
+describe('isStockoutPredicted', () => {
+  it('predicts a product that will drop below threshold within the horizon', () => {
+    // 5 units to go at 2 an hour: below threshold in 2.5 hours
+    assert.equal(isStockoutPredicted({ ...COLA, count: 14 }, 2), true);
+    // 5 units to go at 1 an hour: 5 hours, past the 4-hour horizon
+    assert.equal(isStockoutPredicted({ ...COLA, count: 14 }, 1), false);
+  });
+
+  it('predicts nothing without a rate, or for a product already below threshold', () => {
+    assert.equal(isStockoutPredicted({ ...COLA, count: 14 }, undefined), false);
+    assert.equal(isStockoutPredicted({ ...COLA, count: 9 }, 50), false);
+  });
+});
+
+describe('predicted-stockout alerts', () => {
+  it('opens one for a product at threshold selling fast enough to drop below it', () => {
+    const changes = evaluateShelfAlerts(
+      shelfWith([{ ...COLA, count: 14 }, { ...CHIPS, count: 20 }], { 'COLA-330': 2, 'CHIPS-150': 2 }),
+      []
+    );
+
+    assert.deepEqual(changes.opened.map(alert => [alert.sku, alert.type]), [['COLA-330', 'predicted-stockout']]);
+    assert.equal(changes.opened[0].timestamp, at(0));
+  });
+
+  it('opens none for a shelf without learned rates', () => {
+    const changes = evaluateShelfAlerts(shelfWith([{ ...COLA, count: 14 }]), []);
+    assert.deepEqual(changes, { opened: [], updated: [], resolved: [] });
+  });
+
+  it('escalates to low, reopened, once the product drops below threshold', () => {
+    const predicted = transitionAlert(openAlert(COLA, 'predicted-stockout'), 'acknowledged', { by: 'associate', at: at(-0.5) });
+    const changes = evaluateShelfAlerts(shelfWith([{ ...COLA, count: 8 }], { 'COLA-330': 2 }), [predicted]);
+
+    const [updated] = changes.updated;
+    assert.equal(updated.type, 'low');
+    assert.equal(updated.status, 'open');
+    assert.equal(updated.history[updated.history.length - 1].note, 'Escalated from predicted stockout to low');
+  });
+
+  it('keeps a restocked low alert open as a predicted stockout while the product still sells fast', () => {
+    const low = openAlert(COLA, 'low');
+    const changes = evaluateShelfAlerts(shelfWith([{ ...COLA, count: 12 }], { 'COLA-330': 2 }), [low]);
+
+    const [updated] = changes.updated;
+    assert.equal(updated.type, 'predicted-stockout');
+    assert.equal(updated.history[updated.history.length - 1].note, 'Restocked to threshold, still predicted to run low');
+    assert.deepEqual(changes.resolved, []);
+  });
+
+  it('auto-resolves once the product sells too slowly to run low within the horizon', () => {
+    const predicted = openAlert(COLA, 'predicted-stockout');
+    const changes = evaluateShelfAlerts(shelfWith([{ ...COLA, count: 14 }], { 'COLA-330': 0.5 }), [predicted]);
+
+    assert.deepEqual(changes.resolved.map(alert => [alert.id, alert.status]), [[predicted.id, 'auto-resolved']]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Stock Forecasting for ShelfScan AI
+ * Learns how fast each product sells from consecutive scans of its shelf
+ * and projects when it will drop below threshold and run out. The server
+ * stores the learned rates on the shelf (`depletionRates`) and broadcasts
+ * them with each scan, so the alert engine can raise a predicted stockout
+ * identically on both sides.
+ */
+
+import { Product, ScanUpdate, Shelf, StockForecast } from './types';
+import { sortScansByTime } from './analytics';
+
+/**
+ * Scans of a shelf the server learns from (most recent)
+ */
+export const FORECAST_HISTORY_SCANS = 48;
+
+/**
+ * Depletion intervals needed before a rate is trusted
+ */
+export const FORECAST_MIN_INTERVALS = 2;
+
+/**
+ * Raise a predicted stockout when a product is expected to drop below
+ * threshold within this long of its last scan
+ */
+export const PREDICTED_STOCKOUT_HORIZON_MS = 4 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// RATE ESTIMATION
+// ============================================================================
+
+/**
+ * Units sold between two consecutive scans of a product
+ */
+export interface DepletionInterval {
+  sold: number;
+  hours: number;
+}
+
+/**
+ * Intervals between consecutive scans that both saw the product
+ * A count that went up was restocked in between, and one that started empty
+ * had nothing to sell, so neither says anything about demand; both are
+ * skipped.
+ */
+export const getDepletionIntervals = (updates: ScanUpdate[], sku: string): DepletionInterval[] => {
+  const intervals: DepletionInterval[] = [];
+  let previous: { count: number; at: number } | null = null;
+
+  sortScansByTime(updates).forEach(update => {
+    const item = update.items.find(entry => entry.sku === sku);
+    if (!item) {
+      previous = null;
+      return;
+    }
+
+    const at = new Date(update.timestamp).getTime();
+    if (previous && at > previous.at && previous.count > 0 && item.count <= previous.count) {
+      intervals.push({ sold: previous.count - item.count, hours: (at - previous.at) / HOUR_MS });
+    }
+    previous = { count: item.count, at };
+  });
+
+  return intervals;
+};
+
+/**
+ * Units per hour a product sells, over its most recent depletion intervals
+ * Returns null until there are FORECAST_MIN_INTERVALS to learn from.
+ */
+export const estimateDepletionRate = (updates: ScanUpdate[], sku: string): number | null => {
+  const intervals = getDepletionIntervals(updates, sku).slice(-FORECAST_HISTORY_SCANS);
+  if (intervals.length < FORECAST_MIN_INTERVALS) return null;
+
+  const sold = intervals.reduce((sum, interval) => sum + interval.sold, 0);
+  const hours = intervals.reduce((sum, interval) => sum + interval.hours, 0);
+  return Math.round((sold / hours) * 1000) / 1000;
+};
+
+/**
+ * Rates for every product in a shelf's latest scan that has enough history
+ * `updates` should all be scans of the same shelf.
+ */
+export const estimateDepletionRates = (updates: ScanUpdate[]): Record<string, number> => {
+  const sorted = sortScansByTime(updates).slice(-FORECAST_HISTORY_SCANS);
+  const latest = sorted[sorted.length - 1];
+  if (!latest) return {};
+
+  const rates: Record<string, number> = {};
+  latest.items.forEach(item => {
+    const rate = estimateDepletionRate(sorted, item.sku);
+    if (rate !== null) rates[item.sku] = rate;
+  });
+  return rates;
+};
+
+/**
+ * Replace a shelf's learned rates
+ */
+export const withDepletionRates = (shelf: Shelf, depletionRates: Record<string, number>): Shelf => ({
+  ...shelf,
+  depletionRates
+});
+
+// ============================================================================
+// FORECASTS
+// ============================================================================
+
+/**
+ * Project a product's count forward from `from` at `ratePerHour`
+ * A product already below threshold (or empty) has a zero time to it; one
+ * that isn't selling never gets there.
+ */
+export const forecastProduct = (product: Product, ratePerHour: number, from: string): StockForecast => {
+  const timeTo = (units: number): number | null => {
+    if (units <= 0) return 0;
+    return ratePerHour > 0 ? (units / ratePerHour) * HOUR_MS : null;
+  };
+  const timeToThresholdMs = timeTo(product.count - product.threshold + 1);
+  const timeToEmptyMs = timeTo(product.count);
+  const at = (duration: number | null) =>
+    duration === null ? null : new Date(new Date(from).getTime() + duration).toISOString();
+
+  return {
+    sku: product.sku,
+    product: product.product,
+    ratePerHour,
+    timeToThresholdMs,
+    timeToEmptyMs,
+    thresholdAt: at(timeToThresholdMs),
+    emptyAt: at(timeToEmptyMs)
+  };
+};
+
+/**
+ * Forecasts for the products on a shelf with a learned rate, soonest to
+ * run low first
+ */
+export const getShelfForecasts = (shelf: Shelf): StockForecast[] =>
+  shelf.items
+    .filter(item => shelf.depletionRates?.[item.sku] !== undefined)
+    .map(item => forecastProduct(item, shelf.depletionRates![item.sku], shelf.lastScanned))
+    .sort((a, b) => (a.timeToThresholdMs ?? Infinity) - (b.timeToThresholdMs ?? Infinity));
+
+/**
+ * Whether a product still at or above threshold is expected to drop below
+ * it within the prediction horizon
+ */
+export const isStockoutPredicted = (
+  product: Product,
+  ratePerHour: number | undefined,
+  horizonMs: number = PREDICTED_STOCKOUT_HORIZON_MS
+): boolean => {
+  if (ratePerHour === undefined || product.count < product.threshold) return false;
+  const { timeToThresholdMs } = forecastProduct(product, ratePerHour, new Date(0).toISOString());
+  return timeToThresholdMs !== null && timeToThresholdMs <= horizonMs;
+};
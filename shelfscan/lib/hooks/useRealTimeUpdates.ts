@@ -1,47 +1,95 @@
 /**
  * Real-Time Updates Hook for ShelfScan AI
- * Simulates WebSocket connection with polling fallback for real-time shelf updates
+ * Connects to the scan WebSocket with reconnect/backoff and falls back to
+ * polling `/api/scans` (and `/api/rescans`) while the socket is down; the
+ * original WebSocket + polling simulator remains available as an opt-in mode.
+ * Live updates are for the selected store only and restart when it changes.
  */
 
-import { useEffect, useRef, useCallback } from 'react';
-import { useAppContext } from '../context/AppContext';
-import { ScanUpdate } from '../types';
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useAppContext, useStaffActions } from '../context/AppContext';
+import { fetchRescanTasks } from '../api/client';
+import { RealtimeMessage, RescanTask, ScanHistoryResponse, ScanUpdate } from '../types';
 import { 
   generateRandomScanUpdate, 
   applyScanUpdate, 
-  simulateShelfScan,
   simulateRestockProduct 
 } from '../mockData';
+import { withDepletionRates } from '../forecasting';
+import { STORE_QUERY_PARAM } from '../stores';
+
+type ConnectionStatus = 'connected' | 'polling' | 'simulated' | 'disconnected';
 
 interface UseRealTimeUpdatesConfig {
+  /** 'live' connects to the scan WebSocket, 'simulated' fabricates updates locally (default: 'live') */
+  mode?: 'live' | 'simulated';
+  /** WebSocket endpoint (default: `/api/ws` on the current host) */
+  wsUrl?: string;
+  /** Scan history endpoint polled while the socket is down (default: `/api/scans`) */
+  pollingUrl?: string;
+  /** Initial reconnect delay in milliseconds (default: 1000) */
+  reconnectBaseDelay?: number;
+  /** Upper bound for the reconnect delay in milliseconds (default: 30000) */
+  reconnectMaxDelay?: number;
   /** Polling interval in milliseconds (default: 5000) */
   pollingInterval?: number;
-  /** WebSocket simulation interval in milliseconds (default: 8000) */
+  /** WebSocket simulation interval in milliseconds, simulated mode only (default: 8000) */
   wsUpdateInterval?: number;
-  /** Probability of receiving an update via WebSocket (0-1, default: 0.3) */
+  /** Probability of receiving an update via WebSocket, simulated mode only (0-1, default: 0.3) */
   wsUpdateProbability?: number;
-  /** Probability of receiving an update via polling (0-1, default: 0.2) */
+  /** Probability of receiving an update via polling, simulated mode only (0-1, default: 0.2) */
   pollingUpdateProbability?: number;
   /** Enable debug logging */
   debug?: boolean;
 }
 
 interface UseRealTimeUpdatesReturn {
-  /** Manually request a rescan for a specific shelf */
-  requestRescan: (shelfId: string) => Promise<void>;
+  /** Queue a drone rescan task for a specific shelf (null if the request failed) */
+  requestRescan: (shelfId: string) => Promise<RescanTask | null>;
   /** Check if real-time updates are active */
   isConnected: boolean;
   /** Get the current connection status */
-  connectionStatus: 'connected' | 'polling' | 'disconnected';
+  connectionStatus: ConnectionStatus;
 }
 
+// ============================================================================
+// CONNECTION HELPERS
+// ============================================================================
+
+/**
+ * Default same-origin scan socket URL
+ */
+const getDefaultWebSocketUrl = (): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/api/ws`;
+};
+
+/**
+ * Add the store to an endpoint's query string
+ */
+const withStore = (url: string, storeId: string): string =>
+  `${url}${url.includes('?') ? '&' : '?'}${STORE_QUERY_PARAM}=${encodeURIComponent(storeId)}`;
+
 /**
- * Hook for managing real-time updates via simulated WebSocket with polling fallback
+ * Exponential backoff with jitter so a store full of tablets doesn't reconnect in lockstep
+ */
+const getReconnectDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+};
+
+/**
+ * Hook for managing real-time updates via the scan WebSocket (or the simulator)
  */
 export const useRealTimeUpdates = (
   config: UseRealTimeUpdatesConfig = {}
 ): UseRealTimeUpdatesReturn => {
   const {
+    mode = 'live',
+    wsUrl,
+    pollingUrl = '/api/scans',
+    reconnectBaseDelay = 1000,
+    reconnectMaxDelay = 30000,
     pollingInterval = 5000,
     wsUpdateInterval = 8000,
     wsUpdateProbability = 0.3,
@@ -50,10 +98,26 @@ export const useRealTimeUpdates = (
   } = config;
 
   const { state, dispatch } = useAppContext();
+  const { requestRescan } = useStaffActions();
+  const storeId = state.currentStoreId;
+  const storeIdRef = useRef(storeId);
+  const shelvesRef = useRef(state.shelves);
   const wsSimulationRef = useRef<NodeJS.Timeout | null>(null);
   const pollingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isConnectedRef = useRef(false);
-  const connectionStatusRef = useRef<'connected' | 'polling' | 'disconnected'>('disconnected');
+  const cursorRef = useRef<number | null>(null);
+  // Scan cursors count per store, so the cursor is only good for this store
+  const cursorStoreRef = useRef<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+
+  // Keep the latest shelves available to socket/timer callbacks without reconnecting
+  useEffect(() => {
+    shelvesRef.current = state.shelves;
+  }, [state.shelves]);
+
+  useEffect(() => {
+    storeIdRef.current = storeId;
+  }, [storeId]);
 
   const log = useCallback((message: string, data?: unknown) => {
     if (debug) {
@@ -62,27 +126,40 @@ export const useRealTimeUpdates = (
   }, [debug]);
 
   // Process incoming updates and integrate with application state
-  const handleUpdate = useCallback((update: ScanUpdate, source: 'websocket' | 'polling') => {
+  // `depletionRates` are the shelf's rates the server learned from this scan
+  const handleUpdate = useCallback((
+    update: ScanUpdate,
+    source: 'websocket' | 'polling',
+    depletionRates?: Record<string, number>
+  ) => {
     log(`${source} update received`, update);
+
+    // A scan from another store never touches this store's shelves
+    if (update.storeId !== undefined && update.storeId !== storeIdRef.current) {
+      log(`Ignoring scan for store ${update.storeId}`);
+      return;
+    }
     
     // Find the shelf to update
-    const shelfToUpdate = state.shelves.find(s => s.id === update.shelf);
+    const shelfToUpdate = shelvesRef.current.find(s => s.id === update.shelf);
     if (!shelfToUpdate) {
       log(`Shelf ${update.shelf} not found`);
       return;
     }
 
     // Apply the scan update to create updated shelf
-    const updatedShelf = applyScanUpdate(shelfToUpdate, update);
+    const scannedShelf = applyScanUpdate(shelfToUpdate, update);
+    const updatedShelf = depletionRates ? withDepletionRates(scannedShelf, depletionRates) : scannedShelf;
     
-    // Dispatch the update to state
+    // Dispatch the update to state (and keep the ref current for batched updates)
     dispatch({ type: 'UPDATE_SHELF', payload: updatedShelf });
+    shelvesRef.current = shelvesRef.current.map(s => s.id === updatedShelf.id ? updatedShelf : s);
 
     // Show UI notification for significant changes
     if (updatedShelf.status !== shelfToUpdate.status) {
       log(`Shelf ${update.shelf} status changed: ${shelfToUpdate.status} → ${updatedShelf.status}`);
     }
-  }, [state.shelves, dispatch, log]);
+  }, [dispatch, log]);
 
   // Simulate WebSocket connection and periodic updates
   const setupWebSocketSimulation = useCallback(() => {
@@ -90,17 +167,17 @@ export const useRealTimeUpdates = (
     
     wsSimulationRef.current = setInterval(() => {
       if (Math.random() < wsUpdateProbability) {
-        const randomUpdate = generateRandomScanUpdate(state.shelves);
+        const randomUpdate = generateRandomScanUpdate(shelvesRef.current);
         if (randomUpdate) {
           handleUpdate(randomUpdate, 'websocket');
         }
       }
     }, wsUpdateInterval);
 
-    connectionStatusRef.current = 'connected';
+    setConnectionStatus('simulated');
     isConnectedRef.current = true;
     log('WebSocket simulation started');
-  }, [wsUpdateInterval, wsUpdateProbability, state.shelves, handleUpdate, log]);
+  }, [wsUpdateInterval, wsUpdateProbability, handleUpdate, log]);
 
   // Setup polling fallback mechanism
   const setupPolling = useCallback(() => {
@@ -112,18 +189,15 @@ export const useRealTimeUpdates = (
       log('Polling for updates...');
       
       if (Math.random() < pollingUpdateProbability) {
-        const randomUpdate = generateRandomScanUpdate(state.shelves);
+        const randomUpdate = generateRandomScanUpdate(shelvesRef.current);
         if (randomUpdate) {
           handleUpdate(randomUpdate, 'polling');
         }
       }
     }, pollingInterval);
 
-    if (!isConnectedRef.current) {
-      connectionStatusRef.current = 'polling';
-    }
     log('Polling started');
-  }, [pollingInterval, pollingUpdateProbability, state.shelves, handleUpdate, log]);
+  }, [pollingInterval, pollingUpdateProbability, handleUpdate, log]);
 
   // Stop polling
   const stopPolling = useCallback(() => {
@@ -144,40 +218,184 @@ export const useRealTimeUpdates = (
     }
   }, [log]);
 
-  // Manual rescan functionality
-  const requestRescan = useCallback(async (shelfId: string): Promise<void> => {
-    log(`Manual rescan requested for shelf ${shelfId}`);
-    
-    // Set loading state
-    dispatch({ type: 'FETCH_SHELVES_START' });
-    
-    try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Find the shelf to rescan
-      const shelfToRescan = state.shelves.find(s => s.id === shelfId);
-      if (!shelfToRescan) {
-        throw new Error(`Shelf ${shelfId} not found`);
-      }
+  // Live mode: connect to the scan WebSocket and reconnect with backoff,
+  // polling the scan history endpoint until the socket is back
+  useEffect(() => {
+    if (mode !== 'live' || storeId === null) return;
 
-      // Simulate a fresh scan
-      const scanUpdate = simulateShelfScan(shelfToRescan);
-      const updatedShelf = applyScanUpdate(shelfToRescan, scanUpdate);
-      
-      // Update the shelf in state
-      dispatch({ type: 'UPDATE_SHELF', payload: updatedShelf });
-      
-      log(`Manual rescan completed for shelf ${shelfId}`, updatedShelf);
-    } catch (error) {
-      log(`Manual rescan failed for shelf ${shelfId}`, error);
-      dispatch({ type: 'FETCH_SHELVES_ERROR', payload: `Failed to rescan shelf ${shelfId}` });
+    if (cursorStoreRef.current !== storeId) {
+      cursorStoreRef.current = storeId;
+      cursorRef.current = null;
     }
-  }, [state.shelves, dispatch, log]);
 
-  // Initialize real-time updates on mount
-  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let pollTimer: NodeJS.Timeout | null = null;
+    let attempt = 0;
+    let disposed = false;
+    let catchUpInFlight = false;
+
+    // Apply a logged scan exactly once, in cursor order
+    const applyRecordedScan = (
+      update: ScanUpdate,
+      cursor: number,
+      source: 'websocket' | 'polling',
+      depletionRates?: Record<string, number>
+    ) => {
+      if (cursorRef.current !== null && cursor <= cursorRef.current) {
+        log(`Skipping duplicate scan #${cursor}`);
+        return;
+      }
+      cursorRef.current = cursor;
+      handleUpdate(update, source, depletionRates);
+    };
+
+    // Fetch everything recorded since our cursor; resolves false if the server is unreachable
+    const catchUp = async (): Promise<boolean> => {
+      if (catchUpInFlight) return true;
+      catchUpInFlight = true;
+
+      try {
+        const url = withStore(pollingUrl, storeId);
+        const query = cursorRef.current === null ? '' : `&since=${cursorRef.current}`;
+        const response = await fetch(`${url}${query}`, { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`Scan history request failed: ${response.status}`);
+        }
+
+        const { scans, cursor }: ScanHistoryResponse = await response.json();
+        if (disposed) return true;
+
+        scans.forEach(record => applyRecordedScan(record.update, record.seq, 'polling', record.depletionRates));
+        cursorRef.current = Math.max(cursorRef.current ?? 0, cursor);
+
+        // Rescan task changes aren't in the scan log; resync them wholesale
+        const rescanTasks = await fetchRescanTasks();
+        if (!disposed) dispatch({ type: 'SET_RESCAN_TASKS', payload: rescanTasks });
+        return true;
+      } catch (error) {
+        log('Polling failed', error);
+        return false;
+      } finally {
+        catchUpInFlight = false;
+      }
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      log('Socket down, polling for updates...');
+
+      const poll = async () => {
+        const ok = await catchUp();
+        if (disposed || isConnectedRef.current) return;
+        setConnectionStatus(ok ? 'polling' : 'disconnected');
+      };
+
+      poll();
+      pollTimer = setInterval(poll, pollingInterval);
+    };
+
+    const stopPollingTimer = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+        log('Polling stopped');
+      }
+    };
+
+    const scheduleReconnect = () => {
+      const delay = getReconnectDelay(attempt++, reconnectBaseDelay, reconnectMaxDelay);
+      log(`Reconnecting in ${delay}ms (attempt ${attempt})`);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      const url = withStore(wsUrl ?? getDefaultWebSocketUrl(), storeId);
+      log(`Connecting to ${url}...`);
+      socket = new WebSocket(url);
+
+      socket.onopen = () => {
+        attempt = 0;
+        isConnectedRef.current = true;
+        setConnectionStatus('connected');
+        stopPollingTimer();
+        log('WebSocket connected');
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        let message: RealtimeMessage;
+        try {
+          message = JSON.parse(String(event.data));
+        } catch {
+          log('Ignoring malformed message', event.data);
+          return;
+        }
+
+        switch (message.type) {
+          case 'hello':
+            // A cursor behind ours means the server's scan log was reset
+            if (cursorRef.current !== null && message.payload.cursor < cursorRef.current) {
+              cursorRef.current = message.payload.cursor;
+            }
+            // Pick up anything recorded while we were away (or just learn the cursor)
+            if (cursorRef.current === null || message.payload.cursor > cursorRef.current) {
+              catchUp();
+            }
+            break;
+          case 'scan':
+            if (message.cursor === undefined) {
+              handleUpdate(message.payload, 'websocket', message.depletionRates);
+            } else if (cursorRef.current !== null && message.cursor > cursorRef.current + 1) {
+              // We missed broadcasts; replay the gap from the log in order
+              catchUp();
+            } else {
+              applyRecordedScan(message.payload, message.cursor, 'websocket', message.depletionRates);
+            }
+            break;
+          case 'rescan':
+            log(`Rescan task ${message.payload.id} is ${message.payload.status}`);
+            dispatch({ type: 'UPSERT_RESCAN_TASK', payload: message.payload });
+            break;
+          case 'error':
+            log('Server reported an error', message.payload.message);
+            break;
+        }
+      };
+
+      socket.onerror = () => {
+        // The browser follows every error with a close event; reconnect happens there
+        log('WebSocket error');
+      };
+
+      socket.onclose = () => {
+        socket = null;
+        isConnectedRef.current = false;
+        if (disposed) return;
+
+        startPolling();
+        scheduleReconnect();
+      };
+    };
+
     log('Initializing real-time updates...');
+    connect();
+
+    return () => {
+      log('Cleaning up real-time updates...');
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopPollingTimer();
+      socket?.close();
+      isConnectedRef.current = false;
+      setConnectionStatus('disconnected');
+    };
+  }, [mode, storeId, wsUrl, pollingUrl, pollingInterval, reconnectBaseDelay, reconnectMaxDelay, handleUpdate, dispatch, log]);
+
+  // Simulated mode: fabricate WebSocket and polling updates locally
+  useEffect(() => {
+    if (mode !== 'simulated') return;
+
+    log('Initializing simulated real-time updates...');
     
     // Start WebSocket simulation
     setupWebSocketSimulation();
@@ -187,17 +405,17 @@ export const useRealTimeUpdates = (
     
     // Cleanup on unmount
     return () => {
-      log('Cleaning up real-time updates...');
+      log('Cleaning up simulated real-time updates...');
       stopWebSocketSimulation();
       stopPolling();
-      connectionStatusRef.current = 'disconnected';
+      setConnectionStatus('disconnected');
     };
-  }, [setupWebSocketSimulation, setupPolling, stopWebSocketSimulation, stopPolling, log]);
+  }, [mode, setupWebSocketSimulation, setupPolling, stopWebSocketSimulation, stopPolling, log]);
 
   return {
     requestRescan,
-    isConnected: isConnectedRef.current,
-    connectionStatus: connectionStatusRef.current
+    isConnected: connectionStatus === 'connected',
+    connectionStatus
   };
 };
 
@@ -218,10 +436,10 @@ export const useRealTimeSimulation = () => {
     }
   }, [state.shelves, dispatch]);
 
-  const simulateRestock = useCallback((shelfId: string, productName: string) => {
+  const simulateRestock = useCallback((shelfId: string, sku: string) => {
     const shelf = state.shelves.find(s => s.id === shelfId);
     if (shelf) {
-      const restockedShelf = simulateRestockProduct(shelf, productName);
+      const restockedShelf = simulateRestockProduct(shelf, sku);
       dispatch({ type: 'UPDATE_SHELF', payload: restockedShelf });
     }
   }, [state.shelves, dispatch]);
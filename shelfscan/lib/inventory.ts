@@ -0,0 +1,127 @@
+/**
+ * Inventory Operations for ShelfScan AI
+ * Pure shelf and alert transformations shared by the client reducer and the
+ * server API routes, so both sides apply staff actions identically.
+ */
+
+import { Alert, Product, RestockAmount, RestockEvent, Shelf } from './types';
+import { isActiveAlert, transitionAlert } from './alertLifecycle';
+import { getAlertCondition } from './alertEngine';
+
+/**
+ * Par level as a multiple of the product's threshold ("fill to par" target)
+ */
+export const PAR_LEVEL_MULTIPLIER = 2;
+
+/**
+ * Determines shelf status based on product inventory levels
+ */
+export function determineShelfStatus(products: Product[]): 'ok' | 'low' | 'empty' {
+  const emptyProducts = products.filter(p => p.count === 0);
+  const lowProducts = products.filter(p => p.count > 0 && p.count < p.threshold);
+  
+  if (emptyProducts.length > 0) return 'empty';
+  if (lowProducts.length > 0) return 'low';
+  return 'ok';
+}
+
+/**
+ * Recompute a shelf's status from its current product counts
+ */
+export function withDerivedStatus(shelf: Shelf): Shelf {
+  return { ...shelf, status: determineShelfStatus(shelf.items) };
+}
+
+/**
+ * Count a fully stocked slot holds
+ */
+export function getParLevel(product: Product): number {
+  return product.threshold * PAR_LEVEL_MULTIPLIER;
+}
+
+/**
+ * Units that fill a product's slot to par (0 when it is already at par)
+ */
+export function getFillToParQuantity(product: Product): number {
+  return Math.max(0, getParLevel(product) - product.count);
+}
+
+/**
+ * Build the restock event for adding `amount` of a product (by SKU) to a shelf
+ * Returns null when the product isn't on the shelf. Filling to par a slot
+ * that is already at par yields a quantity of 0.
+ */
+export function createRestockEvent(
+  shelf: Shelf,
+  sku: string,
+  amount: RestockAmount,
+  actor: { by: string; at?: string }
+): RestockEvent | null {
+  const product = shelf.items.find(item => item.sku === sku);
+  if (!product) return null;
+
+  const fillToPar = 'fillToPar' in amount;
+  const quantity = fillToPar ? getFillToParQuantity(product) : amount.quantity;
+  const timestamp = actor.at ?? new Date().toISOString();
+  const slug = sku.replace(/\s+/g, '-').toLowerCase();
+
+  return {
+    id: `restock-${shelf.id}-${slug}-${new Date(timestamp).getTime().toString(36)}`,
+    storeId: shelf.storeId,
+    shelf: shelf.id,
+    sku,
+    product: product.product,
+    quantity,
+    previousCount: product.count,
+    newCount: product.count + quantity,
+    fillToPar,
+    by: actor.by,
+    timestamp
+  };
+}
+
+/**
+ * Apply a restock event to its shelf and recompute the shelf's status
+ */
+export function applyRestock(shelf: Shelf, restock: RestockEvent): Shelf {
+  return withDerivedStatus({
+    ...shelf,
+    items: shelf.items.map(product =>
+      product.sku === restock.sku
+        ? { ...product, count: restock.newCount }
+        : product
+    )
+  });
+}
+
+/**
+ * Resolve the active alerts raised for a specific product (by SKU) on a shelf
+ */
+export function resolveProductAlerts(
+  alerts: Alert[],
+  shelfId: string,
+  sku: string,
+  transition: { by: string; at?: string; note?: string }
+): Alert[] {
+  return alerts.map(alert =>
+    alert.shelf === shelfId && alert.sku === sku && isActiveAlert(alert)
+      ? transitionAlert(alert, 'resolved', transition)
+      : alert
+  );
+}
+
+/**
+ * Resolve a restocked product's alerts on behalf of the restocker, but only
+ * if `shelf` (already restocked) has the product back at threshold
+ * A partial restock leaves them to the alert engine, which downgrades empty to low.
+ */
+export function resolveRestockedAlerts(alerts: Alert[], shelf: Shelf, restock: RestockEvent): Alert[] {
+  const product = shelf.items.find(item => item.sku === restock.sku);
+  if (!product || getAlertCondition(product, shelf.depletionRates?.[restock.sku]) !== null) return alerts;
+
+  return resolveProductAlerts(alerts, shelf.id, restock.sku, {
+    by: restock.by,
+    at: restock.timestamp,
+    note: `Restocked ${restock.quantity} units`
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Inventory Utilities
+ *
+ * Store-wide product aggregation for the Inventory page: sums each SKU
+ * over every shelf it is on, grades its coverage against threshold, and
+ * filters and sorts the result in the same way as the alert utilities.
+ */
+
+import { CatalogProduct, ProductInventory, ProductLocation, Shelf, StockCoverageLevel } from './types';
+import { PAR_LEVEL_MULTIPLIER } from './inventory';
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Grade a coverage ratio (units / threshold)
+ */
+export const getCoverageLevel = (totalCount: number, coverage: number): StockCoverageLevel => {
+  if (totalCount === 0) return 'out';
+  if (coverage < 1) return 'low';
+  if (coverage < PAR_LEVEL_MULTIPLIER) return 'ok';
+  return 'par';
+};
+
+/**
+ * Status of a single location, using the same rules as shelf status
+ */
+export const getLocationStatus = (location: ProductLocation): 'ok' | 'low' | 'empty' => {
+  if (location.count === 0) return 'empty';
+  if (location.count < location.threshold) return 'low';
+  return 'ok';
+};
+
+/**
+ * Sum every product over the shelves it is on
+ * Names and categories come from the catalog when it has the SKU.
+ */
+export const aggregateInventory = (shelves: Shelf[], catalog: CatalogProduct[] = []): ProductInventory[] => {
+  const catalogBySku = new Map(catalog.map(entry => [entry.sku, entry]));
+  const locationsBySku = new Map<string, { product: string; locations: ProductLocation[] }>();
+
+  shelves.forEach(shelf => shelf.items.forEach(item => {
+    const entry = locationsBySku.get(item.sku) ?? { product: item.product, locations: [] };
+    entry.locations.push({
+      shelf: shelf.id,
+      aisle: shelf.aisle,
+      count: item.count,
+      threshold: item.threshold,
+      lastScanned: shelf.lastScanned
+    });
+    locationsBySku.set(item.sku, entry);
+  }));
+
+  return [...locationsBySku].map(([sku, { product, locations }]) => {
+    const totalCount = locations.reduce((sum, location) => sum + location.count, 0);
+    const totalThreshold = locations.reduce((sum, location) => sum + location.threshold, 0);
+    const coverage = totalThreshold > 0 ? totalCount / totalThreshold : 0;
+    const catalogEntry = catalogBySku.get(sku);
+
+    return {
+      sku,
+      product: catalogEntry?.name ?? product,
+      ...(catalogEntry?.category !== undefined && { category: catalogEntry.category }),
+      totalCount,
+      totalThreshold,
+      coverage,
+      coverageLevel: getCoverageLevel(totalCount, coverage),
+      locations: [...locations].sort((a, b) => a.shelf.localeCompare(b.shelf))
+    };
+  });
+};
+
+// ============================================================================
+// SORTING FUNCTIONS
+// ============================================================================
+
+/**
+ * Sort products by coverage (worst stocked first)
+ */
+export const sortInventoryByCoverage = (items: ProductInventory[]): ProductInventory[] => {
+  return [...items].sort((a, b) => a.coverage - b.coverage || a.product.localeCompare(b.product));
+};
+
+/**
+ * Sort products by units on hand (most first)
+ */
+export const sortInventoryByCount = (items: ProductInventory[]): ProductInventory[] => {
+  return [...items].sort((a, b) => b.totalCount - a.totalCount || a.product.localeCompare(b.product));
+};
+
+/**
+ * Sort products by number of locations (most first)
+ */
+export const sortInventoryByLocations = (items: ProductInventory[]): ProductInventory[] => {
+  return [...items].sort((a, b) => b.locations.length - a.locations.length || a.product.localeCompare(b.product));
+};
+
+/**
+ * Sort products by name
+ */
+export const sortInventoryByProduct = (items: ProductInventory[]): ProductInventory[] => {
+  return [...items].sort((a, b) => a.product.localeCompare(b.product));
+};
+
+// ============================================================================
+// FILTERING FUNCTIONS
+// ============================================================================
+
+/**
+ * Filter products by coverage level
+ */
+export const filterInventoryByCoverage = (
+  items: ProductInventory[],
+  levels: StockCoverageLevel[] | 'all'
+): ProductInventory[] => {
+  if (levels === 'all') return items;
+  return items.filter(item => levels.includes(item.coverageLevel));
+};
+
+/**
+ * Filter products by catalog category
+ */
+export const filterInventoryByCategory = (items: ProductInventory[], category: string): ProductInventory[] => {
+  if (category === 'all') return items;
+  return items.filter(item => item.category === category);
+};
+
+/**
+ * Filter products by search term (name, SKU, or a shelf they are on)
+ */
+export const filterInventoryBySearch = (items: ProductInventory[], searchTerm: string): ProductInventory[] => {
+  if (!searchTerm.trim()) return items;
+
+  const search = searchTerm.toLowerCase();
+  return items.filter(item =>
+    item.product.toLowerCase().includes(search) ||
+    item.sku.toLowerCase().includes(search) ||
+    item.locations.some(location => location.shelf.toLowerCase().includes(search))
+  );
+};
+
+/**
+ * Keep products with at least one empty location, even if stock elsewhere covers them
+ */
+export const filterInventoryWithEmptyLocations = (items: ProductInventory[]): ProductInventory[] => {
+  return items.filter(item => item.locations.some(location => getLocationStatus(location) === 'empty'));
+};
+
+// ============================================================================
+// COMBINED FILTERING & SORTING
+// ============================================================================
+
+export interface InventoryFilterOptions {
+  coverage?: 'all' | StockCoverageLevel[];
+  category?: string;
+  search?: string;
+  emptyLocationsOnly?: boolean;
+  sortBy?: 'coverage' | 'count' | 'locations' | 'product';
+}
+
+/**
+ * Apply comprehensive filtering and sorting to aggregated products
+ */
+export const processInventory = (
+  items: ProductInventory[],
+  options: InventoryFilterOptions = {}
+): ProductInventory[] => {
+  let result = [...items];
+
+  // Apply filters
+  if (options.coverage && options.coverage !== 'all') {
+    result = filterInventoryByCoverage(result, options.coverage);
+  }
+
+  if (options.category && options.category !== 'all') {
+    result = filterInventoryByCategory(result, options.category);
+  }
+
+  if (options.search) {
+    result = filterInventoryBySearch(result, options.search);
+  }
+
+  if (options.emptyLocationsOnly) {
+    result = filterInventoryWithEmptyLocations(result);
+  }
+
+  // Apply sorting
+  switch (options.sortBy) {
+    case 'count':
+      result = sortInventoryByCount(result);
+      break;
+    case 'locations':
+      result = sortInventoryByLocations(result);
+      break;
+    case 'product':
+      result = sortInventoryByProduct(result);
+      break;
+    case 'coverage':
+    default:
+      result = sortInventoryByCoverage(result);
+      break;
+  }
+
+  return result;
+};
+
+// ============================================================================
+// INVENTORY STATISTICS
+// ============================================================================
+
+/**
+ * Get store-wide inventory statistics
+ */
+export const getInventoryStats = (items: ProductInventory[]) => {
+  const byCoverage = (['out', 'low', 'ok', 'par'] as const).reduce((acc, level) => {
+    acc[level] = items.filter(item => item.coverageLevel === level).length;
+    return acc;
+  }, {} as Record<StockCoverageLevel, number>);
+
+  return {
+    products: items.length,
+    units: items.reduce((sum, item) => sum + item.totalCount, 0),
+    locations: items.reduce((sum, item) => sum + item.locations.length, 0),
+    withEmptyLocations: filterInventoryWithEmptyLocations(items).length,
+    byCoverage
+  };
+};
@@ -3,32 +3,70 @@
  * Provides realistic retail inventory data for development and demo
  */
 
-import { Shelf, Alert, Product, ScanUpdate, DemoEvent } from './types';
+import { Shelf, Alert, CatalogProduct, Product, ScanUpdate, DemoEvent } from './types';
+import { determineShelfStatus } from './inventory';
+import { createAlert, DEFAULT_STAFF_ACTOR, isActiveAlert, transitionAlert } from './alertLifecycle';
+import { estimateDepletionRate, isStockoutPredicted } from './forecasting';
+import { DEFAULT_STORE_ID } from './stores';
 
 // ============================================================================
 // REALISTIC RETAIL DATA CONSTANTS
 // ============================================================================
 
-const PRODUCT_NAMES = [
+/**
+ * Demo product catalog; SKUs match `createSku` of the name, so stores saved
+ * before the catalog existed migrate onto the same entries
+ */
+export const DEMO_CATALOG: CatalogProduct[] = [
   // Personal Care
-  'Dove Soap 100g', 'Colgate Toothpaste', 'Head & Shoulders Shampoo', 'Gillette Razor',
-  'Nivea Lotion', 'Oral-B Toothbrush', 'Pantene Conditioner', 'Deodorant Spray',
-  
+  { sku: 'DOVE-SOAP-100G', name: 'Dove Soap 100g', upc: '036001100371', brand: 'Dove', category: 'Personal Care', packSize: '100g', unitCost: 1.20 },
+  { sku: 'COLGATE-TOOTHPASTE', name: 'Colgate Toothpaste', upc: '036002100745', brand: 'Colgate', category: 'Personal Care', packSize: '120ml', unitCost: 2.10 },
+  { sku: 'HEAD-SHOULDERS-SHAMPOO', name: 'Head & Shoulders Shampoo', upc: '036003101116', brand: 'Head & Shoulders', category: 'Personal Care', packSize: '400ml', unitCost: 4.80 },
+  { sku: 'GILLETTE-RAZOR', name: 'Gillette Razor', upc: '036004101481', brand: 'Gillette', category: 'Personal Care', packSize: '4 ct', unitCost: 7.50 },
+  { sku: 'NIVEA-LOTION', name: 'Nivea Lotion', upc: '036005101855', brand: 'Nivea', category: 'Personal Care', packSize: '400ml', unitCost: 5.20 },
+  { sku: 'ORAL-B-TOOTHBRUSH', name: 'Oral-B Toothbrush', upc: '036006102226', brand: 'Oral-B', category: 'Personal Care', packSize: '2 ct', unitCost: 3.40 },
+  { sku: 'PANTENE-CONDITIONER', name: 'Pantene Conditioner', upc: '036007102591', brand: 'Pantene', category: 'Personal Care', packSize: '360ml', unitCost: 4.10 },
+  { sku: 'DEODORANT-SPRAY', name: 'Deodorant Spray', upc: '036008102965', category: 'Personal Care', packSize: '150ml', unitCost: 2.60 },
+
   // Food & Beverages
-  'Coca-Cola 12-pack', 'Lay\'s Chips', 'Oreo Cookies', 'Pringles Original',
-  'Red Bull Energy', 'Nestle Water 6-pack', 'Kit Kat Bar', 'Doritos Nacho',
-  
+  { sku: 'COCA-COLA-12-PACK', name: 'Coca-Cola 12-pack', upc: '036009103336', brand: 'Coca-Cola', category: 'Food & Beverages', packSize: '12 x 355ml', unitCost: 5.90 },
+  { sku: 'LAY-S-CHIPS', name: 'Lay\'s Chips', upc: '036010103707', brand: 'Lay\'s', category: 'Food & Beverages', packSize: '235g', unitCost: 2.40 },
+  { sku: 'OREO-COOKIES', name: 'Oreo Cookies', upc: '036011104079', brand: 'Oreo', category: 'Food & Beverages', packSize: '303g', unitCost: 2.70 },
+  { sku: 'PRINGLES-ORIGINAL', name: 'Pringles Original', upc: '036012104443', brand: 'Pringles', category: 'Food & Beverages', packSize: '158g', unitCost: 1.90 },
+  { sku: 'RED-BULL-ENERGY', name: 'Red Bull Energy', upc: '036013104817', brand: 'Red Bull', category: 'Food & Beverages', packSize: '250ml', unitCost: 1.60 },
+  { sku: 'NESTLE-WATER-6-PACK', name: 'Nestle Water 6-pack', upc: '036014105189', brand: 'Nestle', category: 'Food & Beverages', packSize: '6 x 500ml', unitCost: 2.30 },
+  { sku: 'KIT-KAT-BAR', name: 'Kit Kat Bar', upc: '036015105553', brand: 'Kit Kat', category: 'Food & Beverages', packSize: '45g', unitCost: 0.60 },
+  { sku: 'DORITOS-NACHO', name: 'Doritos Nacho', upc: '036016105927', brand: 'Doritos', category: 'Food & Beverages', packSize: '262g', unitCost: 2.50 },
+
   // Household
-  'Tide Detergent', 'Bounty Paper Towels', 'Charmin Toilet Paper', 'Dawn Dish Soap',
-  'Lysol Spray', 'Febreze Air Fresh', 'Glad Trash Bags', 'Swiffer Pads',
-  
+  { sku: 'TIDE-DETERGENT', name: 'Tide Detergent', upc: '036017106299', brand: 'Tide', category: 'Household', packSize: '2.72L', unitCost: 9.80 },
+  { sku: 'BOUNTY-PAPER-TOWELS', name: 'Bounty Paper Towels', upc: '036018106663', brand: 'Bounty', category: 'Household', packSize: '6 rolls', unitCost: 8.20 },
+  { sku: 'CHARMIN-TOILET-PAPER', name: 'Charmin Toilet Paper', upc: '036019107034', brand: 'Charmin', category: 'Household', packSize: '12 rolls', unitCost: 9.10 },
+  { sku: 'DAWN-DISH-SOAP', name: 'Dawn Dish Soap', upc: '036020107405', brand: 'Dawn', category: 'Household', packSize: '709ml', unitCost: 2.90 },
+  { sku: 'LYSOL-SPRAY', name: 'Lysol Spray', upc: '036021107770', brand: 'Lysol', category: 'Household', packSize: '538g', unitCost: 4.70 },
+  { sku: 'FEBREZE-AIR-FRESH', name: 'Febreze Air Fresh', upc: '036022108141', brand: 'Febreze', category: 'Household', packSize: '250g', unitCost: 3.10 },
+  { sku: 'GLAD-TRASH-BAGS', name: 'Glad Trash Bags', upc: '036023108515', brand: 'Glad', category: 'Household', packSize: '40 ct', unitCost: 7.40 },
+  { sku: 'SWIFFER-PADS', name: 'Swiffer Pads', upc: '036024108880', brand: 'Swiffer', category: 'Household', packSize: '24 ct', unitCost: 6.30 },
+
   // Health & Wellness
-  'Tylenol 100ct', 'Vitamin C 60ct', 'Band-Aid Pack', 'Ibuprofen 200mg',
-  'Cough Drops', 'Hand Sanitizer', 'First Aid Kit', 'Thermometer',
-  
+  { sku: 'TYLENOL-100CT', name: 'Tylenol 100ct', upc: '036025109251', brand: 'Tylenol', category: 'Health & Wellness', packSize: '100 ct', unitCost: 8.90 },
+  { sku: 'VITAMIN-C-60CT', name: 'Vitamin C 60ct', upc: '036026109625', category: 'Health & Wellness', packSize: '60 ct', unitCost: 4.20 },
+  { sku: 'BAND-AID-PACK', name: 'Band-Aid Pack', upc: '036027109990', brand: 'Band-Aid', category: 'Health & Wellness', packSize: '30 ct', unitCost: 3.30 },
+  { sku: 'IBUPROFEN-200MG', name: 'Ibuprofen 200mg', upc: '036028110360', category: 'Health & Wellness', packSize: '50 ct', unitCost: 3.80 },
+  { sku: 'COUGH-DROPS', name: 'Cough Drops', upc: '036029110734', category: 'Health & Wellness', packSize: '30 ct', unitCost: 2.20 },
+  { sku: 'HAND-SANITIZER', name: 'Hand Sanitizer', upc: '036030111102', category: 'Health & Wellness', packSize: '236ml', unitCost: 2.10 },
+  { sku: 'FIRST-AID-KIT', name: 'First Aid Kit', upc: '036031111477', category: 'Health & Wellness', packSize: '1 kit', unitCost: 11.50 },
+  { sku: 'THERMOMETER', name: 'Thermometer', upc: '036032111841', category: 'Health & Wellness', packSize: '1 unit', unitCost: 8.40 },
+
   // Electronics & Accessories
-  'Phone Charger', 'AA Batteries 8-pack', 'USB Cable', 'Earbuds',
-  'Phone Case', 'Screen Protector', 'Power Bank', 'Car Charger'
+  { sku: 'PHONE-CHARGER', name: 'Phone Charger', upc: '036033112212', category: 'Electronics & Accessories', packSize: '1 unit', unitCost: 9.90 },
+  { sku: 'AA-BATTERIES-8-PACK', name: 'AA Batteries 8-pack', upc: '036034112587', category: 'Electronics & Accessories', packSize: '8 ct', unitCost: 6.10 },
+  { sku: 'USB-CABLE', name: 'USB Cable', upc: '036035112951', category: 'Electronics & Accessories', packSize: '1m', unitCost: 4.50 },
+  { sku: 'EARBUDS', name: 'Earbuds', upc: '036036113322', category: 'Electronics & Accessories', packSize: '1 pair', unitCost: 12.00 },
+  { sku: 'PHONE-CASE', name: 'Phone Case', upc: '036037113697', category: 'Electronics & Accessories', packSize: '1 unit', unitCost: 7.20 },
+  { sku: 'SCREEN-PROTECTOR', name: 'Screen Protector', upc: '036038114068', category: 'Electronics & Accessories', packSize: '2 ct', unitCost: 5.40 },
+  { sku: 'POWER-BANK', name: 'Power Bank', upc: '036039114432', category: 'Electronics & Accessories', packSize: '10000mAh', unitCost: 16.80 },
+  { sku: 'CAR-CHARGER', name: 'Car Charger', upc: '036040114803', category: 'Electronics & Accessories', packSize: '1 unit', unitCost: 8.60 }
 ];
 
 const AISLE_LETTERS = ['A', 'B', 'C', 'D', 'E'];
@@ -50,7 +88,7 @@ const PRODUCT_THRESHOLDS = {
  * Generates a random product with realistic name, count, and threshold
  */
 function generateRandomProduct(): Product {
-  const productName = PRODUCT_NAMES[Math.floor(Math.random() * PRODUCT_NAMES.length)];
+  const { sku, name: productName } = DEMO_CATALOG[Math.floor(Math.random() * DEMO_CATALOG.length)];
   
   // Determine threshold based on product type (heuristic)
   let threshold = PRODUCT_THRESHOLDS.medium; // default
@@ -66,6 +104,7 @@ function generateRandomProduct(): Product {
   const count = generateRealisticCount(threshold);
   
   return {
+    sku,
     product: productName,
     count,
     threshold
@@ -84,32 +123,20 @@ function generateRealisticCount(threshold: number): number {
   return threshold + Math.floor(Math.random() * 20); // 20% chance of overstocked
 }
 
-/**
- * Determines shelf status based on product inventory levels
- */
-function determineShelfStatus(products: Product[]): 'ok' | 'low' | 'empty' {
-  const emptyProducts = products.filter(p => p.count === 0);
-  const lowProducts = products.filter(p => p.count > 0 && p.count < p.threshold);
-  
-  if (emptyProducts.length > 0) return 'empty';
-  if (lowProducts.length > 0) return 'low';
-  return 'ok';
-}
-
 /**
  * Generates a single shelf with realistic data
  */
-function generateShelf(id: string, aisle: string): Shelf {
+function generateShelf(id: string, aisle: string, storeId: string): Shelf {
   // Generate 3-6 products per shelf
   const productCount = 3 + Math.floor(Math.random() * 4);
   const products: Product[] = [];
   
-  // Ensure unique product names per shelf
-  const usedNames = new Set<string>();
+  // Ensure unique products per shelf
+  const usedSkus = new Set<string>();
   while (products.length < productCount) {
     const product = generateRandomProduct();
-    if (!usedNames.has(product.product)) {
-      usedNames.add(product.product);
+    if (!usedSkus.has(product.sku)) {
+      usedSkus.add(product.sku);
       products.push(product);
     }
   }
@@ -122,6 +149,7 @@ function generateShelf(id: string, aisle: string): Shelf {
   
   return {
     id,
+    storeId,
     aisle,
     items: products,
     status,
@@ -134,7 +162,7 @@ function generateShelf(id: string, aisle: string): Shelf {
 /**
  * Generates the complete set of mock shelves (15 shelves total)
  */
-export function generateMockShelves(): Shelf[] {
+export function generateMockShelves(storeId: string = DEFAULT_STORE_ID): Shelf[] {
   const shelves: Shelf[] = [];
   
   // Generate shelves across different aisles
@@ -142,7 +170,7 @@ export function generateMockShelves(): Shelf[] {
     for (let i = 0; i < 3; i++) { // 3 shelves per aisle
       const shelfNumber = SHELF_NUMBERS[i];
       const shelfId = `${aisle}${shelfNumber}`;
-      shelves.push(generateShelf(shelfId, `Aisle ${aisle}`));
+      shelves.push(generateShelf(shelfId, `Aisle ${aisle}`, storeId));
     }
   }
   
@@ -186,27 +214,31 @@ function ensureDemoDistribution(shelves: Shelf[]): void {
  */
 export function generateAlertsFromShelves(shelves: Shelf[]): Alert[] {
   const alerts: Alert[] = [];
+  const minutesAfter = (timestamp: string, minutes: number) =>
+    new Date(new Date(timestamp).getTime() + minutes * 60 * 1000).toISOString();
   
   shelves.forEach(shelf => {
     shelf.items.forEach(product => {
-      if (product.count === 0) {
-        alerts.push({
-          id: `alert-${shelf.id}-${product.product.replace(/\s+/g, '-').toLowerCase()}`,
-          shelf: shelf.id,
-          product: product.product,
-          type: 'empty',
-          timestamp: new Date(Date.now() - Math.random() * 60 * 60 * 1000).toISOString(),
-          acknowledged: Math.random() < 0.3 // 30% chance already acknowledged
-        });
-      } else if (product.count < product.threshold) {
-        alerts.push({
-          id: `alert-${shelf.id}-${product.product.replace(/\s+/g, '-').toLowerCase()}`,
-          shelf: shelf.id,
-          product: product.product,
-          type: 'low',
-          timestamp: new Date(Date.now() - Math.random() * 2 * 60 * 60 * 1000).toISOString(),
-          acknowledged: Math.random() < 0.2 // 20% chance already acknowledged
-        });
+      if (product.count === 0 || product.count < product.threshold) {
+        const isEmpty = product.count === 0;
+        const timestamp = new Date(Date.now() - Math.random() * (isEmpty ? 1 : 2) * 60 * 60 * 1000).toISOString();
+        const alert = createAlert({ storeId: shelf.storeId, shelf: shelf.id, sku: product.sku, product: product.product, type: isEmpty ? 'empty' : 'low', timestamp });
+        
+        // 30% of empty and 20% of low alerts already acknowledged
+        alerts.push(Math.random() < (isEmpty ? 0.3 : 0.2)
+          ? transitionAlert(alert, 'acknowledged', { by: DEFAULT_STAFF_ACTOR, at: minutesAfter(timestamp, 2 + Math.random() * 10) })
+          : alert);
+      } else if (Math.random() < 0.15) {
+        // Resolved history from earlier in the day, so the alerts page has timings to show
+        const timestamp = new Date(Date.now() - (3 + Math.random() * 5) * 60 * 60 * 1000).toISOString();
+        const acknowledgedAt = minutesAfter(timestamp, 5 + Math.random() * 25);
+        const opened = createAlert({ storeId: shelf.storeId, shelf: shelf.id, sku: product.sku, product: product.product, type: 'low', timestamp });
+        const acknowledged = transitionAlert(opened, 'acknowledged', { by: DEFAULT_STAFF_ACTOR, at: acknowledgedAt });
+        alerts.push(transitionAlert(acknowledged, 'resolved', {
+          by: DEFAULT_STAFF_ACTOR,
+          at: minutesAfter(acknowledgedAt, 30 + Math.random() * 90),
+          note: 'Restocked'
+        }));
       }
     });
   });
@@ -217,8 +249,8 @@ export function generateAlertsFromShelves(shelves: Shelf[]): Alert[] {
 /**
  * Creates a complete mock dataset for the application
  */
-export function generateMockData() {
-  const shelves = generateMockShelves();
+export function generateMockData(storeId: string = DEFAULT_STORE_ID) {
+  const shelves = generateMockShelves(storeId);
   const alerts = generateAlertsFromShelves(shelves);
   
   return {
@@ -230,11 +262,89 @@ export function generateMockData() {
       lowShelves: shelves.filter(s => s.status === 'low').length,
       emptyShelves: shelves.filter(s => s.status === 'empty').length,
       totalAlerts: alerts.length,
-      unacknowledgedAlerts: alerts.filter(a => !a.acknowledged).length
+      unacknowledgedAlerts: alerts.filter(a => a.status === 'open').length
     }
   };
 }
 
+/**
+ * Generates past scans of each shelf leading up to its current state, so
+ * the analytics page has history to chart
+ * Works backwards from the current counts: stock was higher before
+ * customers bought it, empty slots often stayed empty across scans, and
+ * a well-stocked slot was sometimes just restocked. Oldest first.
+ */
+export function generateMockScanHistory(shelves: Shelf[], days: number = 7, scansPerDay: number = 6): ScanUpdate[] {
+  const updates: ScanUpdate[] = [];
+  const intervalMs = (24 * 60 * 60 * 1000) / scansPerDay;
+  const earliest = Date.now() - days * 24 * 60 * 60 * 1000;
+
+  shelves.forEach(shelf => {
+    let items = shelf.items.map(product => ({ ...product }));
+    let at = new Date(shelf.lastScanned).getTime();
+
+    while (at > earliest) {
+      updates.push({ shelf: shelf.id, items, timestamp: new Date(at).toISOString() });
+      at -= intervalMs * (0.75 + Math.random() * 0.5);
+      items = items.map(product => {
+        let count: number;
+        if (product.count === 0) {
+          // Stayed empty, or sold its last few units since the previous scan
+          count = Math.random() < 0.6 ? 0 : 1 + Math.floor(Math.random() * 3);
+        } else if (product.count >= product.threshold && Math.random() < 0.12) {
+          // Restocked since the previous scan
+          count = Math.floor(Math.random() * Math.ceil(product.threshold / 2));
+        } else {
+          count = product.count + Math.floor(Math.random() * (getProductTrafficFactor(product.product) + 1));
+        }
+        return { ...product, count };
+      });
+    }
+  });
+
+  return updates.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Generates scans of a single product selling at a known rate, for checking
+ * the forecaster against a history whose answer is known
+ * Each scan finds `ratePerHour` units per hour gone (rounded down); when the
+ * count would fall below `restockBelow`, the slot is refilled to its
+ * starting count before the next scan.
+ */
+export function generateDepletionHistory(
+  product: Product,
+  options: {
+    ratePerHour: number;
+    scans?: number;
+    intervalMinutes?: number;
+    restockBelow?: number;
+    shelf?: string;
+    start?: string;
+  }
+): ScanUpdate[] {
+  const { ratePerHour, scans = 24, intervalMinutes = 60, restockBelow = 0, shelf = 'TEST1' } = options;
+  const start = new Date(options.start ?? '2024-01-01T08:00:00.000Z').getTime();
+  const updates: ScanUpdate[] = [];
+  let stockedAt = 0;
+
+  for (let i = 0; i < scans; i++) {
+    const hours = (i * intervalMinutes) / 60;
+    let count = product.count - Math.floor((hours - stockedAt) * ratePerHour);
+    if (count < restockBelow) {
+      stockedAt = hours;
+      count = product.count;
+    }
+    updates.push({
+      shelf,
+      items: [{ ...product, count: Math.max(0, count) }],
+      timestamp: new Date(start + hours * 60 * 60 * 1000).toISOString()
+    });
+  }
+
+  return updates;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -314,9 +424,9 @@ export function applyScanUpdate(shelf: Shelf, update: ScanUpdate): Shelf {
 /**
  * Simulates staff restocking a specific product
  */
-export function simulateRestockProduct(shelf: Shelf, productName: string, newCount?: number): Shelf {
+export function simulateRestockProduct(shelf: Shelf, sku: string, newCount?: number): Shelf {
   const updatedItems = shelf.items.map(product => {
-    if (product.product === productName) {
+    if (product.sku === sku) {
       // If no count specified, restock to threshold + buffer
       const restockedCount = newCount !== undefined 
         ? newCount 
@@ -340,12 +450,13 @@ export function simulateRestockProduct(shelf: Shelf, productName: string, newCou
 
 /**
  * Simulates gradual inventory decrease over time
+ * Products sell at the rate learned from their scans when there is one.
  */
 export function simulateTimeBasedDecrease(shelves: Shelf[], hoursElapsed: number = 1): Shelf[] {
   return shelves.map(shelf => {
     const updatedItems = shelf.items.map(product => {
       // Higher traffic products decrease faster
-      const trafficFactor = getProductTrafficFactor(product.product);
+      const trafficFactor = shelf.depletionRates?.[product.sku] ?? getProductTrafficFactor(product.product);
       const maxDecrease = Math.floor(trafficFactor * hoursElapsed);
       const decrease = Math.floor(Math.random() * (maxDecrease + 1));
       
@@ -365,7 +476,8 @@ export function simulateTimeBasedDecrease(shelves: Shelf[], hoursElapsed: number
 }
 
 /**
- * Gets traffic factor for different product types
+ * Gets traffic factor for different product types (a guess by name, for
+ * products with no learned depletion rate yet)
  */
 function getProductTrafficFactor(productName: string): number {
   // High traffic items (beverages, snacks) decrease faster
@@ -396,9 +508,9 @@ export function createDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'A1',
         items: [
-          { product: 'Dove Soap 100g', count: 0, threshold: 10 },
-          { product: 'Colgate Toothpaste', count: 8, threshold: 10 },
-          { product: 'Head & Shoulders Shampoo', count: 12, threshold: 15 }
+          { sku: 'DOVE-SOAP-100G', product: 'Dove Soap 100g', count: 0, threshold: 10 },
+          { sku: 'COLGATE-TOOTHPASTE', product: 'Colgate Toothpaste', count: 8, threshold: 10 },
+          { sku: 'HEAD-SHOULDERS-SHAMPOO', product: 'Head & Shoulders Shampoo', count: 12, threshold: 15 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -410,9 +522,9 @@ export function createDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'B2',
         items: [
-          { product: 'Red Bull Energy', count: 2, threshold: 15 },
-          { product: 'Nestle Water 6-pack', count: 18, threshold: 20 },
-          { product: 'Kit Kat Bar', count: 6, threshold: 10 }
+          { sku: 'RED-BULL-ENERGY', product: 'Red Bull Energy', count: 2, threshold: 15 },
+          { sku: 'NESTLE-WATER-6-PACK', product: 'Nestle Water 6-pack', count: 18, threshold: 20 },
+          { sku: 'KIT-KAT-BAR', product: 'Kit Kat Bar', count: 6, threshold: 10 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -424,9 +536,9 @@ export function createDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'A1',
         items: [
-          { product: 'Dove Soap 100g', count: 15, threshold: 10 },
-          { product: 'Colgate Toothpaste', count: 8, threshold: 10 },
-          { product: 'Head & Shoulders Shampoo', count: 12, threshold: 15 }
+          { sku: 'DOVE-SOAP-100G', product: 'Dove Soap 100g', count: 15, threshold: 10 },
+          { sku: 'COLGATE-TOOTHPASTE', product: 'Colgate Toothpaste', count: 8, threshold: 10 },
+          { sku: 'HEAD-SHOULDERS-SHAMPOO', product: 'Head & Shoulders Shampoo', count: 12, threshold: 15 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -438,9 +550,9 @@ export function createDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'C3',
         items: [
-          { product: 'Charmin Toilet Paper', count: 0, threshold: 15 },
-          { product: 'Bounty Paper Towels', count: 3, threshold: 15 },
-          { product: 'Tide Detergent', count: 8, threshold: 15 }
+          { sku: 'CHARMIN-TOILET-PAPER', product: 'Charmin Toilet Paper', count: 0, threshold: 15 },
+          { sku: 'BOUNTY-PAPER-TOWELS', product: 'Bounty Paper Towels', count: 3, threshold: 15 },
+          { sku: 'TIDE-DETERGENT', product: 'Tide Detergent', count: 8, threshold: 15 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -576,9 +688,9 @@ export function createAdvancedDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'D1',
         items: [
-          { product: 'AA Batteries 8-pack', count: 25, threshold: 20 },
-          { product: 'Phone Charger', count: 18, threshold: 15 },
-          { product: 'USB Cable', count: 22, threshold: 15 }
+          { sku: 'AA-BATTERIES-8-PACK', product: 'AA Batteries 8-pack', count: 25, threshold: 20 },
+          { sku: 'PHONE-CHARGER', product: 'Phone Charger', count: 18, threshold: 15 },
+          { sku: 'USB-CABLE', product: 'USB Cable', count: 22, threshold: 15 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -590,9 +702,9 @@ export function createAdvancedDemoScenario(): DemoEvent[] {
       update: {
         shelf: 'E2',
         items: [
-          { product: 'Tylenol 100ct', count: 2, threshold: 10 },
-          { product: 'Hand Sanitizer', count: 1, threshold: 8 },
-          { product: 'Band-Aid Pack', count: 3, threshold: 10 }
+          { sku: 'TYLENOL-100CT', product: 'Tylenol 100ct', count: 2, threshold: 10 },
+          { sku: 'HAND-SANITIZER', product: 'Hand Sanitizer', count: 1, threshold: 8 },
+          { sku: 'BAND-AID-PACK', product: 'Band-Aid Pack', count: 3, threshold: 10 }
         ],
         timestamp: new Date().toISOString()
       }
@@ -713,7 +825,9 @@ export function validateMockAlerts(alerts: Alert[], shelves: Shelf[]): {
       return;
     }
     
-    // Validate alert type matches product status
+    // Validate alert type matches product status (closed alerts are history)
+    if (!isActiveAlert(alert)) return;
+    
     if (alert.type === 'empty' && product.count !== 0) {
       errors.push(`Empty alert for ${alert.product} but count is ${product.count}`);
     }
@@ -745,7 +859,7 @@ export function validateMockAlerts(alerts: Alert[], shelves: Shelf[]): {
     return acc;
   }, {} as Record<string, number>);
   
-  const acknowledgedCount = alerts.filter(a => a.acknowledged).length;
+  const acknowledgedCount = alerts.filter(a => a.status !== 'open').length;
   
   if (acknowledgedCount === alerts.length) {
     warnings.push('All alerts are acknowledged. Consider having some unacknowledged for demo impact.');
@@ -830,6 +944,52 @@ export function validateProducts(shelves: Shelf[]): {
   };
 }
 
+/**
+ * Checks the forecaster against synthetic histories with known rates
+ */
+export function validateForecasting(): {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const product: Product = { sku: 'TEST-SKU', product: 'Test Product', count: 40, threshold: 10 };
+  const expectRate = (label: string, actual: number | null, expected: number) => {
+    if (actual === null || Math.abs(actual - expected) > expected * 0.1) {
+      errors.push(`${label}: expected a rate near ${expected}/h, learned ${actual}`);
+    }
+  };
+
+  expectRate('Steady seller', estimateDepletionRate(generateDepletionHistory(product, { ratePerHour: 3 }), product.sku), 3);
+  expectRate(
+    'Restocked seller',
+    estimateDepletionRate(generateDepletionHistory(product, { ratePerHour: 4, restockBelow: 8, scans: 48 }), product.sku),
+    4
+  );
+
+  const slowHistory = generateDepletionHistory(product, { ratePerHour: 0, scans: 6 });
+  if (estimateDepletionRate(slowHistory, product.sku) !== 0) {
+    errors.push('A product that never sold should learn a rate of 0');
+  }
+  if (estimateDepletionRate(slowHistory.slice(0, 2), product.sku) !== null) {
+    errors.push('One interval should not be enough to learn a rate');
+  }
+
+  const nearThreshold = { ...product, count: product.threshold + 2 };
+  if (!isStockoutPredicted(nearThreshold, 3)) {
+    errors.push('3 units above threshold selling 3/h should be predicted to run low');
+  }
+  if (isStockoutPredicted(product, 1)) {
+    errors.push('30 units above threshold selling 1/h should not be predicted to run low');
+  }
+  if (isStockoutPredicted(nearThreshold, 0)) {
+    errors.push('A product that is not selling should not be predicted to run low');
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
 /**
  * Runs comprehensive validation on the entire mock data system
  */
@@ -840,6 +1000,7 @@ export function runComprehensiveValidation(): {
     shelves: ReturnType<typeof validateMockShelves>;
     alerts: ReturnType<typeof validateMockAlerts>;
     products: ReturnType<typeof validateProducts>;
+    forecasting: ReturnType<typeof validateForecasting>;
   };
 } {
   const mockData = generateMockData();
@@ -847,9 +1008,12 @@ export function runComprehensiveValidation(): {
   const shelvesValidation = validateMockShelves(mockData.shelves);
   const alertsValidation = validateMockAlerts(mockData.alerts, mockData.shelves);
   const productsValidation = validateProducts(mockData.shelves);
+  const forecastingValidation = validateForecasting();
   
-  const totalErrors = shelvesValidation.errors.length + alertsValidation.errors.length + productsValidation.errors.length;
-  const totalWarnings = shelvesValidation.warnings.length + alertsValidation.warnings.length + productsValidation.warnings.length;
+  const totalErrors = shelvesValidation.errors.length + alertsValidation.errors.length + productsValidation.errors.length +
+    forecastingValidation.errors.length;
+  const totalWarnings = shelvesValidation.warnings.length + alertsValidation.warnings.length + productsValidation.warnings.length +
+    forecastingValidation.warnings.length;
   
   const isValid = totalErrors === 0;
   
@@ -866,7 +1030,8 @@ export function runComprehensiveValidation(): {
     details: {
       shelves: shelvesValidation,
       alerts: alertsValidation,
-      products: productsValidation
+      products: productsValidation,
+      forecasting: forecastingValidation
     }
   };
 }
@@ -917,7 +1082,7 @@ export function generateDemoReport(): {
   
   // Sample critical data for demo
   const criticalAlerts = mockData.alerts
-    .filter(a => !a.acknowledged && a.type === 'empty')
+    .filter(a => a.status === 'open' && a.type === 'empty')
     .slice(0, 3);
   
   const problematicShelves = mockData.shelves
@@ -963,7 +1128,8 @@ export function quickSystemTest(): boolean {
     if (!validation.isValid) {
       console.log('❌ Errors found:', validation.details.shelves.errors.concat(
         validation.details.alerts.errors,
-        validation.details.products.errors
+        validation.details.products.errors,
+        validation.details.forecasting.errors
       ));
     }
     
@@ -979,6 +1145,8 @@ export const testUtils = {
   validateMockShelves,
   validateMockAlerts,
   validateProducts,
+  validateForecasting,
+  generateDepletionHistory,
   runComprehensiveValidation,
   generateDemoReport,
   quickSystemTest
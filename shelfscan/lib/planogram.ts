@@ -0,0 +1,357 @@
+/**
+ * Planogram Import/Export for ShelfScan AI
+ * Converts store layouts to and from the CSV format (one row per product
+ * slot), builds an export from the current shelves, and works out which
+ * shelves an imported planogram creates or changes (and which SKUs it adds
+ * to the catalog). Pure functions, shared
+ * by the API routes and the Locations page.
+ */
+
+import { CatalogProduct, Planogram, PlanogramAisle, PlanogramShelf, PlanogramSlot, Product, Shelf } from './types';
+import { validatePlanogram, ValidationResult } from './validation';
+import { withDerivedStatus } from './inventory';
+
+// ============================================================================
+// CSV FORMAT
+// ============================================================================
+
+/**
+ * CSV columns, in export order
+ * `sku`, `product`, `facings` and `threshold` may be blank for a shelf with
+ * no products; `product` defaults to the SKU and `facings` to 1.
+ */
+export const PLANOGRAM_CSV_COLUMNS = [
+  'aisle',
+  'shelf',
+  'x',
+  'y',
+  'width',
+  'height',
+  'sku',
+  'product',
+  'facings',
+  'threshold'
+] as const;
+
+type CsvColumn = typeof PLANOGRAM_CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ['aisle', 'shelf', 'x', 'y', 'width', 'height'];
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may hold commas,
+ * quotes doubled as `""`, and line breaks)
+ */
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      records.push([...record, field]);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) records.push([...record, field]);
+
+  return records;
+};
+
+const formatCsvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const parseCsvNumber = (cell: string | undefined): number =>
+  cell === undefined || cell.trim() === '' ? NaN : Number(cell.trim());
+
+/**
+ * Parse a planogram CSV, reporting problems by spreadsheet row (the header is row 1)
+ * The CSV only describes aisles, shelves and slots: the store name, floor
+ * size and fixtures are taken from `base` (the current planogram), and each
+ * aisle's outline is the bounding box of its shelves.
+ */
+export const parsePlanogramCsv = (text: string, base: Planogram): ValidationResult<Planogram> => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return { isValid: false, errors: ['CSV is empty'] };
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const errors: string[] = [];
+  const unknown = columns.filter(name => !(PLANOGRAM_CSV_COLUMNS as readonly string[]).includes(name));
+  const missing = REQUIRED_CSV_COLUMNS.filter(name => !columns.includes(name));
+  if (unknown.length > 0) errors.push(`Row 1: unknown column(s): ${unknown.join(', ')}`);
+  if (missing.length > 0) errors.push(`Row 1: missing column(s): ${missing.join(', ')}`);
+  if (errors.length > 0) return { isValid: false, errors };
+
+  const aisles = new Map<string, { label?: string; shelves: PlanogramShelf[] }>();
+  const shelves = new Map<string, { aisle: string; row: number; shelf: PlanogramShelf & { products: PlanogramSlot[] } }>();
+
+  rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const cell = (name: CsvColumn): string => (cells[columns.indexOf(name)] ?? '').trim();
+    const rowErrors: string[] = [];
+
+    const aisle = cell('aisle');
+    const shelfId = cell('shelf');
+    if (!aisle) rowErrors.push('aisle is required');
+    if (!shelfId) rowErrors.push('shelf is required');
+
+    const rect = {
+      x: parseCsvNumber(cell('x')),
+      y: parseCsvNumber(cell('y')),
+      width: parseCsvNumber(cell('width')),
+      height: parseCsvNumber(cell('height'))
+    };
+    (['x', 'y'] as const).forEach(key => {
+      if (!Number.isFinite(rect[key]) || rect[key] < 0) rowErrors.push(`${key} must be a non-negative number`);
+    });
+    (['width', 'height'] as const).forEach(key => {
+      if (!Number.isFinite(rect[key]) || rect[key] <= 0) rowErrors.push(`${key} must be a positive number`);
+    });
+    if (
+      rowErrors.length === 0 &&
+      (rect.x + rect.width > base.width || rect.y + rect.height > base.height)
+    ) {
+      rowErrors.push(`shelf extends past the ${base.width} x ${base.height} floor plan`);
+    }
+
+    const sku = cell('sku');
+    const product = cell('product') || sku;
+    const facingsCell = cell('facings');
+    const thresholdCell = cell('threshold');
+    const facings = facingsCell === '' ? 1 : parseCsvNumber(facingsCell);
+    const threshold = parseCsvNumber(thresholdCell);
+    if (sku) {
+      if (/\s/.test(sku)) rowErrors.push('sku cannot contain spaces');
+      if (!Number.isInteger(facings) || facings <= 0) rowErrors.push('facings must be a positive integer');
+      if (!Number.isInteger(threshold) || threshold <= 0) rowErrors.push('threshold must be a positive integer');
+    } else if (product || facingsCell !== '' || thresholdCell !== '') {
+      rowErrors.push('product, facings and threshold need a sku');
+    }
+
+    const existing = shelves.get(shelfId);
+    if (existing && rowErrors.length === 0) {
+      const { shelf } = existing;
+      if (existing.aisle !== aisle) {
+        rowErrors.push(`shelf ${shelfId} is already in ${existing.aisle} (row ${existing.row})`);
+      } else if (shelf.x !== rect.x || shelf.y !== rect.y || shelf.width !== rect.width || shelf.height !== rect.height) {
+        rowErrors.push(`shelf ${shelfId} position differs from row ${existing.row}`);
+      } else if (sku && shelf.products.some(slot => slot.sku === sku)) {
+        rowErrors.push(`sku ${sku} is already on shelf ${shelfId}`);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map(error => `Row ${rowNumber}: ${error}`));
+      return;
+    }
+
+    let entry = existing;
+    if (!entry) {
+      entry = { aisle, row: rowNumber, shelf: { id: shelfId, ...rect, products: [] } };
+      shelves.set(shelfId, entry);
+      if (!aisles.has(aisle)) {
+        aisles.set(aisle, { label: base.aisles.find(a => a.name === aisle)?.label, shelves: [] });
+      }
+      aisles.get(aisle)!.shelves.push(entry.shelf);
+    }
+    if (sku) entry.shelf.products.push({ sku, product, facings, threshold });
+  });
+
+  if (errors.length > 0) return { isValid: false, errors };
+
+  const planogramAisles: PlanogramAisle[] = [...aisles].map(([name, { label, shelves: aisleShelves }]) => {
+    const left = Math.min(...aisleShelves.map(shelf => shelf.x));
+    const top = Math.min(...aisleShelves.map(shelf => shelf.y));
+    return {
+      name,
+      ...(label !== undefined && { label }),
+      x: left,
+      y: top,
+      width: Math.max(...aisleShelves.map(shelf => shelf.x + shelf.width)) - left,
+      height: Math.max(...aisleShelves.map(shelf => shelf.y + shelf.height)) - top,
+      shelves: aisleShelves
+    };
+  });
+
+  return validatePlanogram({ ...base, aisles: planogramAisles });
+};
+
+/**
+ * Write a planogram as CSV, one row per product slot (one blank-product
+ * row for a shelf without products)
+ */
+export const formatPlanogramCsv = (planogram: Planogram): string => {
+  const lines = [PLANOGRAM_CSV_COLUMNS.join(',')];
+
+  planogram.aisles.forEach(aisle => {
+    aisle.shelves.forEach(shelf => {
+      const position = [aisle.name, shelf.id, shelf.x, shelf.y, shelf.width, shelf.height];
+      const slots = shelf.products && shelf.products.length > 0 ? shelf.products : [undefined];
+      slots.forEach(slot => {
+        lines.push(
+          [...position, slot?.sku, slot?.product, slot?.facings, slot?.threshold].map(formatCsvField).join(',')
+        );
+      });
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+// ============================================================================
+// EXPORT & SYNC
+// ============================================================================
+
+/**
+ * The planogram with each placed shelf's current products and thresholds
+ * Facings come from the planogram (1 for products it doesn't list). Shelves
+ * without a position aren't part of the layout and are left out.
+ */
+export const exportPlanogram = (planogram: Planogram, shelves: Shelf[]): Planogram => {
+  const shelvesById = new Map(shelves.map(shelf => [shelf.id, shelf]));
+
+  return {
+    ...planogram,
+    aisles: planogram.aisles.map(aisle => ({
+      ...aisle,
+      shelves: aisle.shelves.map(placement => {
+        const shelf = shelvesById.get(placement.id);
+        if (!shelf) return placement;
+
+        const facings = new Map(placement.products?.map(slot => [slot.sku, slot.facings]));
+        return {
+          ...placement,
+          products: shelf.items.map(item => ({
+            sku: item.sku,
+            product: item.product,
+            facings: facings.get(item.sku) ?? 1,
+            threshold: item.threshold
+          }))
+        };
+      })
+    }))
+  };
+};
+
+/**
+ * Name every slot after its catalog entry; SKUs the catalog lacks become new
+ * entries named by their first slot
+ */
+export const applyCatalogToPlanogram = (
+  planogram: Planogram,
+  catalog: Map<string, CatalogProduct>
+): { planogram: Planogram; newProducts: CatalogProduct[] } => {
+  const newProducts = new Map<string, CatalogProduct>();
+  const nameFor = (slot: PlanogramSlot): string => {
+    const entry = catalog.get(slot.sku) ?? newProducts.get(slot.sku);
+    if (entry) return entry.name;
+    newProducts.set(slot.sku, { sku: slot.sku, name: slot.product });
+    return slot.product;
+  };
+
+  return {
+    planogram: {
+      ...planogram,
+      aisles: planogram.aisles.map(aisle => ({
+        ...aisle,
+        shelves: aisle.shelves.map(shelf => (shelf.products
+          ? { ...shelf, products: shelf.products.map(slot => ({ ...slot, product: nameFor(slot) })) }
+          : shelf))
+      }))
+    },
+    newProducts: [...newProducts.values()]
+  };
+};
+
+/**
+ * Shelf changes needed to match an imported planogram
+ */
+export interface PlanogramSync {
+  /** Shelves the planogram adds, with every product at zero until first scanned */
+  created: Shelf[];
+  /** Existing shelves moved to another aisle or given new product slots */
+  updated: Shelf[];
+  /** Existing shelves the planogram doesn't list */
+  unplaced: Shelf[];
+}
+
+const sameItems = (a: Product[], b: Product[]): boolean =>
+  a.length === b.length &&
+  a.every((item, index) =>
+    item.sku === b[index].sku &&
+    item.product === b[index].product &&
+    item.count === b[index].count &&
+    item.threshold === b[index].threshold
+  );
+
+/**
+ * Work out how a store's shelves change under its planogram
+ * Products keep their counts; products new to a shelf start at zero. Shelves
+ * whose planogram entry lists no products keep their current ones.
+ */
+export const syncShelvesToPlanogram = (
+  planogram: Planogram,
+  shelves: Shelf[],
+  storeId: string,
+  timestamp: string = new Date().toISOString()
+): PlanogramSync => {
+  const shelvesById = new Map(shelves.map(shelf => [shelf.id, shelf]));
+  const sync: PlanogramSync = { created: [], updated: [], unplaced: [] };
+  const placed = new Set<string>();
+
+  planogram.aisles.forEach(aisle => {
+    aisle.shelves.forEach(placement => {
+      placed.add(placement.id);
+      const existing = shelvesById.get(placement.id);
+      const toItems = (slots: PlanogramSlot[]): Product[] => slots.map(slot => ({
+        sku: slot.sku,
+        product: slot.product,
+        count: existing?.items.find(item => item.sku === slot.sku)?.count ?? 0,
+        threshold: slot.threshold
+      }));
+
+      if (!existing) {
+        sync.created.push(withDerivedStatus({
+          id: placement.id,
+          storeId,
+          aisle: aisle.name,
+          items: toItems(placement.products ?? []),
+          status: 'ok',
+          lastScanned: timestamp
+        }));
+        return;
+      }
+
+      const items = placement.products ? toItems(placement.products) : existing.items;
+      if (existing.aisle !== aisle.name || !sameItems(existing.items, items)) {
+        sync.updated.push(withDerivedStatus({ ...existing, aisle: aisle.name, items }));
+      }
+    });
+  });
+
+  sync.unplaced = shelves.filter(shelf => !placed.has(shelf.id));
+  return sync;
+};
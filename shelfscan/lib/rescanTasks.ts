@@ -0,0 +1,154 @@
+/**
+ * Rescan Task Lifecycle
+ *
+ * Statuses, allowed transitions and scan matching for drone rescan tasks.
+ * Shared by the server queue and the dashboard, which renders the latest
+ * task for each shelf.
+ */
+
+import { RescanTask, RescanTaskStatus, RescanTaskTransition, ScanUpdate } from './types';
+
+// ============================================================================
+// STATUSES
+// ============================================================================
+
+/** Statuses of tasks still waiting for their scan */
+export const PENDING_RESCAN_STATUSES: RescanTaskStatus[] = ['queued', 'dispatched', 'scanning'];
+
+/** Statuses a drone controller can move a task to (the rest are set by the server) */
+export type DroneRescanStatus = 'dispatched' | 'scanning' | 'failed';
+
+/** How long a task may stay pending before it times out */
+export const RESCAN_TASK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Display labels for each status
+ */
+export const RESCAN_STATUS_LABELS: Record<RescanTaskStatus, string> = {
+  queued: 'Rescan queued',
+  dispatched: 'Drone dispatched',
+  scanning: 'Drone scanning',
+  completed: 'Rescanned',
+  failed: 'Rescan failed',
+  'timed-out': 'Rescan timed out'
+};
+
+/**
+ * Statuses each status may move to
+ * A matching scan completes a task from any pending status, since drones
+ * aren't required to report dispatch and scanning.
+ */
+const RESCAN_TRANSITIONS: Record<RescanTaskStatus, RescanTaskStatus[]> = {
+  queued: ['dispatched', 'scanning', 'completed', 'failed', 'timed-out'],
+  dispatched: ['scanning', 'completed', 'failed', 'timed-out'],
+  scanning: ['completed', 'failed', 'timed-out'],
+  completed: [],
+  failed: [],
+  'timed-out': []
+};
+
+export const isPendingRescanTask = (task: RescanTask): boolean =>
+  PENDING_RESCAN_STATUSES.includes(task.status);
+
+// ============================================================================
+// CREATION & TRANSITIONS
+// ============================================================================
+
+/**
+ * Create a queued task for rescanning a shelf
+ */
+export const createRescanTask = (fields: {
+  storeId: string;
+  shelf: string;
+  requestedBy: string;
+  at?: string;
+}): RescanTask => {
+  const requestedAt = fields.at ?? new Date().toISOString();
+  const requestedTime = new Date(requestedAt).getTime();
+
+  return {
+    id: `rescan-${fields.shelf}-${requestedTime.toString(36)}`,
+    storeId: fields.storeId,
+    shelf: fields.shelf,
+    status: 'queued',
+    requestedBy: fields.requestedBy,
+    requestedAt,
+    expiresAt: new Date(requestedTime + RESCAN_TASK_TIMEOUT_MS).toISOString(),
+    history: [{ status: 'queued', at: requestedAt, by: fields.requestedBy }]
+  };
+};
+
+/**
+ * Check whether a task may move to `status`
+ */
+export const canTransitionRescanTask = (task: RescanTask, status: RescanTaskStatus): boolean =>
+  RESCAN_TRANSITIONS[task.status].includes(status);
+
+/**
+ * Move a task to `status`, appending the transition to its history
+ * `droneId` and `scanSeq` are recorded on the task when given. Returns the
+ * task unchanged when the transition isn't allowed.
+ */
+export const transitionRescanTask = (
+  task: RescanTask,
+  status: RescanTaskStatus,
+  transition: { by: string; at?: string; note?: string; droneId?: string; scanSeq?: number }
+): RescanTask => {
+  if (!canTransitionRescanTask(task, status)) return task;
+
+  const entry: RescanTaskTransition = {
+    status,
+    at: transition.at ?? new Date().toISOString(),
+    by: transition.by,
+    ...(transition.note && { note: transition.note })
+  };
+
+  return {
+    ...task,
+    status,
+    ...(transition.droneId !== undefined && { droneId: transition.droneId }),
+    ...(transition.scanSeq !== undefined && { scanSeq: transition.scanSeq }),
+    history: [...task.history, entry]
+  };
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Check whether a pending task is past its deadline
+ */
+export const isRescanTaskExpired = (task: RescanTask, now: Date = new Date()): boolean =>
+  isPendingRescanTask(task) && new Date(task.expiresAt).getTime() <= now.getTime();
+
+/**
+ * Find the pending task a scan fulfils, or null
+ * A scan naming a `taskId` only matches that task; otherwise the oldest
+ * pending task for the shelf matches, as long as the scan wasn't taken
+ * before the rescan was requested.
+ */
+export const findRescanTaskForScan = (tasks: RescanTask[], update: ScanUpdate): RescanTask | null => {
+  const candidates = tasks.filter(task => task.shelf === update.shelf && isPendingRescanTask(task));
+
+  if (update.taskId) {
+    return candidates.find(task => task.id === update.taskId) ?? null;
+  }
+
+  const scannedAt = new Date(update.timestamp).getTime();
+  return candidates
+    .filter(task => new Date(task.requestedAt).getTime() <= scannedAt)
+    .sort((a, b) => new Date(a.requestedAt).getTime() - new Date(b.requestedAt).getTime())[0] ?? null;
+};
+
+/**
+ * The most recently requested task for a shelf, or null if it has none
+ */
+export const getLatestRescanTask = (tasks: RescanTask[], shelfId: string): RescanTask | null =>
+  tasks
+    .filter(task => task.shelf === shelfId)
+    .reduce<RescanTask | null>(
+      (latest, task) =>
+        !latest || new Date(task.requestedAt).getTime() > new Date(latest.requestedAt).getTime() ? task : latest,
+      null
+    );
@@ -0,0 +1,102 @@
+/**
+ * Roles & Permissions
+ *
+ * What each role may do. The API routes enforce these permissions and the
+ * UI uses the same table to hide actions the signed-in user can't take.
+ */
+
+import { User, UserRole } from './types';
+
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+/**
+ * Individual capabilities checked by the API and the UI
+ */
+export type Permission =
+  | 'view'
+  | 'restock'
+  | 'respond-to-alerts'
+  | 'request-rescans'
+  | 'edit-shelves'
+  | 'delete-records'
+  | 'submit-scans'
+  | 'update-rescans'
+  | 'manage-staff'
+  | 'manage-settings';
+
+/**
+ * What each permission allows, phrased to follow "may" / "cannot"
+ */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  view: 'view shelves, alerts, scans, restocks and rescan tasks',
+  restock: 'record restocks and correct product counts',
+  'respond-to-alerts': 'raise, acknowledge, start, resolve and dismiss alerts',
+  'request-rescans': 'request drone rescans',
+  'edit-shelves': 'create and edit shelves, products and thresholds',
+  'delete-records': 'delete shelves, products and alerts',
+  'submit-scans': 'submit drone scans',
+  'update-rescans': 'report drone progress on rescan tasks',
+  'manage-staff': 'manage staff accounts and aisle assignments',
+  'manage-settings': 'change store settings'
+};
+
+export const USER_ROLES: UserRole[] = ['manager', 'associate', 'viewer', 'drone-service'];
+
+/**
+ * Display labels for each role
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  manager: 'Store Manager',
+  associate: 'Associate',
+  viewer: 'Viewer',
+  'drone-service': 'Drone Service'
+};
+
+/**
+ * Permissions granted to each role
+ */
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  manager: [
+    'view',
+    'restock',
+    'respond-to-alerts',
+    'request-rescans',
+    'edit-shelves',
+    'delete-records',
+    'submit-scans',
+    'update-rescans',
+    'manage-staff',
+    'manage-settings'
+  ],
+  associate: ['view', 'restock', 'respond-to-alerts', 'request-rescans'],
+  viewer: ['view'],
+  'drone-service': ['view', 'submit-scans', 'update-rescans']
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+
+/**
+ * Check whether a user (or nobody, when signed out) has a permission
+ */
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean =>
+  !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// ============================================================================
+// STORE ACCESS
+// ============================================================================
+
+/**
+ * Check whether a user (or nobody, when signed out) may work in a store
+ */
+export const canAccessStore = (user: Pick<User, 'stores'> | null | undefined, storeId: string): boolean =>
+  !!user && (user.stores === undefined || user.stores.includes(storeId));
+
+/**
+ * Check whether a user may work in every store, including ones opened later;
+ * changes to what stores share (opening stores, the catalog) need this
+ */
+export const canAccessEveryStore = (user: Pick<User, 'stores'> | null | undefined): boolean =>
+  !!user && user.stores === undefined;
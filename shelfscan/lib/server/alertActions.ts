@@ -0,0 +1,55 @@
+/**
+ * Alert Actions for ShelfScan AI
+ * Shared handler behind the staff transition routes
+ * (`/api/alerts/:id/acknowledge`, `/start`, `/resolve`, `/dismiss`).
+ */
+
+import { AlertStatus } from '../types';
+import {
+  ALERT_STATUS_LABELS,
+  canTransitionAlert,
+  StaffAlertStatus,
+  transitionAlert
+} from '../alertLifecycle';
+import { validateAlertTransitionInput } from '../validation';
+import { getRepository } from './repository';
+import { authorize } from './authorize';
+import { apiError, apiSuccess, readJsonBody } from './apiResponses';
+
+const describeStatus = (status: AlertStatus): string => ALERT_STATUS_LABELS[status].toLowerCase();
+
+/**
+ * Move a stored alert to `status` as the signed-in user, recording `{ note }` from the request body
+ */
+export const handleAlertTransition = async (
+  request: Request,
+  alertId: string,
+  status: StaffAlertStatus
+) => {
+  const auth = await authorize(request, 'respond-to-alerts');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateAlertTransitionInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid alert transition', result.errors);
+  }
+
+  const repository = getRepository(auth.store.id);
+  const alert = await repository.getAlert(alertId);
+  if (!alert) {
+    return apiError(404, `Alert ${alertId} not found`);
+  }
+  if (!canTransitionAlert(alert, status)) {
+    return apiError(
+      409,
+      `Alert ${alertId} is ${describeStatus(alert.status)} and cannot be marked ${describeStatus(status)}`
+    );
+  }
+
+  const updated = await repository.saveAlert(transitionAlert(alert, status, {
+    by: auth.user.username,
+    note: result.value.note
+  }));
+
+  return apiSuccess(`Alert ${alertId} ${describeStatus(status)}`, updated, { shelfId: alert.shelf });
+};
@@ -0,0 +1,51 @@
+/**
+ * API Response Helpers for ShelfScan AI
+ * Builds the ApiResult envelope returned by every mutating route so clients
+ * can treat success and failure uniformly.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResult } from '../types';
+
+/**
+ * Successful mutation response carrying the affected resource
+ */
+export const apiSuccess = <T>(
+  message: string,
+  data: T,
+  options: { shelfId?: string; status?: number } = {}
+): NextResponse<ApiResult<T>> =>
+  NextResponse.json<ApiResult<T>>(
+    {
+      success: true,
+      message,
+      timestamp: new Date().toISOString(),
+      ...(options.shelfId !== undefined && { shelfId: options.shelfId }),
+      data
+    },
+    { status: options.status ?? 200 }
+  );
+
+/**
+ * Failed request response; `errors` lists individual validation problems
+ */
+export const apiError = (
+  status: number,
+  message: string,
+  errors?: string[]
+): NextResponse<ApiResult<never>> =>
+  NextResponse.json<ApiResult<never>>(
+    {
+      success: false,
+      message,
+      timestamp: new Date().toISOString(),
+      ...(errors && errors.length > 0 && { errors })
+    },
+    { status }
+  );
+
+/**
+ * Read a JSON request body, returning undefined when it is missing or malformed
+ */
+export const readJsonBody = async (request: Request): Promise<unknown> =>
+  request.json().catch(() => undefined);
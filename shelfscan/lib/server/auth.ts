@@ -0,0 +1,208 @@
+/**
+ * Authentication for ShelfScan AI
+ * Password hashing for the local credential store and signed session and
+ * service tokens. Free of Next.js imports so the custom server's WebSocket
+ * endpoint can use it too; routes check permissions via `./authorize`.
+ *
+ * Staff sign in for a session token kept in an HttpOnly cookie; drones and
+ * other services send a long-lived service token as `Authorization: Bearer`.
+ * Both are JWTs signed with `SHELFSCAN_AUTH_SECRET`.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, UserAccount, UserRole } from '../types';
+import { isUserRole } from '../roles';
+import { getRepository } from './repository';
+
+export const SESSION_COOKIE = 'shelfscan_session';
+
+/** How long a staff session lasts (one long shift) */
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Only for local development; production refuses to start without a secret
+const DEV_AUTH_SECRET = 'shelfscan-dev-secret';
+
+interface TokenClaims {
+  sub: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  kind: 'session' | 'service';
+  /** Stores a service token is limited to */
+  stores?: string[];
+}
+
+// ============================================================================
+// SECRETS & PASSWORDS
+// ============================================================================
+
+let warnedAboutSecret = false;
+
+const getAuthSecret = (): string => {
+  const secret = process.env.SHELFSCAN_AUTH_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SHELFSCAN_AUTH_SECRET must be set in production');
+  }
+  if (!warnedAboutSecret) {
+    console.warn('[Auth] SHELFSCAN_AUTH_SECRET is not set; using the development secret');
+    warnedAboutSecret = true;
+  }
+  return DEV_AUTH_SECRET;
+};
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (hex)
+ */
+export const hashPassword = (password: string): string => {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export const verifyPassword = (password: string, stored: string): boolean => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+/**
+ * Hash of no one's password, checked when the username is unknown so a
+ * failed login takes as long whether or not the account exists
+ */
+const UNKNOWN_USER_HASH =
+  'scrypt$716ea789eb54d1aa2b5fb62aea6b7ef9$71b4e98371dcae87deac29a28adee74e85d7831749027539c848219ed99706f2fdd2fb415ee7bb91d46525b9d3f0f45e63f8f9aae9370d5a122d7ff1273d2db0';
+
+/**
+ * Check a login's password against the account found for its username
+ * (null when there is none), hashing it either way
+ */
+export const verifyLogin = (account: UserAccount | null, password: string): account is UserAccount => {
+  const matches = verifyPassword(password, account?.passwordHash ?? UNKNOWN_USER_HASH);
+  return account !== null && matches;
+};
+
+/**
+ * Build a new account with a hashed password, ready to save
+ */
+export const createUserAccount = (fields: {
+  username: string;
+  name: string;
+  role: UserRole;
+  password: string;
+  stores?: string[];
+}): UserAccount => ({
+  id: `user-${fields.username.toLowerCase()}`,
+  username: fields.username,
+  name: fields.name,
+  role: fields.role,
+  ...(fields.stores && { stores: fields.stores }),
+  passwordHash: hashPassword(fields.password),
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Strip credentials from a stored account
+ */
+export const toUser = ({ id, username, name, role, stores }: UserAccount): User => ({
+  id,
+  username,
+  name,
+  role,
+  ...(stores && { stores })
+});
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const signToken = (user: User, kind: TokenClaims['kind'], expiresIn: number): string => {
+  const claims: Omit<TokenClaims, 'sub'> = {
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    kind,
+    ...(user.stores && { stores: user.stores })
+  };
+  return jwt.sign(claims, getAuthSecret(), { algorithm: 'HS256', subject: user.id, expiresIn });
+};
+
+/**
+ * Sign a staff session token for the session cookie
+ */
+export const signSessionToken = (user: User): string => signToken(user, 'session', SESSION_TTL_SECONDS);
+
+/**
+ * Sign a service token for a drone controller or other machine client,
+ * limited to `stores` when given
+ */
+export const signServiceToken = (name: string, expiresInSeconds: number, stores?: string[]): string =>
+  signToken(
+    { id: `service:${name}`, username: name, name, role: 'drone-service', ...(stores && { stores }) },
+    'service',
+    expiresInSeconds
+  );
+
+const verifyToken = (token: string): TokenClaims | null => {
+  try {
+    const claims = jwt.verify(token, getAuthSecret(), { algorithms: ['HS256'] });
+    if (typeof claims !== 'object' || typeof claims.sub !== 'string' || !isUserRole(claims.role)) {
+      return null;
+    }
+    return claims as TokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pull a token from an `Authorization: Bearer` header or the session cookie
+ */
+export const getTokenFromHeaders = (headers: {
+  authorization?: string | null;
+  cookie?: string | null;
+}): string | null => {
+  const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return bearer[1].trim();
+
+  const cookie = headers.cookie
+    ?.split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1)) : null;
+};
+
+/**
+ * Resolve a token to its user, or null if it is missing, invalid or expired
+ * Sessions are checked against the stored account, so a deleted account or
+ * changed role takes effect immediately.
+ */
+export const authenticateToken = async (token: string | null): Promise<User | null> => {
+  const claims = token ? verifyToken(token) : null;
+  if (!claims) return null;
+
+  if (claims.kind === 'service') {
+    const { sub: id, username, name, role, stores } = claims;
+    return { id, username, name, role, ...(Array.isArray(stores) && { stores }) };
+  }
+
+  const account = await getRepository().getUser(claims.sub);
+  return account ? toUser(account) : null;
+};
+
+/**
+ * The user a request is authenticated as, or null
+ */
+export const getRequestUser = (request: Request): Promise<User | null> =>
+  authenticateToken(getTokenFromHeaders({
+    authorization: request.headers.get('authorization'),
+    cookie: request.headers.get('cookie')
+  }));
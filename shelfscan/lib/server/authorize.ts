@@ -0,0 +1,43 @@
+/**
+ * Route Authorization for ShelfScan AI
+ * The permission check every API route runs before doing anything else,
+ * which also resolves the store the request is for.
+ */
+
+import { Store, User } from '../types';
+import { canAccessStore, hasPermission, Permission, PERMISSION_DESCRIPTIONS, ROLE_LABELS } from '../roles';
+import { getRequestUser } from './auth';
+import { getRequestedStoreId, resolveStore } from './stores';
+import { apiError } from './apiResponses';
+
+export type AuthResult =
+  | { isAuthorized: true; user: User; store: Store }
+  | { isAuthorized: false; response: ReturnType<typeof apiError> };
+
+/**
+ * Require an authenticated user with `permission` in the requested store
+ * Responds 401 when signed out, 403 when the role lacks the permission or
+ * the user can't work in the store, and 404 when the store doesn't exist.
+ */
+export const authorize = async (request: Request, permission: Permission): Promise<AuthResult> => {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return { isAuthorized: false, response: apiError(401, 'Sign in required') };
+  }
+  if (!hasPermission(user, permission)) {
+    return {
+      isAuthorized: false,
+      response: apiError(403, `${ROLE_LABELS[user.role]} accounts cannot ${PERMISSION_DESCRIPTIONS[permission]}`)
+    };
+  }
+
+  const requested = getRequestedStoreId(new URL(request.url), request.headers);
+  const store = await resolveStore(requested, user);
+  if (!store) {
+    return { isAuthorized: false, response: apiError(404, `Store ${requested} not found`) };
+  }
+  if (!canAccessStore(user, store.id)) {
+    return { isAuthorized: false, response: apiError(403, `This account cannot access store ${store.name}`) };
+  }
+  return { isAuthorized: true, user, store };
+};
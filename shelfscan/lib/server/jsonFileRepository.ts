@@ -0,0 +1,587 @@
+/**
+ * JSON File Repository for ShelfScan AI
+ * Keeps the dataset of every store in memory and writes it back to a single
+ * JSON file. Each store gets a view that only reads and writes its own
+ * records; all views share the data and the write queue.
+ * Writes are serialized and atomic (temp file + rename) so a crash mid-write
+ * never leaves a truncated data file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AisleAssignment,
+  Alert,
+  CatalogProduct,
+  QuarantinedScan,
+  RescanTask,
+  RestockEvent,
+  ScanRecord,
+  ScanUpdate,
+  Shelf,
+  Store,
+  StoreSettings,
+  ThresholdChange,
+  UserAccount
+} from '../types';
+import { normalizeAlert } from '../alertLifecycle';
+import { createCatalogFromShelves, createSku } from '../catalog';
+import { withDefaultSettings } from '../settings';
+import { DEFAULT_STORE_ID } from '../stores';
+import type { RepositorySnapshot, ShelfScanRepository } from './repository';
+
+// v2: alerts carry a lifecycle status and history instead of `acknowledged`
+// v3: products are keyed by catalog SKU
+// v4: records belong to a store; settings are kept per store
+const FILE_VERSION = 4;
+
+// Rejected payloads are kept for debugging only; cap them per store so a
+// misbehaving drone can't grow the data file without bound or evict other
+// stores' entries
+const MAX_QUARANTINED_SCANS = 500;
+
+interface DataFile extends RepositorySnapshot {
+  version: number;
+  stores: Store[];
+  users: UserAccount[];
+  assignments: AisleAssignment[];
+  /** Saved settings by store ID; a store is absent until a manager first saves its settings */
+  settings: Record<string, StoreSettings>;
+}
+
+const createEmptyData = (): DataFile => ({
+  version: FILE_VERSION,
+  stores: [],
+  catalog: [],
+  shelves: [],
+  alerts: [],
+  scans: [],
+  quarantine: [],
+  restocks: [],
+  thresholdChanges: [],
+  rescanTasks: [],
+  users: [],
+  assignments: [],
+  settings: {}
+});
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Products and restocks stored before v3 have a name only
+const withSku = <T extends { product: string; sku?: string }>(item: T): T & { sku: string } => ({
+  ...item,
+  sku: item.sku ?? createSku(item.product)
+});
+
+// Records stored before v4 all belong to the default store
+const inDefaultStore = <T extends { storeId?: string }>(item: T): T & { storeId: string } => ({
+  ...item,
+  storeId: item.storeId ?? DEFAULT_STORE_ID
+});
+
+type LegacySettings = Partial<StoreSettings> & { store?: { name?: string; timezone?: string } };
+
+/**
+ * Upgrade a data file written by an older version (saved on the next write)
+ * Pre-v3 products get a SKU derived from their name and a catalog entry.
+ * Pre-v4 data moves into the default store, which takes its name and time
+ * zone from the old settings.
+ */
+const migrate = (file: DataFile): DataFile => {
+  const shelves: Shelf[] = file.shelves.map(shelf => inDefaultStore({ ...shelf, items: shelf.items.map(withSku) }));
+  const legacy = file.version < 4 ? (file.settings as LegacySettings | undefined) : undefined;
+  const { store: legacyStore, ...legacySettings } = legacy ?? {};
+
+  return {
+    ...file,
+    version: FILE_VERSION,
+    stores: file.stores.length > 0 ? file.stores : [{
+      id: DEFAULT_STORE_ID,
+      name: legacyStore?.name ?? 'ShelfScan Store',
+      region: 'Default',
+      timezone: legacyStore?.timezone ?? 'UTC'
+    }],
+    catalog: file.catalog.length > 0 ? file.catalog : createCatalogFromShelves(shelves),
+    shelves,
+    alerts: file.alerts.map(alert => inDefaultStore(normalizeAlert(alert))),
+    scans: file.scans.map(record => ({
+      ...record,
+      update: inDefaultStore({ ...record.update, items: record.update.items.map(withSku) })
+    })),
+    quarantine: file.quarantine.map(inDefaultStore),
+    restocks: file.restocks.map(restock => inDefaultStore(withSku(restock))),
+    thresholdChanges: file.thresholdChanges.map(inDefaultStore),
+    rescanTasks: file.rescanTasks.map(inDefaultStore),
+    assignments: file.assignments.map(inDefaultStore),
+    settings: legacy ? { [DEFAULT_STORE_ID]: legacySettings as StoreSettings } : file.settings
+  };
+};
+
+const sortByName = <T extends { name: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+const sortAlertsNewestFirst = (alerts: Alert[]): Alert[] =>
+  [...alerts].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+// ============================================================================
+// REPOSITORY FACTORY
+// ============================================================================
+
+/**
+ * Create the repositories backed by the JSON file at `filePath`
+ * Returns a function giving each store's view; a missing file is treated
+ * as holding only the default store, with no data, and is created on first
+ * write.
+ */
+export const createJsonFileRepository = (filePath: string): ((storeId: string) => ShelfScanRepository) => {
+  let data: DataFile | null = null;
+  let loading: Promise<DataFile> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+  const views = new Map<string, ShelfScanRepository>();
+
+  const load = (): Promise<DataFile> => {
+    if (data) return Promise.resolve(data);
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const raw = await fs.readFile(filePath, 'utf-8');
+          const parsed = JSON.parse(raw);
+          data = migrate({ ...createEmptyData(), version: 1, ...parsed } as DataFile);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Failed to read data file ${filePath}: ${(error as Error).message}`);
+          }
+          data = migrate(createEmptyData());
+        }
+        return data;
+      })();
+    }
+    return loading;
+  };
+
+  const persist = (): Promise<void> => {
+    const snapshot = JSON.stringify(data, null, 2);
+    writeQueue = writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, filePath);
+      });
+    return writeQueue;
+  };
+
+  const createStoreView = (storeId: string): ShelfScanRepository => {
+    const inStore = (record: { storeId: string }) => record.storeId === storeId;
+    const notInStore = (record: { storeId: string }) => record.storeId !== storeId;
+    const stamp = <T extends { storeId?: string }>(record: T): T => ({ ...clone(record), storeId });
+    const storeScans = (scans: ScanRecord[]) => scans.filter(record => record.update.storeId === storeId);
+
+    // Insert or replace a store record by ID, returning the stored copy
+    const upsert = <T extends { id: string; storeId: string }>(records: T[], record: T): T => {
+      const stamped = stamp(record);
+      const index = records.findIndex(r => inStore(r) && r.id === record.id);
+      if (index >= 0) {
+        records[index] = stamped;
+      } else {
+        records.push(stamped);
+      }
+      return clone(stamped);
+    };
+
+    return {
+      storeId,
+
+      // ----------------------------------------------------------------------
+      // Stores
+      // ----------------------------------------------------------------------
+
+      async listStores() {
+        const { stores } = await load();
+        return clone(sortByName(stores));
+      },
+
+      async getStore(id) {
+        const { stores } = await load();
+        const found = stores.find(s => s.id === id);
+        return found ? clone(found) : null;
+      },
+
+      async saveStore(saved: Store) {
+        const store = await load();
+        const index = store.stores.findIndex(s => s.id === saved.id);
+        if (index >= 0) {
+          store.stores[index] = clone(saved);
+        } else {
+          store.stores.push(clone(saved));
+        }
+        await persist();
+        return clone(saved);
+      },
+
+      // ----------------------------------------------------------------------
+      // Product catalog
+      // ----------------------------------------------------------------------
+
+      async listCatalog() {
+        const { catalog } = await load();
+        return clone(sortByName(catalog));
+      },
+
+      async getCatalogProduct(sku) {
+        const { catalog } = await load();
+        const product = catalog.find(p => p.sku === sku);
+        return product ? clone(product) : null;
+      },
+
+      async saveCatalogProduct(product: CatalogProduct) {
+        const store = await load();
+        const index = store.catalog.findIndex(p => p.sku === product.sku);
+        if (index >= 0) {
+          store.catalog[index] = clone(product);
+        } else {
+          store.catalog.push(clone(product));
+        }
+        await persist();
+        return clone(product);
+      },
+
+      async deleteCatalogProduct(sku) {
+        const store = await load();
+        const before = store.catalog.length;
+        store.catalog = store.catalog.filter(p => p.sku !== sku);
+        if (store.catalog.length === before) return false;
+        await persist();
+        return true;
+      },
+
+      // ----------------------------------------------------------------------
+      // Shelves
+      // ----------------------------------------------------------------------
+
+      async listShelves() {
+        const { shelves } = await load();
+        return clone(shelves.filter(inStore));
+      },
+
+      async getShelf(id) {
+        const { shelves } = await load();
+        const shelf = shelves.find(s => inStore(s) && s.id === id);
+        return shelf ? clone(shelf) : null;
+      },
+
+      async saveShelf(shelf: Shelf) {
+        const store = await load();
+        const saved = upsert(store.shelves, shelf);
+        await persist();
+        return saved;
+      },
+
+      async deleteShelf(id) {
+        const store = await load();
+        const before = store.shelves.length;
+        store.shelves = store.shelves.filter(s => notInStore(s) || s.id !== id);
+        if (store.shelves.length === before) return false;
+        await persist();
+        return true;
+      },
+
+      // ----------------------------------------------------------------------
+      // Alerts
+      // ----------------------------------------------------------------------
+
+      async listAlerts() {
+        const { alerts } = await load();
+        return clone(sortAlertsNewestFirst(alerts.filter(inStore)));
+      },
+
+      async getAlert(id) {
+        const { alerts } = await load();
+        const alert = alerts.find(a => inStore(a) && a.id === id);
+        return alert ? clone(alert) : null;
+      },
+
+      async saveAlert(alert: Alert) {
+        const store = await load();
+        const saved = upsert(store.alerts, alert);
+        await persist();
+        return saved;
+      },
+
+      async deleteAlert(id) {
+        const store = await load();
+        const before = store.alerts.length;
+        store.alerts = store.alerts.filter(a => notInStore(a) || a.id !== id);
+        if (store.alerts.length === before) return false;
+        await persist();
+        return true;
+      },
+
+      // ----------------------------------------------------------------------
+      // Scan history
+      // ----------------------------------------------------------------------
+
+      async appendScan(update: ScanUpdate, depletionRates?: Record<string, number>) {
+        const store = await load();
+        const scans = storeScans(store.scans);
+        const lastSeq = scans.length > 0 ? scans[scans.length - 1].seq : 0;
+        const record: ScanRecord = {
+          seq: lastSeq + 1,
+          receivedAt: new Date().toISOString(),
+          update: stamp(update),
+          ...(depletionRates && { depletionRates: { ...depletionRates } })
+        };
+        store.scans.push(record);
+        await persist();
+        return clone(record);
+      },
+
+      async listScansSince(cursor, limit = Infinity) {
+        const { scans } = await load();
+        return clone(storeScans(scans).filter(record => record.seq > cursor).slice(0, limit));
+      },
+
+      async listRecentScans(shelfId, limit) {
+        const { scans } = await load();
+        // Walk back from the newest so only the records returned are copied
+        const recent: ScanRecord[] = [];
+        for (let i = scans.length - 1; i >= 0 && recent.length < limit; i--) {
+          const record = scans[i];
+          if (record.update.storeId === storeId && record.update.shelf === shelfId) recent.push(record);
+        }
+        return clone(recent.reverse());
+      },
+
+      async getLatestScanCursor() {
+        const scans = storeScans((await load()).scans);
+        return scans.length > 0 ? scans[scans.length - 1].seq : 0;
+      },
+
+      async findScanByScanId(scanId) {
+        const { scans } = await load();
+        const record = storeScans(scans).find(r => r.update.scanId === scanId);
+        return record ? clone(record) : null;
+      },
+
+      // ----------------------------------------------------------------------
+      // Quarantine
+      // ----------------------------------------------------------------------
+
+      async quarantineScan(payload, errors) {
+        const store = await load();
+        const entry: QuarantinedScan = {
+          id: `quarantine-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+          storeId,
+          receivedAt: new Date().toISOString(),
+          payload: clone(payload),
+          errors: [...errors]
+        };
+        const overflow = store.quarantine.filter(inStore).length + 1 - MAX_QUARANTINED_SCANS;
+        const evicted = new Set(store.quarantine.filter(inStore).slice(0, Math.max(overflow, 0)));
+        store.quarantine = [...store.quarantine.filter(existing => !evicted.has(existing)), entry];
+        await persist();
+        return clone(entry);
+      },
+
+      async listQuarantinedScans(limit = Infinity) {
+        const { quarantine } = await load();
+        return clone(quarantine.filter(inStore).reverse().slice(0, limit));
+      },
+
+      // ----------------------------------------------------------------------
+      // Restock history
+      // ----------------------------------------------------------------------
+
+      async appendRestock(restock: RestockEvent) {
+        const store = await load();
+        const saved = stamp(restock);
+        store.restocks.push(saved);
+        await persist();
+        return clone(saved);
+      },
+
+      async listRestocks(filter = {}) {
+        const { restocks } = await load();
+        return clone(
+          restocks
+            .filter(restock => inStore(restock) &&
+              (filter.shelf === undefined || restock.shelf === filter.shelf) &&
+              (filter.sku === undefined || restock.sku === filter.sku)
+            )
+            .reverse()
+        );
+      },
+
+      // ----------------------------------------------------------------------
+      // Threshold changes
+      // ----------------------------------------------------------------------
+
+      async appendThresholdChanges(changes: ThresholdChange[]) {
+        const store = await load();
+        const saved = changes.map(stamp);
+        store.thresholdChanges.push(...saved);
+        await persist();
+        return clone(saved);
+      },
+
+      async listThresholdChanges(filter = {}) {
+        const { thresholdChanges } = await load();
+        return clone(
+          thresholdChanges
+            .filter(change => inStore(change) &&
+              (filter.shelf === undefined || change.shelf === filter.shelf) &&
+              (filter.sku === undefined || change.sku === filter.sku)
+            )
+            .reverse()
+        );
+      },
+
+      // ----------------------------------------------------------------------
+      // Rescan tasks
+      // ----------------------------------------------------------------------
+
+      async listRescanTasks() {
+        const { rescanTasks } = await load();
+        return clone(
+          rescanTasks
+            .filter(inStore)
+            .sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime())
+        );
+      },
+
+      async getRescanTask(id) {
+        const { rescanTasks } = await load();
+        const task = rescanTasks.find(t => inStore(t) && t.id === id);
+        return task ? clone(task) : null;
+      },
+
+      async saveRescanTask(task: RescanTask) {
+        const store = await load();
+        const saved = upsert(store.rescanTasks, task);
+        await persist();
+        return saved;
+      },
+
+      // ----------------------------------------------------------------------
+      // Staff accounts
+      // ----------------------------------------------------------------------
+
+      async listUsers() {
+        const { users } = await load();
+        return clone(users);
+      },
+
+      async getUser(id) {
+        const { users } = await load();
+        const account = users.find(u => u.id === id);
+        return account ? clone(account) : null;
+      },
+
+      async findUserByUsername(username) {
+        const { users } = await load();
+        const account = users.find(u => u.username.toLowerCase() === username.toLowerCase());
+        return account ? clone(account) : null;
+      },
+
+      async saveUser(account: UserAccount) {
+        const store = await load();
+        const index = store.users.findIndex(u => u.id === account.id);
+        if (index >= 0) {
+          store.users[index] = clone(account);
+        } else {
+          store.users.push(clone(account));
+        }
+        await persist();
+        return clone(account);
+      },
+
+      // ----------------------------------------------------------------------
+      // Aisle assignments
+      // ----------------------------------------------------------------------
+
+      async listAssignments() {
+        const { assignments } = await load();
+        return clone(assignments.filter(inStore));
+      },
+
+      async saveAssignment(assignment: AisleAssignment) {
+        const store = await load();
+        const saved = upsert(store.assignments, assignment);
+        await persist();
+        return saved;
+      },
+
+      async deleteAssignment(id) {
+        const store = await load();
+        const before = store.assignments.length;
+        store.assignments = store.assignments.filter(a => notInStore(a) || a.id !== id);
+        if (store.assignments.length === before) return false;
+        await persist();
+        return true;
+      },
+
+      // ----------------------------------------------------------------------
+      // Settings
+      // ----------------------------------------------------------------------
+
+      async getSettings() {
+        const { settings } = await load();
+        return withDefaultSettings(clone(settings[storeId]));
+      },
+
+      async saveSettings(settings: StoreSettings) {
+        const store = await load();
+        store.settings[storeId] = clone(settings);
+        await persist();
+        return clone(settings);
+      },
+
+      // ----------------------------------------------------------------------
+      // Bulk operations
+      // ----------------------------------------------------------------------
+
+      async exportSnapshot() {
+        const store = await load();
+        return clone({
+          catalog: store.catalog,
+          shelves: store.shelves.filter(inStore),
+          alerts: store.alerts.filter(inStore),
+          scans: storeScans(store.scans),
+          quarantine: store.quarantine.filter(inStore),
+          restocks: store.restocks.filter(inStore),
+          thresholdChanges: store.thresholdChanges.filter(inStore),
+          rescanTasks: store.rescanTasks.filter(inStore)
+        });
+      },
+
+      async replaceAll(snapshot) {
+        const store = await load();
+        data = {
+          ...store,
+          // The catalog is shared by every store; only replaced when given
+          catalog: snapshot.catalog ? clone(snapshot.catalog) : store.catalog,
+          shelves: [...store.shelves.filter(notInStore), ...(snapshot.shelves ?? []).map(stamp)],
+          alerts: [...store.alerts.filter(notInStore), ...(snapshot.alerts ?? []).map(stamp)],
+          scans: [
+            ...store.scans.filter(record => record.update.storeId !== storeId),
+            ...(snapshot.scans ?? []).map(record => ({ ...clone(record), update: stamp(record.update) }))
+          ],
+          quarantine: [...store.quarantine.filter(notInStore), ...(snapshot.quarantine ?? []).map(stamp)],
+          restocks: [...store.restocks.filter(notInStore), ...(snapshot.restocks ?? []).map(stamp)],
+          thresholdChanges: [
+            ...store.thresholdChanges.filter(notInStore),
+            ...(snapshot.thresholdChanges ?? []).map(stamp)
+          ],
+          rescanTasks: [...store.rescanTasks.filter(notInStore), ...(snapshot.rescanTasks ?? []).map(stamp)]
+        };
+        await persist();
+      }
+    };
+  };
+
+  return storeId => {
+    if (!views.has(storeId)) views.set(storeId, createStoreView(storeId));
+    return views.get(storeId)!;
+  };
+};
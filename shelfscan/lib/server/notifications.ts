@@ -0,0 +1,52 @@
+/**
+ * Alert Notifications for ShelfScan AI
+ * Sends alert changes to their store's configured webhook. Delivery is best
+ * effort: a slow or failing endpoint is logged and never holds up a scan.
+ */
+
+import { Alert, Store } from '../types';
+import { AlertChanges } from '../alertEngine';
+import { getRepository } from './repository';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Body POSTed to the webhook for each alert
+ */
+export interface AlertWebhookPayload {
+  event: 'alert.opened' | 'alert.updated';
+  store: Pick<Store, 'id' | 'name'>;
+  alert: Alert;
+  timestamp: string;
+}
+
+/**
+ * POST a store's newly opened and changed alerts to its webhook, if one is enabled
+ */
+export const notifyAlertChanges = async (storeId: string, changes: AlertChanges): Promise<void> => {
+  const events: Pick<AlertWebhookPayload, 'event' | 'alert'>[] = [
+    ...changes.opened.map(alert => ({ event: 'alert.opened' as const, alert })),
+    ...changes.updated.map(alert => ({ event: 'alert.updated' as const, alert }))
+  ];
+  if (events.length === 0) return;
+
+  const repository = getRepository(storeId);
+  const { webhook } = (await repository.getSettings()).notifications;
+  if (!webhook.enabled || !webhook.url) return;
+
+  const store = { id: storeId, name: (await repository.getStore(storeId))?.name ?? storeId };
+  await Promise.all(events.map(async ({ event, alert }) => {
+    const payload: AlertWebhookPayload = { event, store, alert, timestamp: new Date().toISOString() };
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      if (!response.ok) console.warn(`Alert webhook answered ${response.status} for ${alert.id}`);
+    } catch (error) {
+      console.warn(`Alert webhook failed for ${alert.id}:`, error);
+    }
+  }));
+};
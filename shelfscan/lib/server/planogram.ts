@@ -0,0 +1,74 @@
+/**
+ * Planogram Storage
+ * Loads and saves the store layout drawn on the floor map as a JSON file, so
+ * a store can describe its own aisles, shelf positions and product slots
+ * without a code change. `config/planogram.json` is a read-only seed every
+ * store uses until it imports a layout; imported layouts are written per
+ * store next to the data file. Files are re-read on every request; edits
+ * show up on the next page load.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Planogram } from '../types';
+import { DEFAULT_STORE_ID } from '../stores';
+import { validatePlanogram, ValidationResult } from '../validation';
+import { getDataFilePath } from './repository';
+
+/**
+ * Layout used by stores that haven't imported one (override with
+ * SHELFSCAN_PLANOGRAM_FILE). Never written.
+ */
+export const getPlanogramSeedPath = (): string =>
+  process.env.SHELFSCAN_PLANOGRAM_FILE ?? path.join(process.cwd(), 'config', 'planogram.json');
+
+/**
+ * Location of a store's imported planogram: `planograms/<store id>.json`
+ * in the data file's directory
+ */
+export const getPlanogramFilePath = (storeId: string = DEFAULT_STORE_ID): string =>
+  path.join(path.dirname(getDataFilePath()), 'planograms', `${storeId}.json`);
+
+const readPlanogramFile = async (filePath: string): Promise<ValidationResult<Planogram>> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return { isValid: false, errors: [`Failed to read planogram file ${filePath}: ${(error as Error).message}`] };
+  }
+
+  try {
+    return validatePlanogram(JSON.parse(raw));
+  } catch (error) {
+    return { isValid: false, errors: [`Planogram file ${filePath} is not valid JSON: ${(error as Error).message}`] };
+  }
+};
+
+/**
+ * Read and validate a store's planogram, falling back to the seed when it
+ * hasn't imported one; a missing or malformed file is reported as
+ * validation errors rather than thrown
+ */
+export const loadPlanogram = async (
+  storeId: string = DEFAULT_STORE_ID
+): Promise<ValidationResult<Planogram>> => {
+  const filePath = getPlanogramFilePath(storeId);
+  try {
+    await fs.access(filePath);
+  } catch {
+    return readPlanogramFile(getPlanogramSeedPath());
+  }
+  return readPlanogramFile(filePath);
+};
+
+/**
+ * Replace a store's planogram file (written to a temp file first, so a
+ * failed write never leaves half a layout behind)
+ */
+export const savePlanogram = async (storeId: string, planogram: Planogram): Promise<void> => {
+  const filePath = getPlanogramFilePath(storeId);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(planogram, null, 2)}\n`, 'utf-8');
+  await fs.rename(tempPath, filePath);
+};
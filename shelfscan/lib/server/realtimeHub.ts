@@ -0,0 +1,93 @@
+/**
+ * Real-Time Broadcast Hub for ShelfScan AI
+ * Tracks connected dashboard sockets by store and fans each store's scan
+ * updates out to that store's sockets only.
+ *
+ * The hub lives on `globalThis` because the custom server and the Next.js
+ * route handlers are loaded as separate module graphs in the same process.
+ */
+
+import { RealtimeMessage } from '../types';
+
+// ============================================================================
+// CLIENT REGISTRY
+// ============================================================================
+
+/**
+ * Minimal socket surface the hub needs (satisfied by `ws` WebSocket instances)
+ */
+export interface RealtimeClient {
+  readyState: number;
+  send(data: string): void;
+}
+
+const SOCKET_OPEN = 1;
+
+interface RealtimeHubState {
+  /** Store each client is connected to */
+  clients: Map<RealtimeClient, string>;
+}
+
+const globalForHub = globalThis as unknown as {
+  __shelfscanRealtimeHub?: RealtimeHubState;
+};
+
+const getHubState = (): RealtimeHubState => {
+  if (!globalForHub.__shelfscanRealtimeHub) {
+    globalForHub.__shelfscanRealtimeHub = { clients: new Map() };
+  }
+  return globalForHub.__shelfscanRealtimeHub;
+};
+
+/**
+ * Register a client connected to a store; returns a function that unregisters it
+ */
+export const registerClient = (client: RealtimeClient, storeId: string): (() => void) => {
+  const { clients } = getHubState();
+  clients.set(client, storeId);
+  return () => {
+    clients.delete(client);
+  };
+};
+
+/**
+ * Number of currently registered clients, in one store or overall
+ */
+export const getClientCount = (storeId?: string): number =>
+  [...getHubState().clients.values()].filter(clientStore => storeId === undefined || clientStore === storeId).length;
+
+// ============================================================================
+// BROADCASTING
+// ============================================================================
+
+/**
+ * Send a message to a single client if its socket is still open
+ */
+export const sendMessage = (client: RealtimeClient, message: RealtimeMessage): boolean => {
+  if (client.readyState !== SOCKET_OPEN) return false;
+
+  try {
+    client.send(JSON.stringify(message));
+    return true;
+  } catch (error) {
+    console.error('[RealtimeHub] Failed to send message:', error);
+    return false;
+  }
+};
+
+/**
+ * Broadcast a message to every open client of a store, optionally skipping
+ * one (e.g. the sender)
+ * Returns the number of clients the message was delivered to
+ */
+export const broadcast = (storeId: string, message: RealtimeMessage, except?: RealtimeClient): number => {
+  let delivered = 0;
+
+  getHubState().clients.forEach((clientStore, client) => {
+    if (clientStore === storeId && client !== except && sendMessage(client, message)) {
+      delivered++;
+    }
+  });
+
+  return delivered;
+};
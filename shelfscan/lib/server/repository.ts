@@ -0,0 +1,151 @@
+/**
+ * Persistence Layer for ShelfScan AI
+ * Repository interface for the stores, the product catalog, shelves (with
+ * their products), alerts, scan and restock history, threshold changes,
+ * rescan tasks, staff accounts, aisle assignments and store settings, plus
+ * the process-wide repositories used by the server, one per store.
+ */
+
+import path from 'path';
+import {
+  AisleAssignment,
+  Alert,
+  CatalogProduct,
+  QuarantinedScan,
+  RescanTask,
+  RestockEvent,
+  ScanRecord,
+  ScanUpdate,
+  Shelf,
+  Store,
+  StoreSettings,
+  ThresholdChange,
+  UserAccount
+} from '../types';
+import { DEFAULT_STORE_ID } from '../stores';
+import { createJsonFileRepository } from './jsonFileRepository';
+
+// ============================================================================
+// REPOSITORY INTERFACE
+// ============================================================================
+
+/**
+ * Full dataset of one store, plus the shared catalog
+ * Staff accounts, assignments and settings are kept apart, so replacing the
+ * data never locks anyone out, unassigns the floor or resets the store.
+ */
+export interface RepositorySnapshot {
+  catalog: CatalogProduct[];
+  shelves: Shelf[];
+  alerts: Alert[];
+  scans: ScanRecord[];
+  quarantine: QuarantinedScan[];
+  restocks: RestockEvent[];
+  thresholdChanges: ThresholdChange[];
+  rescanTasks: RescanTask[];
+}
+
+/**
+ * Storage-agnostic access to persisted ShelfScan data, as seen from one store
+ * Shelves, alerts, history, rescan tasks, assignments and settings are the
+ * store's own (records are saved under `storeId` whatever they carry); the
+ * store list, catalog and staff accounts are shared by every store.
+ * All methods return copies; mutate through the save/delete methods only.
+ */
+export interface ShelfScanRepository {
+  readonly storeId: string;
+
+  // Stores, sorted by name (always at least the default store)
+  listStores(): Promise<Store[]>;
+  getStore(id: string): Promise<Store | null>;
+  saveStore(store: Store): Promise<Store>;
+
+  // Product catalog, sorted by name
+  listCatalog(): Promise<CatalogProduct[]>;
+  getCatalogProduct(sku: string): Promise<CatalogProduct | null>;
+  saveCatalogProduct(product: CatalogProduct): Promise<CatalogProduct>;
+  deleteCatalogProduct(sku: string): Promise<boolean>;
+
+  // Shelves (products are stored on their shelf)
+  listShelves(): Promise<Shelf[]>;
+  getShelf(id: string): Promise<Shelf | null>;
+  saveShelf(shelf: Shelf): Promise<Shelf>;
+  deleteShelf(id: string): Promise<boolean>;
+
+  // Alerts
+  listAlerts(): Promise<Alert[]>;
+  getAlert(id: string): Promise<Alert | null>;
+  saveAlert(alert: Alert): Promise<Alert>;
+  deleteAlert(id: string): Promise<boolean>;
+
+  // Scan history (cursors count per store)
+  appendScan(update: ScanUpdate, depletionRates?: Record<string, number>): Promise<ScanRecord>;
+  listScansSince(cursor: number, limit?: number): Promise<ScanRecord[]>;
+  /** The shelf's last `limit` scans, oldest first */
+  listRecentScans(shelfId: string, limit: number): Promise<ScanRecord[]>;
+  getLatestScanCursor(): Promise<number>;
+  findScanByScanId(scanId: string): Promise<ScanRecord | null>;
+
+  // Quarantined (rejected) scan payloads, newest first
+  quarantineScan(payload: unknown, errors: string[]): Promise<QuarantinedScan>;
+  listQuarantinedScans(limit?: number): Promise<QuarantinedScan[]>;
+
+  // Restock history, newest first
+  appendRestock(restock: RestockEvent): Promise<RestockEvent>;
+  listRestocks(filter?: { shelf?: string; sku?: string }): Promise<RestockEvent[]>;
+
+  // Threshold change audit trail, newest first
+  appendThresholdChanges(changes: ThresholdChange[]): Promise<ThresholdChange[]>;
+  listThresholdChanges(filter?: { shelf?: string; sku?: string }): Promise<ThresholdChange[]>;
+
+  // Drone rescan tasks, newest first
+  listRescanTasks(): Promise<RescanTask[]>;
+  getRescanTask(id: string): Promise<RescanTask | null>;
+  saveRescanTask(task: RescanTask): Promise<RescanTask>;
+
+  // Staff accounts
+  listUsers(): Promise<UserAccount[]>;
+  getUser(id: string): Promise<UserAccount | null>;
+  findUserByUsername(username: string): Promise<UserAccount | null>;
+  saveUser(account: UserAccount): Promise<UserAccount>;
+
+  // Aisle assignments
+  listAssignments(): Promise<AisleAssignment[]>;
+  saveAssignment(assignment: AisleAssignment): Promise<AisleAssignment>;
+  deleteAssignment(id: string): Promise<boolean>;
+
+  // Store settings (defaults until first saved)
+  getSettings(): Promise<StoreSettings>;
+  saveSettings(settings: StoreSettings): Promise<StoreSettings>;
+
+  // Bulk operations (replacing the catalog affects every store)
+  exportSnapshot(): Promise<RepositorySnapshot>;
+  /** Replace the store's records; the shared catalog is kept unless `catalog` is given */
+  replaceAll(snapshot: Partial<RepositorySnapshot>): Promise<void>;
+}
+
+// ============================================================================
+// PROCESS-WIDE INSTANCE
+// ============================================================================
+
+/**
+ * Location of the JSON data file (override with SHELFSCAN_DATA_FILE)
+ */
+export const getDataFilePath = (): string =>
+  process.env.SHELFSCAN_DATA_FILE ?? path.join(process.cwd(), 'data', 'shelfscan.json');
+
+// Shared across the custom server and route handler module graphs
+const globalForRepository = globalThis as unknown as {
+  __shelfscanRepository?: (storeId: string) => ShelfScanRepository;
+};
+
+/**
+ * Get the repository the API routes and the scan socket server use for a store
+ * Shared data (stores, catalog, staff accounts) reads the same through any store.
+ */
+export const getRepository = (storeId: string = DEFAULT_STORE_ID): ShelfScanRepository => {
+  if (!globalForRepository.__shelfscanRepository) {
+    globalForRepository.__shelfscanRepository = createJsonFileRepository(getDataFilePath());
+  }
+  return globalForRepository.__shelfscanRepository(storeId);
+};
@@ -0,0 +1,57 @@
+/**
+ * Rescan Actions for ShelfScan AI
+ * Shared handler behind the drone controller routes
+ * (`/api/rescans/:id/dispatch`, `/start`, `/fail`).
+ */
+
+import { RescanTaskStatus } from '../types';
+import {
+  canTransitionRescanTask,
+  DroneRescanStatus,
+  RESCAN_STATUS_LABELS,
+  transitionRescanTask
+} from '../rescanTasks';
+import { validateRescanTransitionInput } from '../validation';
+import { getRepository } from './repository';
+import { authorize } from './authorize';
+import { expireRescanTasks, publishRescanTask } from './rescanQueue';
+import { apiError, apiSuccess, readJsonBody } from './apiResponses';
+
+const describeStatus = (status: RescanTaskStatus): string => RESCAN_STATUS_LABELS[status].toLowerCase();
+
+/**
+ * Move a stored rescan task to `status`, recording `{ droneId, note }` from the request body
+ */
+export const handleRescanTransition = async (
+  request: Request,
+  taskId: string,
+  status: DroneRescanStatus
+) => {
+  const auth = await authorize(request, 'update-rescans');
+  if (!auth.isAuthorized) return auth.response;
+
+  const result = validateRescanTransitionInput(await readJsonBody(request));
+  if (!result.isValid) {
+    return apiError(400, 'Invalid rescan task transition', result.errors);
+  }
+
+  // An overdue task must time out before a drone can still claim it
+  await expireRescanTasks(auth.store.id);
+
+  const task = await getRepository(auth.store.id).getRescanTask(taskId);
+  if (!task) {
+    return apiError(404, `Rescan task ${taskId} not found`);
+  }
+  if (!canTransitionRescanTask(task, status)) {
+    return apiError(409, `Rescan task ${taskId} is ${task.status} and cannot move to ${status}`);
+  }
+
+  const { droneId, note } = result.value;
+  const updated = await publishRescanTask(transitionRescanTask(task, status, {
+    by: droneId ?? task.droneId ?? auth.user.username,
+    note,
+    droneId
+  }));
+
+  return apiSuccess(`Rescan task ${taskId}: ${describeStatus(status)}`, updated, { shelfId: task.shelf });
+};
@@ -0,0 +1,95 @@
+/**
+ * Rescan Queue for ShelfScan AI
+ * Server side of drone rescan tasks: queues staff requests, completes tasks
+ * when their scan is ingested, times out tasks nobody scanned, and broadcasts
+ * every change to the task's store so its dashboards and drone controllers
+ * can follow along.
+ */
+
+import { RescanTask, ScanRecord } from '../types';
+import {
+  createRescanTask,
+  findRescanTaskForScan,
+  isPendingRescanTask,
+  isRescanTaskExpired,
+  transitionRescanTask
+} from '../rescanTasks';
+import { SYSTEM_ACTOR } from '../alertLifecycle';
+import { getRepository } from './repository';
+import { broadcast } from './realtimeHub';
+
+/**
+ * Save a task and broadcast its new state
+ */
+export const publishRescanTask = async (task: RescanTask): Promise<RescanTask> => {
+  const saved = await getRepository(task.storeId).saveRescanTask(task);
+  broadcast(task.storeId, { type: 'rescan', payload: saved });
+  return saved;
+};
+
+/**
+ * Time out every pending task in a store past its deadline
+ */
+export const expireRescanTasks = async (storeId: string, now: Date = new Date()): Promise<RescanTask[]> => {
+  const expired = (await getRepository(storeId).listRescanTasks()).filter(task => isRescanTaskExpired(task, now));
+
+  const timedOut: RescanTask[] = [];
+  for (const task of expired) {
+    timedOut.push(await publishRescanTask(transitionRescanTask(task, 'timed-out', {
+      by: SYSTEM_ACTOR,
+      at: now.toISOString(),
+      note: 'No matching scan before the deadline'
+    })));
+  }
+  return timedOut;
+};
+
+/**
+ * Queue a rescan of a shelf
+ * A shelf has at most one pending task; asking again returns it unchanged.
+ */
+export const queueRescan = async (
+  storeId: string,
+  shelfId: string,
+  requestedBy: string
+): Promise<{ task: RescanTask; created: boolean }> => {
+  await expireRescanTasks(storeId);
+
+  const pending = (await getRepository(storeId).listRescanTasks())
+    .find(task => task.shelf === shelfId && isPendingRescanTask(task));
+  if (pending) return { task: pending, created: false };
+
+  const task = await publishRescanTask(createRescanTask({ storeId, shelf: shelfId, requestedBy }));
+  return { task, created: true };
+};
+
+/**
+ * Complete the pending task a scan ingested for a store fulfils, if any
+ */
+export const completeRescanTask = async (storeId: string, record: ScanRecord): Promise<RescanTask | null> => {
+  const task = findRescanTaskForScan(await getRepository(storeId).listRescanTasks(), record.update);
+  if (!task) return null;
+
+  return publishRescanTask(transitionRescanTask(task, 'completed', {
+    by: task.droneId ?? SYSTEM_ACTOR,
+    at: record.receivedAt,
+    scanSeq: record.seq
+  }));
+};
+
+/**
+ * Periodically time out overdue tasks in every store so dashboards hear
+ * about them without anyone polling; returns a function that stops the sweeper
+ */
+export const startRescanTaskSweeper = (interval: number = 30000): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      for (const store of await getRepository().listStores()) {
+        await expireRescanTasks(store.id);
+      }
+    } catch (error) {
+      console.error('[RescanQueue] Failed to expire rescan tasks:', error);
+    }
+  }, interval);
+  return () => clearInterval(timer);
+};
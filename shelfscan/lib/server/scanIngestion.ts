@@ -0,0 +1,83 @@
+/**
+ * Scan Ingestion for ShelfScan AI
+ * Single entry point for every incoming `ScanUpdate`: validates it, learns
+ * the shelf's depletion rates from it and the scans before it, records it in
+ * its store's scan history, applies it to the stored shelf (running the
+ * alert engine), broadcasts it to the store's dashboards, whose reducer
+ * derives the same alert changes, and completes the rescan task it fulfils.
+ */
+
+import { QuarantinedScan, RescanTask, ScanRecord } from '../types';
+import { applyScanUpdate } from '../mockData';
+import { AlertChanges } from '../alertEngine';
+import { estimateDepletionRates, FORECAST_HISTORY_SCANS, withDepletionRates } from '../forecasting';
+import { validateScanUpdate } from '../validation';
+import { getRepository } from './repository';
+import { broadcast, RealtimeClient } from './realtimeHub';
+import { commitShelfUpdate } from './shelfUpdates';
+import { completeRescanTask } from './rescanQueue';
+import { serializeStoreWrites } from './storeWrites';
+
+/**
+ * Outcome of ingesting one scan payload
+ * - accepted: recorded, applied and broadcast (`rescanTask` is the task it completed)
+ * - duplicate: a scan with the same scanId was already recorded (no-op)
+ * - stale: older than the shelf's lastScanned, so ignored (no-op)
+ * - quarantined: failed validation and was set aside with its errors
+ */
+export type ScanIngestResult =
+  | { status: 'accepted'; record: ScanRecord; alertChanges: AlertChanges; rescanTask: RescanTask | null }
+  | { status: 'duplicate'; record: ScanRecord }
+  | { status: 'stale'; shelfId: string; lastScanned: string }
+  | { status: 'quarantined'; quarantine: QuarantinedScan };
+
+/**
+ * Validate, persist, apply and broadcast a scan payload submitted to a store
+ * A payload naming a different store is quarantined. `source` (the
+ * publishing socket, if any) is skipped when broadcasting. Runs in the
+ * store's write queue, so dedupe and ordering checks can't race.
+ */
+export const ingestScan = (
+  payload: unknown,
+  storeId: string,
+  source?: RealtimeClient
+): Promise<ScanIngestResult> => serializeStoreWrites(storeId, async () => {
+  const repository = getRepository(storeId);
+
+  const result = validateScanUpdate(payload);
+  if (!result.isValid) {
+    return { status: 'quarantined', quarantine: await repository.quarantineScan(payload, result.errors) };
+  }
+  if (result.value.storeId !== undefined && result.value.storeId !== storeId) {
+    const errors = [`scan is for store ${result.value.storeId} but was submitted to store ${storeId}`];
+    return { status: 'quarantined', quarantine: await repository.quarantineScan(payload, errors) };
+  }
+
+  const update = { ...result.value, storeId };
+  const shelf = await repository.getShelf(update.shelf);
+  if (!shelf) {
+    const errors = [`shelf ${update.shelf} does not exist`];
+    return { status: 'quarantined', quarantine: await repository.quarantineScan(payload, errors) };
+  }
+
+  if (update.scanId) {
+    const existing = await repository.findScanByScanId(update.scanId);
+    if (existing) return { status: 'duplicate', record: existing };
+  }
+
+  if (new Date(update.timestamp).getTime() < new Date(shelf.lastScanned).getTime()) {
+    return { status: 'stale', shelfId: shelf.id, lastScanned: shelf.lastScanned };
+  }
+
+  const history = (await repository.listRecentScans(shelf.id, FORECAST_HISTORY_SCANS))
+    .map(previous => previous.update);
+  const depletionRates = estimateDepletionRates([...history, update]);
+
+  const record = await repository.appendScan(update, depletionRates);
+  const { alertChanges } = await commitShelfUpdate(withDepletionRates(applyScanUpdate(shelf, update), depletionRates));
+
+  broadcast(storeId, { type: 'scan', payload: record.update, cursor: record.seq, depletionRates }, source);
+  const rescanTask = await completeRescanTask(storeId, record);
+
+  return { status: 'accepted', record, alertChanges, rescanTask };
+});
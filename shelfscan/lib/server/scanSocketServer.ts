@@ -0,0 +1,210 @@
+/**
+ * Scan WebSocket Server for ShelfScan AI
+ * Accepts `ScanUpdate` messages from drones/publishers on `/api/ws` and hands
+ * them to scan ingestion, which persists and broadcasts them to dashboards.
+ * Each connection belongs to the store named by `?store=` (or the store
+ * header; the default store otherwise), and only sends and hears its scans.
+ *
+ * Connections must authenticate on upgrade with the session cookie, an
+ * `Authorization: Bearer` header or a `?token=` query parameter (browsers
+ * can't set headers on a WebSocket). Only roles allowed to submit scans may
+ * send them; everyone else just listens.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Store, User } from '../types';
+import { canAccessStore, hasPermission } from '../roles';
+import { authenticateToken, getTokenFromHeaders } from './auth';
+import { getClientCount, registerClient, sendMessage } from './realtimeHub';
+import { getRepository } from './repository';
+import { ingestScan } from './scanIngestion';
+import { getRequestedStoreId, resolveStore } from './stores';
+
+export const SCAN_SOCKET_PATH = '/api/ws';
+
+interface ScanSocketServerOptions {
+  /** Interval for ping/pong liveness checks in milliseconds (default: 30000) */
+  heartbeatInterval?: number;
+  /** Upgrade handler for every other path (e.g. Next.js HMR) */
+  fallbackUpgrade?: (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+}
+
+// ============================================================================
+// MESSAGE PARSING
+// ============================================================================
+
+/**
+ * Unwrap an incoming socket frame into a scan payload, or explain why it was rejected
+ * The payload itself is validated by scan ingestion.
+ */
+const parseScanMessage = (data: RawData): { payload: unknown } | { error: string } => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    return { error: 'Message is not valid JSON' };
+  }
+
+  const { type, payload } = (message ?? {}) as { type?: unknown; payload?: unknown };
+  if (type !== 'scan') {
+    return { error: `Unsupported message type: ${String(type)}` };
+  }
+
+  return { payload };
+};
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * Resolve the user behind an upgrade request, or null to reject it
+ */
+const authenticateUpgrade = (req: IncomingMessage, url: URL): Promise<User | null> =>
+  authenticateToken(
+    url.searchParams.get('token') ??
+    getTokenFromHeaders({ authorization: req.headers.authorization, cookie: req.headers.cookie })
+  );
+
+const rejectUpgrade = (socket: Duplex, status: string = '401 Unauthorized') => {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// ============================================================================
+// SERVER SETUP
+// ============================================================================
+
+/**
+ * Attach the scan WebSocket endpoint to an existing HTTP server
+ */
+export const attachScanSocketServer = (
+  server: Server,
+  options: ScanSocketServerOptions = {}
+): WebSocketServer => {
+  const { heartbeatInterval = 30000, fallbackUpgrade } = options;
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on('upgrade', async (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === SCAN_SOCKET_PATH) {
+      const user = await authenticateUpgrade(req, url).catch(() => null);
+      if (!user) {
+        rejectUpgrade(socket);
+        return;
+      }
+      const requested = getRequestedStoreId(url, {
+        get: name => {
+          const value = req.headers[name.toLowerCase()];
+          return typeof value === 'string' ? value : null;
+        }
+      });
+      const store = await resolveStore(requested, user).catch(() => null);
+      if (!store) {
+        rejectUpgrade(socket, '404 Not Found');
+        return;
+      }
+      if (!canAccessStore(user, store.id)) {
+        rejectUpgrade(socket, '403 Forbidden');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, user, store));
+    } else if (fallbackUpgrade) {
+      fallbackUpgrade(req, socket, head);
+    } else {
+      socket.destroy();
+    }
+  });
+
+  wss.on('connection', async (ws: WebSocket, user: User, store: Store) => {
+    const unregister = registerClient(ws, store.id);
+    alive.set(ws, true);
+
+    ws.on('pong', () => alive.set(ws, true));
+
+    ws.on('message', async data => {
+      if (!hasPermission(user, 'submit-scans')) {
+        sendMessage(ws, { type: 'error', payload: { message: 'This account cannot submit scans' } });
+        return;
+      }
+
+      const parsed = parseScanMessage(data);
+      if ('error' in parsed) {
+        sendMessage(ws, { type: 'error', payload: { message: parsed.error } });
+        return;
+      }
+
+      try {
+        const result = await ingestScan(parsed.payload, store.id, ws);
+        switch (result.status) {
+          case 'accepted':
+          case 'duplicate': {
+            const { shelf, timestamp, scanId } = result.record.update;
+            sendMessage(ws, {
+              type: 'ack',
+              payload: { shelf, timestamp, scanId, duplicate: result.status === 'duplicate' }
+            });
+            break;
+          }
+          case 'stale':
+            sendMessage(ws, {
+              type: 'error',
+              payload: {
+                message: `Scan is older than shelf ${result.shelfId} (last scanned ${result.lastScanned}); ignored`
+              }
+            });
+            break;
+          case 'quarantined':
+            sendMessage(ws, {
+              type: 'error',
+              payload: { message: 'Invalid scan quarantined', errors: result.quarantine.errors }
+            });
+            break;
+        }
+      } catch (error) {
+        console.error('[ScanSocket] Failed to ingest scan:', error);
+        sendMessage(ws, { type: 'error', payload: { message: 'Failed to store scan' } });
+      }
+    });
+
+    ws.on('close', unregister);
+    ws.on('error', error => {
+      console.error('[ScanSocket] Client error:', error);
+      unregister();
+    });
+
+    try {
+      sendMessage(ws, {
+        type: 'hello',
+        payload: {
+          storeId: store.id,
+          clients: getClientCount(store.id),
+          cursor: await getRepository(store.id).getLatestScanCursor(),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('[ScanSocket] Failed to read scan cursor:', error);
+    }
+  });
+
+  // Drop clients that stopped answering pings (e.g. dropped Wi-Fi on the floor)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, heartbeatInterval);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+};
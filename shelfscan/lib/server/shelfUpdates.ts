@@ -0,0 +1,31 @@
+/**
+ * Shelf Updates for ShelfScan AI
+ * Persists a changed shelf and runs the alert engine over it, so every
+ * server-side shelf write (scans, REST edits) keeps alerts in step and
+ * sends the changes to the alert webhook.
+ */
+
+import { Shelf } from '../types';
+import { AlertChanges, evaluateShelfAlerts } from '../alertEngine';
+import { getRepository } from './repository';
+import { notifyAlertChanges } from './notifications';
+
+/**
+ * Save a shelf and persist the alert changes its new stock levels call for
+ * `timestamp` defaults to the shelf's lastScanned (see evaluateShelfAlerts).
+ */
+export const commitShelfUpdate = async (
+  shelf: Shelf,
+  timestamp?: string
+): Promise<{ shelf: Shelf; alertChanges: AlertChanges }> => {
+  const repository = getRepository(shelf.storeId);
+  const saved = await repository.saveShelf(shelf);
+
+  const alertChanges = evaluateShelfAlerts(saved, await repository.listAlerts(), timestamp);
+  for (const alert of [...alertChanges.opened, ...alertChanges.updated, ...alertChanges.resolved]) {
+    await repository.saveAlert(alert);
+  }
+  notifyAlertChanges(shelf.storeId, alertChanges).catch(error => console.warn('Alert notifications failed:', error));
+
+  return { shelf: saved, alertChanges };
+};
@@ -0,0 +1,38 @@
+/**
+ * Store Write Queue for ShelfScan AI
+ * Every read-modify-write of a store's shelves (scan ingestion, restocks,
+ * shelf, product, threshold, planogram and catalog edits) runs through its
+ * store's queue, one at a time, so a restock and a scan arriving together
+ * can't each save a shelf read before the other's update.
+ */
+
+// Kept on globalThis because the socket server and route handlers are
+// separate module graphs in the same process.
+const globalForWrites = globalThis as unknown as {
+  __shelfscanStoreWriteQueues?: Map<string, Promise<unknown>>;
+};
+
+const getQueues = (): Map<string, Promise<unknown>> =>
+  (globalForWrites.__shelfscanStoreWriteQueues ??= new Map());
+
+/**
+ * Run `task` once every write already queued for the given stores has
+ * settled, holding all of their queues until it settles itself. Writes
+ * spanning stores (catalog renames) name each store they touch.
+ */
+export const serializeStoreWrites = <T>(storeIds: string | string[], task: () => Promise<T>): Promise<T> => {
+  const queues = getQueues();
+  const ids = [...new Set(typeof storeIds === 'string' ? [storeIds] : storeIds)];
+
+  const previous = ids.map(id => (queues.get(id) ?? Promise.resolve()).catch(() => undefined));
+  const next = Promise.all(previous).then(task);
+  ids.forEach(id => queues.set(id, next));
+
+  // Forget a store's queue once its last write has settled
+  const release = () => ids.forEach(id => {
+    if (queues.get(id) === next) queues.delete(id);
+  });
+  next.then(release, release);
+
+  return next;
+};
@@ -0,0 +1,27 @@
+/**
+ * Store Resolution for ShelfScan AI
+ * Works out which store an API request or socket connection is for: the
+ * `?store=` query parameter, else the store header, else the default store.
+ * Free of Next.js imports so the scan socket server can use it too.
+ */
+
+import { Store, User } from '../types';
+import { DEFAULT_STORE_ID, STORE_HEADER, STORE_QUERY_PARAM } from '../stores';
+import { canAccessStore } from '../roles';
+import { getRepository } from './repository';
+
+/**
+ * The store ID a request asks for, or null when it doesn't name one
+ */
+export const getRequestedStoreId = (url: URL, headers: { get(name: string): string | null }): string | null =>
+  url.searchParams.get(STORE_QUERY_PARAM) ?? headers.get(STORE_HEADER);
+
+/**
+ * Look up the requested store, or null when it doesn't exist. When none was
+ * named it is the default store, or the user's first store if they can't
+ * work in the default one.
+ */
+export const resolveStore = (requested: string | null, user?: Pick<User, 'stores'>): Promise<Store | null> => {
+  const fallback = user?.stores && !canAccessStore(user, DEFAULT_STORE_ID) ? user.stores[0] : undefined;
+  return getRepository().getStore(requested ?? fallback ?? DEFAULT_STORE_ID);
+};
@@ -0,0 +1,109 @@
+/**
+ * Store Settings for ShelfScan AI
+ * Defaults for each store's configuration and helpers for applying it.
+ * The server keeps every store's saved settings with the data file;
+ * dashboards load the current store's at start-up and use the defaults
+ * until they arrive.
+ */
+
+import { DetectionBackendId, Store, StoreSettings } from './types';
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  thresholds: {
+    default: 10,
+    byCategory: {}
+  },
+  realtime: {
+    mode: 'live',
+    pollingInterval: 6000,
+    reconnectBaseDelay: 1000,
+    reconnectMaxDelay: 30000,
+    wsUpdateInterval: 10000,
+    wsUpdateProbability: 0.25,
+    pollingUpdateProbability: 0.15
+  },
+  detection: {
+    backend: 'hugging-face',
+    minScore: 0.25,
+    mappingConfidence: 0.6,
+    updateConfidence: 0.3,
+    endpoint: '',
+    ensembleBackends: ['hugging-face', 'coco-ssd']
+  },
+  escalation: {
+    fallbackMinutes: 15
+  },
+  notifications: {
+    banner: true,
+    desktop: false,
+    webhook: { enabled: false, url: '' }
+  }
+};
+
+/**
+ * Display labels for each detection backend
+ */
+export const DETECTION_BACKENDS: Record<DetectionBackendId, string> = {
+  'hugging-face': 'DETR (Hugging Face)',
+  'coco-ssd': 'COCO-SSD',
+  'google-vision': 'Google Vision (needs an API key)',
+  'local-http': 'Local model server (e.g. YOLOv8)',
+  'ensemble': 'Ensemble: fuse several backends'
+};
+
+export const DETECTION_BACKEND_IDS = Object.keys(DETECTION_BACKENDS) as DetectionBackendId[];
+
+/**
+ * Backends an ensemble can combine (every one but the ensemble itself)
+ */
+export const ENSEMBLE_MEMBER_IDS = DETECTION_BACKEND_IDS.filter(id => id !== 'ensemble');
+
+export const isDetectionBackendId = (value: unknown): value is DetectionBackendId =>
+  typeof value === 'string' && (DETECTION_BACKEND_IDS as string[]).includes(value);
+
+/**
+ * Whether `value` is an IANA time zone this runtime knows
+ */
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.trim() === '') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fill in any section or field missing from saved settings, so settings
+ * saved by an older version pick up new options at their defaults
+ */
+export const withDefaultSettings = (saved: Partial<StoreSettings> = {}): StoreSettings => ({
+  ...saved,
+  thresholds: { ...DEFAULT_SETTINGS.thresholds, ...saved.thresholds },
+  realtime: { ...DEFAULT_SETTINGS.realtime, ...saved.realtime },
+  detection: { ...DEFAULT_SETTINGS.detection, ...saved.detection },
+  escalation: { ...DEFAULT_SETTINGS.escalation, ...saved.escalation },
+  notifications: {
+    ...DEFAULT_SETTINGS.notifications,
+    ...saved.notifications,
+    webhook: { ...DEFAULT_SETTINGS.notifications.webhook, ...saved.notifications?.webhook }
+  }
+});
+
+/**
+ * Threshold for a newly shelved product: its category's default, else the store's
+ */
+export const getDefaultThreshold = (settings: StoreSettings, category?: string): number =>
+  (category !== undefined ? settings.thresholds.byCategory[category] : undefined) ?? settings.thresholds.default;
+
+/**
+ * The store's time zone and fallback timeout, for an alert routing context
+ */
+export const getRoutingSettings = (
+  store: Store | undefined,
+  settings: StoreSettings
+): { timeZone?: string; fallbackMs: number } => ({
+  timeZone: store?.timezone,
+  fallbackMs: settings.escalation.fallbackMinutes * 60 * 1000
+});
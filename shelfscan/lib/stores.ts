@@ -0,0 +1,83 @@
+/**
+ * Stores for ShelfScan AI
+ *
+ * How a request picks its store, and the regional overview that rolls shelf
+ * status counts up from each store to its region and the whole chain.
+ */
+
+import { Alert, RegionalOverview, RegionSummary, Shelf, ShelfStatusCounts, Store, StoreSummary } from './types';
+import { isActiveAlert } from './alertLifecycle';
+
+/**
+ * Store that requests without a store go to; data from before stores
+ * existed is migrated into it
+ */
+export const DEFAULT_STORE_ID = 'main';
+
+/**
+ * Header the dashboards send the selected store in
+ */
+export const STORE_HEADER = 'x-shelfscan-store';
+
+/**
+ * Query parameter that selects the store, for clients that can't set
+ * headers (WebSockets, links); wins over the header
+ */
+export const STORE_QUERY_PARAM = 'store';
+
+export const isStoreId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[a-z0-9][a-z0-9-]{0,39}$/.test(value);
+
+// ============================================================================
+// REGIONAL OVERVIEW
+// ============================================================================
+
+const emptyCounts = (): ShelfStatusCounts => ({ ok: 0, low: 0, empty: 0, total: 0, activeAlerts: 0 });
+
+const addCounts = (a: ShelfStatusCounts, b: ShelfStatusCounts): ShelfStatusCounts => ({
+  ok: a.ok + b.ok,
+  low: a.low + b.low,
+  empty: a.empty + b.empty,
+  total: a.total + b.total,
+  activeAlerts: a.activeAlerts + b.activeAlerts
+});
+
+/**
+ * Shelf status counts and active alerts for one store
+ */
+export const summarizeStore = (store: Store, shelves: Shelf[], alerts: Alert[]): StoreSummary => {
+  const lastScanned = shelves
+    .map(shelf => shelf.lastScanned)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+  return {
+    store,
+    ok: shelves.filter(shelf => shelf.status === 'ok').length,
+    low: shelves.filter(shelf => shelf.status === 'low').length,
+    empty: shelves.filter(shelf => shelf.status === 'empty').length,
+    total: shelves.length,
+    activeAlerts: alerts.filter(isActiveAlert).length,
+    ...(lastScanned && { lastScanned })
+  };
+};
+
+/**
+ * Group store summaries by region, regions and stores by name, with totals
+ * per region and for every store
+ */
+export const getRegionalOverview = (summaries: StoreSummary[]): RegionalOverview => {
+  const byRegion = new Map<string, StoreSummary[]>();
+  summaries.forEach(summary => {
+    byRegion.set(summary.store.region, [...(byRegion.get(summary.store.region) ?? []), summary]);
+  });
+
+  const regions = [...byRegion]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([region, stores]): RegionSummary => ({
+      region,
+      stores: [...stores].sort((a, b) => a.store.name.localeCompare(b.store.name)),
+      totals: stores.reduce(addCounts, emptyCounts())
+    }));
+
+  return { regions, totals: regions.map(region => region.totals).reduce(addCounts, emptyCounts()) };
+};
@@ -0,0 +1,89 @@
+/**
+ * Test Fixtures for ShelfScan AI
+ * Factories the `*.test.ts` files build their shelves, scans, alerts and
+ * detections from. Every fixture belongs to store `main` and is timed in
+ * hours from FIXTURE_START, a UTC midnight.
+ */
+
+import type { Detection } from './camera/detectionBackend';
+import { Alert, Product, ScanUpdate, Shelf } from './types';
+
+// ============================================================================
+// TIME
+// ============================================================================
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+export const FIXTURE_START = Date.parse('2026-03-02T00:00:00.000Z');
+
+/**
+ * ISO timestamp `hours` after FIXTURE_START (negative for before)
+ */
+export const at = (hours: number): string => new Date(FIXTURE_START + hours * HOUR_MS).toISOString();
+
+// ============================================================================
+// INVENTORY
+// ============================================================================
+
+/**
+ * A catalog product at `count` units
+ */
+export const product = (sku: string, name: string, threshold: number, count = 0): Product => ({
+  sku,
+  product: name,
+  count,
+  threshold
+});
+
+/**
+ * A shelf in store `main`, last scanned at FIXTURE_START
+ */
+export const shelf = (id: string, fields: Partial<Shelf> = {}): Shelf => ({
+  id,
+  storeId: 'main',
+  aisle: 'Aisle A',
+  items: [],
+  status: 'ok',
+  lastScanned: at(0),
+  ...fields
+});
+
+/**
+ * A scan of `shelfId` taken `hours` after FIXTURE_START
+ */
+export const scan = (shelfId: string, hours: number, items: Product[]): ScanUpdate => ({
+  shelf: shelfId,
+  items,
+  timestamp: at(hours)
+});
+
+/**
+ * An open alert for a product, raised `hours` after FIXTURE_START
+ */
+export const alert = (shelfId: string, item: Product, hours = 0, fields: Partial<Alert> = {}): Alert => ({
+  id: `alert-${shelfId}-${item.sku}-${hours}`,
+  storeId: 'main',
+  shelf: shelfId,
+  sku: item.sku,
+  product: item.product,
+  type: 'low',
+  timestamp: at(hours),
+  status: 'open',
+  history: [{ status: 'open', at: at(hours), by: 'system' }],
+  ...fields
+});
+
+// ============================================================================
+// DETECTIONS
+// ============================================================================
+
+/**
+ * A boxless COCO-SSD detection unless `fields` say otherwise
+ */
+export const detection = (detectedClass: string, score: number, fields: Partial<Detection> = {}): Detection => ({
+  class: detectedClass,
+  score,
+  bbox: null,
+  source: 'coco-ssd',
+  ...fields
+});
@@ -0,0 +1,195 @@
+/**
+ * Threshold Recommendations for ShelfScan AI
+ * Proposes a per-slot threshold from the product's learned sell-through,
+ * how long restocks take once a slot goes low, and the desired service
+ * level, and builds the audit records for thresholds staff change.
+ */
+
+import { Alert, CatalogProduct, Product, Shelf, ThresholdChange, ThresholdRecommendation, ThresholdScope } from './types';
+import { getTimeToResolve } from './alertLifecycle';
+import { withDerivedStatus } from './inventory';
+
+/**
+ * Service levels on offer, with the z-score of each (normal approximation)
+ */
+const SERVICE_LEVEL_Z: Record<string, number> = {
+  '0.9': 1.282,
+  '0.95': 1.645,
+  '0.98': 2.054,
+  '0.99': 2.326
+};
+
+export const SERVICE_LEVELS = Object.keys(SERVICE_LEVEL_Z).map(Number);
+
+export const DEFAULT_SERVICE_LEVEL = 0.95;
+
+/**
+ * Lead time assumed until a slot or its aisle has a restocked alert to learn from
+ */
+export const DEFAULT_LEAD_TIME_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const isServiceLevel = (value: unknown): value is number =>
+  typeof value === 'number' && String(value) in SERVICE_LEVEL_Z;
+
+// ============================================================================
+// LEAD TIMES
+// ============================================================================
+
+/**
+ * Mean hours from low/empty alerts opening to being resolved, per slot
+ * (`shelf/sku`) and per aisle
+ * Predicted stockouts are left out: they can clear without a restock.
+ */
+export const getRestockLeadTimes = (alerts: Alert[], shelves: Shelf[]) => {
+  const aisles = new Map(shelves.map(shelf => [shelf.id, shelf.aisle]));
+  const samples = { slot: new Map<string, number[]>(), aisle: new Map<string, number[]>() };
+
+  alerts
+    .filter(alert => alert.type !== 'predicted-stockout')
+    .forEach(alert => {
+      const duration = getTimeToResolve(alert);
+      const aisle = aisles.get(alert.shelf);
+      if (duration === null || aisle === undefined) return;
+      const slot = `${alert.shelf}/${alert.sku}`;
+      samples.slot.set(slot, [...(samples.slot.get(slot) ?? []), duration / HOUR_MS]);
+      samples.aisle.set(aisle, [...(samples.aisle.get(aisle) ?? []), duration / HOUR_MS]);
+    });
+
+  const toMeans = (map: Map<string, number[]>) => new Map([...map].map(([key, values]) =>
+    [key, values.reduce((sum, value) => sum + value, 0) / values.length]
+  ));
+  return { slot: toMeans(samples.slot), aisle: toMeans(samples.aisle) };
+};
+
+// ============================================================================
+// RECOMMENDATIONS
+// ============================================================================
+
+/**
+ * Reorder point for a product selling `ratePerHour` with restocks taking
+ * `leadTimeHours`: expected demand over the lead time plus safety stock,
+ * treating demand as Poisson so its spread is the square root of its mean
+ */
+export const recommendThreshold = (
+  ratePerHour: number,
+  leadTimeHours: number,
+  serviceLevel: number = DEFAULT_SERVICE_LEVEL
+): number => {
+  const demand = ratePerHour * leadTimeHours;
+  const z = SERVICE_LEVEL_Z[String(serviceLevel)] ?? SERVICE_LEVEL_Z[String(DEFAULT_SERVICE_LEVEL)];
+  return Math.max(1, Math.ceil(demand + z * Math.sqrt(demand)));
+};
+
+/**
+ * Recommendations for every slot in scope with a learned sell-through rate,
+ * by shelf then product
+ */
+export const getThresholdRecommendations = (
+  data: { shelves: Shelf[]; alerts: Alert[]; catalog: CatalogProduct[] },
+  scope: ThresholdScope = {},
+  serviceLevel: number = DEFAULT_SERVICE_LEVEL
+): ThresholdRecommendation[] => {
+  const categories = new Map(data.catalog.map(entry => [entry.sku, entry.category]));
+  const leadTimes = getRestockLeadTimes(data.alerts, data.shelves);
+
+  return data.shelves
+    .filter(shelf => (scope.shelf === undefined || shelf.id === scope.shelf) &&
+      (scope.aisle === undefined || shelf.aisle === scope.aisle))
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .flatMap(shelf => shelf.items
+      .filter(item => shelf.depletionRates?.[item.sku] !== undefined &&
+        (scope.sku === undefined || item.sku === scope.sku) &&
+        (scope.category === undefined || categories.get(item.sku) === scope.category))
+      .map((item): ThresholdRecommendation => {
+        const ratePerHour = shelf.depletionRates![item.sku];
+        const slotLeadTime = leadTimes.slot.get(`${shelf.id}/${item.sku}`);
+        const aisleLeadTime = leadTimes.aisle.get(shelf.aisle);
+        const leadTimeHours = slotLeadTime ?? aisleLeadTime ?? DEFAULT_LEAD_TIME_HOURS;
+        const category = categories.get(item.sku);
+
+        return {
+          shelf: shelf.id,
+          aisle: shelf.aisle,
+          sku: item.sku,
+          product: item.product,
+          ...(category !== undefined && { category }),
+          currentThreshold: item.threshold,
+          recommendedThreshold: recommendThreshold(ratePerHour, leadTimeHours, serviceLevel),
+          ratePerHour,
+          leadTimeHours: Math.round(leadTimeHours * 100) / 100,
+          leadTimeSource: slotLeadTime !== undefined ? 'slot' : aisleLeadTime !== undefined ? 'aisle' : 'default',
+          serviceLevel
+        };
+      })
+      .sort((a, b) => a.product.localeCompare(b.product)));
+};
+
+// ============================================================================
+// APPLYING CHANGES
+// ============================================================================
+
+/**
+ * Build the audit record for setting a product's threshold on a shelf
+ * Returns null when the product isn't on the shelf or already has that threshold.
+ */
+export const createThresholdChange = (
+  shelf: Shelf,
+  sku: string,
+  newThreshold: number,
+  actor: { by: string; at?: string },
+  recommendation?: ThresholdRecommendation
+): ThresholdChange | null => {
+  const product = shelf.items.find(item => item.sku === sku);
+  if (!product || product.threshold === newThreshold) return null;
+
+  const timestamp = actor.at ?? new Date().toISOString();
+  const slug = sku.replace(/\s+/g, '-').toLowerCase();
+  return {
+    id: `threshold-${shelf.id}-${slug}-${new Date(timestamp).getTime().toString(36)}`,
+    storeId: shelf.storeId,
+    shelf: shelf.id,
+    sku,
+    product: product.product,
+    previousThreshold: product.threshold,
+    newThreshold,
+    ...(recommendation && {
+      recommendation: {
+        ratePerHour: recommendation.ratePerHour,
+        leadTimeHours: recommendation.leadTimeHours,
+        serviceLevel: recommendation.serviceLevel
+      }
+    }),
+    by: actor.by,
+    timestamp
+  };
+};
+
+/**
+ * Audit records for replacing a shelf's products with `items`: one per
+ * product on the shelf before and after whose threshold differs
+ */
+export const createThresholdChanges = (
+  shelf: Shelf,
+  items: Product[],
+  actor: { by: string; at?: string }
+): ThresholdChange[] =>
+  items
+    .map(item => createThresholdChange(shelf, item.sku, item.threshold, actor))
+    .filter((change): change is ThresholdChange => change !== null);
+
+/**
+ * Apply threshold changes to their shelf and recompute its status
+ */
+export const applyThresholdChanges = (shelf: Shelf, changes: ThresholdChange[]): Shelf => {
+  const thresholds = new Map(changes.filter(change => change.shelf === shelf.id).map(change =>
+    [change.sku, change.newThreshold]
+  ));
+  return withDerivedStatus({
+    ...shelf,
+    items: shelf.items.map((item): Product =>
+      thresholds.has(item.sku) ? { ...item, threshold: thresholds.get(item.sku)! } : item
+    )
+  });
+};
@@ -8,10 +8,49 @@
 // ============================================================================
 
 /**
- * Represents a product on a shelf with inventory count and threshold
+ * One store location; shelves, alerts, scans and everything recorded against
+ * them belong to exactly one store, while the catalog and staff accounts
+ * are shared by all of them
+ */
+export interface Store {
+  /** Unique identifier (e.g. "downtown"); selects the store on API requests */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Region the store rolls up into on the regional overview */
+  region: string;
+  /** IANA time zone shift hours are counted in, e.g. "America/Chicago" */
+  timezone: string;
+}
+
+/**
+ * A product the store carries, independent of where it is shelved
+ */
+export interface CatalogProduct {
+  /** Stock keeping unit; the key shelf slots, alerts and restocks refer to */
+  sku: string;
+  /** Display name (e.g. "Dove Soap 100g") */
+  name: string;
+  /** UPC-A or EAN-13 barcode, check digit included */
+  upc?: string;
+  brand?: string;
+  /** Department the product is merchandised under (e.g. "Personal Care") */
+  category?: string;
+  /** Pack size as printed on the label (e.g. "100g", "12 x 355ml") */
+  packSize?: string;
+  /** Cost per unit in the store's currency */
+  unitCost?: number;
+  /** Product image URL */
+  imageUrl?: string;
+}
+
+/**
+ * Represents a product slot on a shelf with inventory count and threshold
  */
 export interface Product {
-  /** Name or identifier of the product */
+  /** SKU of the catalog product in this slot */
+  sku: string;
+  /** Display name, copied from the catalog entry */
   product: string;
   /** Current quantity count detected by drone scan */
   count: number;
@@ -23,8 +62,10 @@ export interface Product {
  * Represents a store shelf with its current inventory status
  */
 export interface Shelf {
-  /** Unique identifier for the shelf (e.g., "A3", "B1") */
+  /** Unique identifier for the shelf within its store (e.g., "A3", "B1") */
   id: string;
+  /** Store the shelf is in */
+  storeId: string;
   /** Aisle designation where the shelf is located */
   aisle: string;
   /** Array of products currently on this shelf */
@@ -35,24 +76,362 @@ export interface Shelf {
   lastScanned: string;
   /** Optional URL to shelf image from drone camera */
   imageUrl?: string;
+  /** Units sold per hour by SKU, learned by the server from consecutive scans */
+  depletionRates?: Record<string, number>;
 }
 
 /**
- * Represents an alert for low stock or empty shelf conditions
+ * How well a product is stocked relative to its threshold
+ * (out: none left anywhere, low: below threshold, ok: below par, par: at or above par)
+ */
+export type StockCoverageLevel = 'out' | 'low' | 'ok' | 'par';
+
+/**
+ * One shelf a product is stocked on
+ */
+export interface ProductLocation {
+  shelf: string;
+  aisle: string;
+  count: number;
+  threshold: number;
+  /** ISO timestamp of the shelf's last scan */
+  lastScanned: string;
+}
+
+/**
+ * A product's stock summed over every shelf it is on
+ */
+export interface ProductInventory {
+  sku: string;
+  /** Display name */
+  product: string;
+  /** Catalog category, if the product has one */
+  category?: string;
+  /** Units across all locations */
+  totalCount: number;
+  /** Sum of the location thresholds */
+  totalThreshold: number;
+  /** totalCount / totalThreshold (1 = exactly at threshold) */
+  coverage: number;
+  coverageLevel: StockCoverageLevel;
+  /** Every shelf the product is on, by shelf ID */
+  locations: ProductLocation[];
+}
+
+/**
+ * Lifecycle state of an alert
+ * open, acknowledged and in-progress are active; the rest are closed
+ */
+export type AlertStatus =
+  | 'open'
+  | 'acknowledged'
+  | 'in-progress'
+  | 'resolved'
+  | 'auto-resolved'
+  | 'dismissed';
+
+/**
+ * One step in an alert's lifecycle: who moved it to which status, and when
+ */
+export interface AlertTransition {
+  /** Status the alert entered */
+  status: AlertStatus;
+  /** ISO timestamp of the transition */
+  at: string;
+  /** Staff member or service that made the transition ('system' for automatic ones) */
+  by: string;
+  /** Optional context, e.g. why an alert was auto-resolved */
+  note?: string;
+}
+
+/**
+ * Stock condition an alert reports
+ * predicted-stockout: still at or above threshold, but selling fast enough
+ * to drop below it soon (see lib/forecasting.ts)
+ */
+export type AlertType = 'low' | 'empty' | 'predicted-stockout';
+
+/**
+ * Represents an alert for low stock, empty shelf or predicted stockout conditions
  */
 export interface Alert {
   /** Unique identifier for the alert */
   id: string;
+  /** Store of the shelf the alert is for */
+  storeId: string;
   /** Shelf ID where the alert originated */
   shelf: string;
-  /** Product name that triggered the alert */
+  /** SKU of the product that triggered the alert */
+  sku: string;
+  /** Product name that triggered the alert (display only; match on `sku`) */
   product: string;
   /** Type of alert condition */
-  type: 'low' | 'empty';
-  /** ISO timestamp when alert was generated */
+  type: AlertType;
+  /** ISO timestamp when alert was generated (or last escalated) */
+  timestamp: string;
+  /** Current lifecycle state */
+  status: AlertStatus;
+  /** Every lifecycle transition, oldest first (starting with 'open') */
+  history: AlertTransition[];
+}
+
+/**
+ * A staff restock of one product on a shelf
+ */
+export interface RestockEvent {
+  /** Unique identifier for the restock */
+  id: string;
+  storeId: string;
+  /** Shelf ID where the product was restocked */
+  shelf: string;
+  /** SKU of the product that was restocked */
+  sku: string;
+  /** Product name that was restocked (display only) */
+  product: string;
+  /** Units added to the shelf */
+  quantity: number;
+  /** Product count before the restock */
+  previousCount: number;
+  /** Product count after the restock */
+  newCount: number;
+  /** Whether staff filled the slot to par rather than entering a quantity */
+  fillToPar: boolean;
+  /** Staff member who restocked */
+  by: string;
+  /** ISO timestamp of the restock */
+  timestamp: string;
+}
+
+/**
+ * Product slots a threshold recommendation query or bulk apply covers
+ * Fields narrow each other, e.g. one category within one aisle.
+ */
+export interface ThresholdScope {
+  shelf?: string;
+  sku?: string;
+  aisle?: string;
+  /** Catalog category */
+  category?: string;
+}
+
+/**
+ * Suggested threshold for one product slot, as a reorder point: the units
+ * expected to sell while a restock is on its way plus safety stock for the
+ * service level
+ */
+export interface ThresholdRecommendation {
+  shelf: string;
+  aisle: string;
+  sku: string;
+  product: string;
+  category?: string;
+  currentThreshold: number;
+  recommendedThreshold: number;
+  /** Learned sell-through, units per hour */
+  ratePerHour: number;
+  /** Expected hours from a slot going low to it being restocked */
+  leadTimeHours: number;
+  /** Where the lead time came from: this slot's resolved alerts, its aisle's, or the default */
+  leadTimeSource: 'slot' | 'aisle' | 'default';
+  /** Target probability of not running out before the restock (e.g. 0.95) */
+  serviceLevel: number;
+}
+
+/**
+ * A change to a product slot's threshold, kept as an audit trail
+ */
+export interface ThresholdChange {
+  /** Unique identifier for the change */
+  id: string;
+  storeId: string;
+  shelf: string;
+  sku: string;
+  /** Product name (display only) */
+  product: string;
+  previousThreshold: number;
+  newThreshold: number;
+  /** Basis of the accepted recommendation; absent for manual edits */
+  recommendation?: Pick<ThresholdRecommendation, 'ratePerHour' | 'leadTimeHours' | 'serviceLevel'>;
+  /** Staff member who made the change */
+  by: string;
+  /** ISO timestamp of the change */
   timestamp: string;
-  /** Whether staff has acknowledged this alert */
-  acknowledged: boolean;
+}
+
+/**
+ * Lifecycle state of a drone rescan task
+ * queued, dispatched and scanning are pending; the rest are final
+ */
+export type RescanTaskStatus =
+  | 'queued'
+  | 'dispatched'
+  | 'scanning'
+  | 'completed'
+  | 'failed'
+  | 'timed-out';
+
+/**
+ * One step in a rescan task's lifecycle
+ */
+export interface RescanTaskTransition {
+  /** Status the task entered */
+  status: RescanTaskStatus;
+  /** ISO timestamp of the transition */
+  at: string;
+  /** Staff member, drone or service that made the transition */
+  by: string;
+  /** Optional context, e.g. why a drone failed the task */
+  note?: string;
+}
+
+/**
+ * A request for a drone to rescan a shelf
+ * Completes only when a matching ScanUpdate is ingested.
+ */
+export interface RescanTask {
+  /** Unique identifier for the task (sent back as `ScanUpdate.taskId`) */
+  id: string;
+  storeId: string;
+  /** Shelf ID to rescan */
+  shelf: string;
+  /** Current lifecycle state */
+  status: RescanTaskStatus;
+  /** Staff member who requested the rescan */
+  requestedBy: string;
+  /** ISO timestamp of the request */
+  requestedAt: string;
+  /** ISO timestamp after which a pending task times out */
+  expiresAt: string;
+  /** Drone that picked up the task */
+  droneId?: string;
+  /** Scan-log cursor of the scan that completed the task */
+  scanSeq?: number;
+  /** Every lifecycle transition, oldest first (starting with 'queued') */
+  history: RescanTaskTransition[];
+}
+
+/**
+ * What a signed-in user may do (see `lib/roles.ts` for the permissions of each)
+ */
+export type UserRole = 'manager' | 'associate' | 'viewer' | 'drone-service';
+
+/**
+ * A staff member or service as seen by the app (never includes credentials)
+ */
+export interface User {
+  /** Unique identifier for the account */
+  id: string;
+  /** Login name, also recorded as the actor on alerts, restocks and rescans */
+  username: string;
+  /** Display name */
+  name: string;
+  /** Role determining what the user may do */
+  role: UserRole;
+  /** IDs of the stores the user may work in; every store when absent */
+  stores?: string[];
+}
+
+/**
+ * Stored staff account with its credentials (server-side only)
+ */
+export interface UserAccount extends User {
+  /** scrypt hash of the password (see lib/server/auth.ts) */
+  passwordHash: string;
+  /** ISO timestamp when the account was created */
+  createdAt: string;
+}
+
+/**
+ * Named shift an associate can be assigned to (hours in `lib/alertRouting.ts`)
+ */
+export type ShiftId = 'opening' | 'closing' | 'overnight';
+
+/**
+ * A staff member responsible for an aisle during a shift
+ */
+export interface AisleAssignment {
+  /** Unique identifier for the assignment */
+  id: string;
+  storeId: string;
+  /** Aisle as it appears on `Shelf.aisle` (e.g. "Aisle A") */
+  aisle: string;
+  /** Username of the assigned associate or manager */
+  username: string;
+  /** Shift the assignment covers */
+  shift: ShiftId;
+  /** Manager who made the assignment */
+  assignedBy: string;
+  /** ISO timestamp when the assignment was made */
+  assignedAt: string;
+}
+
+// ============================================================================
+// STORE LAYOUT MODELS
+// ============================================================================
+
+/**
+ * A rectangle on the floor plan, in floor units from the top-left corner
+ */
+export interface FloorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A product's slot on a planogram shelf
+ */
+export interface PlanogramSlot {
+  /** Catalog SKU of the product */
+  sku: string;
+  /** Product name, used for SKUs not yet in the catalog (defaults to the SKU) */
+  product: string;
+  /** Number of facings (side-by-side positions) the product gets */
+  facings: number;
+  /** Minimum quantity before a low stock alert */
+  threshold: number;
+}
+
+/**
+ * Where a shelf sits on the floor plan
+ */
+export interface PlanogramShelf extends FloorRect {
+  /** Shelf ID as it appears on `Shelf.id` (e.g. "C4") */
+  id: string;
+  /** Product slots, left to right; when omitted the shelf's products are left as they are */
+  products?: PlanogramSlot[];
+}
+
+/**
+ * An aisle on the floor plan and the shelves along it
+ */
+export interface PlanogramAisle extends FloorRect {
+  /** Aisle as it appears on `Shelf.aisle` (e.g. "Aisle A") */
+  name: string;
+  /** Short label drawn on the map (defaults to the name) */
+  label?: string;
+  shelves: PlanogramShelf[];
+}
+
+/**
+ * A non-shelf landmark drawn for orientation (entrance, checkout, back room)
+ */
+export interface PlanogramFixture extends FloorRect {
+  label: string;
+}
+
+/**
+ * Store layout loaded from the planogram file (see `config/planogram.json`)
+ */
+export interface Planogram {
+  /** Store name shown above the map */
+  store: string;
+  /** Floor dimensions; every aisle, shelf and fixture must fit inside */
+  width: number;
+  height: number;
+  aisles: PlanogramAisle[];
+  fixtures: PlanogramFixture[];
 }
 
 // ============================================================================
@@ -63,10 +442,22 @@ export interface Alert {
  * Global application state structure
  */
 export interface AppState {
-  /** Array of all shelves in the store */
+  /** Every store location, by name */
+  stores: Store[];
+  /** Store the dashboards show, null until the stores have loaded */
+  currentStoreId: string | null;
+  /** Array of all shelves in the current store */
   shelves: Shelf[];
   /** Array of current active alerts */
   alerts: Alert[];
+  /** Recent drone rescan tasks, newest first */
+  rescanTasks: RescanTask[];
+  /** Signed-in user, null until the session has loaded */
+  currentUser: User | null;
+  /** Aisle/shift assignments used to route alerts to staff */
+  assignments: AisleAssignment[];
+  /** Current store's configuration (defaults until loaded from the server) */
+  settings: StoreSettings;
   /** Loading states for different operations */
   loading: {
     shelves: boolean;
@@ -104,6 +495,7 @@ export type ActionType =
   | { type: 'FETCH_ALERTS_ERROR'; payload: string }
   | { type: 'ADD_ALERT'; payload: Alert }
   | { type: 'ACKNOWLEDGE_ALERT'; payload: string }
+  | { type: 'TRANSITION_ALERT'; payload: { alertId: string; status: AlertStatus; by: string; at: string; note?: string } }
   | { type: 'REMOVE_ALERT'; payload: string }
   | { type: 'SET_ALERTS'; payload: Alert[] }
   
@@ -114,8 +506,25 @@ export type ActionType =
   | { type: 'CLEAR_FILTERS' }
   
   // Staff action events
-  | { type: 'MARK_RESTOCKED'; payload: { shelfId: string; productName: string } }
-  | { type: 'REQUEST_RESCAN'; payload: string };
+  | { type: 'MARK_RESTOCKED'; payload: RestockEvent }
+  | { type: 'SET_RESCAN_TASKS'; payload: RescanTask[] }
+  | { type: 'UPSERT_RESCAN_TASK'; payload: RescanTask }
+
+  // Session actions
+  | { type: 'SET_CURRENT_USER'; payload: User | null }
+
+  // Staff assignment actions
+  | { type: 'SET_ASSIGNMENTS'; payload: AisleAssignment[] }
+  | { type: 'UPSERT_ASSIGNMENT'; payload: AisleAssignment }
+  | { type: 'REMOVE_ASSIGNMENT'; payload: string }
+
+  // Settings actions
+  | { type: 'SET_SETTINGS'; payload: StoreSettings }
+
+  // Store actions
+  | { type: 'SET_STORES'; payload: Store[] }
+  | { type: 'UPSERT_STORE'; payload: Store }
+  | { type: 'SET_CURRENT_STORE'; payload: string };
 
 // ============================================================================
 // UTILITY TYPES
@@ -125,11 +534,87 @@ export type ActionType =
  * Scan update data format received from drone/backend
  */
 export interface ScanUpdate {
+  /** Store the scan is for; stamped by the server with the store it was submitted to */
+  storeId?: string;
   shelf: string;
   items: Product[];
   timestamp: string;
+  /** Client-generated ID; resubmitting the same scanId is a no-op */
+  scanId?: string;
+  /** Rescan task this scan fulfils, if it was requested */
+  taskId?: string;
+}
+
+/**
+ * Scan update as recorded by the server, with its position in the scan log
+ */
+export interface ScanRecord {
+  /** Monotonically increasing cursor position in the store's scan log */
+  seq: number;
+  /** ISO timestamp when the server received the scan */
+  receivedAt: string;
+  /** The scan as sent by the drone/publisher */
+  update: ScanUpdate;
+  /** The shelf's depletion rates learned after applying this scan */
+  depletionRates?: Record<string, number>;
+}
+
+/**
+ * Scan payload that failed validation, kept for inspection instead of applied
+ */
+export interface QuarantinedScan {
+  /** Unique identifier for the quarantine entry */
+  id: string;
+  /** Store the payload was submitted to */
+  storeId: string;
+  /** ISO timestamp when the server received the payload */
+  receivedAt: string;
+  /** The payload exactly as submitted */
+  payload: unknown;
+  /** Reasons the payload was rejected */
+  errors: string[];
+}
+
+/**
+ * Response body of `GET /api/scans?since=<cursor>`
+ */
+export interface ScanHistoryResponse {
+  /** Scans recorded after the requested cursor, oldest first */
+  scans: ScanRecord[];
+  /** Cursor to pass as `since` on the next request */
+  cursor: number;
+}
+
+/**
+ * File formats a planogram can be imported from and exported to
+ */
+export type PlanogramFormat = 'json' | 'csv';
+
+/**
+ * Data returned by `POST /api/planogram/import`
+ */
+export interface PlanogramImportResult {
+  /** The planogram as imported */
+  planogram: Planogram;
+  /** Shelf IDs created from the planogram */
+  created: string[];
+  /** Shelf IDs whose aisle or product slots changed */
+  updated: string[];
+  /** Shelf IDs deleted because the planogram no longer lists them (`prune`) */
+  removed: string[];
+  /** Shelf IDs the planogram doesn't list, left in place */
+  unplaced: string[];
+  /** SKUs added to the catalog because the planogram stocks them */
+  addedSkus: string[];
+  /** True when nothing was saved (`dryRun`) */
+  dryRun: boolean;
 }
 
+/**
+ * How much a restock adds: an entered quantity, or enough to fill the slot to par
+ */
+export type RestockAmount = { quantity: number } | { fillToPar: true };
+
 /**
  * Demo simulation event for controlled scenarios
  */
@@ -148,4 +633,246 @@ export interface StaffActionResult {
   message: string;
   shelfId: string;
   timestamp: string;
-} 
\ No newline at end of file
+}
+
+/**
+ * Response envelope for API mutations, modelled on StaffActionResult
+ */
+export interface ApiResult<T = unknown> {
+  success: boolean;
+  message: string;
+  timestamp: string;
+  /** Shelf affected by the operation, when there is one */
+  shelfId?: string;
+  /** The created/updated resource */
+  data?: T;
+  /** Field-level validation errors for rejected requests */
+  errors?: string[];
+}
+
+// ============================================================================
+// FORECASTING MODELS
+// ============================================================================
+
+/**
+ * Projected run-down of one product at its learned sell-through rate
+ */
+export interface StockForecast {
+  sku: string;
+  product: string;
+  /** Units sold per hour */
+  ratePerHour: number;
+  /** Milliseconds from the last scan until the count drops below threshold (0 if it already has; null if not selling) */
+  timeToThresholdMs: number | null;
+  /** Milliseconds from the last scan until the product runs out (0 if it already has; null if not selling) */
+  timeToEmptyMs: number | null;
+  /** ISO timestamps of the same, or null */
+  thresholdAt: string | null;
+  emptyAt: string | null;
+}
+
+// ============================================================================
+// ANALYTICS MODELS
+// ============================================================================
+
+/**
+ * A count at a point in time
+ */
+export interface CountHistoryPoint {
+  timestamp: string;
+  count: number;
+}
+
+/**
+ * Count history of one shelf, product, or product on a shelf
+ */
+export interface CountHistorySeries {
+  /** Shelf ID or SKU the series tracks */
+  key: string;
+  /** Display label (shelf ID or product name) */
+  label: string;
+  /** Oldest first; one point per scan that reported the series */
+  points: CountHistoryPoint[];
+}
+
+/**
+ * Stockouts of one product on one shelf within the report window
+ */
+export interface StockoutStats {
+  shelf: string;
+  /** Current aisle of the shelf, if it still exists */
+  aisle?: string;
+  sku: string;
+  product: string;
+  /** Empty periods overlapping the window */
+  stockouts: number;
+  /** Milliseconds the slot spent empty within the window */
+  totalDurationMs: number;
+  meanDurationMs: number;
+  /** Still empty at the last scan */
+  ongoing: boolean;
+}
+
+/**
+ * Alerts opened per aisle per day (UTC)
+ */
+export interface AlertVolume {
+  /** YYYY-MM-DD, oldest first */
+  days: string[];
+  /** `counts[i]` is the alerts opened on `days[i]` */
+  aisles: { aisle: string; counts: number[]; total: number }[];
+}
+
+/**
+ * Mean time from an alert opening to the stock being back at threshold
+ */
+export interface RestockTimeStats {
+  aisle: string;
+  meanTimeToRestockMs: number | null;
+  /** Resolved alerts the mean is taken over */
+  samples: number;
+}
+
+/**
+ * Response body of `GET /api/analytics`
+ */
+export interface AnalyticsReport {
+  /** Window start (ISO timestamp) */
+  from: string;
+  /** Window end (ISO timestamp) */
+  to: string;
+  /** Total units per shelf, or per product on the shelf when filtered by `shelf` */
+  shelfHistory: CountHistorySeries[];
+  /** Store-wide units per product, or per shelf when filtered by `sku` */
+  productHistory: CountHistorySeries[];
+  /** Most time spent empty first */
+  stockouts: StockoutStats[];
+  alertVolume: AlertVolume;
+  meanTimeToRestockMs: number | null;
+  restockTimesByAisle: RestockTimeStats[];
+}
+
+// ============================================================================
+// REGIONAL OVERVIEW MODELS
+// ============================================================================
+
+/**
+ * Shelf status counts, for one store or rolled up over several
+ */
+export interface ShelfStatusCounts {
+  ok: number;
+  low: number;
+  empty: number;
+  total: number;
+  /** Alerts not yet resolved */
+  activeAlerts: number;
+}
+
+/**
+ * One store's line on the regional overview
+ */
+export interface StoreSummary extends ShelfStatusCounts {
+  store: Store;
+  /** Most recent shelf scan in the store (ISO timestamp), if any */
+  lastScanned?: string;
+}
+
+/**
+ * Stores of one region with their counts rolled up
+ */
+export interface RegionSummary {
+  region: string;
+  stores: StoreSummary[];
+  totals: ShelfStatusCounts;
+}
+
+/**
+ * Data returned by `GET /api/stores/overview`
+ */
+export interface RegionalOverview {
+  regions: RegionSummary[];
+  /** Every store rolled up */
+  totals: ShelfStatusCounts;
+}
+
+// ============================================================================
+// SETTINGS MODELS
+// ============================================================================
+
+/**
+ * Object detector the camera scanner uses ('hugging-face' is DETR;
+ * 'ensemble' runs several and fuses their boxes). Any single backend but
+ * COCO-SSD falls back to COCO-SSD when it fails or finds nothing.
+ */
+export type DetectionBackendId = 'hugging-face' | 'coco-ssd' | 'google-vision' | 'local-http' | 'ensemble';
+
+/**
+ * Configuration of one store, edited by managers on the settings page and
+ * applied by the server and every dashboard when they load
+ */
+export interface StoreSettings {
+  /** Threshold given to a product added to a shelf without one */
+  thresholds: {
+    default: number;
+    /** Overrides by catalog category */
+    byCategory: Record<string, number>;
+  };
+  /** Dashboard connection to the scan server (see `useRealTimeUpdates`) */
+  realtime: {
+    mode: 'live' | 'simulated';
+    /** Scan history polling interval while the socket is down, in milliseconds */
+    pollingInterval: number;
+    reconnectBaseDelay: number;
+    reconnectMaxDelay: number;
+    /** Simulated mode only: update interval and probabilities */
+    wsUpdateInterval: number;
+    wsUpdateProbability: number;
+    pollingUpdateProbability: number;
+  };
+  detection: {
+    backend: DetectionBackendId;
+    /** Detections scoring below this are dropped */
+    minScore: number;
+    /** Detections must score this to be mapped to a shelf */
+    mappingConfidence: number;
+    /** A mapped shelf is only updated from a match this confident */
+    updateConfidence: number;
+    /** Detection server the 'local-http' backend posts frames to */
+    endpoint: string;
+    /** Backends the 'ensemble' backend runs on each frame */
+    ensembleBackends: DetectionBackendId[];
+  };
+  escalation: {
+    /** Minutes an alert may stay open before it falls back to the managers */
+    fallbackMinutes: number;
+  };
+  notifications: {
+    /** Active alerts panel on the dashboard */
+    banner: boolean;
+    /** Browser notifications for newly opened alerts routed to the signed-in user */
+    desktop: boolean;
+    /** Newly opened alerts and alert type changes are POSTed to `url` when enabled */
+    webhook: { enabled: boolean; url: string };
+  };
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// ============================================================================
+// REAL-TIME PROTOCOL
+// ============================================================================
+
+/**
+ * Messages exchanged over the scan WebSocket (`/api/ws?store=<id>`)
+ * Every connection belongs to one store and only sees that store's traffic.
+ * Drones and publishers send `scan`; dashboards receive `scan` broadcasts
+ * stamped with the scan-log cursor assigned by the server and the shelf's
+ * learned depletion rates, and `rescan`
+ * broadcasts whenever a rescan task changes state
+ */
+export type RealtimeMessage =
+  | { type: 'hello'; payload: { storeId: string; clients: number; cursor: number; timestamp: string } }
+  | { type: 'scan'; payload: ScanUpdate; cursor?: number; depletionRates?: Record<string, number> }
+  | { type: 'rescan'; payload: RescanTask }
+  | { type: 'ack'; payload: { shelf: string; timestamp: string; scanId?: string; duplicate?: boolean } }
+  | { type: 'error'; payload: { message: string; errors?: string[] } };
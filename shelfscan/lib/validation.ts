@@ -0,0 +1,870 @@
+/**
+ * Request Validation for ShelfScan AI
+ * Checks untrusted input (API bodies, imports) against the shapes in
+ * `lib/types.ts` and reports every problem found, not just the first one.
+ */
+
+import {
+  Alert,
+  CatalogProduct,
+  DetectionBackendId,
+  FloorRect,
+  Planogram,
+  PlanogramAisle,
+  PlanogramFixture,
+  PlanogramShelf,
+  PlanogramSlot,
+  Product,
+  RestockAmount,
+  ScanUpdate,
+  ShiftId,
+  Store,
+  StoreSettings,
+  ThresholdScope
+} from './types';
+import { isShiftId, SHIFT_IDS } from './alertRouting';
+import { isValidUpc } from './catalog';
+import { isServiceLevel, SERVICE_LEVELS } from './thresholds';
+import { DETECTION_BACKEND_IDS, ENSEMBLE_MEMBER_IDS, isDetectionBackendId, isTimeZone } from './settings';
+import { isStoreId } from './stores';
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export type ValidationResult<T> =
+  | { isValid: true; value: T; errors: [] }
+  | { isValid: false; errors: string[] };
+
+/**
+ * Fields accepted when creating or replacing a shelf (status is always derived)
+ */
+export interface ShelfInput {
+  id: string;
+  aisle: string;
+  items: Product[];
+  lastScanned?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Fields accepted when creating an alert
+ */
+export interface AlertInput {
+  id?: string;
+  shelf: string;
+  sku: string;
+  type: Alert['type'];
+  timestamp?: string;
+}
+
+/**
+ * Fields accepted with a staff alert transition (acknowledge, resolve, ...)
+ */
+export interface AlertTransitionInput {
+  note?: string;
+}
+
+/**
+ * Fields accepted when recording a restock
+ * Body: the product's `sku` plus either a positive `quantity` or `fillToPar: true`
+ */
+export interface RestockInput {
+  sku: string;
+  amount: RestockAmount;
+}
+
+/**
+ * Fields accepted when requesting a drone rescan
+ */
+export interface RescanRequestInput {
+  shelf: string;
+}
+
+/**
+ * Fields accepted with a drone controller task update (dispatch, start, fail)
+ */
+export interface RescanTransitionInput {
+  droneId?: string;
+  note?: string;
+}
+
+/**
+ * Fields accepted when assigning staff to an aisle
+ */
+export interface AssignmentInput {
+  aisle: string;
+  username: string;
+  shift: ShiftId;
+}
+
+/**
+ * Fields accepted when applying threshold recommendations in bulk
+ * At least one of shelf, aisle or category is required so a stray request
+ * can't retune the whole store.
+ */
+export interface ThresholdApplyInput extends ThresholdScope {
+  serviceLevel?: number;
+}
+
+/**
+ * Credentials submitted to sign in
+ */
+export interface LoginInput {
+  username: string;
+  password: string;
+}
+
+/**
+ * How far a scan timestamp may run ahead of the server clock
+ * A scan from the future would otherwise block every later scan of its shelf
+ */
+export const MAX_SCAN_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const valid = <T>(value: T): ValidationResult<T> => ({ isValid: true, value, errors: [] });
+const invalid = <T>(errors: string[]): ValidationResult<T> => ({ isValid: false, errors });
+
+// ============================================================================
+// FIELD CHECKS
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Accepts full ISO-8601 timestamps only (e.g. 2024-05-01T12:00:00.000Z)
+ */
+export const isIsoTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+  !Number.isNaN(new Date(value).getTime());
+
+// ============================================================================
+// ENTITY VALIDATORS
+// ============================================================================
+
+/**
+ * Validate a single product slot
+ */
+export const validateProduct = (input: unknown, path: string = 'product'): ValidationResult<Product> => {
+  if (!isRecord(input)) return invalid([`${path} must be an object`]);
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.sku)) errors.push(`${path}.sku must be a non-empty string`);
+  if (!isNonEmptyString(input.product)) errors.push(`${path}.product must be a non-empty string`);
+  if (!isNonNegativeInteger(input.count)) errors.push(`${path}.count must be a non-negative integer`);
+  if (!isNonNegativeInteger(input.threshold) || input.threshold === 0) {
+    errors.push(`${path}.threshold must be a positive integer`);
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    sku: (input.sku as string).trim(),
+    product: (input.product as string).trim(),
+    count: input.count as number,
+    threshold: input.threshold as number
+  });
+};
+
+/**
+ * Validate a list of product slots, rejecting duplicate SKUs
+ */
+export const validateProducts = (input: unknown, path: string = 'items'): ValidationResult<Product[]> => {
+  if (!Array.isArray(input)) return invalid([`${path} must be an array`]);
+
+  const errors: string[] = [];
+  const products: Product[] = [];
+  const seen = new Set<string>();
+
+  input.forEach((item, index) => {
+    const result = validateProduct(item, `${path}[${index}]`);
+    if (!result.isValid) {
+      errors.push(...result.errors);
+      return;
+    }
+    if (seen.has(result.value.sku)) {
+      errors.push(`${path}[${index}].sku "${result.value.sku}" appears more than once`);
+      return;
+    }
+    seen.add(result.value.sku);
+    products.push(result.value);
+  });
+
+  return errors.length > 0 ? invalid(errors) : valid(products);
+};
+
+/**
+ * Validate a shelf body; with `partial`, only the fields present are checked
+ */
+export const validateShelfInput = <P extends boolean = false>(
+  input: unknown,
+  options: { partial?: P } = {}
+): ValidationResult<P extends true ? Partial<ShelfInput> : ShelfInput> => {
+  type Result = ValidationResult<P extends true ? Partial<ShelfInput> : ShelfInput>;
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']) as Result;
+
+  const partial = options.partial === true;
+  const errors: string[] = [];
+  const value: Partial<ShelfInput> = {};
+
+  if (input.id !== undefined || !partial) {
+    if (isNonEmptyString(input.id)) value.id = input.id.trim();
+    else errors.push('id must be a non-empty string');
+  }
+
+  if (input.aisle !== undefined || !partial) {
+    if (isNonEmptyString(input.aisle)) value.aisle = input.aisle.trim();
+    else errors.push('aisle must be a non-empty string');
+  }
+
+  if (input.items !== undefined || !partial) {
+    const items = validateProducts(input.items ?? [], 'items');
+    if (items.isValid) value.items = items.value;
+    else errors.push(...items.errors);
+  }
+
+  if (input.lastScanned !== undefined) {
+    if (isIsoTimestamp(input.lastScanned)) value.lastScanned = input.lastScanned;
+    else errors.push('lastScanned must be an ISO-8601 timestamp');
+  }
+
+  if (input.imageUrl !== undefined) {
+    if (typeof input.imageUrl === 'string') value.imageUrl = input.imageUrl;
+    else errors.push('imageUrl must be a string');
+  }
+
+  if (input.status !== undefined) {
+    errors.push('status is derived from product counts and cannot be set');
+  }
+
+  return (errors.length > 0 ? invalid(errors) : valid(value)) as Result;
+};
+
+/**
+ * Validate a catalog entry; with `partial`, only the fields present are
+ * checked and `null` clears an optional field
+ */
+export const validateCatalogProduct = <P extends boolean = false>(
+  input: unknown,
+  options: { partial?: P } = {}
+): ValidationResult<P extends true ? Partial<CatalogProduct> : CatalogProduct> => {
+  type Result = ValidationResult<P extends true ? Partial<CatalogProduct> : CatalogProduct>;
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']) as Result;
+
+  const partial = options.partial === true;
+  const errors: string[] = [];
+  const value: Partial<CatalogProduct> = {};
+
+  if (input.sku !== undefined || !partial) {
+    if (isNonEmptyString(input.sku) && !/\s/.test(input.sku.trim())) value.sku = input.sku.trim();
+    else errors.push('sku must be a non-empty string without spaces');
+  }
+
+  if (input.name !== undefined || !partial) {
+    if (isNonEmptyString(input.name)) value.name = input.name.trim();
+    else errors.push('name must be a non-empty string');
+  }
+
+  if (input.upc === null && partial) {
+    value.upc = undefined;
+  } else if (input.upc !== undefined) {
+    if (typeof input.upc === 'string' && isValidUpc(input.upc.trim())) value.upc = input.upc.trim();
+    else errors.push('upc must be a 12-digit UPC-A or 13-digit EAN-13 code with a valid check digit');
+  }
+
+  for (const key of ['brand', 'category', 'packSize', 'imageUrl'] as const) {
+    if (input[key] === null && partial) {
+      value[key] = undefined;
+    } else if (input[key] !== undefined) {
+      if (isNonEmptyString(input[key])) value[key] = (input[key] as string).trim();
+      else errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  if (input.unitCost === null && partial) {
+    value.unitCost = undefined;
+  } else if (input.unitCost !== undefined) {
+    if (typeof input.unitCost === 'number' && Number.isFinite(input.unitCost) && input.unitCost >= 0) {
+      value.unitCost = input.unitCost;
+    } else {
+      errors.push('unitCost must be a non-negative number');
+    }
+  }
+
+  return (errors.length > 0 ? invalid(errors) : valid(value)) as Result;
+};
+
+/**
+ * Validate an alert body
+ */
+export const validateAlertInput = (input: unknown): ValidationResult<AlertInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  if (input.id !== undefined && !isNonEmptyString(input.id)) errors.push('id must be a non-empty string');
+  if (!isNonEmptyString(input.shelf)) errors.push('shelf must be a non-empty string');
+  if (!isNonEmptyString(input.sku)) errors.push('sku must be a non-empty string');
+  if (input.type !== 'low' && input.type !== 'empty') errors.push("type must be 'low' or 'empty'");
+  if (input.timestamp !== undefined && !isIsoTimestamp(input.timestamp)) {
+    errors.push('timestamp must be an ISO-8601 timestamp');
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    id: input.id as string | undefined,
+    shelf: (input.shelf as string).trim(),
+    sku: (input.sku as string).trim(),
+    type: input.type as Alert['type'],
+    timestamp: input.timestamp as string | undefined
+  });
+};
+
+/**
+ * Validate an alert transition body; an empty or missing body is allowed
+ */
+export const validateAlertTransitionInput = (input: unknown): ValidationResult<AlertTransitionInput> => {
+  if (input === undefined || input === null) return valid({});
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  if (input.note !== undefined && typeof input.note !== 'string') return invalid(['note must be a string']);
+
+  return valid({
+    ...(isNonEmptyString(input.note) && { note: input.note.trim() })
+  });
+};
+
+/**
+ * Validate a restock body
+ */
+export const validateRestockInput = (input: unknown): ValidationResult<RestockInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.sku)) errors.push('sku must be a non-empty string');
+
+  const fillToPar = input.fillToPar === true;
+  if (input.fillToPar !== undefined && typeof input.fillToPar !== 'boolean') {
+    errors.push('fillToPar must be a boolean');
+  }
+  if (fillToPar && input.quantity !== undefined) {
+    errors.push('quantity cannot be combined with fillToPar');
+  } else if (!fillToPar && (!isNonNegativeInteger(input.quantity) || input.quantity === 0)) {
+    errors.push('quantity must be a positive integer (or set fillToPar)');
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    sku: (input.sku as string).trim(),
+    amount: fillToPar ? { fillToPar: true } : { quantity: input.quantity as number }
+  });
+};
+
+/**
+ * Validate a rescan request body
+ */
+export const validateRescanRequestInput = (input: unknown): ValidationResult<RescanRequestInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  if (!isNonEmptyString(input.shelf)) return invalid(['shelf must be a non-empty string']);
+  return valid({ shelf: input.shelf.trim() });
+};
+
+/**
+ * Validate a rescan task update body; an empty or missing body is allowed
+ */
+export const validateRescanTransitionInput = (input: unknown): ValidationResult<RescanTransitionInput> => {
+  if (input === undefined || input === null) return valid({});
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  if (input.droneId !== undefined && !isNonEmptyString(input.droneId)) {
+    errors.push('droneId must be a non-empty string');
+  }
+  if (input.note !== undefined && typeof input.note !== 'string') errors.push('note must be a string');
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    ...(input.droneId !== undefined && { droneId: (input.droneId as string).trim() }),
+    ...(isNonEmptyString(input.note) && { note: input.note.trim() })
+  });
+};
+
+/**
+ * Validate an aisle assignment body; the aisle and user are checked by the route
+ */
+export const validateAssignmentInput = (input: unknown): ValidationResult<AssignmentInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.aisle)) errors.push('aisle must be a non-empty string');
+  if (!isNonEmptyString(input.username)) errors.push('username must be a non-empty string');
+  if (!isShiftId(input.shift)) errors.push(`shift must be one of: ${SHIFT_IDS.join(', ')}`);
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    aisle: (input.aisle as string).trim(),
+    username: (input.username as string).trim(),
+    shift: input.shift as ShiftId
+  });
+};
+
+/**
+ * Validate a threshold recommendation apply body
+ */
+export const validateThresholdApplyInput = (input: unknown): ValidationResult<ThresholdApplyInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  const scopeKeys = ['shelf', 'sku', 'aisle', 'category'] as const;
+  scopeKeys.forEach(key => {
+    if (input[key] !== undefined && !isNonEmptyString(input[key])) errors.push(`${key} must be a non-empty string`);
+  });
+  if (input.shelf === undefined && input.aisle === undefined && input.category === undefined) {
+    errors.push('One of shelf, aisle or category is required');
+  }
+  if (input.serviceLevel !== undefined && !isServiceLevel(input.serviceLevel)) {
+    errors.push(`serviceLevel must be one of: ${SERVICE_LEVELS.join(', ')}`);
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  const value: ThresholdApplyInput = {};
+  scopeKeys.forEach(key => {
+    if (isNonEmptyString(input[key])) value[key] = input[key].trim();
+  });
+  if (input.serviceLevel !== undefined) value.serviceLevel = input.serviceLevel as number;
+  return valid(value);
+};
+
+/**
+ * Validate a sign-in body
+ */
+export const validateLoginInput = (input: unknown): ValidationResult<LoginInput> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.username)) errors.push('username must be a non-empty string');
+  if (!isNonEmptyString(input.password)) errors.push('password must be a non-empty string');
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({ username: (input.username as string).trim(), password: input.password as string });
+};
+
+/**
+ * Validate a drone scan payload; shelf existence is checked at ingestion
+ */
+export const validateScanUpdate = (
+  input: unknown,
+  now: Date = new Date()
+): ValidationResult<ScanUpdate> => {
+  if (!isRecord(input)) return invalid(['Scan must be a JSON object']);
+
+  const errors: string[] = [];
+  if (input.storeId !== undefined && !isNonEmptyString(input.storeId)) {
+    errors.push('storeId must be a non-empty string');
+  }
+  if (!isNonEmptyString(input.shelf)) errors.push('shelf must be a non-empty string');
+
+  const items = validateProducts(input.items, 'items');
+  if (!items.isValid) errors.push(...items.errors);
+
+  if (!isIsoTimestamp(input.timestamp)) {
+    errors.push('timestamp must be an ISO-8601 timestamp');
+  } else if (new Date(input.timestamp).getTime() > now.getTime() + MAX_SCAN_CLOCK_SKEW_MS) {
+    errors.push(`timestamp ${input.timestamp} is in the future`);
+  }
+
+  if (input.scanId !== undefined && !isNonEmptyString(input.scanId)) {
+    errors.push('scanId must be a non-empty string');
+  }
+  if (input.taskId !== undefined && !isNonEmptyString(input.taskId)) {
+    errors.push('taskId must be a non-empty string');
+  }
+
+  if (errors.length > 0 || !items.isValid) return invalid(errors);
+  return valid({
+    ...(input.storeId !== undefined && { storeId: (input.storeId as string).trim() }),
+    shelf: (input.shelf as string).trim(),
+    items: items.value,
+    timestamp: input.timestamp as string,
+    ...(input.scanId !== undefined && { scanId: (input.scanId as string).trim() }),
+    ...(input.taskId !== undefined && { taskId: (input.taskId as string).trim() })
+  });
+};
+
+// ============================================================================
+// STORE LAYOUT VALIDATORS
+// ============================================================================
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Check a floor rectangle's coordinates and that it fits inside `bounds`
+ */
+const validateFloorRect = (input: Record<string, unknown>, path: string, bounds?: FloorRect): string[] => {
+  const errors: string[] = [];
+  for (const key of ['x', 'y'] as const) {
+    if (!isNonNegativeNumber(input[key])) errors.push(`${path}.${key} must be a non-negative number`);
+  }
+  for (const key of ['width', 'height'] as const) {
+    if (!isNonNegativeNumber(input[key]) || input[key] === 0) errors.push(`${path}.${key} must be a positive number`);
+  }
+  if (errors.length > 0 || !bounds) return errors;
+
+  const { x, y, width, height } = input as unknown as FloorRect;
+  if (x < bounds.x || y < bounds.y || x + width > bounds.x + bounds.width || y + height > bounds.y + bounds.height) {
+    errors.push(`${path} extends past the floor plan`);
+  }
+  return errors;
+};
+
+const toFloorRect = (input: Record<string, unknown>): FloorRect => ({
+  x: input.x as number,
+  y: input.y as number,
+  width: input.width as number,
+  height: input.height as number
+});
+
+/**
+ * Validate a shelf's product slots, rejecting duplicate SKUs
+ */
+export const validatePlanogramSlots = (input: unknown, path: string): ValidationResult<PlanogramSlot[]> => {
+  if (!Array.isArray(input)) return invalid([`${path} must be an array`]);
+
+  const errors: string[] = [];
+  const slots: PlanogramSlot[] = [];
+  const seen = new Set<string>();
+
+  input.forEach((slot, index) => {
+    const slotPath = `${path}[${index}]`;
+    if (!isRecord(slot)) {
+      errors.push(`${slotPath} must be an object`);
+      return;
+    }
+
+    const slotErrors: string[] = [];
+    if (!isNonEmptyString(slot.sku)) {
+      slotErrors.push(`${slotPath}.sku must be a non-empty string`);
+    } else if (seen.has(slot.sku.trim())) {
+      slotErrors.push(`${slotPath}.sku "${slot.sku.trim()}" appears more than once`);
+    }
+    if (slot.product !== undefined && !isNonEmptyString(slot.product)) {
+      slotErrors.push(`${slotPath}.product must be a non-empty string`);
+    }
+    if (!isNonNegativeInteger(slot.facings) || slot.facings === 0) {
+      slotErrors.push(`${slotPath}.facings must be a positive integer`);
+    }
+    if (!isNonNegativeInteger(slot.threshold) || slot.threshold === 0) {
+      slotErrors.push(`${slotPath}.threshold must be a positive integer`);
+    }
+    if (slotErrors.length > 0) {
+      errors.push(...slotErrors);
+      return;
+    }
+
+    const sku = (slot.sku as string).trim();
+    seen.add(sku);
+    slots.push({
+      sku,
+      product: slot.product === undefined ? sku : (slot.product as string).trim(),
+      facings: slot.facings as number,
+      threshold: slot.threshold as number
+    });
+  });
+
+  return errors.length > 0 ? invalid(errors) : valid(slots);
+};
+
+/**
+ * Validate a store planogram: every aisle, shelf and fixture must sit on the
+ * floor plan, and aisle names and shelf IDs must be unique across the store
+ */
+export const validatePlanogram = (input: unknown): ValidationResult<Planogram> => {
+  if (!isRecord(input)) return invalid(['Planogram must be a JSON object']);
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.store)) errors.push('store must be a non-empty string');
+
+  const hasWidth = isNonNegativeNumber(input.width) && input.width > 0;
+  const hasHeight = isNonNegativeNumber(input.height) && input.height > 0;
+  if (!hasWidth) errors.push('width must be a positive number');
+  if (!hasHeight) errors.push('height must be a positive number');
+  // Without floor dimensions, placements are only checked for well-formed coordinates
+  const floor = hasWidth && hasHeight
+    ? { x: 0, y: 0, width: input.width as number, height: input.height as number }
+    : undefined;
+
+  const aisles: PlanogramAisle[] = [];
+  const aisleNames = new Set<string>();
+  const shelfIds = new Set<string>();
+
+  if (!Array.isArray(input.aisles)) {
+    errors.push('aisles must be an array');
+  } else {
+    input.aisles.forEach((aisle, index) => {
+      const path = `aisles[${index}]`;
+      if (!isRecord(aisle)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      const aisleErrors = validateFloorRect(aisle, path, floor);
+      if (!isNonEmptyString(aisle.name)) {
+        aisleErrors.push(`${path}.name must be a non-empty string`);
+      } else if (aisleNames.has(aisle.name.trim())) {
+        aisleErrors.push(`${path}.name "${aisle.name.trim()}" appears more than once`);
+      }
+      if (aisle.label !== undefined && !isNonEmptyString(aisle.label)) {
+        aisleErrors.push(`${path}.label must be a non-empty string`);
+      }
+
+      const shelves: PlanogramShelf[] = [];
+      if (!Array.isArray(aisle.shelves)) {
+        aisleErrors.push(`${path}.shelves must be an array`);
+      } else {
+        aisle.shelves.forEach((shelf, shelfIndex) => {
+          const shelfPath = `${path}.shelves[${shelfIndex}]`;
+          if (!isRecord(shelf)) {
+            aisleErrors.push(`${shelfPath} must be an object`);
+            return;
+          }
+          const shelfErrors = validateFloorRect(shelf, shelfPath, floor);
+          if (!isNonEmptyString(shelf.id)) {
+            shelfErrors.push(`${shelfPath}.id must be a non-empty string`);
+          } else if (shelfIds.has(shelf.id.trim())) {
+            shelfErrors.push(`${shelfPath}.id "${shelf.id.trim()}" appears more than once`);
+          } else {
+            shelfIds.add(shelf.id.trim());
+          }
+          const products = shelf.products === undefined
+            ? undefined
+            : validatePlanogramSlots(shelf.products, `${shelfPath}.products`);
+          if (products && !products.isValid) shelfErrors.push(...products.errors);
+          if (shelfErrors.length > 0 || (products && !products.isValid)) {
+            aisleErrors.push(...shelfErrors);
+            return;
+          }
+          shelves.push({
+            id: (shelf.id as string).trim(),
+            ...toFloorRect(shelf),
+            ...(products && { products: products.value })
+          });
+        });
+      }
+
+      if (aisleErrors.length > 0) {
+        errors.push(...aisleErrors);
+        return;
+      }
+      const name = (aisle.name as string).trim();
+      aisleNames.add(name);
+      aisles.push({
+        name,
+        ...(aisle.label !== undefined && { label: (aisle.label as string).trim() }),
+        ...toFloorRect(aisle),
+        shelves
+      });
+    });
+  }
+
+  const fixtures: PlanogramFixture[] = [];
+  if (input.fixtures !== undefined && !Array.isArray(input.fixtures)) {
+    errors.push('fixtures must be an array');
+  } else {
+    ((input.fixtures ?? []) as unknown[]).forEach((fixture, index) => {
+      const path = `fixtures[${index}]`;
+      if (!isRecord(fixture)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      const fixtureErrors = validateFloorRect(fixture, path, floor);
+      if (!isNonEmptyString(fixture.label)) fixtureErrors.push(`${path}.label must be a non-empty string`);
+      if (fixtureErrors.length > 0) {
+        errors.push(...fixtureErrors);
+        return;
+      }
+      fixtures.push({ label: (fixture.label as string).trim(), ...toFloorRect(fixture) });
+    });
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    store: (input.store as string).trim(),
+    width: input.width as number,
+    height: input.height as number,
+    aisles,
+    fixtures
+  });
+};
+
+// ============================================================================
+// STORE VALIDATORS
+// ============================================================================
+
+/**
+ * Validate a new store, or with `partial` the fields of a store update
+ * (the ID can't change once created)
+ */
+export const validateStore = <P extends boolean = false>(
+  input: unknown,
+  options: { partial?: P } = {}
+): ValidationResult<P extends true ? Partial<Omit<Store, 'id'>> : Store> => {
+  type Result = ValidationResult<P extends true ? Partial<Omit<Store, 'id'>> : Store>;
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']) as Result;
+
+  const partial = options.partial === true;
+  const errors: string[] = [];
+  const value: Partial<Store> = {};
+
+  if (partial) {
+    if (input.id !== undefined) errors.push('id cannot be changed');
+  } else if (isStoreId(input.id)) {
+    value.id = input.id;
+  } else {
+    errors.push('id must be 1-40 lowercase letters, digits or dashes, starting with a letter or digit');
+  }
+
+  for (const key of ['name', 'region'] as const) {
+    if (input[key] !== undefined || !partial) {
+      if (isNonEmptyString(input[key])) value[key] = (input[key] as string).trim();
+      else errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  if (input.timezone !== undefined || !partial) {
+    if (isTimeZone(input.timezone)) value.timezone = input.timezone;
+    else errors.push('timezone must be an IANA time zone (e.g. America/Chicago)');
+  }
+
+  return (errors.length > 0 ? invalid(errors) : valid(value)) as Result;
+};
+
+// ============================================================================
+// SETTINGS VALIDATORS
+// ============================================================================
+
+const isProbability = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  isNonNegativeInteger(value) && value > 0;
+
+/**
+ * Validate a full settings body (every section is required; the settings
+ * page always sends them all)
+ */
+export const validateSettings = (input: unknown): ValidationResult<StoreSettings> => {
+  if (!isRecord(input)) return invalid(['Body must be a JSON object']);
+
+  const errors: string[] = [];
+  const section = (key: string): Record<string, unknown> => {
+    if (isRecord(input[key])) return input[key];
+    errors.push(`${key} must be an object`);
+    return {};
+  };
+  const { thresholds, realtime, detection, escalation, notifications } = {
+    thresholds: section('thresholds'),
+    realtime: section('realtime'),
+    detection: section('detection'),
+    escalation: section('escalation'),
+    notifications: section('notifications')
+  };
+
+  if (!isPositiveInteger(thresholds.default)) errors.push('thresholds.default must be a positive integer');
+  if (!isRecord(thresholds.byCategory)) {
+    errors.push('thresholds.byCategory must be an object');
+  } else {
+    Object.entries(thresholds.byCategory).forEach(([category, value]) => {
+      if (!isPositiveInteger(value)) errors.push(`thresholds.byCategory["${category}"] must be a positive integer`);
+    });
+  }
+
+  if (realtime.mode !== 'live' && realtime.mode !== 'simulated') errors.push('realtime.mode must be live or simulated');
+  (['pollingInterval', 'reconnectBaseDelay', 'reconnectMaxDelay', 'wsUpdateInterval'] as const).forEach(key => {
+    if (!isPositiveInteger(realtime[key])) errors.push(`realtime.${key} must be a positive number of milliseconds`);
+  });
+  if (isPositiveInteger(realtime.reconnectBaseDelay) && isPositiveInteger(realtime.reconnectMaxDelay) &&
+    realtime.reconnectMaxDelay < realtime.reconnectBaseDelay) {
+    errors.push('realtime.reconnectMaxDelay cannot be less than realtime.reconnectBaseDelay');
+  }
+  (['wsUpdateProbability', 'pollingUpdateProbability'] as const).forEach(key => {
+    if (!isProbability(realtime[key])) errors.push(`realtime.${key} must be between 0 and 1`);
+  });
+
+  if (!isDetectionBackendId(detection.backend)) {
+    errors.push(`detection.backend must be one of: ${DETECTION_BACKEND_IDS.join(', ')}`);
+  }
+  (['minScore', 'mappingConfidence', 'updateConfidence'] as const).forEach(key => {
+    if (!isProbability(detection[key])) errors.push(`detection.${key} must be between 0 and 1`);
+  });
+  const { ensembleBackends } = detection;
+  if (!Array.isArray(ensembleBackends) ||
+    !ensembleBackends.every(id => (ENSEMBLE_MEMBER_IDS as unknown[]).includes(id)) ||
+    new Set(ensembleBackends).size !== ensembleBackends.length) {
+    errors.push(`detection.ensembleBackends must list distinct backends from: ${ENSEMBLE_MEMBER_IDS.join(', ')}`);
+  } else if (detection.backend === 'ensemble' && ensembleBackends.length < 2) {
+    errors.push('detection.ensembleBackends must list at least two backends when the backend is ensemble');
+  }
+  const usesEndpoint = detection.backend === 'local-http' ||
+    (detection.backend === 'ensemble' && Array.isArray(ensembleBackends) && ensembleBackends.includes('local-http'));
+  if (typeof detection.endpoint !== 'string') {
+    errors.push('detection.endpoint must be a string');
+  } else if (usesEndpoint && !/^https?:\/\/\S+$/.test(detection.endpoint.trim())) {
+    errors.push('detection.endpoint must be an http(s) URL when the local-http backend is used');
+  }
+
+  if (!isPositiveInteger(escalation.fallbackMinutes)) {
+    errors.push('escalation.fallbackMinutes must be a positive integer');
+  }
+
+  if (typeof notifications.banner !== 'boolean') errors.push('notifications.banner must be a boolean');
+  if (typeof notifications.desktop !== 'boolean') errors.push('notifications.desktop must be a boolean');
+  const webhook = isRecord(notifications.webhook) ? notifications.webhook : null;
+  if (!webhook) {
+    errors.push('notifications.webhook must be an object');
+  } else {
+    if (typeof webhook.enabled !== 'boolean') errors.push('notifications.webhook.enabled must be a boolean');
+    if (typeof webhook.url !== 'string') {
+      errors.push('notifications.webhook.url must be a string');
+    } else if (webhook.enabled === true && !/^https?:\/\/\S+$/.test(webhook.url.trim())) {
+      errors.push('notifications.webhook.url must be an http(s) URL when the webhook is enabled');
+    }
+  }
+
+  if (errors.length > 0) return invalid(errors);
+  return valid({
+    thresholds: {
+      default: thresholds.default as number,
+      byCategory: { ...(thresholds.byCategory as Record<string, number>) }
+    },
+    realtime: {
+      mode: realtime.mode as StoreSettings['realtime']['mode'],
+      pollingInterval: realtime.pollingInterval as number,
+      reconnectBaseDelay: realtime.reconnectBaseDelay as number,
+      reconnectMaxDelay: realtime.reconnectMaxDelay as number,
+      wsUpdateInterval: realtime.wsUpdateInterval as number,
+      wsUpdateProbability: realtime.wsUpdateProbability as number,
+      pollingUpdateProbability: realtime.pollingUpdateProbability as number
+    },
+    detection: {
+      backend: detection.backend as StoreSettings['detection']['backend'],
+      minScore: detection.minScore as number,
+      mappingConfidence: detection.mappingConfidence as number,
+      updateConfidence: detection.updateConfidence as number,
+      endpoint: (detection.endpoint as string).trim(),
+      ensembleBackends: [...(ensembleBackends as DetectionBackendId[])]
+    },
+    escalation: { fallbackMinutes: escalation.fallbackMinutes as number },
+    notifications: {
+      banner: notifications.banner as boolean,
+      desktop: notifications.desktop as boolean,
+      webhook: { enabled: webhook!.enabled as boolean, url: (webhook!.url as string).trim() }
+    }
+  });
+};
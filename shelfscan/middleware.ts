@@ -0,0 +1,25 @@
+/**
+ * Middleware for ShelfScan AI
+ * Sends visitors without a session cookie to the login page. The cookie is
+ * only checked for presence here; API routes verify it on every request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mirrors SESSION_COOKIE in lib/server/auth.ts, which can't load in the edge runtime
+const SESSION_COOKIE = 'shelfscan_session';
+
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except API routes, Next.js assets, the login page and static files
+  matcher: ['/((?!api|_next/static|_next/image|login|favicon.ico|.*\\..*).*)']
+};
@@ -0,0 +1,54 @@
+/**
+ * Create User Script for ShelfScan AI
+ * Adds a staff account to the server-side store, or resets the password,
+ * role and stores of an existing one.
+ *
+ * Usage:
+ *   npm run create-user -- --username jdoe --name "Jane Doe" --role associate --password <password> [--stores main,downtown]
+ *
+ * `--stores` limits the account to those store IDs; without it the account
+ * may work in every store.
+ */
+
+import { getRepository } from '../lib/server/repository';
+import { createUserAccount } from '../lib/server/auth';
+import { isUserRole, USER_ROLES } from '../lib/roles';
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const main = async () => {
+  const username = getArg('username')?.trim();
+  const password = getArg('password');
+  const role = getArg('role') ?? 'associate';
+  if (!username || !password) {
+    throw new Error('--username and --password are required');
+  }
+  if (!isUserRole(role)) {
+    throw new Error(`--role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+
+  const repository = getRepository();
+  const stores = getArg('stores')?.split(',').map(id => id.trim()).filter(Boolean);
+  if (stores?.length === 0) {
+    throw new Error('--stores must list at least one store ID');
+  }
+  for (const storeId of stores ?? []) {
+    if (!(await repository.getStore(storeId))) throw new Error(`Store ${storeId} not found`);
+  }
+
+  const existing = await repository.findUserByUsername(username);
+  const account = createUserAccount({ username, name: getArg('name') ?? username, role, password, stores });
+
+  await repository.saveUser(existing
+    ? { ...account, id: existing.id, username: existing.username, createdAt: existing.createdAt }
+    : account);
+  console.log(`👤 ${existing ? 'Updated' : 'Created'} ${role} account ${username}${stores ? ` for ${stores.join(', ')}` : ''}`);
+};
+
+main().catch(error => {
+  console.error('❌ Creating user failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Detection Server Stub
+ * Speaks the local HTTP detection contract (`lib/camera/httpDetection.ts`)
+ * and answers every frame with the same canned detections, so the
+ * `local-http` backend can be tried without a model server.
+ *
+ * Usage:
+ *   npm run detection-stub -- [--port 8765] [--fixture detections.json]
+ *
+ * `--fixture` replaces the canned detections with a JSON file in the
+ * response format (`{ "detections": [...] }`). Boxes in the built-in set
+ * (`lib/camera/detectionStub.ts`) are scaled to each frame's size. Point
+ * the store's Detection server URL at http://localhost:<port>/detect.
+ */
+
+import { readFileSync } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { HttpDetection, parseHttpDetectionResponse } from '../lib/camera/httpDetection';
+import { createStubResponse } from '../lib/camera/detectionStub';
+
+// ============================================================================
+// ARGUMENT PARSING
+// ============================================================================
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const port = Number(getArg('port') ?? 8765);
+const fixture = getArg('fixture');
+
+// ============================================================================
+// CANNED DETECTIONS
+// ============================================================================
+
+const loadFixture = (path: string): HttpDetection[] => parseHttpDetectionResponse(JSON.parse(readFileSync(path, 'utf8')));
+
+const cannedDetections = fixture ? loadFixture(fixture) : null;
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  // The dashboard calls from another origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'POST a frame to detect objects in it' });
+    return;
+  }
+
+  let request: { image?: unknown; width?: unknown; height?: unknown; minScore?: unknown };
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: 'Body must be valid JSON' });
+    return;
+  }
+  if (typeof request.image !== 'string' || typeof request.width !== 'number' || typeof request.height !== 'number') {
+    sendJson(res, 400, { error: '`image` (base64 JPEG), `width` and `height` are required' });
+    return;
+  }
+
+  const { width, height } = request;
+  const minScore = typeof request.minScore === 'number' ? request.minScore : 0;
+  const response = createStubResponse(width, height, minScore, cannedDetections);
+
+  console.log(`🎯 ${width}x${height} frame → ${response.detections.length} detections`);
+  sendJson(res, 200, response);
+});
+
+server.listen(port, () => {
+  console.log(`🤖 Detection stub listening on http://localhost:${port}/detect`);
+  console.log(cannedDetections ? `   Serving ${cannedDetections.length} detections from ${fixture}` : '   Serving demo detections');
+});
@@ -0,0 +1,47 @@
+/**
+ * Issue Token Script for ShelfScan AI
+ * Prints a service token for a drone controller or scan publisher. Service
+ * tokens carry the drone-service role and are sent as `Authorization: Bearer`.
+ *
+ * Usage:
+ *   npm run issue-token -- --name drone-01 [--days 90] [--stores main,downtown]
+ *
+ * `--stores` limits the token to those store IDs; without it the token
+ * works in every store.
+ *
+ * Tokens are signed with `SHELFSCAN_AUTH_SECRET`, so run this with the same
+ * secret as the server.
+ */
+
+import { signServiceToken } from '../lib/server/auth';
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const DEFAULT_DAYS = 90;
+
+const main = () => {
+  const name = getArg('name')?.trim();
+  const days = Number(getArg('days') ?? DEFAULT_DAYS);
+  if (!name) {
+    throw new Error('--name is required');
+  }
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error('--days must be a positive number');
+  }
+  const stores = getArg('stores')?.split(',').map(id => id.trim()).filter(Boolean);
+  if (stores?.length === 0) {
+    throw new Error('--stores must list at least one store ID');
+  }
+
+  console.log(signServiceToken(name, Math.round(days * 24 * 60 * 60), stores));
+};
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ Issuing token failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,138 @@
+/**
+ * Scan Publisher Test Client
+ * Publishes demo `ScanUpdate`s to the scan WebSocket and verifies that a second
+ * (dashboard-style) connection receives each broadcast.
+ *
+ * Usage:
+ *   npm run publish-scan -- [--url ws://localhost:3000/api/ws] [--shelf A1] [--count 4] [--interval 1000] [--token <token>] [--store main]
+ *
+ * Both connections join `--store` (default: the server's default store), so
+ * the scans land on that store's dashboards only.
+ * Authenticates with `--token` or `SHELFSCAN_SERVICE_TOKEN`; issue one with
+ * `npm run issue-token`.
+ */
+
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+import { createDemoScenario } from '../lib/mockData';
+import { STORE_QUERY_PARAM } from '../lib/stores';
+import { RealtimeMessage, ScanUpdate } from '../lib/types';
+
+// ============================================================================
+// ARGUMENT PARSING
+// ============================================================================
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const store = getArg('store');
+const url = new URL(getArg('url') ?? 'ws://localhost:3000/api/ws');
+if (store) url.searchParams.set(STORE_QUERY_PARAM, store);
+const shelfOverride = getArg('shelf');
+const interval = Number(getArg('interval') ?? 1000);
+const scenario = createDemoScenario();
+const count = Number(getArg('count') ?? scenario.length);
+const token = getArg('token') ?? process.env.SHELFSCAN_SERVICE_TOKEN;
+const BROADCAST_TIMEOUT = 5000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const openSocket = (label: string): Promise<WebSocket> =>
+  new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined
+    });
+    socket.once('open', () => {
+      console.log(`🔌 ${label} connected to ${url}`);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+
+const parseMessage = (data: WebSocket.RawData): RealtimeMessage | null => {
+  try {
+    return JSON.parse(data.toString()) as RealtimeMessage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolve once the listener sees a broadcast for this exact shelf + timestamp
+ */
+const waitForBroadcast = (listener: WebSocket, update: ScanUpdate): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      listener.off('message', onMessage);
+      reject(new Error(`No broadcast received for shelf ${update.shelf} within ${BROADCAST_TIMEOUT}ms`));
+    }, BROADCAST_TIMEOUT);
+
+    const onMessage = (data: WebSocket.RawData) => {
+      const message = parseMessage(data);
+      if (
+        message?.type === 'scan' &&
+        message.payload.shelf === update.shelf &&
+        message.payload.timestamp === update.timestamp
+      ) {
+        clearTimeout(timeout);
+        listener.off('message', onMessage);
+        resolve();
+      }
+    };
+
+    listener.on('message', onMessage);
+  });
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const main = async () => {
+  if (!token) {
+    throw new Error('Pass --token or set SHELFSCAN_SERVICE_TOKEN (see `npm run issue-token`)');
+  }
+
+  const listener = await openSocket('Listener');
+  const publisher = await openSocket('Publisher');
+
+  publisher.on('message', data => {
+    const message = parseMessage(data);
+    if (message?.type === 'error') {
+      const details = message.payload.errors ? ` (${message.payload.errors.join('; ')})` : '';
+      console.error(`❌ Server rejected scan: ${message.payload.message}${details}`);
+    }
+  });
+
+  for (let i = 0; i < count; i++) {
+    const event = scenario[i % scenario.length];
+    const update: ScanUpdate = {
+      ...event.update,
+      shelf: shelfOverride ?? event.update.shelf,
+      timestamp: new Date().toISOString(),
+      scanId: randomUUID()
+    };
+
+    const received = waitForBroadcast(listener, update);
+    publisher.send(JSON.stringify({ type: 'scan', payload: update }));
+    console.log(`📤 Published scan for shelf ${update.shelf}: ${event.description}`);
+
+    await received;
+    console.log(`✅ Broadcast received for shelf ${update.shelf}`);
+
+    if (i < count - 1) {
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+
+  publisher.close();
+  listener.close();
+};
+
+main().catch(error => {
+  console.error('❌ Scan publisher failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
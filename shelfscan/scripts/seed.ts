@@ -0,0 +1,88 @@
+/**
+ * Seed Script for ShelfScan AI
+ * Fills the server-side store with the demo catalog and, for the default
+ * store plus two demo stores in other regions, generated mock shelves,
+ * alerts and a week of scan history. Creates demo staff accounts when there
+ * are none.
+ *
+ * Usage:
+ *   npm run seed            # seed only the stores that have no shelves yet
+ *   npm run seed -- --force # replace the catalog and every demo store's shelves, alerts and scan history
+ *
+ * Demo accounts (manager, associate, viewer) share the password in
+ * `SHELFSCAN_DEMO_PASSWORD` (default: shelfscan).
+ */
+
+import { DEMO_CATALOG, generateMockData, generateMockScanHistory } from '../lib/mockData';
+import { estimateDepletionRates, withDepletionRates } from '../lib/forecasting';
+import { getDataFilePath, getRepository } from '../lib/server/repository';
+import { createUserAccount } from '../lib/server/auth';
+import { DEFAULT_STORE_ID } from '../lib/stores';
+import { ScanRecord, Store, UserRole } from '../lib/types';
+
+const DEMO_ACCOUNTS: { username: string; name: string; role: UserRole }[] = [
+  { username: 'manager', name: 'Morgan Manager', role: 'manager' },
+  { username: 'associate', name: 'Alex Associate', role: 'associate' },
+  { username: 'viewer', name: 'Val Viewer', role: 'viewer' }
+];
+
+const DEMO_STORES: Store[] = [
+  { id: 'northside', name: 'Northside Market', region: 'Midwest', timezone: 'America/Chicago' },
+  { id: 'harbor', name: 'Harbor Street', region: 'West Coast', timezone: 'America/Los_Angeles' }
+];
+
+const seedDemoAccounts = async () => {
+  const repository = getRepository();
+  if ((await repository.listUsers()).length > 0) return;
+
+  const password = process.env.SHELFSCAN_DEMO_PASSWORD ?? 'shelfscan';
+  for (const account of DEMO_ACCOUNTS) {
+    await repository.saveUser(createUserAccount({ ...account, password }));
+  }
+  console.log(`👤 Created demo accounts: ${DEMO_ACCOUNTS.map(account => account.username).join(', ')}`);
+};
+
+const seedStore = async (store: Store, force: boolean) => {
+  const repository = getRepository(store.id);
+  if (!(await repository.getStore(store.id))) {
+    await repository.saveStore(store);
+  }
+
+  const existing = await repository.listShelves();
+  if (existing.length > 0 && !force) {
+    console.log(`ℹ️ ${store.name} already has ${existing.length} shelves; pass --force to replace them.`);
+    return;
+  }
+
+  const { shelves: generated, alerts, stats } = generateMockData(store.id);
+  const history = generateMockScanHistory(generated);
+  const scans: ScanRecord[] = history.map((update, index) => ({
+    seq: index + 1,
+    receivedAt: update.timestamp,
+    update
+  }));
+  // Learn sell-through rates from the history, as scan ingestion would have
+  const shelves = generated.map(shelf =>
+    withDepletionRates(shelf, estimateDepletionRates(history.filter(update => update.shelf === shelf.id)))
+  );
+  await repository.replaceAll({ catalog: DEMO_CATALOG, shelves, alerts, scans });
+
+  console.log(`🌱 Seeded ${store.name} (${store.id}) in ${getDataFilePath()}`);
+  console.log(`📊 ${DEMO_CATALOG.length} catalog products, ${stats.totalShelves} shelves (${stats.okShelves} ok, ${stats.lowShelves} low, ${stats.emptyShelves} empty), ${stats.totalAlerts} alerts, ${scans.length} past scans`);
+};
+
+const main = async () => {
+  const force = process.argv.includes('--force');
+  await seedDemoAccounts();
+
+  // The default store always exists (migration creates it); keep its name
+  const defaultStore = await getRepository().getStore(DEFAULT_STORE_ID);
+  for (const store of [defaultStore, ...DEMO_STORES]) {
+    if (store) await seedStore(store, force);
+  }
+};
+
+main().catch(error => {
+  console.error('❌ Seeding failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * ShelfScan AI Custom Server
+ * Serves the Next.js app and the scan WebSocket endpoint (`/api/ws`) on one port,
+ * and times out overdue drone rescan tasks in the background
+ */
+
+import { createServer } from 'http';
+import next from 'next';
+import { attachScanSocketServer, SCAN_SOCKET_PATH } from './lib/server/scanSocketServer';
+import { startRescanTaskSweeper } from './lib/server/rescanQueue';
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = process.env.HOSTNAME || 'localhost';
+const port = Number(process.env.PORT) || 3000;
+
+const app = next({ dev, hostname, port, turbopack: dev });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  const server = createServer((req, res) => {
+    handle(req, res);
+  });
+
+  const upgradeNext = app.getUpgradeHandler();
+  attachScanSocketServer(server, {
+    fallbackUpgrade: (req, socket, head) => {
+      upgradeNext(req, socket, head);
+    }
+  });
+
+  startRescanTaskSweeper();
+
+  server.listen(port, () => {
+    console.log(`> ShelfScan ready on http://${hostname}:${port}`);
+    console.log(`> Scan WebSocket listening on ws://${hostname}:${port}${SCAN_SOCKET_PATH}`);
+  });
+}).catch(error => {
+  console.error('Failed to start ShelfScan server:', error);
+  process.exit(1);
+});